@@ -199,6 +199,15 @@ export class AdvancedCacheSystem {
       warmup: false,
       invalidationTags: ['location'],
       strategy: 'TTL'
+    }],
+
+    // Link previews - shared across users, remote pages change slowly
+    ['link_preview', {
+      ttl: 24 * 3600, // 24 hours
+      compress: false,
+      warmup: false,
+      invalidationTags: ['link_preview'],
+      strategy: 'TTL'
     }]
   ]);
 
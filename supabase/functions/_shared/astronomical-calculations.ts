@@ -3,8 +3,11 @@
  *
  * Implements synastry aspects across: Sun, Moon, Ascendant, Mercury, Venus, Mars
  * Uses orbs/angles and weights consistent with the original DB algorithm.
+ * Orbs, body weights and grade cutoffs come from the active scoring profile.
  */
 
+import { ScoringProfile, DEFAULT_SCORING_PROFILE, gradeForScore } from './scoring-profile.ts';
+
 export interface BodyObject {
   name: string;
   sign: string;
@@ -23,6 +26,16 @@ export interface NatalChart {
 
 type Grade = 'A' | 'B' | 'C' | 'D' | 'F' | 'N/A';
 
+/** An aspect between a body in chart A and a body in chart B */
+export interface SynastryAspect {
+  bodyA: string;
+  signA: string;
+  bodyB: string;
+  signB: string;
+  aspect: string;
+  orbDelta: number; // degrees away from the exact aspect
+}
+
 const SIGN_OFFSETS: Record<string, number> = {
   Aries: 0, Taurus: 30, Gemini: 60, Cancer: 90,
   Leo: 120, Virgo: 150, Libra: 180, Scorpio: 210,
@@ -40,15 +53,6 @@ const ASPECT_ANGLES: Record<string, number> = {
   QUINCUNX: 150.0
 };
 
-const ASPECT_ORBS: Record<string, number> = {
-  CONJUNCTION: 8.0,
-  OPPOSITION: 8.0,
-  TRINE: 8.0,
-  SQUARE: 8.0,
-  SEXTILE: 6.0,
-  QUINCUNX: 3.0
-};
-
 function toAbs(sign: string | undefined, deg: number | undefined): number | null {
   if (!sign || deg == null || Number.isNaN(deg)) return null;
   const offset = SIGN_OFFSETS[sign];
@@ -81,16 +85,88 @@ function getPlacement(chart: NatalChart, key: string): { sign?: string; degree?:
   return null;
 }
 
-function gradeFromScore(score: number): Grade {
+function gradeFromScore(score: number, profile: ScoringProfile): Grade {
   if (!Number.isFinite(score)) return 'N/A';
-  if (score >= 90) return 'A';
-  if (score >= 80) return 'B';
-  if (score >= 70) return 'C';
-  if (score >= 60) return 'D';
-  return 'F';
+  return gradeForScore(score, profile) as Grade;
+}
+
+// Pair weight: explicit pair override, else the heavier of the two bodies
+function pairWeight(bodyA: string, bodyB: string, profile: ScoringProfile): number {
+  const pairKey = bodyA <= bodyB ? `${bodyA}-${bodyB}` : `${bodyB}-${bodyA}`;
+  const override = profile.pairWeights[pairKey];
+  if (override != null) return override;
+  return Math.max(profile.bodyWeights[bodyA] ?? 1.0, profile.bodyWeights[bodyB] ?? 1.0);
+}
+
+// First aspect whose orb contains the angle between two absolute degrees
+function findAspect(degA: number, degB: number, profile: ScoringProfile): { aspect: string; delta: number } | null {
+  let angleDiff = Math.abs(degA - degB);
+  if (angleDiff > 180) angleDiff = 360 - angleDiff;
+
+  // order doesn't matter here; DB sorted by orb asc
+  for (const [asp, orb] of Object.entries(profile.aspectOrbs)) {
+    const target = ASPECT_ANGLES[asp];
+    if (target == null) continue;
+    const delta = Math.abs(angleDiff - target);
+    if (delta <= orb) {
+      return { aspect: asp, delta };
+    }
+  }
+  return null;
+}
+
+/**
+ * All aspects between core bodies of chart A and chart B (every body pair,
+ * both directions), tightest first. Used to describe complementary
+ * placements; scoring stays in calculateAstrologicalCompatibility.
+ */
+export function findSynastryAspects(
+  a: NatalChart,
+  b: NatalChart,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): SynastryAspect[] {
+  const aspects: SynastryAspect[] = [];
+
+  for (const bodyA of CORE_BODIES) {
+    const pA = getPlacement(a, bodyA);
+    if (!pA?.sign) continue;
+    const degA = pA.abs ?? toAbs(pA.sign, pA.degree);
+    if (degA == null) continue;
+
+    for (const bodyB of CORE_BODIES) {
+      const pB = getPlacement(b, bodyB);
+      if (!pB?.sign) continue;
+      const degB = pB.abs ?? toAbs(pB.sign, pB.degree);
+      if (degB == null) continue;
+
+      const found = findAspect(degA, degB, profile);
+      if (!found) continue;
+
+      aspects.push({
+        bodyA,
+        signA: pA.sign,
+        bodyB,
+        signB: pB.sign,
+        aspect: found.aspect,
+        orbDelta: found.delta
+      });
+    }
+  }
+
+  return aspects.sort((x, y) => x.orbDelta - y.orbDelta);
+}
+
+/** Sun sign from any supported chart format */
+export function getSunSign(chart: NatalChart | null | undefined): string | null {
+  if (!chart) return null;
+  return getPlacement(chart, 'Sun')?.sign ?? null;
 }
 
-export function calculateAstrologicalCompatibility(a: NatalChart, b: NatalChart): { score: number; grade: Grade } {
+export function calculateAstrologicalCompatibility(
+  a: NatalChart,
+  b: NatalChart,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): { score: number; grade: Grade } {
   let rawHarmony = 0.0;
   let totalWeight = 0.0;
 
@@ -111,37 +187,17 @@ export function calculateAstrologicalCompatibility(a: NatalChart, b: NatalChart)
       const degB = pB.abs ?? toAbs(pB.sign!, pB.degree!);
       if (degA == null || degB == null) continue;
 
-      let angleDiff = Math.abs(degA - degB);
-      if (angleDiff > 180) angleDiff = 360 - angleDiff;
-
-      // find first matching aspect within its orb (order doesn't matter here; DB sorted by orb asc)
-      let chosenAspect: string | null = null;
-      let diffFromTarget = 0;
-      for (const [asp, orb] of Object.entries(ASPECT_ORBS)) {
-        const target = ASPECT_ANGLES[asp];
-        const delta = Math.abs(angleDiff - target);
-        if (delta <= orb) {
-          chosenAspect = asp;
-          diffFromTarget = delta;
-          break;
-        }
-      }
-      if (!chosenAspect) continue;
+      // find first matching aspect within its orb
+      const found = findAspect(degA, degB, profile);
+      if (!found) continue;
+      const chosenAspect = found.aspect;
+      const diffFromTarget = found.delta;
 
       // base weight
-      let baseWeight = 1.0;
-      if (bodyA === 'Sun' || bodyA === 'Moon' || bodyA === 'Ascendant' || bodyB === 'Sun' || bodyB === 'Moon' || bodyB === 'Ascendant') {
-        baseWeight = 1.5;
-      }
-      if ((bodyA === 'Sun' && bodyB === 'Moon') || (bodyA === 'Moon' && bodyB === 'Sun')) {
-        baseWeight = 2.0;
-      }
-      if ((bodyA === 'Venus' && bodyB === 'Mars') || (bodyA === 'Mars' && bodyB === 'Venus')) {
-        baseWeight = 1.7;
-      }
+      const baseWeight = pairWeight(bodyA, bodyB, profile);
 
       // tightness bonus
-      const orb = ASPECT_ORBS[chosenAspect];
+      const orb = profile.aspectOrbs[chosenAspect];
       let weight = baseWeight;
       if (orb > 0) {
         const tight = Math.max(0, Math.min(1, 1 - (diffFromTarget / orb)));
@@ -171,5 +227,5 @@ export function calculateAstrologicalCompatibility(a: NatalChart, b: NatalChart)
     finalScore = Math.max(0, Math.min(100, finalScore));
   }
 
-  return { score: Math.round(finalScore), grade: gradeFromScore(finalScore) };
+  return { score: Math.round(finalScore), grade: gradeFromScore(finalScore, profile) };
 }
@@ -5,10 +5,11 @@
 
 import { calculateAstrologicalCompatibility, NatalChart, BodyObject } from './astronomical-calculations.ts';
 import { calculateQuestionnaireCompatibility } from './questionnaire-compatibility.ts';
+import { ScoringProfile, DEFAULT_SCORING_PROFILE } from './scoring-profile.ts';
 
 // Constants matching pseudocode
 const MINIMUM_COMPATIBILITY_SCORE_THRESHOLD = 60.0;
-const DATE_ACTIVITIES = ["Dinner", "Drinks", "Coffee", "Activity", "Any"];
+export const DATE_ACTIVITIES = ["Dinner", "Drinks", "Coffee", "Activity", "Any"];
 const ZODIAC_SIGNS = ["Aries", "Taurus", "Gemini", "Cancer", "Leo", "Virgo", 
   "Libra", "Scorpio", "Sagittarius", "Capricorn", "Aquarius", "Pisces", "Any"];
 
@@ -71,17 +72,141 @@ function checkPreferenceEligibility(userA: UserProfile, userB: UserProfile): boo
   return (matchZodiacA && matchZodiacB && matchActivityA && matchActivityB);
 }
 
+// Mutual fit: prior like rate and how many swipes it is worth when smoothing
+const MUTUAL_FIT_PRIOR_LIKE_RATE = 0.3;
+const MUTUAL_FIT_PRIOR_STRENGTH = 10;
+const MUTUAL_FIT_SIMILAR_PRIOR_STRENGTH = 5;
+// Share of the mutual fit taken from stated preferences vs like history
+const MUTUAL_FIT_PREFERENCE_WEIGHT = 0.4;
+// Multiplier applied to the preference fit for each stated preference the viewer misses
+const MUTUAL_FIT_MISS_PENALTY = 0.35;
+// Post-date feedback: share of dates expected to want a second one, how many
+// dates the prior is worth, and how far the smoothed rate can move the fit
+const DATE_FEEDBACK_PRIOR_RATE = 0.5;
+const DATE_FEEDBACK_PRIOR_STRENGTH = 5;
+const DATE_FEEDBACK_WEIGHT = 0.4;
+
+/**
+ * Candidate-side inputs for the mutual fit score (see get_mutual_fit_signals).
+ * Preference checks are null when the candidate hasn't stated that preference.
+ */
+interface MutualFitSignals {
+  alreadyLikesViewer: boolean;
+  ageInRange: boolean | null;
+  withinDistance: boolean | null;
+  zodiacPreferred: boolean | null;
+  heightInRange: boolean | null;
+  totalSwipes: number;
+  totalLikes: number;
+  similarSwipes: number;
+  similarLikes: number;
+  // Feedback left by the candidate's past dates (date_feedback); optional so
+  // callers without date history score as before
+  datesRated?: number;
+  datesMetAgain?: number;
+}
+
+interface MutualFitResult {
+  mutualFit: number; // 0-1 estimated probability the candidate likes the viewer back
+  preferenceFit: number; // 0-1
+  historicalLikeRate: number; // 0-1, smoothed
+  similarLikeRate: number; // 0-1, smoothed towards historicalLikeRate
+  dateFeedbackRate: number; // 0-1, share of past dates who'd meet again, smoothed
+  unmetPreferences: string[];
+}
+
+/**
+ * Estimate the probability that the candidate likes the viewer back.
+ * This is the reverse direction of checkPreferenceEligibility: the candidate's
+ * stated preferences are checked against the viewer (soft, each miss scales
+ * the fit down), and blended with the candidate's like rate on profiles similar
+ * to the viewer, smoothed towards their overall rate so sparse histories stay
+ * close to the prior. How the candidate's past dates went scales the result
+ * up or down, again smoothed so one or two dates barely move it.
+ */
+export function calculateMutualFitScore(signals: MutualFitSignals): MutualFitResult {
+  const checks: Array<[string, boolean | null]> = [
+    ['age', signals.ageInRange],
+    ['distance', signals.withinDistance],
+    ['zodiac', signals.zodiacPreferred],
+    ['height', signals.heightInRange]
+  ];
+  const unmetPreferences = checks.filter(([, met]) => met === false).map(([name]) => name);
+  const preferenceFit = Math.pow(MUTUAL_FIT_MISS_PENALTY, unmetPreferences.length);
+
+  const historicalLikeRate = (signals.totalLikes + MUTUAL_FIT_PRIOR_LIKE_RATE * MUTUAL_FIT_PRIOR_STRENGTH) /
+    (signals.totalSwipes + MUTUAL_FIT_PRIOR_STRENGTH);
+  const similarLikeRate = (signals.similarLikes + historicalLikeRate * MUTUAL_FIT_SIMILAR_PRIOR_STRENGTH) /
+    (signals.similarSwipes + MUTUAL_FIT_SIMILAR_PRIOR_STRENGTH);
+
+  const dateFeedbackRate = ((signals.datesMetAgain ?? 0) + DATE_FEEDBACK_PRIOR_RATE * DATE_FEEDBACK_PRIOR_STRENGTH) /
+    ((signals.datesRated ?? 0) + DATE_FEEDBACK_PRIOR_STRENGTH);
+  const dateFeedbackFactor = 1 + DATE_FEEDBACK_WEIGHT * (dateFeedbackRate - DATE_FEEDBACK_PRIOR_RATE);
+
+  // A candidate who already liked the viewer is a certain reciprocal
+  const mutualFit = signals.alreadyLikesViewer
+    ? 1
+    : Math.min(1, preferenceFit * (MUTUAL_FIT_PREFERENCE_WEIGHT + (1 - MUTUAL_FIT_PREFERENCE_WEIGHT) * similarLikeRate) * dateFeedbackFactor);
+
+  return {
+    mutualFit: Math.round(mutualFit * 1000) / 1000,
+    preferenceFit: Math.round(preferenceFit * 1000) / 1000,
+    historicalLikeRate: Math.round(historicalLikeRate * 1000) / 1000,
+    similarLikeRate: Math.round(similarLikeRate * 1000) / 1000,
+    dateFeedbackRate: Math.round(dateFeedbackRate * 1000) / 1000,
+    unmetPreferences
+  };
+}
+
+/**
+ * Two-way ranking score (0-100): geometric mean of the viewer-side
+ * compatibility and the candidate-side mutual fit, so a pair has to look
+ * good in both directions to rank highly.
+ */
+export function calculateTwoWayScore(compatibilityScore: number, mutualFit: number): number {
+  const compatibility = Math.max(0, Math.min(100, compatibilityScore)) / 100;
+  const fit = Math.max(0, Math.min(1, mutualFit));
+  return Math.round(Math.sqrt(compatibility * fit) * 1000) / 10;
+}
+
+// Grade values used by the match priority score
+const PRIORITY_GRADE_VALUES: { [grade: string]: number } = { "A": 4.0, "B": 3.0, "C": 2.0, "D": 1.0, "F": 0.0, "N/A": -1.0 };
+
+interface PriorityScoreBreakdown {
+  astrologicalGrade: string;
+  astrologicalValue: number;
+  questionnaireGrade: string;
+  questionnaireValue: number;
+  priorityScore: number;
+}
+
+/**
+ * Break the match priority score down into its per-grade components.
+ * Grade values are blended with the scoring profile's astro/questionnaire
+ * ratio and scaled by 2 so an even blend equals the plain sum.
+ */
+export function explainMatchPriorityScore(
+  astroGrade: string,
+  questGrade: string,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): PriorityScoreBreakdown {
+  const astroValue = (PRIORITY_GRADE_VALUES[astroGrade] ?? -1.0) * profile.astrologicalWeight * 2;
+  const questValue = (PRIORITY_GRADE_VALUES[questGrade] ?? -1.0) * profile.questionnaireWeight * 2;
+
+  return {
+    astrologicalGrade: astroGrade,
+    astrologicalValue: astroValue,
+    questionnaireGrade: questGrade,
+    questionnaireValue: questValue,
+    priorityScore: astroValue + questValue
+  };
+}
+
 /**
  * Calculate match priority score for ranking (higher is better)
  */
-function calculateMatchPriorityScore(astroGrade: string, questGrade: string): number {
-  const gradeValues: { [grade: string]: number } = { "A": 4.0, "B": 3.0, "C": 2.0, "D": 1.0, "F": 0.0, "N/A": -1.0 };
-  
-  const astroValue = gradeValues[astroGrade] ?? -1.0;
-  const questValue = gradeValues[questGrade] ?? -1.0;
-  
-  // Simple sum - could be weighted if one score is more important
-  return astroValue + questValue;
+function calculateMatchPriorityScore(astroGrade: string, questGrade: string, profile: ScoringProfile): number {
+  return explainMatchPriorityScore(astroGrade, questGrade, profile).priorityScore;
 }
 
 /**
@@ -102,7 +227,11 @@ function determineMatchRecommendation(matchInfo: MatchResult): boolean {
  * MAIN ORCHESTRATION FUNCTION
  * Find potential matches for a given user (implements pseudocode exactly)
  */
-export function findPotentialMatches(targetUser: UserProfile, candidatePool: UserProfile[]): MatchResult[] {
+export function findPotentialMatches(
+  targetUser: UserProfile,
+  candidatePool: UserProfile[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): MatchResult[] {
   const potentialMatches: MatchResult[] = [];
   
   // Iterate through all candidate users
@@ -134,14 +263,14 @@ export function findPotentialMatches(targetUser: UserProfile, candidatePool: Use
     if (eligible) {
       // Step 2: Calculate Astrological Compatibility (Rule 2)
       if (targetUser.natalChartData && candidateUser.natalChartData) {
-        const astroResult = calculateAstrologicalCompatibility(targetUser.natalChartData, candidateUser.natalChartData);
+        const astroResult = calculateAstrologicalCompatibility(targetUser.natalChartData, candidateUser.natalChartData, profile);
         astroScore = astroResult.score;
         astroGrade = astroResult.grade;
       }
       
       // Step 3: Calculate Questionnaire Compatibility (Rule 3)
       if (targetUser.questionnaireAnswers && candidateUser.questionnaireAnswers) {
-        const questResult = calculateQuestionnaireCompatibility(targetUser.questionnaireAnswers, candidateUser.questionnaireAnswers);
+        const questResult = calculateQuestionnaireCompatibility(targetUser.questionnaireAnswers, candidateUser.questionnaireAnswers, profile);
         questScores = questResult.groupScores;
         questGrade = questResult.overallGrade;
       }
@@ -152,7 +281,7 @@ export function findPotentialMatches(targetUser: UserProfile, candidatePool: Use
       meetsThreshold = (astroMeets || questMeets);
       
       // Step 3.6: Calculate Priority Score for Ranking
-      priorityScore = calculateMatchPriorityScore(astroGrade, questGrade);
+      priorityScore = calculateMatchPriorityScore(astroGrade, questGrade, profile);
     }
     
     // Create MatchResult Object
@@ -187,8 +316,12 @@ export function findPotentialMatches(targetUser: UserProfile, candidatePool: Use
 /**
  * Calculate compatibility between two specific users
  */
-export function calculateUserCompatibility(userA: UserProfile, userB: UserProfile): MatchResult {
-  const matches = findPotentialMatches(userA, [userB]);
+export function calculateUserCompatibility(
+  userA: UserProfile,
+  userB: UserProfile,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): MatchResult {
+  const matches = findPotentialMatches(userA, [userB], profile);
   return matches.length > 0 ? matches[0] : {
     userA_ID: userA.userID,
     userB_ID: userB.userID,
@@ -334,10 +467,14 @@ function calculateAbsoluteDegree(sign: string, degree: number): number {
 
 /**
  * Calculate combined compatibility score with weighted averaging
- * 40% Astrological + 60% Questionnaire (as specified in original requirements)
+ * Blend comes from the scoring profile (default 40% Astrological + 60% Questionnaire)
  */
-export function calculateCombinedScore(astroScore: number, questScore: number): number {
-  return (astroScore * 0.4) + (questScore * 0.6);
+export function calculateCombinedScore(
+  astroScore: number,
+  questScore: number,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): number {
+  return (astroScore * profile.astrologicalWeight) + (questScore * profile.questionnaireWeight);
 }
 
 /**
@@ -355,4 +492,4 @@ export function gradeToScore(grade: string): number {
 }
 
 // Export types for use in other modules
-export type { UserProfile, MatchResult, UserPreferences, UserBirthData };
\ No newline at end of file
+export type { UserProfile, MatchResult, UserPreferences, UserBirthData, PriorityScoreBreakdown, MutualFitSignals, MutualFitResult };
\ No newline at end of file
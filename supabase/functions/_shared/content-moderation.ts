@@ -10,6 +10,13 @@ interface ModerationResult {
   suggestedAction: 'approve' | 'flag' | 'reject' | 'ban';
 }
 
+interface LinkDomainResult {
+  blocked: boolean;
+  domain?: string;
+  matchedDomain?: string; // Blocklist entry that matched (may be a parent domain)
+  reason?: 'malicious_domain' | 'invalid_url';
+}
+
 interface ContentModerationConfig {
   enableProfanityFilter: boolean;
   enableToxicityDetection: boolean;
@@ -23,6 +30,7 @@ class ContentModerationService {
   private config: ContentModerationConfig;
   private profanityWords: Set<string>;
   private suspiciousPatterns: RegExp[];
+  private blockedDomains: Set<string>;
 
   constructor(config: Partial<ContentModerationConfig> = {}) {
     this.config = {
@@ -37,6 +45,7 @@ class ContentModerationService {
 
     this.initializeProfanityFilter();
     this.initializeSuspiciousPatterns();
+    this.initializeDomainBlocklist();
   }
 
   private initializeProfanityFilter(): void {
@@ -88,6 +97,29 @@ class ContentModerationService {
     ];
   }
 
+  private initializeDomainBlocklist(): void {
+    // Known phishing, scam and malware hosts seen in dating app spam.
+    // Extend per deployment with MODERATION_BLOCKED_DOMAINS (comma separated).
+    const knownMalicious = [
+      // URL shorteners used to hide scam destinations
+      'bit.do', 'cutt.us', 'shorturl.at', 'rb.gy', 'is.gd', 'v.gd',
+      // Fake "verification" and romance scam landing pages
+      'datingverify.net', 'safedate-verify.com', 'verify-my-date.com',
+      'meetverification.com', 'datingsafetyid.com',
+      // Crypto/investment scam funnels
+      'crypto-trade-profit.com', 'bitcoin-doubler.net',
+      // IP grabbers and trackers
+      'grabify.link', 'iplogger.org', 'iplogger.com', '2no.co', 'blasze.tk',
+    ];
+
+    const fromEnv = (Deno.env.get('MODERATION_BLOCKED_DOMAINS') || '')
+      .split(',')
+      .map(domain => domain.trim().toLowerCase().replace(/^\*\./, '').replace(/\.$/, ''))
+      .filter(Boolean);
+
+    this.blockedDomains = new Set([...knownMalicious, ...fromEnv]);
+  }
+
   async moderateText(
     text: string,
     context: {
@@ -477,6 +509,27 @@ class ContentModerationService {
     }
   }
 
+  // Domain blocklist check for links shared in messages. Subdomains of a
+  // blocked domain are blocked too.
+  checkLinkDomain(url: string): LinkDomainResult {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase().replace(/\.$/, '');
+    } catch {
+      return { blocked: true, reason: 'invalid_url' };
+    }
+
+    const labels = hostname.split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      const candidate = labels.slice(i).join('.');
+      if (this.blockedDomains.has(candidate)) {
+        return { blocked: true, domain: hostname, matchedDomain: candidate, reason: 'malicious_domain' };
+      }
+    }
+
+    return { blocked: false, domain: hostname };
+  }
+
   private async callExternalModerationService(
     imageUrl: string, 
     context: { userId?: string; contentType: string }
@@ -675,6 +728,10 @@ export async function moderateText(
   return await service.moderateText(text, context);
 }
 
+export function checkLinkDomain(url: string): LinkDomainResult {
+  return getModerationService().checkLinkDomain(url);
+}
+
 export async function checkRateLimit(
   identifier: string,
   action: 'message' | 'match_request' | 'swipe' | 'profile_update' | 'login_attempt',
@@ -685,4 +742,4 @@ export async function checkRateLimit(
 }
 
 export { ContentModerationService, EnhancedRateLimiter };
-export type { ModerationResult, RateLimitResult };
\ No newline at end of file
+export type { LinkDomainResult, ModerationResult, RateLimitResult };
\ No newline at end of file
@@ -0,0 +1,85 @@
+/**
+ * Date Safety Share Emails
+ *
+ * Queues the trusted-contact emails for a date safety share: the initial
+ * share from date-safety-share and the missed check-in follow-up from
+ * date-followups. Each email gets a fresh signed link naming the share;
+ * every link for a share stops working when the share expires.
+ * resend-transactional-dispatcher renders and sends the queued rows.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { generateSignedToken } from './secure-token-manager-v2.ts';
+
+export const SAFETY_SHARE_TOKEN_PURPOSE = 'date_safety_share';
+
+export type SafetyShareEmailType = 'date_safety_share' | 'date_safety_share_escalation';
+
+/** Share details as returned by create_date_safety_share / claim_due_safety_share_escalations */
+export interface SafetyShareEmailDetails {
+  share_id: string;
+  user_id: string;
+  contact_name: string;
+  contact_email: string;
+  time_zone: string;
+  check_in_by: string;
+  expires_at: string;
+  sharer_name: string;
+  match_first_name: string;
+  match_photo_url: string | null;
+  proposed_datetime: string;
+  location: string | null;
+}
+
+/** Page the contact's link opens; it reads the share from date-safety-share */
+function buildSafetyShareUrl(token: string): string {
+  const base = Deno.env.get('STELLR_SAFETY_SHARE_URL') ?? 'https://stellr.app/safety-share';
+  const url = new URL(base);
+  url.searchParams.set('token', token);
+  return url.toString();
+}
+
+/**
+ * Queue a trusted-contact email for a share. Throws if the share has
+ * already expired or the queue insert fails.
+ */
+export async function queueSafetyShareEmail(
+  supabaseAdmin: SupabaseClient,
+  share: SafetyShareEmailDetails,
+  eventType: SafetyShareEmailType
+): Promise<void> {
+  const expiresInMs = new Date(share.expires_at).getTime() - Date.now();
+  if (expiresInMs <= 0) {
+    throw new Error('Safety share has expired');
+  }
+
+  const { token } = await generateSignedToken(share.user_id, {
+    purpose: SAFETY_SHARE_TOKEN_PURPOSE,
+    expiresInMs,
+    sessionData: { shareId: share.share_id }
+  });
+
+  const { error } = await supabaseAdmin
+    .from('transactional_email_queue')
+    .insert({
+      // Contacts aren't users; the row belongs to the user who shared
+      user_id: share.user_id,
+      email: share.contact_email,
+      event_type: eventType,
+      payload: {
+        name: share.contact_name,
+        sharer_name: share.sharer_name,
+        match_first_name: share.match_first_name,
+        match_photo_url: share.match_photo_url,
+        proposed_datetime: share.proposed_datetime,
+        location: share.location,
+        time_zone: share.time_zone,
+        check_in_by: share.check_in_by,
+        share_url: buildSafetyShareUrl(token),
+      },
+    });
+
+  if (error) {
+    throw error;
+  }
+}
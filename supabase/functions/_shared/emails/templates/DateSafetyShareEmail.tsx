@@ -0,0 +1,88 @@
+import React from 'npm:react@18.2.0';
+import { Button, Heading, Img, Section, Text } from 'npm:@react-email/components@0.0.22';
+import { BaseLayout } from './BaseLayout.tsx';
+import { emailTheme } from '../theme.ts';
+
+interface DateSafetyShareEmailProps {
+  readonly contactName?: string;
+  readonly sharerName: string;
+  readonly matchFirstName: string;
+  readonly matchPhotoUrl?: string | null;
+  readonly dateTime: string;
+  readonly location?: string | null;
+  readonly checkInBy: string;
+  readonly shareUrl: string;
+  /** share: sent when the date is shared; escalation: no "I'm safe" by checkInBy */
+  readonly variant: 'share' | 'escalation';
+  readonly unsubscribeUrl: string;
+}
+
+export const DateSafetyShareEmail: React.FC<DateSafetyShareEmailProps> = ({
+  contactName,
+  sharerName,
+  matchFirstName,
+  matchPhotoUrl,
+  dateTime,
+  location,
+  checkInBy,
+  shareUrl,
+  variant,
+  unsubscribeUrl,
+}) => {
+  const firstName = contactName?.split(' ')[0] || 'there';
+  const escalated = variant === 'escalation';
+  return (
+    <BaseLayout
+      previewText={
+        escalated
+          ? `${sharerName} hasn't checked in after their date`
+          : `${sharerName} shared their date plans with you`
+      }
+      headline={escalated ? 'Safety check-in missed' : 'Date safety share'}
+      unsubscribeUrl={unsubscribeUrl}
+    >
+      <Heading className={emailTheme.heading}>
+        {escalated ? `Have you heard from ${sharerName}?` : `${sharerName} trusts you with their date`}
+      </Heading>
+      <Section className="space-y-4">
+        <Text className={emailTheme.bodyText}>
+          {escalated
+            ? `Hi ${firstName}, ${sharerName} was meant to let us know they got home safe by ${checkInBy}, and we haven't heard from them yet. Please try to reach them directly.`
+            : `Hi ${firstName}, ${sharerName} is going on a date and asked us to share the details with you, just in case. We'll let you know if they don't check in by ${checkInBy}.`}
+        </Text>
+        <Section className={emailTheme.card}>
+          {matchPhotoUrl && (
+            <Img
+              src={matchPhotoUrl}
+              alt={matchFirstName}
+              width="96"
+              height="96"
+              className="mx-auto mb-4 rounded-full"
+            />
+          )}
+          <Text className={emailTheme.label}>Meeting</Text>
+          <Text className="text-lg font-semibold text-[#f5d0fe]">{matchFirstName}</Text>
+          <Text className={emailTheme.label}>When</Text>
+          <Text className={emailTheme.bodyText}>{dateTime}</Text>
+          {location && (
+            <>
+              <Text className={emailTheme.label}>Where</Text>
+              <Text className={emailTheme.bodyText}>{location}</Text>
+            </>
+          )}
+        </Section>
+        {escalated && (
+          <Text className={emailTheme.mutedText}>
+            If you think {sharerName} is in danger, contact your local emergency services.
+          </Text>
+        )}
+        <Button href={shareUrl} className={emailTheme.primaryButton}>
+          {escalated ? 'Check their status' : 'View date details'}
+        </Button>
+        <Text className={emailTheme.tinyText}>
+          This link shows whether {sharerName} has confirmed they're safe and stops working the day after the date.
+        </Text>
+      </Section>
+    </BaseLayout>
+  );
+};
@@ -7,3 +7,4 @@ export { PasswordChangedEmail } from './PasswordChangedEmail.tsx';
 export { AccountDeletionEmail } from './AccountDeletionEmail.tsx';
 export { WeeklyMatchDigestEmail } from './WeeklyMatchDigestEmail.tsx';
 export { ReengagementEmail } from './ReengagementEmail.tsx';
+export { DateSafetyShareEmail } from './DateSafetyShareEmail.tsx';
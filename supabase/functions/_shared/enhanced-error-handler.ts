@@ -190,6 +190,20 @@ const ENHANCED_ERROR_MAPPINGS: Record<string, ErrorClassification & { publicMess
     fallbackAvailable: false
   },
 
+  // Daily allowances (super likes, rewinds) - retrying today will not help
+  'quota_exceeded': {
+    publicMessage: 'Daily limit reached - it resets tomorrow',
+    logLevel: 'info',
+    severity: 'low',
+    category: 'rate-limit',
+    recoverable: true,
+    userImpact: 'minor',
+    recoveryStrategy: 'manual-intervention',
+    retryable: false,
+    maxRetries: 0,
+    fallbackAvailable: false
+  },
+
   // Validation errors with detailed feedback
   'validation_error': { 
     publicMessage: 'Invalid input provided - please check your data', 
@@ -172,6 +172,8 @@ export function createErrorResponse(
     error: {
       code: errorCode,
       message: getPublicErrorMessage(errorCode, errorMessage),
+      // Machine-readable reason for domain rejections (never raw error text)
+      ...(typeof error?.reason === 'string' ? { reason: error.reason } : {}),
       timestamp: new Date().toISOString()
     }
   };
@@ -286,9 +288,14 @@ function getPublicErrorMessage(errorCode: string, originalMessage: string): stri
   // Map internal error codes to user-friendly messages
   const publicMessages: Record<string, string> = {
     'PGRST301': 'Access denied',
+    'forbidden': 'Action not permitted',
     'invalid_grant': 'Authentication failed',
     'validation_error': 'Invalid input provided',
     'rate_limit_exceeded': 'Too many requests',
+    'premium_required': 'Premium subscription required',
+    'quota_exceeded': 'Daily limit reached',
+    'not_found': 'Resource not found',
+    'conflict': 'Request conflicts with current state',
     'server_error': 'Server error occurred'
   };
 
@@ -298,10 +305,14 @@ function getPublicErrorMessage(errorCode: string, originalMessage: string): stri
 function getHttpStatusFromError(errorCode: string): number {
   const statusMap: Record<string, number> = {
     'PGRST301': 403,
+    'forbidden': 403,
     'invalid_grant': 401,
     'validation_error': 400,
     'rate_limit_exceeded': 429,
+    'premium_required': 403,
+    'quota_exceeded': 429,
     'not_found': 404,
+    'conflict': 409,
     'server_error': 500
   };
 
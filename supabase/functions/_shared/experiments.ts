@@ -0,0 +1,184 @@
+/**
+ * Experiment Assignment Service
+ *
+ * Deterministic A/B bucketing for matching experiments. A user's variant is
+ * derived from SHA-256(experiment key + salt + user id), so every function
+ * (get-potential-matches-optimized, record-swipe, deck generation) agrees on
+ * the assignment without storing it.
+ *
+ * Exposures ('experiment_exposure') and swipe outcomes ('experiment_swipe')
+ * are written to analytics_events; aggregate-daily-stats rolls them up per
+ * variant via aggregate_experiment_metrics().
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/** Number of buckets users are hashed into */
+const BUCKET_COUNT = 10000;
+
+/** How long running experiment definitions are reused per isolate */
+const EXPERIMENTS_CACHE_TTL_MS = 60 * 1000;
+
+export interface ExperimentVariant {
+  name: string;
+  weight: number;
+  config?: Record<string, any>;
+}
+
+export interface Experiment {
+  key: string;
+  salt: string;
+  variants: ExperimentVariant[];
+}
+
+export interface ExperimentAssignment {
+  experimentKey: string;
+  variant: string;
+  bucket: number;
+  config: Record<string, any>;
+}
+
+let cachedExperiments: { experiments: Experiment[]; loadedAt: number } | null = null;
+
+/**
+ * Stable bucket in [0, BUCKET_COUNT) for a user within an experiment
+ */
+export async function bucketForUser(experiment: Pick<Experiment, 'key' | 'salt'>, userId: string): Promise<number> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${experiment.key}:${experiment.salt}:${userId}`)
+  );
+  return new DataView(digest).getUint32(0) % BUCKET_COUNT;
+}
+
+/**
+ * Map a user onto one of the experiment's variants, proportional to weight
+ */
+export async function assignVariant(experiment: Experiment, userId: string): Promise<ExperimentAssignment | null> {
+  const totalWeight = experiment.variants.reduce((sum, v) => sum + Math.max(0, v.weight || 0), 0);
+  if (totalWeight <= 0) {
+    return null;
+  }
+
+  const bucket = await bucketForUser(experiment, userId);
+  const point = (bucket / BUCKET_COUNT) * totalWeight;
+
+  let cumulative = 0;
+  for (const variant of experiment.variants) {
+    cumulative += Math.max(0, variant.weight || 0);
+    if (point < cumulative) {
+      return {
+        experimentKey: experiment.key,
+        variant: variant.name,
+        bucket,
+        config: variant.config || {}
+      };
+    }
+  }
+
+  return null;
+}
+
+async function loadRunningExperiments(client: SupabaseClient): Promise<Experiment[]> {
+  if (cachedExperiments && Date.now() - cachedExperiments.loadedAt < EXPERIMENTS_CACHE_TTL_MS) {
+    return cachedExperiments.experiments;
+  }
+
+  const { data, error } = await client
+    .from('experiments')
+    .select('key, salt, variants')
+    .eq('status', 'running');
+
+  if (error) {
+    console.warn('[EXPERIMENTS] Failed to load running experiments:', error.message);
+    return cachedExperiments?.experiments ?? [];
+  }
+
+  const experiments = (data || []) as Experiment[];
+  cachedExperiments = { experiments, loadedAt: Date.now() };
+  return experiments;
+}
+
+/**
+ * Assign the user to every running experiment. Never throws; a failure
+ * simply means no experiment applies. `client` must be a service-role
+ * client: experiment salts aren't readable by users.
+ */
+export async function getExperimentAssignments(
+  client: SupabaseClient,
+  userId: string
+): Promise<ExperimentAssignment[]> {
+  try {
+    const experiments = await loadRunningExperiments(client);
+    const assignments = await Promise.all(experiments.map(exp => assignVariant(exp, userId)));
+    return assignments.filter((a): a is ExperimentAssignment => a !== null);
+  } catch (error) {
+    console.warn('[EXPERIMENTS] Assignment failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Compact { experiment_key: variant } map for responses and logs
+ */
+export function summarizeAssignments(assignments: ExperimentAssignment[]): Record<string, string> {
+  return Object.fromEntries(assignments.map(a => [a.experimentKey, a.variant]));
+}
+
+/**
+ * Scoring profile override requested by the user's variants, if any
+ */
+export function resolveScoringProfileVersion(assignments: ExperimentAssignment[]): number | undefined {
+  const override = assignments.find(a => Number.isInteger(a.config.scoring_profile_version));
+  return override?.config.scoring_profile_version;
+}
+
+async function logExperimentEvents(
+  client: SupabaseClient,
+  userId: string,
+  assignments: ExperimentAssignment[],
+  eventName: string,
+  properties: Record<string, any>
+): Promise<void> {
+  if (assignments.length === 0) return;
+
+  const { error } = await client.from('analytics_events').insert(
+    assignments.map(a => ({
+      user_id: userId,
+      event_name: eventName,
+      event_properties: {
+        experiment_key: a.experimentKey,
+        variant: a.variant,
+        ...properties
+      }
+    }))
+  );
+
+  if (error) {
+    console.warn(`[EXPERIMENTS] Failed to log ${eventName}:`, error.message);
+  }
+}
+
+/**
+ * Record that the user saw a surface affected by their experiment variants
+ */
+export async function logExperimentExposure(
+  client: SupabaseClient,
+  userId: string,
+  assignments: ExperimentAssignment[],
+  surface: string
+): Promise<void> {
+  await logExperimentEvents(client, userId, assignments, 'experiment_exposure', { surface });
+}
+
+/**
+ * Record a swipe outcome (like-rate / match-rate inputs) for each variant
+ */
+export async function logExperimentSwipe(
+  client: SupabaseClient,
+  userId: string,
+  assignments: ExperimentAssignment[],
+  outcome: { swipe_type: string; matched: boolean }
+): Promise<void> {
+  await logExperimentEvents(client, userId, assignments, 'experiment_swipe', outcome);
+}
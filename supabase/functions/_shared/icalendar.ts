@@ -0,0 +1,186 @@
+/**
+ * iCalendar (RFC 5545) rendering for date proposals
+ *
+ * Used by export-date-calendar (single .ics download) and calendar-feed
+ * (subscribable per-user feed). Accepted and completed dates render as
+ * CONFIRMED events; dates cancelled after being accepted render as
+ * CANCELLED with a higher SEQUENCE, so subscribed calendars drop them.
+ */
+
+/** Dates carry no end time; calendars get a fixed length */
+const DEFAULT_EVENT_DURATION_MS = 2 * 60 * 60 * 1000;
+const PRODID = '-//Stellr//Date Proposals//EN';
+const UID_DOMAIN = 'dates.stellr.app';
+
+export interface CalendarDateEvent {
+  proposalId: string;
+  status: string;
+  startsAt: string;
+  location: string | null;
+  title: string;
+  description: string | null;
+  /** Increases with every change to the proposal */
+  sequence: number;
+  lastModified: string;
+}
+
+export interface CalendarRenderOptions {
+  calendarName?: string;
+  /** Minutes before start; one VALARM per entry */
+  reminderMinutes?: number[];
+  /** PUBLISH for downloads and feeds, CANCEL for a single cancellation */
+  method?: 'PUBLISH' | 'CANCEL';
+}
+
+// Plain 'cancelled' comes from proposals cancelled before the split statuses
+const CANCELLED_STATUSES = new Set(['cancelled', 'cancelled_by_proposer', 'cancelled_by_recipient']);
+
+export function isCancelledStatus(status: string): boolean {
+  return CANCELLED_STATUSES.has(status);
+}
+
+/** UTC date-time in the basic format, e.g. 20251120T183000Z */
+export function formatICalDate(value: string | Date): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** TEXT value escaping (RFC 5545 3.3.11) */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets (RFC 5545 3.1), never splitting a
+ * multi-byte character
+ */
+export function foldICalLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = 75;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function renderEvent(event: CalendarDateEvent, reminderMinutes: number[], now: Date): string[] {
+  const cancelled = isCancelledStatus(event.status);
+  const start = new Date(event.startsAt);
+  const end = new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.proposalId}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatICalDate(now)}`,
+    `DTSTART:${formatICalDate(start)}`,
+    `DTEND:${formatICalDate(end)}`,
+    `SEQUENCE:${event.sequence}`,
+    `LAST-MODIFIED:${formatICalDate(event.lastModified)}`,
+    `SUMMARY:${escapeICalText(event.title)}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+  ];
+
+  if (event.location) {
+    lines.push(`LOCATION:${escapeICalText(event.location)}`);
+  }
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+  }
+
+  // Cancelled events keep no alarms, so nothing fires for them
+  if (!cancelled) {
+    for (const minutes of reminderMinutes) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeICalText(event.title)}`,
+        `TRIGGER:-PT${minutes}M`,
+        'END:VALARM'
+      );
+    }
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Render a VCALENDAR with one VEVENT per date, CRLF line endings
+ */
+export function renderCalendar(events: CalendarDateEvent[], options: CalendarRenderOptions = {}): string {
+  const now = new Date();
+  const method = options.method ?? 'PUBLISH';
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+  ];
+
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeICalText(options.calendarName)}`);
+  }
+
+  for (const event of events) {
+    lines.push(...renderEvent(event, options.reminderMinutes ?? [], now));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
+
+/** Row shape returned by the get_calendar_date_events SQL function */
+export interface CalendarDateEventRow {
+  proposal_id: string;
+  status: string;
+  proposed_datetime: string;
+  location: string | null;
+  notes: string | null;
+  activity_details: { type?: string; customTitle?: string | null } | null;
+  other_participant_name: string;
+  sequence: number;
+  last_modified: string;
+}
+
+export function calendarEventFromRow(row: CalendarDateEventRow): CalendarDateEvent {
+  const rawActivity = row.activity_details?.customTitle || row.activity_details?.type;
+  const activity = rawActivity ? rawActivity.charAt(0).toUpperCase() + rawActivity.slice(1) : null;
+  return {
+    proposalId: row.proposal_id,
+    status: row.status,
+    startsAt: row.proposed_datetime,
+    location: row.location,
+    title: activity
+      ? `${activity} with ${row.other_participant_name}`
+      : `Date with ${row.other_participant_name}`,
+    description: row.notes,
+    sequence: row.sequence,
+    lastModified: row.last_modified,
+  };
+}
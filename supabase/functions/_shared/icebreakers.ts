@@ -0,0 +1,298 @@
+/**
+ * Icebreaker Suggestions
+ *
+ * Builds three template-based conversation openers for a match: one from
+ * questionnaire answers both people share, one from complementary natal
+ * chart placements, and one from the date activity they lean towards.
+ *
+ * Output is deterministic: the same viewer, match and profile data always
+ * give the same openers, so suggestions don't reshuffle on every refresh.
+ */
+
+import {
+  calculateQuestionnaireCompatibility,
+  findSharedAnswers,
+  QUESTIONNAIRE_GROUP_THEMES
+} from './questionnaire-compatibility.ts';
+import { findSynastryAspects, getSunSign, SynastryAspect } from './astronomical-calculations.ts';
+import { DATE_ACTIVITIES, UserProfile } from './compatibility-orchestrator.ts';
+import { ScoringProfile, DEFAULT_SCORING_PROFILE } from './scoring-profile.ts';
+
+export type IcebreakerSource = 'questionnaire' | 'astrology' | 'activity';
+
+export interface Icebreaker {
+  id: string;
+  source: IcebreakerSource;
+  text: string;
+  basis: Record<string, unknown>;
+}
+
+export interface IcebreakerInput {
+  matchId: string;
+  viewer: UserProfile;
+  other: UserProfile;
+  /** activity_details.type of the latest date proposal for this match, if any */
+  proposalActivityType?: string | null;
+}
+
+type Template = (vars: Record<string, string>) => string;
+
+const QUESTIONNAIRE_TEMPLATES: Record<'agree' | 'disagree', Template[]> = {
+  agree: [
+    ({ theme }) => `We answered the ${theme} questions almost the same way. What made you feel strongly about that?`,
+    ({ theme }) => `Looks like we're on the same page about ${theme}. Was that something you learned the hard way?`,
+    ({ theme }) => `Our answers on ${theme} lined up. What does that look like for you day to day?`
+  ],
+  disagree: [
+    ({ theme }) => `We both pushed back on the same ${theme} question. What's your take on it?`,
+    ({ theme }) => `Turns out we disagree with the same things about ${theme}. Which answer surprised you most?`,
+    ({ theme }) => `We both said no to the same idea about ${theme}. Has your view on that changed over time?`
+  ]
+};
+
+// Both answered, but never on the same side: use the closest group
+const QUESTIONNAIRE_CLOSEST_GROUP_TEMPLATES: Template[] = [
+  ({ theme }) => `Our answers were closest on ${theme}. How would your friends describe you there?`,
+  ({ theme }) => `The compatibility quiz matched us best on ${theme}. Does that sound right to you?`
+];
+
+// One or both haven't answered the questionnaire
+const QUESTIONNAIRE_FALLBACK_TEMPLATES: Template[] = [
+  ({ theme }) => `What's something about how you approach ${theme} that people tend to get wrong?`,
+  ({ theme }) => `Quick one: what matters most to you when it comes to ${theme}?`
+];
+
+const BODY_THEMES: Record<string, string> = {
+  Sun: 'who we are',
+  Moon: 'how we feel',
+  Mercury: 'how we talk',
+  Venus: 'what we love',
+  Mars: 'what drives us',
+  Ascendant: 'first impressions'
+};
+
+const ASPECT_WORDS: Record<string, string> = {
+  TRINE: 'trine',
+  SEXTILE: 'sextile',
+  CONJUNCTION: 'conjunction'
+};
+
+// Flowing aspects only; squares and oppositions don't make good openers
+const HARMONIOUS_ASPECTS = new Set(Object.keys(ASPECT_WORDS));
+
+const ASTROLOGY_TEMPLATES: Template[] = [
+  ({ bodyA, signA, bodyB, signB, aspect, theme }) =>
+    `My ${bodyA} in ${signA} and your ${bodyB} in ${signB} make a ${aspect}, which is supposed to be good news for ${theme}. Does that sound like us so far?`,
+  ({ bodyA, signA, bodyB, signB, aspect }) =>
+    `Apparently my ${signA} ${bodyA} forms a ${aspect} with your ${signB} ${bodyB}. Do you read your chart, or is this all new?`,
+  ({ bodyB, signB, theme }) =>
+    `Your ${bodyB} is in ${signB}, and it lines up nicely with my chart when it comes to ${theme}. What's the most ${signB} thing about you?`
+];
+
+const SUN_SIGN_TEMPLATES: Template[] = [
+  ({ signA, signB }) => `A ${signA} and a ${signB} walk into a chat... Do you think your sign fits you?`,
+  ({ signB }) => `I see you're a ${signB}. Which trait of your sign do you actually recognise in yourself?`
+];
+
+const ASTROLOGY_FALLBACK_TEMPLATES: Template[] = [
+  () => `Do you know your big three, or are you a sun-sign-only person?`,
+  () => `Be honest: do you check your horoscope, or is that my job now?`
+];
+
+const ACTIVITY_TEMPLATES: Record<string, Template[]> = {
+  Dinner: [
+    () => `If we got dinner, would you pick somewhere you love or somewhere neither of us has tried?`,
+    () => `What's the one dish you'd make me order if we went to dinner?`
+  ],
+  Drinks: [
+    () => `If we went for drinks: cocktail bar, wine bar or a local pub?`,
+    () => `What's your go-to order when someone says "let's get a drink"?`
+  ],
+  Coffee: [
+    () => `Are you a fancy-order coffee person or a plain black coffee person?`,
+    () => `What's the best coffee spot you know that nobody else seems to?`
+  ],
+  Activity: [
+    () => `What's the most fun thing you've tried lately? I'm collecting date ideas that aren't just dinner.`,
+    () => `If we skipped the usual dinner and did something instead, what would you pick?`
+  ],
+  Any: [
+    () => `Coffee, drinks, dinner or something more adventurous: what's your ideal first date?`,
+    () => `What's the best date you've planned for someone?`
+  ]
+};
+
+/** FNV-1a, used to pick templates deterministically */
+function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function pick<T>(items: T[], seed: number, salt: string): { item: T; index: number } {
+  const index = hashSeed(`${seed}:${salt}`) % items.length;
+  return { item: items[index], index };
+}
+
+/** Map a free-form activity (profile preference or proposal type) onto DATE_ACTIVITIES */
+function normalizeActivity(activity: string | null | undefined): string | null {
+  if (!activity) return null;
+  const match = DATE_ACTIVITIES.find(a => a.toLowerCase() === activity.trim().toLowerCase());
+  if (match) return match;
+  return activity.trim() ? 'Activity' : null;
+}
+
+function buildQuestionnaireOpener(input: IcebreakerInput, seed: number): Icebreaker {
+  const shared = findSharedAnswers(input.viewer.questionnaireAnswers, input.other.questionnaireAnswers);
+
+  if (shared.length > 0) {
+    // Pick among the strongest shared answers so the opener stays specific
+    const strongest = shared.filter(s => s.strength === shared[0].strength);
+    const { item: answer } = pick(strongest, seed, 'questionnaire_answer');
+    const theme = QUESTIONNAIRE_GROUP_THEMES[answer.group];
+    const { item: template, index } = pick(QUESTIONNAIRE_TEMPLATES[answer.stance], seed, 'questionnaire_template');
+
+    return {
+      id: `questionnaire_${answer.stance}_${index}`,
+      source: 'questionnaire',
+      text: template({ theme }),
+      basis: {
+        question_id: answer.questionID,
+        group: answer.group,
+        stance: answer.stance,
+        shared_answer_count: shared.length
+      }
+    };
+  }
+
+  const viewerAnswers = input.viewer.questionnaireAnswers;
+  const otherAnswers = input.other.questionnaireAnswers;
+
+  if (viewerAnswers?.length > 0 && otherAnswers?.length > 0) {
+    const { groupScores } = calculateQuestionnaireCompatibility(viewerAnswers, otherAnswers);
+    const [group] = Object.entries(groupScores).sort(([, x], [, y]) => y - x)[0];
+    const { item: template, index } = pick(QUESTIONNAIRE_CLOSEST_GROUP_TEMPLATES, seed, 'questionnaire_closest');
+
+    return {
+      id: `questionnaire_closest_${index}`,
+      source: 'questionnaire',
+      text: template({ theme: QUESTIONNAIRE_GROUP_THEMES[group] }),
+      basis: { group, group_score: Math.round(groupScores[group]), shared_answer_count: 0 }
+    };
+  }
+
+  const groups = Object.keys(QUESTIONNAIRE_GROUP_THEMES);
+  const { item: group } = pick(groups, seed, 'questionnaire_group');
+  const { item: template, index } = pick(QUESTIONNAIRE_FALLBACK_TEMPLATES, seed, 'questionnaire_fallback');
+
+  return {
+    id: `questionnaire_fallback_${index}`,
+    source: 'questionnaire',
+    text: template({ theme: QUESTIONNAIRE_GROUP_THEMES[group] }),
+    basis: { group, shared_answer_count: 0 }
+  };
+}
+
+function buildAstrologyOpener(input: IcebreakerInput, seed: number, profile: ScoringProfile): Icebreaker {
+  const viewerChart = input.viewer.natalChartData;
+  const otherChart = input.other.natalChartData;
+
+  const aspects: SynastryAspect[] = viewerChart && otherChart
+    ? findSynastryAspects(viewerChart, otherChart, profile).filter(a => HARMONIOUS_ASPECTS.has(a.aspect))
+    : [];
+
+  if (aspects.length > 0) {
+    // Tightest three aspects, so the choice varies between matches but stays meaningful
+    const { item: aspect } = pick(aspects.slice(0, 3), seed, 'astrology_aspect');
+    const { item: template, index } = pick(ASTROLOGY_TEMPLATES, seed, 'astrology_template');
+
+    return {
+      id: `astrology_aspect_${index}`,
+      source: 'astrology',
+      text: template({
+        bodyA: aspect.bodyA,
+        signA: aspect.signA,
+        bodyB: aspect.bodyB,
+        signB: aspect.signB,
+        aspect: ASPECT_WORDS[aspect.aspect],
+        theme: BODY_THEMES[aspect.bodyB] ?? BODY_THEMES[aspect.bodyA]
+      }),
+      basis: {
+        viewer_body: aspect.bodyA,
+        viewer_sign: aspect.signA,
+        other_body: aspect.bodyB,
+        other_sign: aspect.signB,
+        aspect: aspect.aspect,
+        orb_delta: Math.round(aspect.orbDelta * 10) / 10
+      }
+    };
+  }
+
+  const viewerSun = getSunSign(viewerChart);
+  const otherSun = getSunSign(otherChart);
+
+  if (viewerSun && otherSun) {
+    const { item: template, index } = pick(SUN_SIGN_TEMPLATES, seed, 'astrology_sun');
+    return {
+      id: `astrology_sun_${index}`,
+      source: 'astrology',
+      text: template({ signA: viewerSun, signB: otherSun }),
+      basis: { viewer_sun_sign: viewerSun, other_sun_sign: otherSun }
+    };
+  }
+
+  const { item: template, index } = pick(ASTROLOGY_FALLBACK_TEMPLATES, seed, 'astrology_fallback');
+  return {
+    id: `astrology_fallback_${index}`,
+    source: 'astrology',
+    text: template({}),
+    basis: {}
+  };
+}
+
+function buildActivityOpener(input: IcebreakerInput, seed: number): Icebreaker {
+  const viewerActivity = normalizeActivity(input.viewer.preferences.preferredActivity);
+  const otherActivity = normalizeActivity(input.other.preferences.preferredActivity);
+
+  // A proposed date beats stated preferences; then a shared preference; then either one
+  let activity = normalizeActivity(input.proposalActivityType);
+  let reason = 'date_proposal';
+
+  if (!activity && viewerActivity && viewerActivity !== 'Any' && viewerActivity === otherActivity) {
+    activity = viewerActivity;
+    reason = 'shared_preference';
+  }
+  if (!activity) {
+    activity = [otherActivity, viewerActivity].find(a => a && a !== 'Any') ?? 'Any';
+    reason = activity === 'Any' ? 'no_preference' : 'one_sided_preference';
+  }
+
+  const templates = ACTIVITY_TEMPLATES[activity] ?? ACTIVITY_TEMPLATES.Any;
+  const { item: template, index } = pick(templates, seed, 'activity_template');
+
+  return {
+    id: `activity_${activity.toLowerCase()}_${index}`,
+    source: 'activity',
+    text: template({}),
+    basis: { activity, reason }
+  };
+}
+
+/**
+ * Three openers for the viewer to send: questionnaire, astrology, activity.
+ */
+export function generateIcebreakers(
+  input: IcebreakerInput,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): Icebreaker[] {
+  const seed = hashSeed(`${input.matchId}:${input.viewer.userID}`);
+
+  return [
+    buildQuestionnaireOpener(input, seed),
+    buildAstrologyOpener(input, seed, profile),
+    buildActivityOpener(input, seed)
+  ];
+}
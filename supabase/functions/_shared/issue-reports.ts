@@ -0,0 +1,44 @@
+/**
+ * Issue Reports
+ *
+ * Files a row in issue_reports for the admin queue. Used by report-issue
+ * for user-written reports and by submit-date-feedback when a date is
+ * reported or a safety check-in comes back as "need help".
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const MAX_ISSUE_DESCRIPTION_LENGTH = 2000;
+
+export interface IssueReportResult {
+  reportId: string | null;
+  error: string | null;
+}
+
+/**
+ * Insert an open issue report. The client must be a service-role client;
+ * descriptions longer than MAX_ISSUE_DESCRIPTION_LENGTH are truncated.
+ */
+export async function submitIssueReport(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  description: string
+): Promise<IssueReportResult> {
+  const { data, error } = await supabaseAdmin
+    .from('issue_reports')
+    .insert([
+      {
+        user_id: userId,
+        issue_description: description.trim().substring(0, MAX_ISSUE_DESCRIPTION_LENGTH),
+        status: 'open',
+        created_at: new Date().toISOString(),
+      },
+    ])
+    .select();
+
+  if (error) {
+    return { reportId: null, error: error.message };
+  }
+
+  return { reportId: data?.[0]?.id ?? null, error: null };
+}
@@ -0,0 +1,502 @@
+// Link Previews for Stellr Dating App
+// Unfurls the first link in a message into a small card (title, description,
+// image). The default resolver fetches the page itself, so every hop is
+// checked against SSRF: public http(s) hosts only, no redirects into private
+// networks, a hard timeout and a body size cap. Redirect targets and preview
+// images are also checked against the moderation blocklist. Results are
+// cached in the advanced cache; the resolver itself is replaceable.
+
+import { getAdvancedCache } from './advanced-cache-system.ts';
+import { StellarCacheKeys } from './redis-enhanced.ts';
+import { checkLinkDomain } from './content-moderation.ts';
+import { logger } from './logger.ts';
+
+export interface LinkPreview {
+  url: string; // Link as posted (after normalization)
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+  fetched_at: string;
+}
+
+// Resolvers return null when a page has nothing to preview or is refused by
+// policy (cached as a negative result), and throw on transient failures such
+// as timeouts (not cached, so the next message retries).
+export interface LinkPreviewResolver {
+  resolve(url: string): Promise<LinkPreview | null>;
+}
+
+interface CachedLinkPreview {
+  preview: LinkPreview | null;
+}
+
+interface LinkPreviewFetchConfig {
+  timeoutMs: number;
+  maxBytes: number;
+  maxRedirects: number;
+  userAgent: string;
+}
+
+const DEFAULT_FETCH_CONFIG: LinkPreviewFetchConfig = {
+  timeoutMs: 3000,
+  maxBytes: 256 * 1024, // 256KB - <head> metadata sits at the top of the page
+  maxRedirects: 3,
+  userAgent: 'StellrLinkPreview/1.0 (+https://stellr.app)',
+};
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+const MAX_SITE_NAME_LENGTH = 100;
+const MAX_URL_LENGTH = 2048;
+
+const ALLOWED_PORTS = ['', '80', '443'];
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.lan', '.home.arpa'];
+
+// Links in message text; trailing punctuation is trimmed separately
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"'`]+/gi;
+
+// ---------------------------------------------------------------------------
+// URL extraction
+// ---------------------------------------------------------------------------
+
+/**
+ * Links found in raw message text, normalized and de-duplicated in order of
+ * appearance. Bare www. links are treated as https.
+ */
+export function extractUrls(content: string): string[] {
+  const urls: string[] = [];
+
+  for (const match of content.match(URL_PATTERN) ?? []) {
+    const trimmed = match.replace(/[.,;:!?)\]}]+$/, '');
+    const normalized = normalizeUrl(/^www\./i.test(trimmed) ? `https://${trimmed}` : trimmed);
+    if (normalized && !urls.includes(normalized)) {
+      urls.push(normalized);
+    }
+  }
+
+  return urls;
+}
+
+function normalizeUrl(raw: string): string | null {
+  if (raw.length > MAX_URL_LENGTH) return null;
+  try {
+    const url = new URL(raw);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SSRF guards
+// ---------------------------------------------------------------------------
+
+// Policy rejection: the link is not fetched and the miss is cached
+class UnsafeLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeLinkError';
+  }
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map(part => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return octets.every(octet => octet >= 0 && octet <= 255) ? octets : null;
+}
+
+function isPrivateIPv4(octets: number[]): boolean {
+  const [a, b, c] = octets;
+  return (
+    a === 0 ||                                   // "this" network
+    a === 10 ||                                  // private
+    a === 127 ||                                 // loopback
+    (a === 100 && b >= 64 && b <= 127) ||        // carrier-grade NAT
+    (a === 169 && b === 254) ||                  // link-local / cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||         // private
+    (a === 192 && b === 0 && c === 0) ||         // IETF protocol assignments
+    (a === 192 && b === 0 && c === 2) ||         // documentation
+    (a === 192 && b === 168) ||                  // private
+    (a === 198 && (b === 18 || b === 19)) ||     // benchmarking
+    (a === 198 && b === 51 && c === 100) ||      // documentation
+    (a === 203 && b === 0 && c === 113) ||       // documentation
+    a >= 224                                     // multicast, reserved, broadcast
+  );
+}
+
+function parseIPv6(address: string): number[] | null {
+  let text = address.replace(/^\[|\]$/g, '').toLowerCase();
+  if (text.includes('%')) return null; // zone IDs are link-local by definition
+
+  // Embedded IPv4 tail (e.g. ::ffff:127.0.0.1)
+  const lastColon = text.lastIndexOf(':');
+  const tail = text.slice(lastColon + 1);
+  if (tail.includes('.')) {
+    const octets = parseIPv4(tail);
+    if (!octets) return null;
+    text = `${text.slice(0, lastColon + 1)}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  if (groups.length !== 8 || !groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const embeddedIPv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+  const leadingZeros = groups.slice(0, 5).every(group => group === 0);
+
+  if (groups.every(group => group === 0)) return true;                       // unspecified
+  if (leadingZeros && groups[5] === 0 && groups[6] === 0 && groups[7] === 1) return true; // loopback
+  if (leadingZeros && (groups[5] === 0xffff || groups[5] === 0)) {
+    return isPrivateIPv4(embeddedIPv4);                                      // mapped / compatible
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) return isPrivateIPv4(embeddedIPv4); // NAT64
+  if ((groups[0] & 0xfe00) === 0xfc00) return true;                          // unique local
+  if ((groups[0] & 0xffc0) === 0xfe80) return true;                          // link-local
+  if ((groups[0] & 0xff00) === 0xff00) return true;                          // multicast
+  if (groups[0] === 0x2001 && groups[1] === 0x0db8) return true;             // documentation
+  if (groups[0] === 0x2002) return isPrivateIPv4([groups[1] >> 8, groups[1] & 0xff, groups[2] >> 8, groups[2] & 0xff]); // 6to4
+  return false;
+}
+
+function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const ipv6 = parseIPv6(address);
+  // Anything unparseable is treated as unsafe
+  return ipv6 ? isPrivateIPv6(ipv6) : true;
+}
+
+/**
+ * Rejects URLs that could reach internal services: non-http(s) schemes,
+ * credentials, non-standard ports, internal hostnames, and hosts that
+ * resolve to private or reserved addresses.
+ */
+async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnsafeLinkError(`Unsupported protocol ${url.protocol}`);
+  }
+  if (url.username || url.password) {
+    throw new UnsafeLinkError('Credentials in URL');
+  }
+  if (!ALLOWED_PORTS.includes(url.port)) {
+    throw new UnsafeLinkError(`Port ${url.port} not allowed`);
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  if (
+    !hostname ||
+    hostname === 'localhost' ||
+    (!hostname.includes('.') && !hostname.startsWith('[')) ||
+    BLOCKED_HOST_SUFFIXES.some(suffix => hostname.endsWith(suffix))
+  ) {
+    throw new UnsafeLinkError(`Internal hostname ${hostname}`);
+  }
+
+  // IP literals are checked directly
+  if (parseIPv4(hostname) || hostname.startsWith('[')) {
+    if (isPrivateAddress(hostname)) {
+      throw new UnsafeLinkError(`Private address ${hostname}`);
+    }
+    return;
+  }
+
+  const [v4, v6] = await Promise.all([
+    Deno.resolveDns(hostname, 'A').catch(() => [] as string[]),
+    Deno.resolveDns(hostname, 'AAAA').catch(() => [] as string[]),
+  ]);
+  const addresses = [...v4, ...v6];
+
+  if (addresses.length === 0) {
+    throw new UnsafeLinkError(`No DNS records for ${hostname}`);
+  }
+  // Every record must be public, otherwise a rotating record could pick the private one
+  const privateAddress = addresses.find(isPrivateAddress);
+  if (privateAddress) {
+    throw new UnsafeLinkError(`${hostname} resolves to private address ${privateAddress}`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// HTML metadata parsing
+// ---------------------------------------------------------------------------
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const codePoint = body[1] === 'x' || body[1] === 'X'
+        ? parseInt(body.slice(2), 16)
+        : parseInt(body.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+    }
+    return HTML_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+// Plain text, HTML-escaped to match how send-message stores message content
+function cleanText(raw: string | undefined, maxLength: number): string | null {
+  if (!raw) return null;
+  let text = decodeEntities(raw)
+    .replace(/<[^>]*>/g, '')
+    .replace(/[\u0000-\u001f\u007f\u200b-\u200f\u202a-\u202e\u2066-\u2069]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) return null;
+  if (text.length > maxLength) {
+    text = `${text.slice(0, maxLength - 1).trimEnd()}…`;
+  }
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;');
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(tag)) !== null) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attributes;
+}
+
+/**
+ * Extracts Open Graph / Twitter card metadata, falling back to <title> and
+ * the description meta tag. Returns null when there is nothing to show.
+ */
+export function parseLinkPreview(html: string, url: string, finalUrl: string): LinkPreview | null {
+  const meta: Record<string, string> = {};
+  for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  const titleTag = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  const title = cleanText(meta['og:title'] || meta['twitter:title'] || titleTag, MAX_TITLE_LENGTH);
+  const description = cleanText(
+    meta['og:description'] || meta['twitter:description'] || meta['description'],
+    MAX_DESCRIPTION_LENGTH
+  );
+
+  if (!title && !description) {
+    return null;
+  }
+
+  // Images load in the recipient's client, so only absolute https images on
+// non-blocklisted domains are kept
+  let imageUrl: string | null = null;
+  const rawImage = meta['og:image:secure_url'] || meta['og:image'] || meta['twitter:image'];
+  if (rawImage) {
+    try {
+      const resolved = new URL(decodeEntities(rawImage.trim()), finalUrl);
+      if (
+        resolved.protocol === 'https:' &&
+        resolved.toString().length <= MAX_URL_LENGTH &&
+        !checkLinkDomain(resolved.toString()).blocked
+      ) {
+        imageUrl = resolved.toString();
+      }
+    } catch {
+      imageUrl = null;
+    }
+  }
+
+  return {
+    url,
+    title,
+    description,
+    image_url: imageUrl,
+    site_name: cleanText(meta['og:site_name'], MAX_SITE_NAME_LENGTH)
+      ?? cleanText(new URL(finalUrl).hostname.replace(/^www\./, ''), MAX_SITE_NAME_LENGTH),
+    fetched_at: new Date().toISOString(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Resolvers
+// ---------------------------------------------------------------------------
+
+/**
+ * Default resolver: fetches the page directly with manual redirects so every
+ * hop goes through assertPublicUrl and the domain blocklist, and stops
+ * reading at maxBytes.
+ */
+export class SafeFetchLinkResolver implements LinkPreviewResolver {
+  private config: LinkPreviewFetchConfig;
+
+  constructor(config: Partial<LinkPreviewFetchConfig> = {}) {
+    this.config = { ...DEFAULT_FETCH_CONFIG, ...config };
+  }
+
+  async resolve(url: string): Promise<LinkPreview | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      let current = new URL(url);
+
+      for (let hop = 0; hop <= this.config.maxRedirects; hop++) {
+        await assertPublicUrl(current);
+        // A clean link can redirect to a blocklisted one
+        if (checkLinkDomain(current.toString()).blocked) {
+          throw new UnsafeLinkError('Redirect to blocked domain');
+        }
+
+        const response = await fetch(current.toString(), {
+          method: 'GET',
+          redirect: 'manual',
+          signal: controller.signal,
+          headers: {
+            'User-Agent': this.config.userAgent,
+            'Accept': 'text/html,application/xhtml+xml;q=0.9',
+          },
+        });
+
+        if (response.status >= 300 && response.status < 400) {
+          const location = response.headers.get('Location');
+          await response.body?.cancel();
+          if (!location) return null;
+          current = new URL(location, current);
+          continue;
+        }
+
+        if (!response.ok) {
+          await response.body?.cancel();
+          return null;
+        }
+
+        const contentType = response.headers.get('Content-Type') || '';
+        if (!/^(text\/html|application\/xhtml\+xml)\b/i.test(contentType)) {
+          await response.body?.cancel();
+          return null;
+        }
+
+        const html = await this.readCapped(response);
+        return parseLinkPreview(html, url, current.toString());
+      }
+
+      // Too many redirects
+      return null;
+    } catch (error) {
+      if (error instanceof UnsafeLinkError) {
+        logger.warn('Link preview refused unsafe URL', { reason: error.message });
+        return null;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async readCapped(response: Response): Promise<string> {
+    if (!response.body) return '';
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+
+    while (received < this.config.maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const remaining = this.config.maxBytes - received;
+      const chunk = value.byteLength > remaining ? value.subarray(0, remaining) : value;
+      chunks.push(chunk);
+      received += chunk.byteLength;
+    }
+    await reader.cancel().catch(() => undefined);
+
+    const buffer = new Uint8Array(received);
+    let offset = 0;
+    for (const chunk of chunks) {
+      buffer.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return new TextDecoder('utf-8', { fatal: false }).decode(buffer);
+  }
+}
+
+let resolverOverride: LinkPreviewResolver | null = null;
+let defaultResolver: SafeFetchLinkResolver | null = null;
+
+/**
+ * Replaces the resolver used by resolveLinkPreview (pass null to restore the
+ * default), e.g. to unfurl through a hosted service instead of fetching.
+ */
+export function setLinkPreviewResolver(resolver: LinkPreviewResolver | null): void {
+  resolverOverride = resolver;
+}
+
+export function getLinkPreviewResolver(): LinkPreviewResolver {
+  if (resolverOverride) return resolverOverride;
+  if (!defaultResolver) {
+    defaultResolver = new SafeFetchLinkResolver();
+  }
+  return defaultResolver;
+}
+
+// ---------------------------------------------------------------------------
+// Cached lookup
+// ---------------------------------------------------------------------------
+
+async function hashUrl(url: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(url));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Preview for a single link, or null. Links on the moderation blocklist are
+ * never fetched. Both hits and "nothing to preview" results are cached for
+ * the link_preview TTL; transient fetch failures are not.
+ */
+export async function resolveLinkPreview(url: string): Promise<LinkPreview | null> {
+  const normalized = normalizeUrl(url);
+  if (!normalized || checkLinkDomain(normalized).blocked) {
+    return null;
+  }
+
+  const cache = getAdvancedCache();
+  const cacheKey = StellarCacheKeys.linkPreview(await hashUrl(normalized));
+
+  const cached = await cache.get<CachedLinkPreview>(cacheKey, 'link_preview');
+  if (cached) {
+    return cached.preview;
+  }
+
+  try {
+    const preview = await getLinkPreviewResolver().resolve(normalized);
+    const entry: CachedLinkPreview = { preview };
+    await cache.set(cacheKey, entry, 'link_preview');
+    return preview;
+  } catch (error) {
+    logger.warn('Link preview fetch failed', {
+      host: new URL(normalized).hostname,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
@@ -0,0 +1,515 @@
+/**
+ * Match Deck
+ *
+ * Precomputed, deduplicated candidate decks with a server-side cursor.
+ *
+ * A deck is built once (get_potential_matches_optimized + fresh
+ * calculate_compatibility_scores for every candidate) by the
+ * build-match-decks worker and stored in match_decks (service role only).
+ * get-potential-matches-optimized only serves pages from the deck, so
+ * scoring never runs on a feed request.
+ *
+ * Filters marked "preference" in the user's settings only down-rank
+ * candidates (preference_misses); only dealbreakers exclude.
+ *
+ * Within the RPC's super-like / premium / preference-miss tiers, candidates
+ * are re-ranked by a two-way score that combines the viewer-side compatibility with the
+ * candidate-side mutual fit (how likely they are to like the viewer back).
+ *
+ * Builds are queued in match_deck_requests: when a preference change
+ * invalidates the deck (update-user-settings / update-gender-preference),
+ * when the feed finds no usable deck (requestMatchDeck), and shortly before
+ * an active user's deck expires (claim_match_deck_requests).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  calculateCombinedScore,
+  calculateMutualFitScore,
+  calculateTwoWayScore,
+  MutualFitResult
+} from './compatibility-orchestrator.ts';
+import { loadScoringProfile, ScoringProfile } from './scoring-profile.ts';
+import { getExperimentAssignments, resolveScoringProfileVersion } from './experiments.ts';
+
+/** Number of candidates precomputed per deck */
+export const DECK_SIZE = 60;
+
+/** How long a deck stays valid before it is rebuilt */
+export const DECK_TTL_HOURS = 4;
+
+/** Fallback score when calculate_compatibility_scores fails for a candidate */
+const DEFAULT_COMPATIBILITY_SCORE = 50;
+
+export interface DeckFilters {
+  zodiac_sign?: string;
+  activity_type?: string;
+  min_age?: number;
+  max_age?: number;
+  max_distance_km?: number;
+}
+
+export interface DeckCandidate {
+  id: string;
+  compatibility_score: number;
+  /** Raw calculate_compatibility_scores result, kept for explain mode */
+  score_components: Record<string, any> | null;
+  scoring_profile_version: number;
+  /** Preference-mode filters the candidate misses (age, distance, gender, children) */
+  preference_misses?: string[];
+  /** Candidate-side reciprocal estimate, kept for explain mode */
+  mutual_fit?: MutualFitResult & { two_way_score: number };
+  [key: string]: any;
+}
+
+export interface MatchDeck {
+  user_id: string;
+  deck_id: string;
+  filters_key: string;
+  candidates: DeckCandidate[];
+  candidate_count: number;
+  cursor_position: number;
+  generated_at: string;
+  expires_at: string;
+  invalidated_at: string | null;
+}
+
+export interface DeckPage {
+  candidates: DeckCandidate[];
+  /** Deck index of each returned candidate */
+  positions: number[];
+  nextPosition: number;
+  hasMore: boolean;
+  skipped: number;
+}
+
+/**
+ * Stable key for a filter set (sorted keys, undefined values dropped)
+ */
+export function buildDeckFiltersKey(filters: DeckFilters): string {
+  const normalized: Record<string, unknown> = {};
+  for (const key of Object.keys(filters).sort()) {
+    const value = (filters as Record<string, unknown>)[key];
+    if (value !== undefined && value !== null && value !== '') {
+      normalized[key] = value;
+    }
+  }
+  return JSON.stringify(normalized);
+}
+
+/**
+ * Opaque client cursor: `<deck_id>:<position>` base64url encoded
+ */
+export function encodeDeckCursor(deckId: string, position: number): string {
+  return btoa(`${deckId}:${position}`)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function decodeDeckCursor(cursor: string): { deckId: string; position: number } | null {
+  try {
+    const padded = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const [deckId, position] = atob(padded + '='.repeat((4 - padded.length % 4) % 4)).split(':');
+    const parsedPosition = parseInt(position, 10);
+    if (!deckId || !Number.isInteger(parsedPosition) || parsedPosition < 0) {
+      return null;
+    }
+    return { deckId, position: parsedPosition };
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Blend the astro / questionnaire components with the scoring profile.
+ * When only one component is available it is used as-is (same fallback as
+ * calculate_compatibility_scores).
+ */
+function blendOverallScore(compScore: any, profile: ScoringProfile): number {
+  const astro = Number(compScore.astrological_score) || 0;
+  const quest = Number(compScore.questionnaire_score) || 0;
+  if (astro > 0 && quest > 0) {
+    return Math.round(calculateCombinedScore(astro, quest, profile));
+  }
+  return compScore.overall_score;
+}
+
+/**
+ * Calculate fresh compatibility scores for a list of candidates and cache
+ * them in compatibility_scores (24h expiry), stamped with the scoring
+ * profile version whose blend ratio was applied (the active one unless an
+ * experiment overrides it). The components themselves come from
+ * calculate_compatibility_scores, which doesn't read the profile.
+ * Candidates whose calculation fails fall back to DEFAULT_COMPATIBILITY_SCORE.
+ */
+export async function scoreCandidates(
+  client: SupabaseClient,
+  viewerId: string,
+  candidates: any[],
+  scoringProfileVersion?: number
+): Promise<{ candidates: DeckCandidate[]; failedIds: string[] }> {
+  const profile = await loadScoringProfile(client, scoringProfileVersion);
+  const scoreMap = new Map<string, any>();
+  const failedIds: string[] = [];
+
+  await Promise.all(
+    candidates.map(async (candidate: any) => {
+      try {
+        const { data: compScore, error: compError } = await client.rpc('calculate_compatibility_scores', {
+          user_a_id: viewerId,
+          user_b_id: candidate.id
+        });
+
+        if (compError || compScore?.overall_score == null) {
+          failedIds.push(candidate.id);
+          return;
+        }
+
+        const overallScore = blendOverallScore(compScore, profile);
+        scoreMap.set(candidate.id, { ...compScore, overall_score: overallScore });
+
+        const expiresAt = new Date();
+        expiresAt.setHours(expiresAt.getHours() + 24);
+
+        const { error: insertError } = await client
+          .from('compatibility_scores')
+          .upsert({
+            user_id: viewerId,
+            potential_match_id: candidate.id,
+            compatibility_score: overallScore,
+            score_components: compScore,
+            scoring_profile_version: profile.version,
+            calculated_at: new Date().toISOString(),
+            expires_at: expiresAt.toISOString()
+          }, {
+            onConflict: 'user_id,potential_match_id'
+          });
+
+        if (insertError) {
+          console.error('[DECK] Score cache insert error for', candidate.id, ':', insertError.message);
+        }
+      } catch (error) {
+        console.error('[DECK] Score calculation failed for', candidate.id, ':', error);
+        failedIds.push(candidate.id);
+      }
+    })
+  );
+
+  return {
+    candidates: candidates.map((candidate: any) => ({
+      ...candidate,
+      compatibility_score: scoreMap.get(candidate.id)?.overall_score ?? DEFAULT_COMPATIBILITY_SCORE,
+      score_components: scoreMap.get(candidate.id) ?? null,
+      scoring_profile_version: profile.version
+    })),
+    failedIds
+  };
+}
+
+/** Ascending order with missing values last */
+function compareNullableAscending(a: unknown, b: unknown): number {
+  const left = typeof a === 'number' && Number.isFinite(a) ? a : null;
+  const right = typeof b === 'number' && Number.isFinite(b) ? b : null;
+  if (left === null || right === null) {
+    return Number(left === null) - Number(right === null);
+  }
+  return left - right;
+}
+
+function hoursSince(timestamp: unknown): number | null {
+  if (typeof timestamp !== 'string') return null;
+  const time = new Date(timestamp).getTime();
+  return Number.isNaN(time) ? null : (Date.now() - time) / (1000 * 60 * 60);
+}
+
+/**
+ * Attach each candidate's mutual fit (get_mutual_fit_signals) and re-rank by
+ * two-way score. Shadow-deprioritised accounts (swipe fraud flags), super
+ * likes, premium members and preference misses keep their precedence from
+ * get_potential_matches_optimized. Equal two-way scores fall back to distance
+ * (closest first), then recency (most recently active first); the sort is
+ * stable so remaining ties keep RPC order.
+ * The fraud flag is only used for ordering and never stored on the deck.
+ * get_mutual_fit_signals is service-role only, so `client` must be the
+ * service client. If the signals can't be read, the deck keeps its original
+ * order.
+ */
+export async function rankByMutualFit(
+  client: SupabaseClient,
+  viewerId: string,
+  candidates: DeckCandidate[]
+): Promise<DeckCandidate[]> {
+  if (candidates.length === 0) return candidates;
+
+  const { data: signals, error } = await client.rpc('get_mutual_fit_signals', {
+    p_viewer_id: viewerId,
+    p_candidate_ids: candidates.map(candidate => candidate.id)
+  });
+
+  if (error) {
+    console.warn('[DECK] Mutual fit signals unavailable, keeping RPC order:', error.message);
+    return candidates;
+  }
+
+  const signalMap = new Map<string, any>((signals || []).map((row: any) => [row.candidate_id, row]));
+
+  const scored = candidates.map((candidate, index) => {
+    const row = signalMap.get(candidate.id);
+    const fit = calculateMutualFitScore({
+      alreadyLikesViewer: row?.already_likes_viewer === true,
+      ageInRange: row?.age_in_range ?? null,
+      withinDistance: row?.within_distance ?? null,
+      zodiacPreferred: row?.zodiac_preferred ?? null,
+      heightInRange: row?.height_in_range ?? null,
+      totalSwipes: row?.total_swipes ?? 0,
+      totalLikes: row?.total_likes ?? 0,
+      similarSwipes: row?.similar_swipes ?? 0,
+      similarLikes: row?.similar_likes ?? 0,
+      datesRated: row?.dates_rated ?? 0,
+      datesMetAgain: row?.dates_met_again ?? 0
+    });
+    return {
+      index,
+      deprioritized: row?.shadow_deprioritized === true,
+      candidate: {
+        ...candidate,
+        mutual_fit: { ...fit, two_way_score: calculateTwoWayScore(candidate.compatibility_score, fit.mutualFit) }
+      }
+    };
+  });
+
+  scored.sort((a, b) =>
+    Number(a.deprioritized) - Number(b.deprioritized) ||
+    Number(!!b.candidate.super_liked_viewer) - Number(!!a.candidate.super_liked_viewer) ||
+    Number(!!b.candidate.premium_user) - Number(!!a.candidate.premium_user) ||
+    (a.candidate.preference_misses?.length ?? 0) - (b.candidate.preference_misses?.length ?? 0) ||
+    b.candidate.mutual_fit.two_way_score - a.candidate.mutual_fit.two_way_score ||
+    compareNullableAscending(a.candidate.distance_km, b.candidate.distance_km) ||
+    compareNullableAscending(hoursSince(a.candidate.last_active), hoursSince(b.candidate.last_active)) ||
+    a.index - b.index
+  );
+
+  return scored.map(entry => entry.candidate);
+}
+
+/**
+ * Build a new deck for a user and store it, replacing any previous deck.
+ * Returns a Supabase-style { data, error } result so it can run inside
+ * ConnectionPool.executeQuery.
+ */
+export async function generateMatchDeck(
+  client: SupabaseClient,
+  userId: string,
+  filters: DeckFilters = {}
+): Promise<{ data: MatchDeck | null; error: any }> {
+  const { data: rows, error: rpcError } = await client
+    .rpc('get_potential_matches_optimized', {
+      viewer_id: userId,
+      exclude_user_ids: [],
+      zodiac_filter: filters.zodiac_sign || null,
+      min_age_filter: filters.min_age || null,
+      max_age_filter: filters.max_age || null,
+      max_distance_km: filters.max_distance_km || null,
+      activity_filter: filters.activity_type || null,
+      limit_count: DECK_SIZE,
+      offset_count: 0
+    });
+
+  if (rpcError) {
+    return { data: null, error: rpcError };
+  }
+
+  // Deduplicate while keeping the ranking order from the RPC
+  const seen = new Set<string>();
+  const uniqueRows = (rows || []).filter((row: any) => {
+    if (!row?.id || seen.has(row.id)) return false;
+    seen.add(row.id);
+    return true;
+  });
+
+  // Ranking experiments may score this user's deck with a different profile
+  const assignments = await getExperimentAssignments(client, userId);
+  const { candidates: scoredCandidates, failedIds } = await scoreCandidates(
+    client,
+    userId,
+    uniqueRows,
+    resolveScoringProfileVersion(assignments)
+  );
+  if (failedIds.length > 0) {
+    console.warn('[DECK] Failed score calculations for:', failedIds.join(', '));
+  }
+
+  const candidates = await rankByMutualFit(client, userId, scoredCandidates);
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + DECK_TTL_HOURS * 60 * 60 * 1000);
+
+  const { data: deck, error: upsertError } = await client
+    .from('match_decks')
+    .upsert({
+      user_id: userId,
+      deck_id: crypto.randomUUID(),
+      filters_key: buildDeckFiltersKey(filters),
+      filters,
+      candidates,
+      candidate_count: candidates.length,
+      cursor_position: 0,
+      generated_at: now.toISOString(),
+      expires_at: expiresAt.toISOString(),
+      invalidated_at: null,
+      updated_at: now.toISOString()
+    }, {
+      onConflict: 'user_id'
+    })
+    .select()
+    .single();
+
+  if (upsertError) {
+    return { data: null, error: upsertError };
+  }
+
+  return { data: deck as MatchDeck, error: null };
+}
+
+/**
+ * Load the user's deck if it can still be served for these filters:
+ * not invalidated, not expired, built for the same filters and not exhausted.
+ */
+export async function loadActiveDeck(
+  client: SupabaseClient,
+  userId: string,
+  filters: DeckFilters
+): Promise<MatchDeck | null> {
+  const { data: deck, error } = await client
+    .from('match_decks')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error || !deck) {
+    return null;
+  }
+
+  const isUsable =
+    deck.invalidated_at === null &&
+    new Date(deck.expires_at).getTime() > Date.now() &&
+    deck.filters_key === buildDeckFiltersKey(filters) &&
+    deck.cursor_position < deck.candidate_count;
+
+  return isUsable ? (deck as MatchDeck) : null;
+}
+
+/**
+ * Read the next page from a deck starting at `position`, skipping anyone the
+ * viewer has swiped on or blocked since the deck was built, and persist the
+ * advanced server-side cursor.
+ */
+export async function readDeckPage(
+  client: SupabaseClient,
+  deck: MatchDeck,
+  position: number,
+  pageSize: number
+): Promise<DeckPage> {
+  const page: DeckCandidate[] = [];
+  const positions: number[] = [];
+  let cursor = Math.min(position, deck.candidate_count);
+  let skipped = 0;
+
+  while (page.length < pageSize && cursor < deck.candidate_count) {
+    // Read ahead a little so skipped candidates don't shrink the page
+    const window = deck.candidates.slice(cursor, cursor + pageSize * 2);
+    const windowIds = window.map(candidate => candidate.id);
+
+    const [{ data: swiped }, { data: blocks }] = await Promise.all([
+      client
+        .from('swipes')
+        .select('swiped_id')
+        .eq('swiper_id', deck.user_id)
+        .in('swiped_id', windowIds),
+      client
+        .from('user_blocks')
+        .select('blocking_user_id, blocked_user_id')
+        .or(`blocking_user_id.eq.${deck.user_id},blocked_user_id.eq.${deck.user_id}`)
+    ]);
+
+    const excluded = new Set<string>((swiped || []).map((row: any) => row.swiped_id));
+    for (const block of blocks || []) {
+      excluded.add(block.blocking_user_id === deck.user_id ? block.blocked_user_id : block.blocking_user_id);
+    }
+
+    for (const candidate of window) {
+      cursor++;
+      if (excluded.has(candidate.id)) {
+        skipped++;
+        continue;
+      }
+      page.push(candidate);
+      positions.push(cursor - 1);
+      if (page.length >= pageSize) break;
+    }
+  }
+
+  const { error: cursorError } = await client
+    .from('match_decks')
+    .update({ cursor_position: cursor, updated_at: new Date().toISOString() })
+    .eq('user_id', deck.user_id)
+    .eq('deck_id', deck.deck_id);
+
+  if (cursorError) {
+    console.warn('[DECK] Failed to persist deck cursor:', cursorError.message);
+  }
+
+  return {
+    candidates: page,
+    positions,
+    nextPosition: cursor,
+    hasMore: cursor < deck.candidate_count,
+    skipped
+  };
+}
+
+/**
+ * Queue a background build of the user's deck for these filters
+ * (best-effort). Replaces any pending request's filters; service client only.
+ */
+export async function requestMatchDeck(
+  client: SupabaseClient,
+  userId: string,
+  filters: DeckFilters
+): Promise<boolean> {
+  const { error } = await client
+    .from('match_deck_requests')
+    .upsert({
+      user_id: userId,
+      filters_key: buildDeckFiltersKey(filters),
+      filters,
+      requested_at: new Date().toISOString()
+    }, {
+      onConflict: 'user_id'
+    });
+
+  if (error) {
+    console.warn('[DECK] Failed to request match deck:', error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Mark a user's deck stale and queue a rebuild (best-effort). Works with both user-scoped and
+ * service-role clients via the invalidate_match_deck RPC.
+ */
+export async function invalidateMatchDeck(client: SupabaseClient, userId: string): Promise<boolean> {
+  try {
+    const { data, error } = await client.rpc('invalidate_match_deck', { p_user_id: userId });
+    if (error) {
+      console.warn('[DECK] Failed to invalidate match deck:', error.message);
+      return false;
+    }
+    return data === true;
+  } catch (error) {
+    console.warn('[DECK] Failed to invalidate match deck:', error);
+    return false;
+  }
+}
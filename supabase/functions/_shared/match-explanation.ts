@@ -0,0 +1,173 @@
+/**
+ * Match Ranking Explanation
+ *
+ * Builds the per-candidate breakdown returned by
+ * get-potential-matches-optimized when an admin requests `explain=true`, so
+ * product and support can see why someone was shown and in what order.
+ *
+ * Decks are ordered as:
+ *   not shadow-deprioritised (swipe fraud flag) > super liked the viewer >
+ *   premium member > fewest preference misses > two-way score
+ *   (compatibility x mutual fit) > distance (closest first) > recency
+ * The breakdown mirrors that order and the astro/questionnaire blend of the
+ * scoring profile the candidate was scored with (the version stored with the
+ * deck score, not the one active for the request).
+ */
+
+import { explainMatchPriorityScore, gradeToScore } from './compatibility-orchestrator.ts';
+import { ScoringProfile, DEFAULT_SCORING_PROFILE } from './scoring-profile.ts';
+
+/** Ranking keys in the order the deck applies them */
+export const RANKING_ORDER = [
+  'shadow_deprioritized',
+  'super_liked_viewer',
+  'premium_user',
+  'preference_misses',
+  'two_way_score',
+  'distance_km',
+  'recency'
+] as const;
+
+interface ScoreComponent {
+  score: number | null;
+  grade: string;
+  weight: number;
+  weighted_score: number | null;
+}
+
+interface RankingAdjustment {
+  type: string;
+  effect: string;
+}
+
+export interface RankingExplanation {
+  position: number;
+  compatibility_score: number;
+  priority_score: number;
+  scoring_profile_version: number;
+  astrological: ScoreComponent;
+  questionnaire: ScoreComponent;
+  mutual_fit: {
+    two_way_score: number | null;
+    preference_fit: number | null;
+    similar_like_rate: number | null;
+    unmet_preferences: string[];
+  };
+  distance: {
+    km: number | null;
+    effect: string;
+  };
+  recency: {
+    last_active: string | null;
+    hours_since_active: number | null;
+  };
+  boosts: RankingAdjustment[];
+  penalties: RankingAdjustment[];
+  ranking_order: readonly string[];
+}
+
+function toScoreComponent(score: unknown, grade: unknown, weight: number): ScoreComponent {
+  const normalizedGrade = typeof grade === 'string' ? grade : 'N/A';
+  const numericScore = typeof score === 'number'
+    ? score
+    : normalizedGrade !== 'N/A' ? gradeToScore(normalizedGrade) : null;
+
+  return {
+    score: numericScore,
+    grade: normalizedGrade,
+    weight,
+    weighted_score: numericScore !== null ? Math.round(numericScore * weight * 10) / 10 : null
+  };
+}
+
+/**
+ * Explain a single deck candidate. `position` is the candidate's index in the
+ * viewer's deck (0 = shown first). `profile` should be the scoring profile of
+ * `candidate.scoring_profile_version`; `candidate.shadow_deprioritized` is
+ * the candidate's swipe fraud flag, which the deck doesn't store.
+ */
+export function buildRankingExplanation(
+  candidate: any,
+  position: number,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): RankingExplanation {
+  const components = candidate.score_components ?? null;
+
+  const astrological = toScoreComponent(
+    components?.astrological_score,
+    components?.astrological_grade,
+    profile.astrologicalWeight
+  );
+  const questionnaire = toScoreComponent(
+    components?.questionnaire_score,
+    components?.questionnaire_grade,
+    profile.questionnaireWeight
+  );
+  const priority = explainMatchPriorityScore(astrological.grade, questionnaire.grade, profile);
+
+  const boosts: RankingAdjustment[] = [];
+  if (candidate.super_liked_viewer) {
+    boosts.push({ type: 'super_liked_viewer', effect: 'Ranked ahead of candidates who did not super like you; dealbreakers and swipe fraud deprioritisation still apply' });
+  }
+  if (candidate.premium_user) {
+    boosts.push({ type: 'premium_user', effect: 'Ranked ahead of non-premium candidates' });
+  }
+
+  const penalties: RankingAdjustment[] = [];
+  if (candidate.shadow_deprioritized) {
+    penalties.push({ type: 'shadow_deprioritized', effect: 'Ranked after all candidates not flagged for swipe fraud' });
+  }
+  if (!components) {
+    penalties.push({ type: 'score_unavailable', effect: 'Compatibility defaulted to 50' });
+  }
+
+  for (const filter of candidate.preference_misses ?? []) {
+    penalties.push({ type: `outside_${filter}_preference`, effect: 'Ranked after candidates within your preferences' });
+  }
+
+  const mutualFit = candidate.mutual_fit ?? null;
+  if (!mutualFit) {
+    penalties.push({ type: 'mutual_fit_unavailable', effect: 'Ranked by compatibility only' });
+  } else if (mutualFit.unmetPreferences.length > 0) {
+    penalties.push({
+      type: 'outside_candidate_preferences',
+      effect: `Viewer misses the candidate's ${mutualFit.unmetPreferences.join(', ')} preference`
+    });
+  }
+
+  const distanceKm = typeof candidate.distance_km === 'number' ? candidate.distance_km : null;
+  if (distanceKm === null) {
+    penalties.push({ type: 'no_location', effect: 'Ranked after candidates with a known distance' });
+  }
+
+  const lastActive = candidate.last_active ?? null;
+  const hoursSinceActive = lastActive
+    ? Math.max(0, Math.floor((Date.now() - new Date(lastActive).getTime()) / (1000 * 60 * 60)))
+    : null;
+
+  return {
+    position,
+    compatibility_score: candidate.compatibility_score,
+    priority_score: priority.priorityScore,
+    scoring_profile_version: candidate.scoring_profile_version ?? profile.version,
+    astrological,
+    questionnaire,
+    mutual_fit: {
+      two_way_score: mutualFit?.two_way_score ?? null,
+      preference_fit: mutualFit?.preferenceFit ?? null,
+      similar_like_rate: mutualFit?.similarLikeRate ?? null,
+      unmet_preferences: mutualFit?.unmetPreferences ?? []
+    },
+    distance: {
+      km: distanceKm,
+      effect: distanceKm !== null ? 'Closer candidates rank higher at equal score' : 'Unknown distance'
+    },
+    recency: {
+      last_active: lastActive,
+      hours_since_active: hoursSinceActive
+    },
+    boosts,
+    penalties,
+    ranking_order: RANKING_ORDER
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Message Events
+ *
+ * Realtime broadcasts for changes to existing messages (edits, unsends,
+ * reactions). Row changes already reach subscribers through the realtime
+ * publication; the broadcast gives clients a compact, typed event on the
+ * conversation channel so the other participant can update the bubble
+ * without refetching.
+ *
+ * The channel is private: realtime.messages only lets the two participants
+ * join it (20251110_message_edit_unsend.sql) and only the service role can
+ * send on it, so events are published with the admin client.
+ */
+
+import { getSupabaseAdmin } from './supabaseAdmin.ts';
+import { logger } from './logger.ts';
+
+export type MessageEventType = 'message_edited' | 'message_unsent' | 'message_reaction';
+
+/** Realtime channel name for a conversation (join with `config: { private: true }`) */
+export function conversationChannel(conversationId: string): string {
+  return `conversation:${conversationId}`;
+}
+
+/**
+ * Broadcast a message event to everyone subscribed to the conversation.
+ * Never throws; delivery is best-effort.
+ */
+export async function broadcastMessageEvent(
+  conversationId: string,
+  event: MessageEventType,
+  payload: Record<string, unknown>
+): Promise<void> {
+  try {
+    await getSupabaseAdmin()
+      .channel(conversationChannel(conversationId), { config: { private: true } })
+      .send({
+        type: 'broadcast',
+        event,
+        payload: {
+          conversation_id: conversationId,
+          ...payload,
+          timestamp: new Date().toISOString()
+        }
+      });
+  } catch (error) {
+    logger.warn('Failed to broadcast message event', {
+      conversationId,
+      event,
+      error: (error as Error).message
+    });
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Message Push Notifications
+ *
+ * Push for a newly delivered message, honouring the recipient's notification
+ * preferences (do-not-disturb, per-conversation mute, message notifications,
+ * push and sound toggles). Used by send-message for immediate sends and by
+ * deliver-scheduled-messages when a scheduled message goes out.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sendPushNotification } from './sendPushNotification.ts';
+import { getSupabaseAdmin } from './supabaseAdmin.ts';
+import { logger } from './logger.ts';
+
+export interface MessagePushInput {
+  conversationId: string;
+  senderId: string;
+  messageId: string;
+  /** Notification body text; truncated to 100 characters */
+  preview: string;
+  requestId?: string;
+}
+
+/**
+ * Notify the other participant of a conversation about a new message.
+ * Never throws; failures are logged and the message stays sent.
+ */
+export async function notifyMessageRecipient(
+  client: SupabaseClient,
+  input: MessagePushInput
+): Promise<void> {
+  const { conversationId, senderId, messageId, preview, requestId } = input;
+
+  try {
+    const { data: conversationData, error: convoError } = await client
+      .from('conversations')
+      .select('user1_id, user2_id')
+      .eq('id', conversationId)
+      .single();
+
+    if (convoError) throw convoError;
+    if (!conversationData) throw new Error('Conversation not found for notification.');
+
+    const recipientId = conversationData.user1_id === senderId ? conversationData.user2_id : conversationData.user1_id;
+
+    if (!recipientId) {
+      return;
+    }
+
+    // Check if recipient should receive notifications using unified settings system
+    // (service role only: it reads the recipient's settings)
+    const { data: shouldNotify, error: notificationCheckError } = await getSupabaseAdmin()
+      .rpc('should_send_notification', {
+        target_user_id: recipientId,
+        notification_type: 'message',
+        conversation_id: conversationId
+      });
+
+    if (notificationCheckError) {
+      logger.warn('Failed to check notification preferences, defaulting to enabled', {
+        recipientId,
+        error: notificationCheckError.message,
+        requestId
+      });
+    }
+
+    // Only proceed if notifications are enabled for this user
+    if (shouldNotify === false) {
+      logger.info('Message notification blocked by Do Not Disturb, mute or disabled notifications', {
+        recipientId,
+        senderId,
+        conversationId,
+        shouldNotify,
+        requestId
+      });
+      return;
+    }
+
+    const { data: senderProfile, error: senderProfileError } = await client
+      .from('profiles')
+      .select('display_name')
+      .eq('id', senderId)
+      .single();
+
+    // Get recipient's notification preferences
+    const { data: recipientNotificationPrefs } = await client
+      .rpc('get_user_notification_preferences', { target_user_id: recipientId });
+
+    const { data: recipientProfile, error: recipientProfileError } = await client
+      .from('profiles')
+      .select('push_token')
+      .eq('id', recipientId)
+      .single();
+
+    if (senderProfileError || recipientProfileError) {
+      logger.error('Error fetching profiles for message notification', {
+        senderError: senderProfileError?.message,
+        recipientError: recipientProfileError?.message,
+        requestId
+      });
+    } else if (recipientProfile?.push_token &&
+               recipientNotificationPrefs?.message_notifications_enabled &&
+               recipientNotificationPrefs?.message_notifications_push) {
+
+      // Determine notification sound based on user preferences
+      const notificationOptions = {
+        type: 'new_message',
+        conversationId,
+        messageId,
+        sound: recipientNotificationPrefs?.message_notifications_sound ? 'default' : undefined
+      };
+
+      await sendPushNotification(
+        recipientProfile.push_token,
+        `New message from ${senderProfile?.display_name || 'Someone'}`,
+        preview.substring(0, 100),
+        notificationOptions
+      );
+
+      logger.info('Message notification sent successfully', {
+        recipientId,
+        senderId,
+        conversationId,
+        notificationEnabled: true,
+        pushEnabled: recipientNotificationPrefs?.message_notifications_push,
+        soundEnabled: recipientNotificationPrefs?.message_notifications_sound,
+        requestId
+      });
+    } else {
+      logger.info('Message notification skipped due to user preferences', {
+        recipientId,
+        senderId,
+        conversationId,
+        hasPushToken: !!recipientProfile?.push_token,
+        notificationEnabled: recipientNotificationPrefs?.message_notifications_enabled,
+        pushEnabled: recipientNotificationPrefs?.message_notifications_push,
+        requestId
+      });
+    }
+  } catch (notificationError: any) {
+    logger.error('Failed to process new message notification', {
+      error: notificationError.message,
+      stack: notificationError.stack,
+      conversationId,
+      senderId,
+      requestId
+    });
+  }
+}
@@ -3,6 +3,8 @@
  * Implements the pseudocode specifications exactly
  */
 
+import { ScoringProfile, DEFAULT_SCORING_PROFILE, gradeForScore } from './scoring-profile.ts';
+
 // Constants matching pseudocode specifications
 const QUESTIONNAIRE_GROUPS = {
   G1: ["Q1", "Q2", "Q3", "Q4", "Q5"], // Communication, Expectations & Conflict Resolution
@@ -12,6 +14,23 @@ const QUESTIONNAIRE_GROUPS = {
   G5: ["Q21", "Q22", "Q23", "Q24", "Q25"]  // Relationship Dynamics, Growth & Outlook
 };
 
+/** What each question group is about, for user-facing copy */
+export const QUESTIONNAIRE_GROUP_THEMES: Record<string, string> = {
+  G1: 'communication and conflict',
+  G2: 'emotional connection and affection',
+  G3: 'shared life and the future',
+  G4: 'independence and personal beliefs',
+  G5: 'growth and relationship outlook'
+};
+
+/** A question both people answered on the same side of neutral */
+export interface SharedAnswer {
+  questionID: string;
+  group: string;
+  stance: 'agree' | 'disagree';
+  strength: number; // 1 (agree/disagree) .. 2 (both strongly)
+}
+
 const LIKERT_MAX_SCORE = 5.0;
 const RAW_QUESTION_MAX_SCORE = 4.0; // (LIKERT_MAX_SCORE - 1)
 
@@ -30,15 +49,11 @@ function responseToScore(response: string): number {
 }
 
 /**
- * Get letter grade from 0-100 score
+ * Get letter grade from 0-100 score (cutoffs from the scoring profile)
  */
-function getLetterGrade(score: number): string {
+function getLetterGrade(score: number, profile: ScoringProfile): string {
   const normalizedScore = Math.max(0.0, Math.min(score, 100.0));
-  if (normalizedScore >= 90.0) return "A";
-  else if (normalizedScore >= 80.0) return "B";
-  else if (normalizedScore >= 70.0) return "C";
-  else if (normalizedScore >= 60.0) return "D";
-  else return "F";
+  return gradeForScore(normalizedScore, profile);
 }
 
 /**
@@ -72,7 +87,8 @@ function mapQuestionnaireGroupToPseudocode(group: string): string {
  */
 export function calculateQuestionnaireCompatibility(
   answersA: any[], 
-  answersB: any[]
+  answersB: any[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): { groupScores: { [groupID: string]: number }; overallGrade: string } {
   
   const groupRawScores: { [groupID: string]: number } = { G1: 0.0, G2: 0.0, G3: 0.0, G4: 0.0, G5: 0.0 };
@@ -154,7 +170,7 @@ export function calculateQuestionnaireCompatibility(
     overallNormalizedScore = overallNormalizedScoreSum / numGroupsScored;
   }
   
-  const overallGrade = getLetterGrade(overallNormalizedScore);
+  const overallGrade = getLetterGrade(overallNormalizedScore, profile);
   
   return { groupScores: normalizedGroupScores, overallGrade };
 }
@@ -198,4 +214,39 @@ export function standardizeQuestionnaireResponses(responses: any[]): { [question
   });
   
   return standardized;
-}
\ No newline at end of file
+}
+
+/**
+ * Questions both people answered on the same side (both agree or both
+ * disagree), strongest shared conviction first, then question order.
+ */
+export function findSharedAnswers(answersA: any[], answersB: any[]): SharedAnswer[] {
+  if (!Array.isArray(answersA) || !Array.isArray(answersB)) return [];
+
+  const standardA = standardizeQuestionnaireResponses(answersA);
+  const standardB = standardizeQuestionnaireResponses(answersB);
+  const shared: SharedAnswer[] = [];
+
+  for (const [groupID, questionList] of Object.entries(QUESTIONNAIRE_GROUPS)) {
+    for (const questionID of questionList) {
+      const answerA = standardA[questionID];
+      const answerB = standardB[questionID];
+      if (answerA === undefined || answerB === undefined) continue;
+
+      const sideA = Math.sign(answerA - 3);
+      const sideB = Math.sign(answerB - 3);
+      if (sideA === 0 || sideA !== sideB) continue;
+
+      shared.push({
+        questionID,
+        group: groupID,
+        stance: sideA > 0 ? 'agree' : 'disagree',
+        strength: Math.min(Math.abs(answerA - 3), Math.abs(answerB - 3))
+      });
+    }
+  }
+
+  return shared.sort((x, y) =>
+    y.strength - x.strength || Number(x.questionID.slice(1)) - Number(y.questionID.slice(1))
+  );
+}
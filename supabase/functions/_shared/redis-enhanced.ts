@@ -531,6 +531,7 @@ export const StellarCacheKeys = {
     `messages:${conversationId}:page:${page}`,
   
   userConversations: (userId: string) => `user-conversations:${userId}`,
+  linkPreview: (urlHash: string) => `link-preview:${urlHash}`,
   
   subscription: (userId: string) => `subscription:${userId}`,
   subscriptionFeatures: (userId: string) => `features:${userId}`,
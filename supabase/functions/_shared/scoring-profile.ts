@@ -0,0 +1,127 @@
+/**
+ * Scoring Profile
+ *
+ * Runtime access to the active, versioned matching weights stored in
+ * scoring_profiles (blend ratio, per-body weights, aspect orbs and grade
+ * cutoffs). DEFAULT_SCORING_PROFILE mirrors version 1 and is used whenever the
+ * table cannot be read, so scoring never fails because of a missing profile.
+ *
+ * The feed's astro and questionnaire components come from the SQL scorer
+ * (calculate_compatibility_scores), which doesn't read this profile; only the
+ * blend ratio applies to them. Body weights, orbs and cutoffs drive the
+ * TypeScript synastry in astronomical-calculations.ts.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface ScoringProfile {
+  version: number;
+  astrologicalWeight: number;
+  questionnaireWeight: number;
+  bodyWeights: Record<string, number>;
+  pairWeights: Record<string, number>;
+  aspectOrbs: Record<string, number>;
+  gradeCutoffs: { A: number; B: number; C: number; D: number };
+}
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  version: 1,
+  astrologicalWeight: 0.4,
+  questionnaireWeight: 0.6,
+  bodyWeights: { Sun: 1.5, Moon: 1.5, Ascendant: 1.5, Mercury: 1.0, Venus: 1.0, Mars: 1.0 },
+  pairWeights: { 'Moon-Sun': 2.0, 'Mars-Venus': 1.7 },
+  aspectOrbs: { CONJUNCTION: 8.0, OPPOSITION: 8.0, TRINE: 8.0, SQUARE: 8.0, SEXTILE: 6.0, QUINCUNX: 3.0 },
+  gradeCutoffs: { A: 90, B: 80, C: 70, D: 60 }
+};
+
+/** How long a loaded profile is reused before re-reading the table */
+const PROFILE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cachedProfile: { profile: ScoringProfile; loadedAt: number } | null = null;
+
+// Specific versions never change once written, so they are cached for good
+const versionCache = new Map<number, ScoringProfile>();
+
+function fromRow(row: any): ScoringProfile {
+  return {
+    version: row.version,
+    astrologicalWeight: Number(row.astrological_weight),
+    questionnaireWeight: Number(row.questionnaire_weight),
+    bodyWeights: { ...DEFAULT_SCORING_PROFILE.bodyWeights, ...(row.body_weights || {}) },
+    pairWeights: row.pair_weights || {},
+    aspectOrbs: { ...DEFAULT_SCORING_PROFILE.aspectOrbs, ...(row.aspect_orbs || {}) },
+    gradeCutoffs: { ...DEFAULT_SCORING_PROFILE.gradeCutoffs, ...(row.grade_cutoffs || {}) }
+  };
+}
+
+/**
+ * Load the active scoring profile (cached per isolate for a few minutes).
+ * Falls back to DEFAULT_SCORING_PROFILE on any error.
+ */
+export async function loadActiveScoringProfile(client: SupabaseClient): Promise<ScoringProfile> {
+  if (cachedProfile && Date.now() - cachedProfile.loadedAt < PROFILE_CACHE_TTL_MS) {
+    return cachedProfile.profile;
+  }
+
+  try {
+    const { data, error } = await client
+      .from('scoring_profiles')
+      .select('*')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) {
+        console.warn('[SCORING] Failed to load active scoring profile:', error.message);
+      }
+      return DEFAULT_SCORING_PROFILE;
+    }
+
+    const profile = fromRow(data);
+    cachedProfile = { profile, loadedAt: Date.now() };
+    return profile;
+  } catch (error) {
+    console.warn('[SCORING] Failed to load active scoring profile:', error);
+    return DEFAULT_SCORING_PROFILE;
+  }
+}
+
+/**
+ * Load a specific profile version (e.g. an experiment override), falling
+ * back to the active profile when no version is given or it can't be read.
+ */
+export async function loadScoringProfile(client: SupabaseClient, version?: number): Promise<ScoringProfile> {
+  if (version == null) {
+    return loadActiveScoringProfile(client);
+  }
+
+  const cached = versionCache.get(version);
+  if (cached) return cached;
+
+  const { data, error } = await client
+    .from('scoring_profiles')
+    .select('*')
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error || !data) {
+    console.warn('[SCORING] Scoring profile version not available, using active profile:', version);
+    return loadActiveScoringProfile(client);
+  }
+
+  const profile = fromRow(data);
+  versionCache.set(version, profile);
+  return profile;
+}
+
+/**
+ * Letter grade for a 0-100 score using the profile's cutoffs
+ */
+export function gradeForScore(score: number, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): string {
+  const { A, B, C, D } = profile.gradeCutoffs;
+  if (score >= A) return 'A';
+  if (score >= B) return 'B';
+  if (score >= C) return 'C';
+  if (score >= D) return 'D';
+  return 'F';
+}
@@ -62,6 +62,17 @@ interface SecureTokenPayload {
   expiresAt: number;
   permissions?: string[];
   sessionData?: Record<string, any>;
+  purpose?: string; // Set on stateless tokens, see generateSignedToken
+}
+
+// Stateless Token Verification Result
+export interface SignedTokenVerification {
+  valid: boolean;
+  expired: boolean;
+  userId?: string;
+  tokenId?: string;
+  sessionData?: Record<string, any>;
+  error?: string;
 }
 
 // Audit Log Entry
@@ -82,6 +93,7 @@ export class SecureTokenManagerV2 {
   private auditLog: AuditLogEntry[] = [];
   private encryptionKey?: CryptoKey;
   private signingKey?: CryptoKey;
+  private keysReady: Promise<void>;
 
   constructor(config: Partial<TokenSecurityConfig> = {}) {
     this.config = {
@@ -96,7 +108,7 @@ export class SecureTokenManagerV2 {
     };
 
     // Initialize encryption keys
-    this.initializeKeys();
+    this.keysReady = this.initializeKeys();
   }
 
   /**
@@ -223,10 +235,80 @@ export class SecureTokenManagerV2 {
     return { token, refreshToken, metadata };
   }
 
+  /**
+   * Generate a long-lived stateless token for links that must work across
+   * function instances (calendar feeds, emailed links). Nothing is kept in
+   * memory: validity is the signature, expiry and purpose, so callers that
+   * need revocation store tokenId and compare it on use.
+   */
+  async generateSignedToken(
+    userId: string,
+    options: {
+      purpose: string;
+      expiresInMs: number;
+      sessionData?: Record<string, any>;
+    }
+  ): Promise<{ token: string; tokenId: string; expiresAt: number }> {
+    const tokenId = this.generateSecureTokenId();
+    const now = Date.now();
+    const expiresAt = now + options.expiresInMs;
+
+    const token = await this.encryptAndSignToken({
+      userId,
+      tokenId,
+      issuedAt: now,
+      expiresAt,
+      sessionData: options.sessionData,
+      purpose: options.purpose
+    });
+
+    this.logAudit({
+      timestamp: now,
+      action: `signed_token_generated:${options.purpose}`,
+      userId,
+      tokenId,
+      result: 'success'
+    });
+
+    return { token, tokenId, expiresAt };
+  }
+
+  /**
+   * Verify a token from generateSignedToken for the given purpose
+   */
+  async verifySignedToken(token: string, purpose: string): Promise<SignedTokenVerification> {
+    if (!token.startsWith('STV2.')) {
+      return { valid: false, expired: false, error: 'Invalid token format' };
+    }
+
+    const payload = await this.decryptAndVerifyToken(token);
+    if (!payload) {
+      return { valid: false, expired: false, error: 'Token decryption or verification failed' };
+    }
+
+    // A session token must never open a link, and vice versa
+    if (payload.purpose !== purpose) {
+      return { valid: false, expired: false, error: 'Token purpose mismatch' };
+    }
+
+    if (payload.expiresAt < Date.now()) {
+      return { valid: false, expired: true, userId: payload.userId, tokenId: payload.tokenId, error: 'Token has expired' };
+    }
+
+    return {
+      valid: true,
+      expired: false,
+      userId: payload.userId,
+      tokenId: payload.tokenId,
+      sessionData: payload.sessionData
+    };
+  }
+
   /**
    * Encrypt and sign token using AES-256-GCM
    */
   private async encryptAndSignToken(payload: SecureTokenPayload): Promise<string> {
+    await this.keysReady;
     if (!this.encryptionKey || !this.signingKey) {
       throw new Error('Encryption keys not initialized');
     }
@@ -316,6 +398,12 @@ export class SecureTokenManagerV2 {
         return result;
       }
 
+      // Stateless tokens are verified with verifySignedToken only
+      if (payload.purpose) {
+        result.errors.push('Token purpose mismatch');
+        return result;
+      }
+
       // Get metadata
       const metadata = this.activeTokens.get(payload.tokenId);
       if (!metadata) {
@@ -366,6 +454,7 @@ export class SecureTokenManagerV2 {
    * Decrypt and verify token
    */
   private async decryptAndVerifyToken(token: string): Promise<SecureTokenPayload | null> {
+    await this.keysReady;
     if (!this.encryptionKey || !this.signingKey) {
       throw new Error('Encryption keys not initialized');
     }
@@ -603,6 +692,17 @@ export async function validateSecureToken(
   return await getTokenManager().validateToken(token, context);
 }
 
+export async function generateSignedToken(
+  userId: string,
+  options: { purpose: string; expiresInMs: number; sessionData?: Record<string, any> }
+): Promise<{ token: string; tokenId: string; expiresAt: number }> {
+  return await getTokenManager().generateSignedToken(userId, options);
+}
+
+export async function verifySignedToken(token: string, purpose: string): Promise<SignedTokenVerification> {
+  return await getTokenManager().verifySignedToken(token, purpose);
+}
+
 export async function revokeSecureToken(tokenId: string, reason?: string): Promise<boolean> {
   return await getTokenManager().revokeToken(tokenId, reason);
 }
\ No newline at end of file
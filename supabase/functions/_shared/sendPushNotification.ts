@@ -1,35 +1,45 @@
 // deno-lint-ignore-file no-explicit-any
 // Helper function to send a push notification using Expo's push service.
-// Assumes the pushToken is a valid ExpoPushToken.
+// Assumes the pushToken is a valid ExpoPushToken. Resolves to whether Expo
+// accepted the push; failures are logged, never thrown.
 
 interface PushNotificationData {
   type: string;
   [key: string]: any; // Allow other custom data properties
 }
 
+// Delivery hints passed through to Expo. Low-priority pushes (e.g. reactions)
+// use priority 'normal' and no sound so they don't wake the device.
+export interface PushDeliveryOptions {
+  priority?: 'default' | 'normal' | 'high';
+  silent?: boolean;
+}
+
 export async function sendPushNotification(
   pushToken: string,
   title: string,
   body: string,
   data?: PushNotificationData,
-): Promise<void> {
+  options: PushDeliveryOptions = {},
+): Promise<boolean> {
   if (!pushToken) {
     console.warn('No push token provided, skipping notification.');
-    return;
+    return false;
   }
 
   // Validate ExpoPushToken format (basic check)
   if (!pushToken.startsWith('ExponentPushToken[') && !pushToken.startsWith('ExpoPushToken[')) {
     console.warn(`Invalid push token format: ${pushToken}. Skipping notification.`);
-    return;
+    return false;
   }
 
   const message = {
     to: pushToken,
-    sound: 'default' as const, // Ensure 'default' is treated as a literal type
+    sound: options.silent ? null : 'default' as const, // Ensure 'default' is treated as a literal type
     title: title,
     body: body,
     data: data || {},
+    ...(options.priority ? { priority: options.priority } : {}),
     _displayInForeground: true, // Optional: to display notification when app is in foreground (Expo Go specific behavior)
   };
 
@@ -69,9 +79,11 @@ export async function sendPushNotification(
     // Example error: {"errors": [{"code": "VALIDATION_ERROR", "message": "\"to\" must be a valid ExponentPushToken."}]}
     
     const responseData = JSON.parse(responseText); // Assuming responseText is valid JSON if response.ok
+    let accepted = true;
     if (responseData.data && Array.isArray(responseData.data)) {
       responseData.data.forEach((ticket: any) => {
         if (ticket.status === 'error') {
+          accepted = false;
           console.error(`Error in push notification ticket for token ${pushToken}:`, ticket);
           // Potentially handle specific errors, e.g., 'DeviceNotRegistered' to remove the token from DB
         } else if (ticket.status === 'ok') {
@@ -79,12 +91,14 @@ export async function sendPushNotification(
         }
       });
     }
+    return accepted;
 
 
   } catch (error) {
     console.error(`Error sending push notification to ${pushToken}:`, error);
     // Do not let notification failure block the main Edge Function logic,
     // but log it thoroughly.
+    return false;
   }
 }
 
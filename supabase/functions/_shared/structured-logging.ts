@@ -21,7 +21,8 @@ export enum LogCategory {
   WEBHOOK = 'webhook',
   SECURITY = 'security',
   PERFORMANCE = 'performance',
-  USER_ACTIVITY = 'user_activity'
+  USER_ACTIVITY = 'user_activity',
+  CRON = 'cron'
 }
 
 interface LogContext {
@@ -0,0 +1,121 @@
+/**
+ * Swipe Fraud Detector
+ *
+ * Behavioural bot / abuse detection for record-swipe. check_swipe_rate_limit
+ * only caps volume; evaluate_swipe_behavior() looks at how the account swipes
+ * (right-swipe ratio, inter-swipe timing, device fingerprints shared across
+ * accounts) and flags it in swipe_fraud_flags at a risk score of 60+. The
+ * shared-device signal is weighted as corroboration only, and once an admin
+ * clears a flag only behaviour after the review can raise it again.
+ *
+ * Flags are reported to security-monitoring (and so to
+ * get_user_risk_assessment) and shadow-deprioritise the account in other
+ * users' decks. The swiper is never told: record-swipe responds as usual.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { logSecurityEvent, SecurityEventType, SecuritySeverity } from './security-monitoring.ts';
+
+export interface SwipeFraudEvaluation {
+  riskScore: number;
+  signals: string[];
+  flagged: boolean;
+  newlyFlagged: boolean;
+  details: Record<string, any>;
+}
+
+/**
+ * SHA-256 of what the server sees of the device: client IP, user agent and
+ * accept-language. Nothing client-declared is used, so a bot can't opt out
+ * of the shared-device check by omitting or rotating an identifier. Only the
+ * hash is stored; returns null when the request carries none of these.
+ */
+export async function deriveDeviceFingerprint(req: Request): Promise<string | null> {
+  const ip = (req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || '').split(',')[0].trim();
+  const userAgent = (req.headers.get('User-Agent') || '').trim();
+  const language = (req.headers.get('Accept-Language') || '').trim();
+  if (!ip && !userAgent) return null;
+
+  const raw = `${ip}|${userAgent}|${language}`;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(raw));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Run the detector for a user after a swipe was recorded. evaluate_swipe_behavior
+ * is service-role only, so `client` must be the service client. Never throws;
+ * a failed evaluation is treated as "no signals".
+ */
+export async function evaluateSwipeBehavior(
+  client: SupabaseClient,
+  userId: string,
+  fingerprintHash: string | null
+): Promise<SwipeFraudEvaluation | null> {
+  try {
+    const { data, error } = await client.rpc('evaluate_swipe_behavior', {
+      p_user_id: userId,
+      p_fingerprint_hash: fingerprintHash
+    });
+
+    if (error || !data) {
+      if (error) {
+        console.warn('[SWIPE_FRAUD] Evaluation failed:', error.message);
+      }
+      return null;
+    }
+
+    return {
+      riskScore: data.risk_score ?? 0,
+      signals: data.signals ?? [],
+      flagged: data.flagged === true,
+      newlyFlagged: data.newly_flagged === true,
+      details: data.details ?? {}
+    };
+  } catch (error) {
+    console.warn('[SWIPE_FRAUD] Evaluation failed:', error);
+    return null;
+  }
+}
+
+function severityForScore(riskScore: number): SecuritySeverity {
+  if (riskScore >= 90) return SecuritySeverity.CRITICAL;
+  if (riskScore >= 60) return SecuritySeverity.HIGH;
+  if (riskScore >= 35) return SecuritySeverity.MEDIUM;
+  return SecuritySeverity.LOW;
+}
+
+/**
+ * Send any detector signals to security-monitoring. Clean evaluations are
+ * not logged; repeat evaluations of an already-flagged account are logged
+ * as the ongoing activity of a flagged account.
+ */
+export async function reportSwipeFraud(
+  evaluation: SwipeFraudEvaluation,
+  context: { userId: string; ip?: string; userAgent?: string; requestId?: string }
+): Promise<void> {
+  if (evaluation.signals.length === 0) return;
+
+  await logSecurityEvent(
+    SecurityEventType.BOT_DETECTION,
+    severityForScore(evaluation.riskScore),
+    {
+      endpoint: 'record-swipe',
+      detector: 'swipe_behavior',
+      risk_score: evaluation.riskScore,
+      signals: evaluation.signals,
+      flagged: evaluation.flagged,
+      newly_flagged: evaluation.newlyFlagged,
+      action: evaluation.flagged ? 'shadow_deprioritized' : 'monitor',
+      ...evaluation.details
+    },
+    {
+      userId: context.userId,
+      ip: context.ip,
+      userAgent: context.userAgent,
+      endpoint: 'record-swipe',
+      requestId: context.requestId
+    }
+  );
+}
@@ -17,6 +17,7 @@ import { calculateAstrologicalCompatibility } from './astronomical-calculations.
 import { calculateQuestionnaireCompatibility } from './questionnaire-compatibility.ts';
 import { createUserProfileFromDbData, findPotentialMatches, calculateCombinedScore, gradeToScore } from './compatibility-orchestrator.ts';
 import { supabaseAdmin } from './supabaseAdmin.ts';
+import { loadActiveScoringProfile, gradeForScore, ScoringProfile } from './scoring-profile.ts';
 
 // Performance monitoring interfaces
 interface PerformanceMetrics {
@@ -163,10 +164,11 @@ export class UltraHighPerformanceMatchingEngine {
 
       this.cacheStats.misses++;
 
-      // Get both user profiles
-      const [userProfile, candidateProfile] = await Promise.all([
+      // Get both user profiles and the active scoring weights
+      const [userProfile, candidateProfile, scoringProfile] = await Promise.all([
         this.getCachedUserProfile(user_id),
-        this.getCachedUserProfile(candidate_id)
+        this.getCachedUserProfile(candidate_id),
+        loadActiveScoringProfile(supabaseAdmin)
       ]);
 
       if (!userProfile || !candidateProfile) {
@@ -174,7 +176,7 @@ export class UltraHighPerformanceMatchingEngine {
       }
 
       // Calculate compatibility using orchestrator
-      const matchResult = await this.calculateCompatibilityCore(userProfile, candidateProfile);
+      const matchResult = await this.calculateCompatibilityCore(userProfile, candidateProfile, scoringProfile);
       
       // Cache the result
       if (use_cache) {
@@ -193,12 +195,14 @@ export class UltraHighPerformanceMatchingEngine {
         questionnaire_grade: matchResult.questionnaireGrade,
         combined_score: calculateCombinedScore(
           matchResult.astrologicalScore, 
-          gradeToScore(matchResult.questionnaireGrade)
+          gradeToScore(matchResult.questionnaireGrade),
+          scoringProfile
         ),
         combined_grade: this.scoreToGrade(calculateCombinedScore(
           matchResult.astrologicalScore, 
-          gradeToScore(matchResult.questionnaireGrade)
-        )),
+          gradeToScore(matchResult.questionnaireGrade),
+          scoringProfile
+        ), scoringProfile),
         meets_threshold: matchResult.meetsScoreThreshold,
         priority_score: matchResult.priorityScore,
         is_recommended: matchResult.isMatchRecommended,
@@ -281,9 +285,9 @@ export class UltraHighPerformanceMatchingEngine {
   /**
    * Core compatibility calculation using the orchestrator
    */
-  private async calculateCompatibilityCore(userProfile: any, candidateProfile: any): Promise<any> {
+  private async calculateCompatibilityCore(userProfile: any, candidateProfile: any, scoringProfile: ScoringProfile): Promise<any> {
     // Use the existing compatibility orchestrator for consistency
-    return findPotentialMatches(userProfile, [candidateProfile])[0];
+    return findPotentialMatches(userProfile, [candidateProfile], scoringProfile)[0];
   }
 
   /**
@@ -528,12 +532,8 @@ export class UltraHighPerformanceMatchingEngine {
   /**
    * Convert numerical score to letter grade
    */
-  private scoreToGrade(score: number): string {
-    if (score >= 90) return 'A';
-    if (score >= 80) return 'B';
-    if (score >= 70) return 'C';
-    if (score >= 60) return 'D';
-    return 'F';
+  private scoreToGrade(score: number, scoringProfile: ScoringProfile): string {
+    return gradeForScore(score, scoringProfile);
   }
 
   /**
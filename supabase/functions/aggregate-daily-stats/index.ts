@@ -109,6 +109,41 @@ serve(async (req: Request) => {
       throw insertResponse.error;
     }
 
+    // Per-variant experiment rollup for today (one daily_metrics row per variant)
+    const experimentResponse = await supabase.rpc('aggregate_experiment_metrics', {
+      p_metric_date: today,
+    });
+    if (experimentResponse.error) {
+      throw experimentResponse.error;
+    }
+
+    const experimentRows = experimentResponse.data ?? [];
+    if (experimentRows.length > 0) {
+      const experimentUpsert = await supabase.from('daily_metrics').upsert(
+        experimentRows.map((row: any) => ({
+          metric_date: today,
+          metric_type: `experiment:${row.experiment_key}:${row.variant}`,
+          value: Number(row.exposed_users ?? 0),
+          metadata: {
+            experiment_key: row.experiment_key,
+            variant: row.variant,
+            swipes: Number(row.swipes ?? 0),
+            likes: Number(row.likes ?? 0),
+            matches: Number(row.matches ?? 0),
+            messages: Number(row.messages ?? 0),
+            like_rate: Number(row.like_rate ?? 0),
+            match_rate: Number(row.match_rate ?? 0),
+            messages_per_match: Number(row.messages_per_match ?? 0),
+          },
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: 'metric_date,metric_type' },
+      );
+      if (experimentUpsert.error) {
+        throw experimentUpsert.error;
+      }
+    }
+
     const result = {
       success: true,
       window_minutes: windowMinutes,
@@ -118,6 +153,7 @@ serve(async (req: Request) => {
         critical_errors: criticalErrors,
         match_rate_today: todaysMatchRate,
       },
+      experiment_variants: experimentRows.length,
     };
 
     logger.info('aggregate-daily-stats success', result);
@@ -0,0 +1,189 @@
+/**
+ * Build Match Decks Edge Function
+ *
+ * Scheduled to run every minute via Supabase cron job
+ * - Builds the decks queued in match_deck_requests: after a preference
+ *   change (invalidate_match_deck), when get-potential-matches-optimized
+ *   found no usable deck, and shortly before an active user's deck expires
+ * - Each build runs get_potential_matches_optimized, scores every candidate
+ *   and ranks by mutual fit (see _shared/match-deck.ts), so none of this
+ *   happens on a feed request
+ *
+ * claim_match_deck_requests leases each request to one run. A request is
+ * removed only once its deck is stored; a failed build is retried when the
+ * lease expires, and a request renewed during the build is built again.
+ *
+ * Prerequisites:
+ * - Configured as cron job in Supabase Dashboard
+ * - Schedule: Every minute (* * * * *)
+ */
+
+import { serve } from 'std/http/server.ts';
+import { createClient } from '@supabase/supabase-js';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import { generateMatchDeck, type DeckFilters } from '../_shared/match-deck.ts';
+import { logger, LogCategory, createRequestContext, createTimerContext } from '../_shared/structured-logging.ts';
+
+/** Decks built per run (each is ~60 scoring RPCs) */
+const BUILD_BATCH_SIZE = 10;
+
+interface DeckRequestRow {
+  user_id: string;
+  filters: DeckFilters;
+  requested_at: string;
+}
+
+serve(async (req: Request) => {
+  const timer = createTimerContext();
+  const requestContext = createRequestContext(req);
+
+  logger.info(LogCategory.CRON, 'Match deck build job started', {
+    ...requestContext,
+    function: 'build-match-decks',
+  });
+
+  const origin = req.headers.get('Origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Security headers
+  const securityHeaders = {
+    ...corsHeaders,
+    'X-Frame-Options': 'DENY',
+    'X-Content-Type-Options': 'nosniff',
+    'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: securityHeaders });
+  }
+
+  // Environment variables
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    logger.critical(LogCategory.CRON, 'Missing Supabase configuration', {
+      ...requestContext,
+      configurationError: true,
+    });
+    return new Response(
+      JSON.stringify({ error: 'Server configuration error' }),
+      {
+        headers: { ...securityHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+
+  // Initialize Supabase admin client (decks and mutual fit are service role only)
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const { data: claimData, error: claimError } = await supabase
+      .rpc('claim_match_deck_requests', { p_limit: BUILD_BATCH_SIZE });
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    const requests = (claimData || []) as DeckRequestRow[];
+    let builtCount = 0;
+    let failedCount = 0;
+
+    for (const request of requests) {
+      const { data: deck, error: buildError } = await generateMatchDeck(
+        supabase,
+        request.user_id,
+        request.filters || {}
+      );
+
+      if (buildError || !deck) {
+        failedCount++;
+        logger.warn(LogCategory.CRON, 'Match deck build failed', {
+          ...requestContext,
+          userId: request.user_id,
+          errorMessage: buildError?.message,
+        });
+        continue;
+      }
+
+      builtCount++;
+
+      // Leaves the request in place if it was renewed while building
+      const { error: completeError } = await supabase
+        .from('match_deck_requests')
+        .delete()
+        .eq('user_id', request.user_id)
+        .eq('requested_at', request.requested_at);
+
+      if (completeError) {
+        logger.error(LogCategory.CRON, 'Failed to complete match deck request', {
+          ...requestContext,
+          userId: request.user_id,
+          errorMessage: completeError.message,
+        });
+      }
+    }
+
+    logger.info(LogCategory.CRON, 'Match deck build job completed', {
+      ...requestContext,
+      function: 'build-match-decks',
+      duration: timer.getElapsed(),
+      claimedCount: requests.length,
+      builtCount,
+      failedCount,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        claimedCount: requests.length,
+        builtCount,
+        failedCount,
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        headers: { ...securityHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error: any) {
+    logger.critical(LogCategory.CRON, 'Match deck build job failed', {
+      ...requestContext,
+      function: 'build-match-decks',
+      duration: timer.getElapsed(),
+      errorMessage: error.message,
+      errorStack: error.stack,
+    }, error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Match deck build job failed',
+        details: error.message,
+      }),
+      {
+        headers: { ...securityHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
+
+/**
+ * DEPLOYMENT INSTRUCTIONS:
+ *
+ * 1. Deploy function:
+ *    supabase functions deploy build-match-decks
+ *
+ * 2. Configure cron job in Supabase Dashboard:
+ *    - Go to Edge Functions > build-match-decks
+ *    - Click "Cron Jobs"
+ *    - Add new cron job:
+ *      - Schedule: * * * * * (Every minute)
+ *      - HTTP Method: POST
+ *      - HTTP Headers: Authorization: Bearer [anon key]
+ *
+ * 3. Test manually:
+ *    curl -X POST https://[project-ref].supabase.co/functions/v1/build-match-decks \
+ *      -H "Authorization: Bearer [anon-key]"
+ */
@@ -0,0 +1,326 @@
+/**
+ * Calendar Feed Edge Function
+ *
+ * A per-user iCalendar feed of accepted dates that calendar apps can
+ * subscribe to. Events carry 24h and 1h reminders; dates cancelled after
+ * being accepted stay in the feed as STATUS:CANCELLED with a higher
+ * SEQUENCE, so subscribed calendars remove them.
+ *
+ * - GET ?token=...  the feed itself (no JWT; calendar apps can't send one)
+ * - POST            issue a new feed URL for the caller, invalidating the old one
+ * - DELETE          turn the caller's feed off
+ *
+ * Feed tokens are signed with secure-token-manager-v2; the current token
+ * id lives in calendar_feed_tokens so a URL stops working once replaced.
+ */
+
+import { serve } from 'std/http/server.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { generateSignedToken, verifySignedToken } from '../_shared/secure-token-manager-v2.ts';
+import { calendarEventFromRow, renderCalendar, type CalendarDateEventRow } from '../_shared/icalendar.ts';
+import { logger } from '../_shared/logger.ts';
+
+const FEED_TOKEN_PURPOSE = 'calendar_feed';
+/** Feed URLs last a year; issuing a new one replaces the old one sooner */
+const FEED_TOKEN_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+/** Reminders on every feed event, in minutes before start */
+const FEED_REMINDER_MINUTES = [24 * 60, 60];
+
+/**
+ * Serve the feed for a token. Every failure is the same 404 so the
+ * endpoint doesn't reveal which tokens once existed.
+ */
+async function serveFeed(token: string | null, requestId: string): Promise<Response> {
+  const notFound = () => new Response('Not found', {
+    status: 404,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+  });
+
+  if (!token) {
+    return notFound();
+  }
+
+  const verification = await verifySignedToken(token, FEED_TOKEN_PURPOSE);
+  if (!verification.valid || !verification.userId) {
+    logger.warn('Calendar feed token rejected', {
+      expired: verification.expired,
+      error: verification.error,
+      requestId
+    });
+    return notFound();
+  }
+
+  const supabaseAdmin = getSupabaseAdmin();
+
+  const { data: feedToken, error: feedTokenError } = await supabaseAdmin
+    .from('calendar_feed_tokens')
+    .select('token_id')
+    .eq('user_id', verification.userId)
+    .maybeSingle();
+
+  if (feedTokenError) {
+    throw feedTokenError;
+  }
+
+  // Replaced or turned-off feeds
+  if (!feedToken || feedToken.token_id !== verification.tokenId) {
+    logSecurityEvent('revoked_calendar_feed_token', verification.userId, {
+      endpoint: 'calendar-feed',
+      requestId
+    });
+    return notFound();
+  }
+
+  const { data: eventRows, error: eventsError } = await supabaseAdmin
+    .rpc('get_calendar_date_events', { p_user_id: verification.userId });
+
+  if (eventsError) {
+    throw eventsError;
+  }
+
+  const events = ((eventRows || []) as CalendarDateEventRow[]).map(calendarEventFromRow);
+
+  // Best effort; a failed write must not break the feed
+  const { error: touchError } = await supabaseAdmin
+    .from('calendar_feed_tokens')
+    .update({ last_fetched_at: new Date().toISOString() })
+    .eq('user_id', verification.userId);
+
+  if (touchError) {
+    logger.warn('Failed to record calendar feed fetch', {
+      userId: verification.userId,
+      error: touchError.message,
+      requestId
+    });
+  }
+
+  logger.info('Calendar feed served', {
+    userId: verification.userId,
+    eventCount: events.length,
+    requestId
+  });
+
+  return new Response(renderCalendar(events, {
+    calendarName: 'Stellr dates',
+    reminderMinutes: FEED_REMINDER_MINUTES
+  }), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'private, max-age=900'
+    }
+  });
+}
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `calendar_feed_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'calendar-feed', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/calendar-feed',
+      undefined,
+      RateLimitCategory.DEFAULT
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // Calendar apps poll the feed with only the URL
+    if (req.method === 'GET') {
+      return await serveFeed(new URL(req.url).searchParams.get('token'), requestId);
+    }
+
+    // JWT Authentication for managing the caller's own feed
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'calendar-feed',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'calendar-feed', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'calendar-feed',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'calendar-feed', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'calendar-feed', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'calendar-feed', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'calendar-feed', requestId },
+        corsHeaders
+      );
+    }
+
+    // Token rows are written with the service role only
+    const supabaseAdmin = getSupabaseAdmin();
+
+    if (req.method === 'DELETE') {
+      const { error: deleteError } = await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      logger.info('Calendar feed turned off', { userId: user.id, requestId });
+
+      return createSuccessResponse(
+        {
+          feed_enabled: false,
+          metadata: {
+            timestamp: new Date().toISOString(),
+            request_id: requestId,
+            processing_time_ms: Date.now() - startTime
+          }
+        },
+        corsHeaders,
+        200
+      );
+    }
+
+    const { token, tokenId, expiresAt } = await generateSignedToken(user.id, {
+      purpose: FEED_TOKEN_PURPOSE,
+      expiresInMs: FEED_TOKEN_TTL_MS
+    });
+
+    const { error: upsertError } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .upsert({
+        user_id: user.id,
+        token_id: tokenId,
+        expires_at: new Date(expiresAt).toISOString(),
+        last_fetched_at: null,
+        created_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (upsertError) {
+      throw upsertError;
+    }
+
+    const feedUrl = `${supabaseUrl}/functions/v1/calendar-feed?token=${encodeURIComponent(token)}`;
+
+    logger.info('Calendar feed URL issued', { userId: user.id, requestId });
+
+    return createSuccessResponse(
+      {
+        feed_enabled: true,
+        feed_url: feedUrl,
+        // Opens the subscribe dialog in most calendar apps
+        webcal_url: feedUrl.replace(/^https?:\/\//, 'webcal://'),
+        expires_at: new Date(expiresAt).toISOString(),
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      201
+    );
+
+  } catch (error) {
+    logger.error('Critical error in calendar-feed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    return createErrorResponse(
+      { code: 'server_error', message: 'Calendar feed request failed' },
+      { endpoint: 'calendar-feed', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
+
+/**
+ * DEPLOYMENT INSTRUCTIONS:
+ *
+ * Calendar apps fetch the feed without a Supabase JWT, so deploy with JWT
+ * verification off; POST/DELETE still validate the caller's token above:
+ *    supabase functions deploy calendar-feed --no-verify-jwt
+ *
+ * Requires JWT_ENCRYPTION_KEY and JWT_SIGNING_KEY (secure-token-manager-v2).
+ */
@@ -0,0 +1,254 @@
+/**
+ * Cancel Scheduled Message Edge Function
+ *
+ * Lets the sender cancel a message queued with send-message's send_at while
+ * it is still pending. Backed by the cancel_scheduled_message SQL function,
+ * which locks the row so a cancel can't race the deliver-scheduled-messages
+ * worker. The function is service-role only, so it is called with the admin
+ * client once the caller is authenticated.
+ *
+ * Scheduled messages are only visible to the sender, so nothing is broadcast.
+ */
+
+import { serve } from 'std/http/server.ts';
+import { z, ZodError } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { csrfMiddleware } from '../_shared/csrf-protection.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { logger } from '../_shared/logger.ts';
+
+const CancelScheduledMessagePayloadSchema = z.object({
+  scheduled_message_id: z.string().uuid('Invalid scheduled message ID format'),
+}).strict();
+
+interface CancelResult {
+  success: boolean;
+  reason?: 'not_found' | 'not_sender' | 'not_pending';
+  status?: 'delivered' | 'failed' | 'cancelled';
+  scheduled_message_id?: string;
+  conversation_id?: string;
+  send_at?: string;
+}
+
+// Maps cancel_scheduled_message failure reasons onto public error codes
+const CANCEL_FAILURE_CODES: Record<NonNullable<CancelResult['reason']>, string> = {
+  not_found: 'not_found',
+  not_sender: 'forbidden',
+  not_pending: 'conflict'
+};
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `cancel_sched_msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'cancel-scheduled-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/cancel-scheduled-message',
+      undefined,
+      RateLimitCategory.MESSAGING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // CSRF Protection (skipped outside production, as in send-message)
+    const environment = Deno.env.get('SENTRY_ENVIRONMENT') || Deno.env.get('ENVIRONMENT') || 'development';
+    if (environment === 'production') {
+      const csrfValidation = await csrfMiddleware.validateCSRF(req);
+      if (!csrfValidation.valid) {
+        return csrfValidation.response;
+      }
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'cancel-scheduled-message',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'cancel-scheduled-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'cancel-scheduled-message',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'cancel-scheduled-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'cancel-scheduled-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'cancel-scheduled-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'cancel-scheduled-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const { scheduled_message_id } = CancelScheduledMessagePayloadSchema.parse(await req.json());
+
+    // Ownership and the pending check happen under a row lock in SQL
+    const { data: cancelData, error: cancelError } = await getSupabaseAdmin()
+      .rpc('cancel_scheduled_message', {
+        p_scheduled_message_id: scheduled_message_id,
+        p_user_id: user.id
+      });
+
+    if (cancelError) {
+      logger.error('Scheduled message cancel failed', {
+        userId: user.id,
+        scheduledMessageId: scheduled_message_id,
+        error: cancelError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to cancel scheduled message' },
+        { endpoint: 'cancel-scheduled-message', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const cancelResult = cancelData as CancelResult;
+
+    if (!cancelResult?.success) {
+      const reason = cancelResult?.reason ?? 'not_found';
+      if (reason === 'not_sender') {
+        logSecurityEvent('unauthorized_scheduled_message_cancel', user.id, {
+          endpoint: 'cancel-scheduled-message',
+          scheduledMessageId: scheduled_message_id,
+          requestId
+        });
+      }
+      logger.info('Scheduled message cancel rejected', {
+        userId: user.id,
+        scheduledMessageId: scheduled_message_id,
+        reason,
+        status: cancelResult?.status,
+        requestId
+      });
+      return createErrorResponse(
+        { code: CANCEL_FAILURE_CODES[reason], message: `Cancel rejected: ${reason}`, reason },
+        { endpoint: 'cancel-scheduled-message', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    logger.info('Scheduled message cancelled', {
+      userId: user.id,
+      scheduledMessageId: cancelResult.scheduled_message_id,
+      conversationId: cancelResult.conversation_id,
+      requestId
+    });
+
+    return createSuccessResponse(
+      {
+        scheduled_message: {
+          id: cancelResult.scheduled_message_id,
+          conversation_id: cancelResult.conversation_id,
+          send_at: cancelResult.send_at,
+          status: 'cancelled'
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      200
+    );
+
+  } catch (error) {
+    logger.error('Critical error in cancel-scheduled-message', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    const isValidationError = error instanceof ZodError || error instanceof SyntaxError;
+
+    return createErrorResponse(
+      {
+        code: isValidationError ? 'validation_error' : 'server_error',
+        message: isValidationError ? 'Invalid request data' : 'Scheduled message cancel failed'
+      },
+      { endpoint: 'cancel-scheduled-message', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
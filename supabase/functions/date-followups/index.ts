@@ -0,0 +1,341 @@
+/**
+ * Date Follow-ups Edge Function
+ *
+ * Scheduled to run every 5 minutes via Supabase cron job
+ * - Reminds both participants of an accepted date 24h and 1h before it
+ * - Sends an "are you OK?" safety check-in a few hours after the date
+ * - Sends a feedback prompt the next day; answering it (submit-date-feedback)
+ *   moves the proposal to completed
+ * - Emails the trusted contact again when a date safety share has no
+ *   "I'm safe" by its check-in time (date-safety-share); the share is marked
+ *   escalated only once the email is queued, otherwise the next run retries
+ *
+ * claim_due_date_followups leases each due follow-up to one run, so
+ * overlapping runs never push twice. It is marked sent (mark_date_followup_sent)
+ * only after the push is accepted or deliberately skipped; a failed push is
+ * retried once the lease expires, while its window is still open. Reminders
+ * and feedback prompts honour the user's notification settings; safety
+ * check-ins always go out.
+ *
+ * Prerequisites:
+ * - Configured as cron job in Supabase Dashboard
+ * - Schedule: Every 5 minutes (*\/5 * * * *)
+ */
+
+import { serve } from 'std/http/server.ts';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import { sendPushNotification } from '../_shared/sendPushNotification.ts';
+import { queueSafetyShareEmail, type SafetyShareEmailDetails } from '../_shared/date-safety-share.ts';
+import { logger, LogCategory, createRequestContext, createTimerContext } from '../_shared/structured-logging.ts';
+
+/** Follow-ups claimed per kind per run */
+const FOLLOWUP_BATCH_SIZE = 200;
+/** Safety share escalations per run */
+const ESCALATION_BATCH_SIZE = 100;
+
+type FollowupKind = 'reminder_24h' | 'reminder_1h' | 'safety_checkin' | 'feedback_prompt';
+
+/** skipped: muted or no push token; nothing to retry */
+type FollowupOutcome = 'sent' | 'skipped' | 'failed';
+
+interface FollowupRow {
+  proposal_id: string;
+  user_id: string;
+  other_user_id: string;
+  other_display_name: string | null;
+  conversation_id: string | null;
+  proposed_datetime: string;
+  location: string | null;
+  kind: FollowupKind;
+}
+
+/** Notification type checked against should_send_notification, if any */
+const NOTIFICATION_TYPES: Record<FollowupKind, string | null> = {
+  reminder_24h: 'date_reminder',
+  reminder_1h: 'date_reminder',
+  // Safety check-ins ignore mute and do-not-disturb
+  safety_checkin: null,
+  feedback_prompt: 'date_feedback',
+};
+
+function followupMessage(row: FollowupRow): { title: string; body: string } {
+  const name = row.other_display_name || 'your match';
+  const place = row.location ? ` at ${row.location}` : '';
+
+  switch (row.kind) {
+    case 'reminder_24h':
+      return { title: 'Date tomorrow 📅', body: `Your date with ${name}${place} is in 24 hours.` };
+    case 'reminder_1h':
+      return { title: 'Date in 1 hour ⏰', body: `Your date with ${name}${place} starts soon. Have fun and stay safe!` };
+    case 'safety_checkin':
+      return { title: 'Are you OK?', body: `Let us know you got home safe from your date with ${name}.` };
+    case 'feedback_prompt':
+      return { title: 'How did it go?', body: `Would you meet ${name} again? Tell us about your date.` };
+  }
+}
+
+async function sendFollowup(
+  supabase: SupabaseClient,
+  row: FollowupRow,
+  requestId: string
+): Promise<FollowupOutcome> {
+  const notificationType = NOTIFICATION_TYPES[row.kind];
+
+  if (notificationType) {
+    // No conversation_id: muting the chat shouldn't hide the date itself
+    const { data: shouldNotify, error: notificationCheckError } = await supabase
+      .rpc('should_send_notification', {
+        target_user_id: row.user_id,
+        notification_type: notificationType
+      });
+
+    if (notificationCheckError) {
+      logger.warn(LogCategory.CRON, 'Failed to check notification preferences, defaulting to enabled', {
+        requestId,
+        userId: row.user_id,
+        errorMessage: notificationCheckError.message,
+      });
+    }
+
+    if (shouldNotify === false) {
+      return 'skipped';
+    }
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('push_token')
+    .eq('id', row.user_id)
+    .single();
+
+  if (!profile?.push_token) {
+    return 'skipped';
+  }
+
+  const { title, body } = followupMessage(row);
+
+  const accepted = await sendPushNotification(profile.push_token, title, body, {
+    type: `date_${row.kind}`,
+    proposalId: row.proposal_id,
+    conversationId: row.conversation_id || undefined,
+    proposedDatetime: row.proposed_datetime,
+  }, row.kind === 'safety_checkin' || row.kind === 'reminder_1h' ? { priority: 'high' } : {});
+
+  return accepted ? 'sent' : 'failed';
+}
+
+serve(async (req: Request) => {
+  const timer = createTimerContext();
+  const requestContext = createRequestContext(req);
+
+  logger.info(LogCategory.CRON, 'Date follow-up job started', {
+    ...requestContext,
+    function: 'date-followups',
+  });
+
+  const origin = req.headers.get('Origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Security headers
+  const securityHeaders = {
+    ...corsHeaders,
+    'X-Frame-Options': 'DENY',
+    'X-Content-Type-Options': 'nosniff',
+    'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: securityHeaders });
+  }
+
+  // Environment variables
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    logger.critical(LogCategory.CRON, 'Missing Supabase configuration', {
+      ...requestContext,
+      configurationError: true,
+    });
+    return new Response(
+      JSON.stringify({ error: 'Server configuration error' }),
+      {
+        headers: { ...securityHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+
+  // Initialize Supabase admin client
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const { data: dueData, error: claimError } = await supabase
+      .rpc('claim_due_date_followups', { p_limit: FOLLOWUP_BATCH_SIZE });
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    const due = (dueData || []) as FollowupRow[];
+    const sentCounts: Record<FollowupKind, number> = {
+      reminder_24h: 0,
+      reminder_1h: 0,
+      safety_checkin: 0,
+      feedback_prompt: 0,
+    };
+    let skippedCount = 0;
+    let failedCount = 0;
+
+    // Failed pushes stay claimed until the lease runs out, then are retried
+    for (const row of due) {
+      let outcome: FollowupOutcome;
+      try {
+        outcome = await sendFollowup(supabase, row, requestContext.requestId);
+      } catch (pushError: any) {
+        outcome = 'failed';
+        logger.warn(LogCategory.CRON, 'Date follow-up push failed', {
+          ...requestContext,
+          proposalId: row.proposal_id,
+          userId: row.user_id,
+          kind: row.kind,
+          errorMessage: pushError.message,
+        });
+      }
+
+      if (outcome === 'failed') {
+        failedCount++;
+        continue;
+      }
+
+      const { error: markError } = await supabase.rpc('mark_date_followup_sent', {
+        p_proposal_id: row.proposal_id,
+        p_user_id: row.user_id,
+        p_kind: row.kind,
+      });
+
+      if (markError) {
+        logger.error(LogCategory.CRON, 'Failed to mark date follow-up as sent', {
+          ...requestContext,
+          proposalId: row.proposal_id,
+          userId: row.user_id,
+          kind: row.kind,
+          errorMessage: markError.message,
+        });
+      }
+
+      if (outcome === 'sent') {
+        sentCounts[row.kind]++;
+      } else {
+        skippedCount++;
+      }
+    }
+
+    // Safety shares nobody confirmed; a failed email is retried once the claim expires
+    const { data: escalationData, error: escalationError } = await supabase
+      .rpc('claim_due_safety_share_escalations', { p_limit: ESCALATION_BATCH_SIZE });
+
+    if (escalationError) {
+      throw escalationError;
+    }
+
+    const escalations = (escalationData || []) as SafetyShareEmailDetails[];
+    let escalatedCount = 0;
+
+    for (const share of escalations) {
+      try {
+        await queueSafetyShareEmail(supabase, share, 'date_safety_share_escalation');
+      } catch (emailError: any) {
+        logger.error(LogCategory.CRON, 'Failed to queue safety share escalation', {
+          ...requestContext,
+          shareId: share.share_id,
+          userId: share.user_id,
+          errorMessage: emailError.message,
+        });
+        continue;
+      }
+
+      const { error: markError } = await supabase
+        .rpc('mark_safety_share_escalated', { p_share_id: share.share_id });
+
+      if (markError) {
+        logger.error(LogCategory.CRON, 'Failed to mark safety share as escalated', {
+          ...requestContext,
+          shareId: share.share_id,
+          userId: share.user_id,
+          errorMessage: markError.message,
+        });
+      }
+      escalatedCount++;
+    }
+
+    logger.info(LogCategory.CRON, 'Date follow-up job completed', {
+      ...requestContext,
+      function: 'date-followups',
+      duration: timer.getElapsed(),
+      claimedCount: due.length,
+      skippedCount,
+      failedCount,
+      escalatedCount,
+      ...sentCounts,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        claimedCount: due.length,
+        sent: sentCounts,
+        skippedCount,
+        failedCount,
+        escalatedCount,
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        headers: { ...securityHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error: any) {
+    logger.critical(LogCategory.CRON, 'Date follow-up job failed', {
+      ...requestContext,
+      function: 'date-followups',
+      duration: timer.getElapsed(),
+      errorMessage: error.message,
+      errorStack: error.stack,
+    }, error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Date follow-up job failed',
+        details: error.message,
+      }),
+      {
+        headers: { ...securityHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
+
+/**
+ * DEPLOYMENT INSTRUCTIONS:
+ *
+ * 1. Deploy function:
+ *    supabase functions deploy date-followups
+ *
+ * 2. Configure cron job in Supabase Dashboard:
+ *    - Go to Edge Functions > date-followups
+ *    - Click "Cron Jobs"
+ *    - Add new cron job:
+ *      - Schedule: *\/5 * * * * (Every 5 minutes)
+ *      - HTTP Method: POST
+ *      - HTTP Headers: Authorization: Bearer [anon key]
+ *
+ * 3. Test manually:
+ *    curl -X POST https://[project-ref].supabase.co/functions/v1/date-followups \
+ *      -H "Authorization: Bearer [anon-key]"
+ *
+ * Safety share escalation links are signed, so this function also needs
+ * JWT_ENCRYPTION_KEY and JWT_SIGNING_KEY (secure-token-manager-v2).
+ */
@@ -0,0 +1,395 @@
+/**
+ * Date Safety Share Edge Function
+ *
+ * Lets a user share an upcoming accepted date with a trusted contact. The
+ * contact gets an email (time, location, the match's first name and photo)
+ * with a link that works until the day after the date. If the user hasn't
+ * said "I'm safe" by check_in_by, date-followups emails the contact again.
+ *
+ * - GET ?token=...           share details for the contact's link (no JWT)
+ * - POST action "share"      share a date with a contact
+ * - POST action "confirm_safe"  "I'm safe": close the user's shares for a date
+ */
+
+import { serve } from 'std/http/server.ts';
+import { z, ZodError } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { csrfMiddleware } from '../_shared/csrf-protection.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { verifySignedToken } from '../_shared/secure-token-manager-v2.ts';
+import {
+  queueSafetyShareEmail,
+  SAFETY_SHARE_TOKEN_PURPOSE,
+  type SafetyShareEmailDetails
+} from '../_shared/date-safety-share.ts';
+import { logger } from '../_shared/logger.ts';
+
+function isValidTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const DateSafetySharePayloadSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('share'),
+    proposal_id: z.string().uuid('Invalid proposal ID format'),
+    contact_name: z.string().trim().min(1).max(100),
+    contact_email: z.string().trim().email('Invalid contact email').max(254),
+    // Used to show the date in the contact's email; defaults to UTC
+    time_zone: z.string().max(64).refine(isValidTimeZone, 'Invalid time zone').optional(),
+  }).strict(),
+  z.object({
+    action: z.literal('confirm_safe'),
+    proposal_id: z.string().uuid('Invalid proposal ID format'),
+  }).strict(),
+]);
+
+interface SafetyShareResult extends Partial<SafetyShareEmailDetails> {
+  success: boolean;
+  reason?: 'not_found' | 'not_accepted' | 'date_passed' | 'already_shared' | 'too_many_shares';
+  closed_count?: number;
+}
+
+// Maps create_date_safety_share / confirm_date_safe failure reasons onto public error codes
+const SHARE_FAILURE_CODES: Record<NonNullable<SafetyShareResult['reason']>, string> = {
+  not_found: 'not_found',
+  not_accepted: 'conflict',
+  date_passed: 'conflict',
+  already_shared: 'conflict',
+  too_many_shares: 'conflict'
+};
+
+/**
+ * Share details for a contact's link. Every failure is the same 404 so the
+ * endpoint doesn't reveal which shares once existed.
+ */
+async function serveShare(
+  token: string | null,
+  corsHeaders: Record<string, string>,
+  requestId: string,
+  startTime: number
+): Promise<Response> {
+  const notFound = () => createErrorResponse(
+    { code: 'not_found', message: 'This link is no longer available' },
+    { endpoint: 'date-safety-share', requestId },
+    corsHeaders
+  );
+
+  if (!token) {
+    return notFound();
+  }
+
+  const verification = await verifySignedToken(token, SAFETY_SHARE_TOKEN_PURPOSE);
+  const shareId = verification.sessionData?.shareId;
+  if (!verification.valid || typeof shareId !== 'string') {
+    logger.warn('Safety share token rejected', {
+      expired: verification.expired,
+      error: verification.error,
+      requestId
+    });
+    return notFound();
+  }
+
+  // Expiry, cancellation and status are checked in SQL
+  const { data: share, error: shareError } = await getSupabaseAdmin()
+    .rpc('get_date_safety_share', { p_share_id: shareId });
+
+  if (shareError) {
+    throw shareError;
+  }
+
+  if (!share) {
+    return notFound();
+  }
+
+  return createSuccessResponse(
+    {
+      share,
+      metadata: {
+        timestamp: new Date().toISOString(),
+        request_id: requestId,
+        processing_time_ms: Date.now() - startTime
+      }
+    },
+    { ...corsHeaders, 'Cache-Control': 'no-store' },
+    200
+  );
+}
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `safety_share_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'date-safety-share', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/date-safety-share',
+      undefined,
+      RateLimitCategory.MESSAGING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // Contacts open the link without an account
+    if (req.method === 'GET') {
+      return await serveShare(new URL(req.url).searchParams.get('token'), corsHeaders, requestId, startTime);
+    }
+
+    // CSRF Protection (skipped outside production, as in send-message)
+    const environment = Deno.env.get('SENTRY_ENVIRONMENT') || Deno.env.get('ENVIRONMENT') || 'development';
+    if (environment === 'production') {
+      const csrfValidation = await csrfMiddleware.validateCSRF(req);
+      if (!csrfValidation.valid) {
+        return csrfValidation.response;
+      }
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'date-safety-share',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'date-safety-share', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'date-safety-share',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'date-safety-share', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'date-safety-share', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'date-safety-share', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'date-safety-share', requestId },
+        corsHeaders
+      );
+    }
+
+    const payload = DateSafetySharePayloadSchema.parse(await req.json());
+
+    // Participant, status and limit checks happen in SQL. Creating a share is
+    // service role only, so it runs once the payload (including the contact
+    // email) has been validated above
+    const { data: resultData, error: rpcError } = payload.action === 'share'
+      ? await getSupabaseAdmin().rpc('create_date_safety_share', {
+          p_proposal_id: payload.proposal_id,
+          p_user_id: user.id,
+          p_contact_name: payload.contact_name,
+          p_contact_email: payload.contact_email,
+          p_time_zone: payload.time_zone ?? 'UTC'
+        })
+      : await supabaseClient.rpc('confirm_date_safe', {
+          p_proposal_id: payload.proposal_id,
+          p_user_id: user.id
+        });
+
+    if (rpcError) {
+      logger.error('Safety share request failed', {
+        userId: user.id,
+        proposalId: payload.proposal_id,
+        action: payload.action,
+        error: rpcError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Safety share request failed' },
+        { endpoint: 'date-safety-share', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const result = resultData as SafetyShareResult;
+
+    if (!result?.success) {
+      const reason = result?.reason ?? 'not_found';
+      logger.info('Safety share request rejected', {
+        userId: user.id,
+        proposalId: payload.proposal_id,
+        action: payload.action,
+        reason,
+        requestId
+      });
+      return createErrorResponse(
+        { code: SHARE_FAILURE_CODES[reason], message: `Safety share rejected: ${reason}`, reason },
+        { endpoint: 'date-safety-share', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    if (payload.action === 'confirm_safe') {
+      logger.info('Date confirmed safe', {
+        userId: user.id,
+        proposalId: payload.proposal_id,
+        closedCount: result.closed_count,
+        requestId
+      });
+
+      return createSuccessResponse(
+        {
+          proposal_id: payload.proposal_id,
+          closed_count: result.closed_count ?? 0,
+          metadata: {
+            timestamp: new Date().toISOString(),
+            request_id: requestId,
+            processing_time_ms: Date.now() - startTime
+          }
+        },
+        corsHeaders,
+        200
+      );
+    }
+
+    const share = { ...result, user_id: user.id } as SafetyShareEmailDetails;
+
+    try {
+      await queueSafetyShareEmail(getSupabaseAdmin(), share, 'date_safety_share');
+    } catch (emailError) {
+      // Without the email the share is useless; don't leave it open to escalate
+      await getSupabaseAdmin()
+        .from('date_safety_shares')
+        .update({ status: 'cancelled' })
+        .eq('id', share.share_id);
+      throw emailError;
+    }
+
+    logger.info('Date shared with trusted contact', {
+      userId: user.id,
+      proposalId: payload.proposal_id,
+      shareId: share.share_id,
+      requestId
+    });
+
+    return createSuccessResponse(
+      {
+        share: {
+          id: share.share_id,
+          proposal_id: payload.proposal_id,
+          contact_name: share.contact_name,
+          contact_email: share.contact_email,
+          status: 'active',
+          check_in_by: share.check_in_by,
+          expires_at: share.expires_at
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      201
+    );
+
+  } catch (error) {
+    logger.error('Critical error in date-safety-share', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    const isValidationError = error instanceof ZodError || error instanceof SyntaxError;
+
+    return createErrorResponse(
+      {
+        code: isValidationError ? 'validation_error' : 'server_error',
+        message: isValidationError ? 'Invalid request data' : 'Safety share request failed'
+      },
+      { endpoint: 'date-safety-share', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
+
+/**
+ * DEPLOYMENT INSTRUCTIONS:
+ *
+ * Trusted contacts open their link without a Supabase JWT, so deploy with
+ * JWT verification off; POST still validates the caller's token above:
+ *    supabase functions deploy date-safety-share --no-verify-jwt
+ *
+ * Requires JWT_ENCRYPTION_KEY and JWT_SIGNING_KEY (secure-token-manager-v2).
+ * STELLR_SAFETY_SHARE_URL sets the page the contact's link opens
+ * (default https://stellr.app/safety-share); it reads the share with GET.
+ */
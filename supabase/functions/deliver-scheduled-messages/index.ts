@@ -0,0 +1,195 @@
+/**
+ * Deliver Scheduled Messages Edge Function
+ *
+ * Scheduled to run every minute via Supabase cron job
+ * - Delivers scheduled messages whose send_at has passed (send-message with send_at)
+ * - Sends the push notification for each delivered message
+ * - Purges disappearing messages whose expires_at has passed
+ *
+ * Expired messages are already hidden from reads before they are purged,
+ * so a missed run only delays the hard delete.
+ *
+ * Prerequisites:
+ * - Configured as cron job in Supabase Dashboard
+ * - Schedule: Every minute (* * * * *)
+ */
+
+import { serve } from 'std/http/server.ts';
+import { createClient } from '@supabase/supabase-js';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import { notifyMessageRecipient } from '../_shared/message-push.ts';
+import { logger, LogCategory, createRequestContext, createTimerContext } from '../_shared/structured-logging.ts';
+
+/** Scheduled messages delivered per run */
+const DELIVERY_BATCH_SIZE = 200;
+/** Expired messages deleted per run */
+const PURGE_BATCH_SIZE = 1000;
+
+interface DeliveredRow {
+  scheduled_message_id: string;
+  message_id: string | null;
+  conversation_id: string;
+  sender_id: string;
+  notification_preview: string | null;
+  status: 'delivered' | 'failed';
+}
+
+interface PurgedRow {
+  conversation_id: string;
+  purged_count: number;
+}
+
+serve(async (req: Request) => {
+  const timer = createTimerContext();
+  const requestContext = createRequestContext(req);
+
+  logger.info(LogCategory.CRON, 'Scheduled message delivery job started', {
+    ...requestContext,
+    function: 'deliver-scheduled-messages',
+  });
+
+  const origin = req.headers.get('Origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Security headers
+  const securityHeaders = {
+    ...corsHeaders,
+    'X-Frame-Options': 'DENY',
+    'X-Content-Type-Options': 'nosniff',
+    'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+  };
+
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: securityHeaders });
+  }
+
+  // Environment variables
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    logger.critical(LogCategory.CRON, 'Missing Supabase configuration', {
+      ...requestContext,
+      configurationError: true,
+    });
+    return new Response(
+      JSON.stringify({ error: 'Server configuration error' }),
+      {
+        headers: { ...securityHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+
+  // Initialize Supabase admin client
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    // Deliver due scheduled messages (inserted in SQL, one row per attempt)
+    const { data: deliveredData, error: deliverError } = await supabase
+      .rpc('deliver_due_scheduled_messages', { p_limit: DELIVERY_BATCH_SIZE });
+
+    if (deliverError) {
+      throw deliverError;
+    }
+
+    const attempts = (deliveredData || []) as DeliveredRow[];
+    const delivered = attempts.filter(row => row.status === 'delivered' && row.message_id);
+    const failed = attempts.filter(row => row.status === 'failed');
+
+    for (const row of failed) {
+      logger.warn(LogCategory.CRON, 'Scheduled message could not be delivered', {
+        ...requestContext,
+        scheduledMessageId: row.scheduled_message_id,
+        conversationId: row.conversation_id,
+        senderId: row.sender_id,
+      });
+    }
+
+    // Push only once the message actually exists
+    for (const row of delivered) {
+      await notifyMessageRecipient(supabase, {
+        conversationId: row.conversation_id,
+        senderId: row.sender_id,
+        messageId: row.message_id!,
+        preview: row.notification_preview || 'New message',
+        requestId: requestContext.requestId,
+      });
+    }
+
+    // Purge expired disappearing messages
+    const { data: purgedData, error: purgeError } = await supabase
+      .rpc('purge_expired_messages', { p_limit: PURGE_BATCH_SIZE });
+
+    if (purgeError) {
+      throw purgeError;
+    }
+
+    const purged = (purgedData || []) as PurgedRow[];
+    const purgedCount = purged.reduce((total, row) => total + row.purged_count, 0);
+
+    logger.info(LogCategory.CRON, 'Scheduled message delivery completed', {
+      ...requestContext,
+      function: 'deliver-scheduled-messages',
+      duration: timer.getElapsed(),
+      deliveredCount: delivered.length,
+      failedCount: failed.length,
+      purgedCount,
+      purgedConversations: purged.length,
+    });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        deliveredCount: delivered.length,
+        failedCount: failed.length,
+        purgedCount,
+        // A full batch means more work is waiting for the next run
+        backlog: attempts.length >= DELIVERY_BATCH_SIZE || purgedCount >= PURGE_BATCH_SIZE,
+        timestamp: new Date().toISOString(),
+      }),
+      {
+        headers: { ...securityHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error: any) {
+    logger.critical(LogCategory.CRON, 'Scheduled message delivery failed', {
+      ...requestContext,
+      function: 'deliver-scheduled-messages',
+      duration: timer.getElapsed(),
+      errorMessage: error.message,
+      errorStack: error.stack,
+    }, error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Scheduled message delivery failed',
+        details: error.message,
+      }),
+      {
+        headers: { ...securityHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
+
+/**
+ * DEPLOYMENT INSTRUCTIONS:
+ *
+ * 1. Deploy function:
+ *    supabase functions deploy deliver-scheduled-messages
+ *
+ * 2. Configure cron job in Supabase Dashboard:
+ *    - Go to Edge Functions > deliver-scheduled-messages
+ *    - Click "Cron Jobs"
+ *    - Add new cron job:
+ *      - Schedule: * * * * * (Every minute)
+ *      - HTTP Method: POST
+ *      - HTTP Headers: Authorization: Bearer [anon key]
+ *
+ * 3. Test manually:
+ *    curl -X POST https://[project-ref].supabase.co/functions/v1/deliver-scheduled-messages \
+ *      -H "Authorization: Bearer [anon-key]"
+ */
@@ -0,0 +1,354 @@
+/**
+ * Edit Message Edge Function
+ *
+ * Lets the sender change the text of a message shortly after sending it.
+ * The new content goes through the same validation and sanitization as
+ * send-message. Backed by the edit_message SQL function, which checks the
+ * 15 minute edit window and archives the previous version for moderation.
+ * The function is service-role only, so the sanitized content is written
+ * with the admin client.
+ *
+ * The other participant receives the change through the messages realtime
+ * publication and a message_edited broadcast on the conversation channel.
+ */
+
+import { serve } from 'std/http/server.ts';
+import { z, ZodError } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { csrfMiddleware } from '../_shared/csrf-protection.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createValidationErrorResponse,
+  createSuccessResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { validateMessageContent, sanitizeMessage } from '../_shared/message-sanitizer.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { broadcastMessageEvent } from '../_shared/message-events.ts';
+import { logger } from '../_shared/logger.ts';
+
+// Same content rules as send-message
+const EditMessagePayloadSchema = z.object({
+  message_id: z.string().uuid('Invalid message ID format'),
+  content: z.string()
+    .min(1, 'Message cannot be empty')
+    .max(2000, 'Message too long (max 2000 characters)')
+    .refine(
+      (content) => {
+        const validation = validateMessageContent(content, {
+          allowRichText: false,
+          allowLinks: true,
+          checkSpam: true,
+          maxLength: 2000,
+        });
+        return validation.isValid;
+      },
+      (content) => {
+        const validation = validateMessageContent(content, {
+          allowRichText: false,
+          allowLinks: true,
+          checkSpam: true,
+          maxLength: 2000,
+        });
+        return { message: validation.errors.join(', ') || 'Invalid message content' };
+      }
+    ),
+}).strict();
+
+interface EditResult {
+  success: boolean;
+  reason?: 'not_found' | 'not_sender' | 'unsent' | 'removed' | 'window_expired' | 'unchanged';
+  message_id?: string;
+  conversation_id?: string;
+  content?: string;
+  edited_at?: string;
+  edit_count?: number;
+}
+
+// Maps edit_message failure reasons onto public error codes
+const EDIT_FAILURE_CODES: Record<NonNullable<EditResult['reason']>, string> = {
+  not_found: 'not_found',
+  not_sender: 'forbidden',
+  unsent: 'conflict',
+  removed: 'conflict',
+  window_expired: 'conflict',
+  unchanged: 'conflict'
+};
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `edit_msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'edit-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/edit-message',
+      undefined,
+      RateLimitCategory.MESSAGING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // CSRF Protection (skipped outside production, as in send-message)
+    const environment = Deno.env.get('SENTRY_ENVIRONMENT') || Deno.env.get('ENVIRONMENT') || 'development';
+    if (environment === 'production') {
+      const csrfValidation = await csrfMiddleware.validateCSRF(req);
+      if (!csrfValidation.valid) {
+        return csrfValidation.response;
+      }
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'edit-message',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'edit-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'edit-message',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'edit-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'edit-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'edit-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'edit-message', requestId },
+        corsHeaders
+      );
+    }
+
+    let validatedPayload: z.infer<typeof EditMessagePayloadSchema>;
+    try {
+      validatedPayload = EditMessagePayloadSchema.parse(await req.json());
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return createValidationErrorResponse(error, corsHeaders);
+      }
+      throw error;
+    }
+
+    const { message_id, content } = validatedPayload;
+
+    // Comprehensive XSS protection and sanitization (same options as send-message)
+    const sanitizationResult = sanitizeMessage(content, {
+      allowRichText: false,
+      allowLinks: true,
+      allowImages: false,
+      maxLength: 2000,
+      stripInvisibleChars: true,
+      checkSpam: true,
+      preserveNewlines: true,
+    });
+
+    if (sanitizationResult.threats.length > 0) {
+      logSecurityEvent('message_security_threats', user.id, {
+        endpoint: 'edit-message',
+        messageId: message_id,
+        threats: sanitizationResult.threats,
+        originalLength: sanitizationResult.original.length,
+        sanitizedLength: sanitizationResult.sanitized.length,
+        isSpam: sanitizationResult.isSpam,
+      });
+
+      if (sanitizationResult.isSpam) {
+        return createErrorResponse(
+          { code: 'MESSAGE_SPAM_DETECTED', message: 'Message blocked due to spam patterns' },
+          { endpoint: 'edit-message', phase: 'spam_check', userId: user.id },
+          corsHeaders
+        );
+      }
+
+      if (sanitizationResult.threats.length > 5) {
+        return createErrorResponse(
+          { code: 'MESSAGE_SECURITY_THREATS', message: 'Message blocked due to security threats' },
+          { endpoint: 'edit-message', phase: 'security_check', userId: user.id },
+          corsHeaders
+        );
+      }
+    }
+
+    const sanitizedContent = sanitizationResult.sanitized;
+    if (!sanitizedContent.trim()) {
+      return createErrorResponse(
+        { code: 'validation_error', message: 'Message cannot be empty' },
+        { endpoint: 'edit-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Ownership, window check, history archive and update happen atomically in SQL
+    const { data: editData, error: editError } = await getSupabaseAdmin()
+      .rpc('edit_message', {
+        p_message_id: message_id,
+        p_user_id: user.id,
+        p_new_content: sanitizedContent
+      });
+
+    if (editError) {
+      logger.error('Message edit failed', {
+        userId: user.id,
+        messageId: message_id,
+        error: editError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to edit message' },
+        { endpoint: 'edit-message', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const editResult = editData as EditResult;
+
+    if (!editResult?.success) {
+      const reason = editResult?.reason ?? 'not_found';
+      if (reason === 'not_sender') {
+        logSecurityEvent('unauthorized_message_edit', user.id, {
+          endpoint: 'edit-message',
+          messageId: message_id,
+          requestId
+        });
+      }
+      logger.info('Message edit rejected', {
+        userId: user.id,
+        messageId: message_id,
+        reason,
+        requestId
+      });
+      return createErrorResponse(
+        { code: EDIT_FAILURE_CODES[reason], message: `Edit rejected: ${reason}`, reason },
+        { endpoint: 'edit-message', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    await broadcastMessageEvent(editResult.conversation_id!, 'message_edited', {
+      message_id: editResult.message_id,
+      sender_id: user.id,
+      content: editResult.content,
+      edited_at: editResult.edited_at,
+      edit_count: editResult.edit_count
+    });
+
+    logger.info('Message edited successfully', {
+      userId: user.id,
+      messageId: editResult.message_id,
+      conversationId: editResult.conversation_id,
+      editCount: editResult.edit_count,
+      requestId
+    });
+
+    return createSuccessResponse(
+      {
+        message: {
+          id: editResult.message_id,
+          conversation_id: editResult.conversation_id,
+          content: editResult.content,
+          edited_at: editResult.edited_at,
+          edit_count: editResult.edit_count
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      200
+    );
+
+  } catch (error) {
+    logger.error('Critical error in edit-message', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    const isValidationError = error instanceof ZodError || error instanceof SyntaxError;
+
+    return createErrorResponse(
+      {
+        code: isValidationError ? 'validation_error' : 'server_error',
+        message: isValidationError ? 'Invalid request data' : 'Message edit failed'
+      },
+      { endpoint: 'edit-message', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
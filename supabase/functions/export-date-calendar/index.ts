@@ -0,0 +1,212 @@
+/**
+ * Export Date Calendar Edge Function
+ *
+ * Returns an RFC 5545 .ics file for one of the caller's accepted date
+ * proposals, so it can be added to any calendar app. A date cancelled
+ * after it was accepted exports as a METHOD:CANCEL / STATUS:CANCELLED
+ * update with the same UID, which removes the earlier entry on import.
+ * For a calendar that stays up to date on its own, see calendar-feed.
+ */
+
+import { serve } from 'std/http/server.ts';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createValidationErrorResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import {
+  calendarEventFromRow,
+  isCancelledStatus,
+  renderCalendar,
+  type CalendarDateEventRow
+} from '../_shared/icalendar.ts';
+import { logger } from '../_shared/logger.ts';
+
+/** Reminders attached to a downloaded event, in minutes before start */
+const EXPORT_REMINDER_MINUTES = [24 * 60, 60];
+
+const ExportQuerySchema = z.object({
+  proposal_id: z.string().uuid('Invalid proposal ID format'),
+});
+
+serve(async (req: Request) => {
+  const requestId = `export_cal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow GET method
+    if (req.method !== 'GET') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'export-date-calendar', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/export-date-calendar',
+      undefined,
+      RateLimitCategory.MESSAGING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'export-date-calendar',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'export-date-calendar', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'export-date-calendar',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'export-date-calendar', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'export-date-calendar', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'export-date-calendar', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'export-date-calendar', requestId },
+        corsHeaders
+      );
+    }
+
+    // Parse and validate query parameters
+    const url = new URL(req.url);
+    const queryResult = ExportQuerySchema.safeParse(Object.fromEntries(url.searchParams.entries()));
+    if (!queryResult.success) {
+      return createValidationErrorResponse(queryResult.error, corsHeaders);
+    }
+    const { proposal_id } = queryResult.data;
+
+    const { data: eventRows, error: eventsError } = await supabaseClient
+      .rpc('get_calendar_date_events', { p_user_id: user.id, p_proposal_id: proposal_id });
+
+    if (eventsError) {
+      logger.error('Failed to load date for calendar export', {
+        userId: user.id,
+        proposalId: proposal_id,
+        error: eventsError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to load date' },
+        { endpoint: 'export-date-calendar', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    // Pending, rejected and never-accepted proposals have no calendar entry
+    const row = ((eventRows || []) as CalendarDateEventRow[])[0];
+    if (!row) {
+      return createErrorResponse(
+        { code: 'not_found', message: 'No accepted date found for this proposal' },
+        { endpoint: 'export-date-calendar', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const body = renderCalendar([calendarEventFromRow(row)], {
+      method: isCancelledStatus(row.status) ? 'CANCEL' : 'PUBLISH',
+      reminderMinutes: EXPORT_REMINDER_MINUTES
+    });
+
+    logger.info('Date calendar exported', {
+      userId: user.id,
+      proposalId: proposal_id,
+      status: row.status,
+      requestId
+    });
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="date-${proposal_id}.ics"`,
+        'Cache-Control': 'private, no-cache'
+      }
+    });
+
+  } catch (error) {
+    logger.error('Critical error in export-date-calendar', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    return createErrorResponse(
+      { code: 'server_error', message: 'Failed to export date' },
+      { endpoint: 'export-date-calendar', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
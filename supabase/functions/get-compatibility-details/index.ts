@@ -182,6 +182,8 @@ async function calculateRealTimeCompatibility(
 ): Promise<CompatibilityDetails> {
   // Import the compatibility functions
   const { calculateUserCompatibility, createUserProfileFromDbData, calculateCombinedScore, gradeToScore } = await import('../_shared/compatibility-orchestrator.ts');
+  const { loadActiveScoringProfile } = await import('../_shared/scoring-profile.ts');
+  const scoringProfile = await loadActiveScoringProfile(supabaseAdmin);
   
   // Fetch user data for both users
   const { data: userData, error: userError } = await withDatabaseCircuitBreaker(() =>
@@ -226,12 +228,12 @@ async function calculateRealTimeCompatibility(
   const user2Profile = createUserProfileFromDbData(user2Data);
 
   // Calculate compatibility using the new algorithms
-  const matchResult = calculateUserCompatibility(user1Profile, user2Profile);
+  const matchResult = calculateUserCompatibility(user1Profile, user2Profile, scoringProfile);
   
-  // Calculate combined score (40% astro + 60% questionnaire)
+  // Calculate combined score (blend from the active scoring profile)
   const astroScore = gradeToScore(matchResult.astrologicalGrade);
   const questScore = gradeToScore(matchResult.questionnaireGrade);
-  const combinedScore = calculateCombinedScore(astroScore, questScore);
+  const combinedScore = calculateCombinedScore(astroScore, questScore, scoringProfile);
   
   return {
     astrologicalGrade: matchResult.astrologicalGrade,
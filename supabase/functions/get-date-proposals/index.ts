@@ -15,8 +15,8 @@ import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure
 
 // Zod Schema for Query Parameters
 const GetProposalsQuerySchema = z.object({
-  type: z.enum(['user', 'conversation']),
-  id: z.string().uuid(), // userId or conversationId
+  type: z.enum(['user', 'conversation', 'proposal']),
+  id: z.string().uuid(), // userId, conversationId or proposalId
   statusFilter: z.string().optional(), // Should align with DateProposalStatus type values
   page: z.string().optional().default('1').transform(val => parseInt(val, 10)),
   pageSize: z.string().optional().default('10').transform(val => parseInt(val, 10)),
@@ -30,6 +30,7 @@ const corsHeaders = {
 };
 
 const DATE_PROPOSALS_TABLE = 'date_proposals';
+// '*' includes proposed_slots, selected_slot_index, counter_count and negotiation_history
 const PROPOSAL_FIELDS_TO_SELECT = '*, proposer_profile:proposer_id(display_name), recipient_profile:recipient_id(display_name)'; 
 
 serve(async (req: Request) => {
@@ -198,6 +199,28 @@ return new Response(JSON.stringify({ error: 'Failed to initialize Supabase clien
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
+    } else if (type === 'proposal') {
+      // Single proposal with its full negotiation history
+      const { data, error } = await supabaseClient
+        .from(DATE_PROPOSALS_TABLE)
+        .select(PROPOSAL_FIELDS_TO_SELECT)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data || (data.proposer_id !== user.id && data.recipient_id !== user.id)) {
+        return new Response(JSON.stringify({ error: 'Proposal not found' }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404,
+        });
+      }
+
+      return new Response(JSON.stringify({
+        success: true,
+        data,
+        history: data.negotiation_history || []
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
     } else if (type === 'conversation') {
       queryBuilder = queryBuilder.eq('conversation_id', id);
       queryBuilder = queryBuilder.order('proposed_datetime', { ascending: false });
@@ -0,0 +1,271 @@
+/**
+ * Get Icebreakers Edge Function
+ *
+ * Returns three conversation openers for one of the caller's matches, so a
+ * conversation created by confirm_system_match doesn't start from a blank
+ * screen. Openers are template-based and deterministic (see
+ * _shared/icebreakers.ts): one from shared questionnaire answers, one from
+ * complementary chart placements, one from the date activity the pair leans
+ * towards. No external calls are made.
+ */
+
+import { serve } from 'std/http/server.ts';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { createUserProfileFromDbData } from '../_shared/compatibility-orchestrator.ts';
+import { loadActiveScoringProfile } from '../_shared/scoring-profile.ts';
+import { generateIcebreakers } from '../_shared/icebreakers.ts';
+import { logger } from '../_shared/logger.ts';
+
+// Zod schema for query parameters
+const IcebreakersQuerySchema = z.object({
+  match_id: z.string().uuid('Invalid match ID format'),
+});
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `icebreakers_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow GET method
+    if (req.method !== 'GET') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'get-icebreakers', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/get-icebreakers',
+      undefined,
+      RateLimitCategory.MESSAGING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'get-icebreakers',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'get-icebreakers', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'get-icebreakers',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'get-icebreakers', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'get-icebreakers', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'get-icebreakers', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'get-icebreakers', requestId },
+        corsHeaders
+      );
+    }
+
+    // Parse and validate query parameters
+    const url = new URL(req.url);
+    const queryResult = IcebreakersQuerySchema.safeParse(Object.fromEntries(url.searchParams.entries()));
+    if (!queryResult.success) {
+      return createValidationErrorResponse(queryResult.error, corsHeaders);
+    }
+    const { match_id } = queryResult.data;
+
+    // The caller must be one side of an active match
+    const { data: match, error: matchError } = await supabaseClient
+      .from('matches')
+      .select('id, user1_id, user2_id, conversation_id, deleted_at')
+      .eq('id', match_id)
+      .maybeSingle();
+
+    if (matchError) {
+      logger.error('Failed to load match for icebreakers', {
+        userId: user.id,
+        matchId: match_id,
+        error: matchError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to load match' },
+        { endpoint: 'get-icebreakers', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    if (!match || match.deleted_at || (match.user1_id !== user.id && match.user2_id !== user.id)) {
+      return createErrorResponse(
+        { code: 'not_found', message: 'Match not found' },
+        { endpoint: 'get-icebreakers', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const otherUserId = match.user1_id === user.id ? match.user2_id : match.user1_id;
+
+    // Natal charts and questionnaire answers are not readable across users
+    // through RLS, so both profiles are loaded with the service role
+    const supabaseAdmin = getSupabaseAdmin();
+    const [usersResult, proposalResult, scoringProfile] = await Promise.all([
+      supabaseAdmin
+        .from('users')
+        .select('id, display_name, name, natal_chart_data, questionnaire_responses, preferences')
+        .in('id', [user.id, otherUserId]),
+      supabaseClient
+        .from('date_proposals')
+        .select('activity_details')
+        .eq('match_id', match_id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      loadActiveScoringProfile(supabaseAdmin)
+    ]);
+
+    if (usersResult.error) {
+      logger.error('Failed to load profiles for icebreakers', {
+        userId: user.id,
+        matchId: match_id,
+        error: usersResult.error.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to load match profiles' },
+        { endpoint: 'get-icebreakers', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    if (proposalResult.error) {
+      // Openers still work from stated preferences
+      logger.warn('Failed to load date proposal for icebreakers', {
+        userId: user.id,
+        matchId: match_id,
+        error: proposalResult.error.message,
+        requestId
+      });
+    }
+
+    const viewerData = usersResult.data?.find((u: any) => u.id === user.id);
+    const otherData = usersResult.data?.find((u: any) => u.id === otherUserId);
+
+    // Missing rows fall back to the generic templates
+    const icebreakers = generateIcebreakers(
+      {
+        matchId: match_id,
+        viewer: createUserProfileFromDbData(viewerData ?? { id: user.id }),
+        other: createUserProfileFromDbData(otherData ?? { id: otherUserId }),
+        proposalActivityType: proposalResult.data?.activity_details?.type ?? null
+      },
+      scoringProfile
+    );
+
+    logger.info('Icebreakers generated', {
+      userId: user.id,
+      matchId: match_id,
+      templates: icebreakers.map(icebreaker => icebreaker.id),
+      requestId
+    });
+
+    return createSuccessResponse(
+      {
+        match_id,
+        conversation_id: match.conversation_id ?? null,
+        icebreakers,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      200
+    );
+
+  } catch (error) {
+    logger.error('Critical error in get-icebreakers', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    return createErrorResponse(
+      { code: 'server_error', message: 'Failed to generate icebreakers' },
+      { endpoint: 'get-icebreakers', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
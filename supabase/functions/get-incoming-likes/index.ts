@@ -0,0 +1,307 @@
+/**
+ * Get Incoming Likes Edge Function ("Who liked me")
+ *
+ * Lists users who liked the caller and are still waiting for a reciprocal
+ * swipe. Backed by get_incoming_likes_with_cursor (service role only, since
+ * it returns identifying fields), paginated on a (liked_at, like_id) keyset.
+ *
+ * Features:
+ * - Premium users (has_active_premium) get full profile cards
+ * - Free users get blurred previews without identifying fields
+ * - Cursor pagination (pass back next_cursor and next_cursor_id to load older likes)
+ */
+
+import { serve } from 'std/http/server.ts';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { logger } from '../_shared/logger.ts';
+
+// Zod schema for query parameters
+const IncomingLikesQuerySchema = z.object({
+  limit: z.string().optional().default('20').transform(val => parseInt(val, 10))
+    .pipe(z.number().int().min(1).max(50)),
+  cursor: z.string().datetime({ offset: true }).optional(),
+  cursor_id: z.string().uuid().optional(),
+});
+
+interface IncomingLikeRow {
+  like_id: string;
+  liker_id: string;
+  liked_at: string;
+  source: 'swipe' | 'match_request';
+  is_super_like: boolean;
+  super_like_note: string | null;
+  display_name: string | null;
+  avatar_url: string | null;
+  age: number | null;
+  zodiac_sign: string | null;
+  bio: string;
+  interests: string[];
+  has_more: boolean;
+  next_cursor: string | null;
+  next_cursor_id: string | null;
+}
+
+let previewKey: Promise<CryptoKey> | null = null;
+
+/**
+ * HMAC key for preview ids. LIKE_PREVIEW_SECRET if set, otherwise the
+ * service role key (always present, never sent to clients).
+ */
+function getPreviewKey(): Promise<CryptoKey> {
+  if (!previewKey) {
+    const secret = Deno.env.get('LIKE_PREVIEW_SECRET') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!secret) {
+      throw new Error('Missing LIKE_PREVIEW_SECRET');
+    }
+    previewKey = crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+  }
+  return previewKey;
+}
+
+/**
+ * Build a preview card for non-premium users. Only non-identifying fields
+ * are kept; preview_id is stable per (viewer, liker) but, being keyed with a
+ * server secret, can't be recomputed from candidate ids the viewer knows.
+ */
+async function toBlurredPreview(viewerId: string, row: IncomingLikeRow) {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await getPreviewKey(),
+    new TextEncoder().encode(`${viewerId}:${row.liker_id}`)
+  );
+  const previewId = Array.from(new Uint8Array(signature))
+    .slice(0, 12)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+  return {
+    preview_id: previewId,
+    liked_at: row.liked_at,
+    is_super_like: row.is_super_like,
+    zodiac_sign: row.zodiac_sign,
+    blurred: true
+  };
+}
+
+function toFullCard(row: IncomingLikeRow) {
+  return {
+    user_id: row.liker_id,
+    liked_at: row.liked_at,
+    source: row.source,
+    is_super_like: row.is_super_like,
+    super_like_note: row.super_like_note,
+    display_name: row.display_name,
+    avatar_url: row.avatar_url,
+    age: row.age,
+    zodiac_sign: row.zodiac_sign,
+    bio: row.bio,
+    interests: row.interests,
+    blurred: false
+  };
+}
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `incoming_likes_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow GET method
+    if (req.method !== 'GET') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'get-incoming-likes', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/get-incoming-likes',
+      undefined,
+      RateLimitCategory.MATCHING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'get-incoming-likes',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'get-incoming-likes', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'get-incoming-likes',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'get-incoming-likes', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'get-incoming-likes', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'get-incoming-likes', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'get-incoming-likes', requestId },
+        corsHeaders
+      );
+    }
+
+    // Parse and validate query parameters
+    const url = new URL(req.url);
+    const queryResult = IncomingLikesQuerySchema.safeParse(Object.fromEntries(url.searchParams.entries()));
+    if (!queryResult.success) {
+      return createValidationErrorResponse(queryResult.error, corsHeaders);
+    }
+    const { limit, cursor, cursor_id } = queryResult.data;
+
+    const [likesResult, premiumResult] = await Promise.all([
+      getSupabaseAdmin().rpc('get_incoming_likes_with_cursor', {
+        p_user_id: user.id,
+        p_limit: limit,
+        p_cursor: cursor ?? null,
+        p_cursor_id: cursor_id ?? null
+      }),
+      supabaseClient.rpc('has_active_premium', { user_uuid: user.id })
+    ]);
+
+    if (likesResult.error) {
+      logger.error('Failed to load incoming likes', {
+        userId: user.id,
+        error: likesResult.error.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to load incoming likes' },
+        { endpoint: 'get-incoming-likes', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    if (premiumResult.error) {
+      // Fail closed: without a premium answer, only show blurred previews
+      logger.warn('Premium check failed, returning blurred previews', {
+        userId: user.id,
+        error: premiumResult.error.message,
+        requestId
+      });
+    }
+
+    const isPremium = premiumResult.data === true;
+    const rows = (likesResult.data || []) as IncomingLikeRow[];
+    const likes = isPremium
+      ? rows.map(toFullCard)
+      : await Promise.all(rows.map(row => toBlurredPreview(user.id, row)));
+
+    const lastRow = rows[rows.length - 1];
+
+    return createSuccessResponse(
+      {
+        likes,
+        is_premium: isPremium,
+        pagination: {
+          hasMore: lastRow?.has_more ?? false,
+          nextCursor: lastRow?.next_cursor ?? null,
+          nextCursorId: lastRow?.next_cursor_id ?? null,
+          pageSize: likes.length
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      200
+    );
+
+  } catch (error) {
+    logger.error('Critical error in get-incoming-likes', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    return createErrorResponse(
+      { code: 'server_error', message: 'Failed to load incoming likes' },
+      { endpoint: 'get-incoming-likes', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
@@ -34,8 +34,12 @@ interface ConversationDetails {
   last_message_at: string | null; 
   last_message_preview: string | null; 
   other_participant: ConversationParticipant;
-  unread_count?: number; 
+  unread_count: number; // Counts private reads too
   match_id: string | null; 
+  is_pinned: boolean;
+  pinned_at: string | null;
+  is_archived: boolean;
+  muted_until: string | null; // 'forever' when muted until unmuted
 }
 
 serve(async (req: Request) => {
@@ -144,9 +148,12 @@ serve(async (req: Request) => {
   }
 
   try {
+    // Pinned conversations come first; archived ones only when asked for
+    const includeArchived = new URL(req.url).searchParams.get('include_archived') === 'true';
+
     const { data: rpcData, error: rpcError } = await supabaseClient.rpc(
       'get_user_conversations_with_details',
-      { p_user_id: user.id }
+      { p_user_id: user.id, p_include_archived: includeArchived }
     );
 
     if (rpcError) {
@@ -167,6 +174,11 @@ throw rpcError;
       last_message_at: row.last_message_at,
       last_message_preview: row.last_message_preview,
       match_id: row.match_id,
+      is_pinned: row.is_pinned ?? false,
+      pinned_at: row.pinned_at ?? null,
+      is_archived: row.is_archived ?? false,
+      muted_until: row.muted_until === 'infinity' ? 'forever' : row.muted_until ?? null,
+      unread_count: row.unread_count ?? 0,
       other_participant: {
         id: row.other_participant_id,
         display_name: row.other_participant_display_name,
@@ -2,9 +2,26 @@ import { serve } from 'std/http/server.ts';
 import { createClient } from '@supabase/supabase-js';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
 import { getCorsHeaders } from '../_shared/cors.ts';
-import { UpstashFetchClient } from '../_shared/upstash-fetch-client.ts';
-
-console.log('[BOOT] Testing Direct UpstashFetchClient...');
+import {
+  loadActiveDeck,
+  requestMatchDeck,
+  readDeckPage,
+  encodeDeckCursor,
+  decodeDeckCursor
+} from '../_shared/match-deck.ts';
+import { buildRankingExplanation } from '../_shared/match-explanation.ts';
+import { loadScoringProfile, type ScoringProfile } from '../_shared/scoring-profile.ts';
+import {
+  getExperimentAssignments,
+  logExperimentExposure,
+  summarizeAssignments
+} from '../_shared/experiments.ts';
+
+/** Candidates returned per feed request */
+const PAGE_SIZE = 20;
+
+/** Suggested client retry delay while a deck is being built */
+const DECK_PENDING_RETRY_SECONDS = 5;
 
 const QueryParamsSchema = z.object({
   cursor: z.string().optional(),
@@ -13,35 +30,11 @@ const QueryParamsSchema = z.object({
   min_age: z.string().optional().transform(val => val ? parseInt(val) : undefined),
   max_age: z.string().optional().transform(val => val ? parseInt(val) : undefined),
   max_distance_km: z.string().optional().transform(val => val ? parseInt(val) : undefined),
+  // Opt-in ranking breakdown per candidate (admins only: product / support tooling)
+  explain: z.union([z.boolean(), z.enum(['true', 'false'])]).optional()
+    .transform(val => val === true || val === 'true'),
 });
 
-// Initialize Redis client once at module level
-let redisClient: UpstashFetchClient | null = null;
-
-function getRedisClient(): UpstashFetchClient | null {
-  if (redisClient) return redisClient;
-
-  const redisUrl = Deno.env.get('UPSTASH_REDIS_REST_URL');
-  const redisToken = Deno.env.get('UPSTASH_REDIS_REST_TOKEN');
-
-  if (!redisUrl) {
-    console.warn('[REDIS] No UPSTASH_REDIS_REST_URL - caching disabled');
-    return null;
-  }
-
-  try {
-    redisClient = new UpstashFetchClient({
-      url: redisUrl,
-      token: redisToken
-    });
-    console.log('[REDIS] Client initialized successfully');
-    return redisClient;
-  } catch (error) {
-    console.error('[REDIS] Failed to initialize client:', error);
-    return null;
-  }
-}
-
 serve(async (req: Request) => {
   console.log('[REQUEST] Received:', req.method, new URL(req.url).pathname);
 
@@ -102,38 +95,18 @@ serve(async (req: Request) => {
       }
     }
 
+    // explain may also be passed as a query string flag (?explain=true)
+    const explainParam = new URL(req.url).searchParams.get('explain');
+    if (explainParam !== null && queryParams.explain === undefined) {
+      queryParams.explain = explainParam;
+    }
+
     const validated = QueryParamsSchema.parse(queryParams);
     console.log('[INPUT] Validated:', validated);
 
-    // 2.5. CACHE FOR DATABASE QUERY ONLY - NOT FINAL SCORES
-    // CRITICAL FIX: Never return cached scores without recalculation
-    // Cache is only used to avoid repeated database queries for the same user list
-    const redis = getRedisClient();
-    const cacheKey = `stellr:matches:profiles:${user.id}:${JSON.stringify(validated)}`;
-
-    let cachedProfiles = null;
-    let fromCacheQuery = false;
-
-    if (redis) {
-      try {
-        const cachedValue = await redis.get(cacheKey);
-        if (cachedValue) {
-          cachedProfiles = JSON.parse(cachedValue);
-          fromCacheQuery = true;
-          console.log('[REDIS] Cache hit for profile list - will recalculate scores');
-        } else {
-          console.log('[REDIS] Cache miss - querying database');
-        }
-      } catch (error) {
-        console.warn('[REDIS] Cache get failed:', error);
-        // Continue without cache
-      }
-    } else {
-      console.log('[REDIS] Client not available - querying database');
-    }
-
-    // 3. QUERY DATABASE USING OPTIMIZED POSTGRESQL FUNCTION (or use cached profiles)
-    // This function handles all advanced filtering:
+    // 3. SERVE FROM PRECOMPUTED DECK
+    // Decks are built by the build-match-decks worker from
+    // get_potential_matches_optimized, which handles all advanced filtering:
     // - Gender preference (bidirectional)
     // - Zodiac compatibility
     // - Age range filtering
@@ -141,150 +114,133 @@ serve(async (req: Request) => {
     // - Swipe exclusion (don't show already-swiped users)
     // - Activity preferences filtering (MAIN APP FEATURE)
     // - Compatibility score ranking
-
-    let data = cachedProfiles;
-
-    if (!cachedProfiles) {
-      console.log('[DB] Calling get_potential_matches_optimized RPC function');
-
-      const { data: dbData, error: dbError } = await client.rpc('get_potential_matches_optimized', {
-        viewer_id: user.id,
-        exclude_user_ids: [], // Empty array - function will automatically exclude swiped users
-        zodiac_filter: validated.zodiac_sign || null,
-        min_age_filter: validated.min_age || null,
-        max_age_filter: validated.max_age || null,
-        max_distance_km: validated.max_distance_km || null,
-        activity_filter: validated.activity_type || null, // NEW: Activity type filtering - MAIN APP FEATURE
-        limit_count: 20,
-        offset_count: 0
-      });
-
-      if (dbError) {
-        console.error('[DB] Query error:', dbError);
+    // Fresh compatibility scores are calculated once per deck (see
+    // _shared/match-deck.ts), never on a feed request.
+    const { cursor, explain, ...filters } = validated;
+
+    // Explanations expose score components and the candidates' mutual fit,
+    // so they are limited to admins (support / product tooling)
+    if (explain) {
+      const { data: viewerProfile, error: viewerProfileError } = await client
+        .from('profiles')
+        .select('is_admin')
+        .eq('id', user.id)
+        .single();
+
+      if (viewerProfileError || !viewerProfile?.is_admin) {
+        console.error('[AUTH] Explain mode denied for non-admin:', user.id);
         return new Response(
-          JSON.stringify({ error: 'Database query failed', details: dbError.message }),
-          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          JSON.stringify({ error: 'Admin privileges required for explain mode' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-
-      data = dbData;
-      console.log('[DB] Found matches:', data?.length || 0);
-
-      // Cache the profile list (not scores) for future queries
-      if (redis && data && data.length > 0) {
-        try {
-          await redis.setex(cacheKey, 300, JSON.stringify(data)); // 5min TTL for profile list only
-          console.log('[REDIS] Cached profile list (scores will be recalculated)');
-        } catch (error) {
-          console.warn('[REDIS] Failed to cache profile list:', error);
-        }
-      }
-    } else {
-      console.log('[CACHE] Using cached profile list, recalculating fresh scores');
     }
 
-    // 3.6. ALWAYS CALCULATE FRESH COMPATIBILITY SCORES FOR ACCURACY
-    let updatedData = data || [];
-
-    if (data && data.length > 0) {
-      console.log('[COMPAT] Starting FRESH compatibility calculation for', data.length, 'matches');
-      console.log('[COMPAT] Note: Scores are ALWAYS calculated fresh, never using stale cache');
-
-      // Store calculated scores in a Map for quick lookup
-      const scoreMap = new Map<string, number>();
-      const failedCalculations: string[] = [];
-
-      // AWAIT calculation completion - this blocks response until scores are ready
-      await Promise.all(
-        data.map(async (match: any) => {
-          try {
-            console.log('[COMPAT] Calculating fresh score for match:', match.id,
-                       match.compatibility_score ? `(ignoring cached: ${match.compatibility_score})` : '(no cache)');
-
-            const { data: compScore, error: compError } = await client.rpc('calculate_compatibility_scores', {
-              user_a_id: user.id,
-              user_b_id: match.id
-            });
-
-            if (compError) {
-              console.error('[COMPAT] Calculation error for', match.id, ':', compError.message);
-              failedCalculations.push(match.id);
-              return;
-            }
-
-            if (compScore && compScore.overall_score != null) {
-              const freshScore = compScore.overall_score;
-              console.log('[COMPAT] ✓ Fresh score calculated for', match.id, ':', freshScore);
-
-              // Store score in map for later use
-              scoreMap.set(match.id, freshScore);
-
-              // Cache in compatibility_scores table with expiry for future queries
-              const expiresAt = new Date();
-              expiresAt.setHours(expiresAt.getHours() + 24); // 24 hour expiry
+    const decodedCursor = cursor ? decodeDeckCursor(cursor) : null;
 
-              const { error: insertError } = await client
-                .from('compatibility_scores')
-                .upsert({
-                  user_id: user.id,
-                  potential_match_id: match.id,
-                  compatibility_score: freshScore,
-                  score_components: compScore,
-                  calculated_at: new Date().toISOString(),
-                  expires_at: expiresAt.toISOString()
-                }, {
-                  onConflict: 'user_id,potential_match_id'
-                });
+    const deck = await loadActiveDeck(client, user.id, filters);
 
-              if (insertError) {
-                console.error('[COMPAT] Insert error for', match.id, ':', insertError.message);
-              } else {
-                console.log('[COMPAT] ✓ Cached fresh score for', match.id, '(expires in 24h)');
-              }
-            } else {
-              console.warn('[COMPAT] No score returned for', match.id);
-              failedCalculations.push(match.id);
-            }
-          } catch (error) {
-            console.error('[COMPAT] Calculation failed for', match.id, ':', error);
-            failedCalculations.push(match.id);
+    // No usable deck (none yet, stale, other filters or used up): queue a
+    // build and tell the client to retry shortly
+    if (!deck) {
+      await requestMatchDeck(client, user.id, filters);
+      return new Response(
+        JSON.stringify({
+          data: [],
+          pagination: { hasMore: true, nextCursor: null, pageSize: 0 },
+          metadata: {
+            deckPending: true,
+            retryAfterSeconds: DECK_PENDING_RETRY_SECONDS,
+            explained: explain
+          }
+        }),
+        {
+          status: 202,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            'Retry-After': String(DECK_PENDING_RETRY_SECONDS)
           }
-        })
+        }
       );
+    }
 
-      // Update data array with freshly calculated scores
-      updatedData = data.map((match: any) => {
-        const freshScore = scoreMap.get(match.id);
-        return {
-          ...match,
-          compatibility_score: freshScore ?? 50 // Default to 50 if calculation failed
-        };
-      });
+    // A cursor from the current deck wins; otherwise resume from the
+    // server-side cursor (a cursor from an older deck starts it over)
+    let position = deck.cursor_position;
+    if (decodedCursor) {
+      position = decodedCursor.deckId === deck.deck_id ? decodedCursor.position : 0;
+    }
 
-      console.log('[COMPAT] ✓ Calculated', scoreMap.size, 'fresh scores,', failedCalculations.length, 'failed');
-      if (failedCalculations.length > 0) {
-        console.warn('[COMPAT] Failed calculations for:', failedCalculations.join(', '));
+    const page = await readDeckPage(client, deck, position, PAGE_SIZE);
+
+    // Experiment variants (deterministic per user); log the feed exposure
+    const assignments = await getExperimentAssignments(client, user.id);
+    await logExperimentExposure(client, user.id, assignments, 'match_feed');
+
+    // Score components and mutual fit (which would reveal the candidate's
+    // likes) stay server-side unless an explanation was requested
+    // Each candidate is explained with the profile its deck score was
+    // blended with; the fraud flag isn't stored on the deck, so it is read
+    // here (admins can see swipe_fraud_flags)
+    const scoringProfiles = new Map<number, ScoringProfile>();
+    const deprioritizedIds = new Set<string>();
+    if (explain) {
+      for (const version of new Set(page.candidates.map(candidate => candidate.scoring_profile_version))) {
+        scoringProfiles.set(version, await loadScoringProfile(client, version));
+      }
+
+      const { data: flags, error: flagsError } = await client
+        .from('swipe_fraud_flags')
+        .select('user_id')
+        .in('user_id', page.candidates.map(candidate => candidate.id))
+        .eq('deprioritized', true);
+
+      if (flagsError) {
+        console.warn('[EXPLAIN] Swipe fraud flags unavailable:', flagsError.message);
+      }
+      for (const flag of flags || []) {
+        deprioritizedIds.add(flag.user_id);
       }
     }
 
-    // 3.7. NO LONGER CACHING FINAL SCORES - Always calculate fresh for accuracy
-    // Profile list cache (line 176) ensures we don't re-query database unnecessarily
-    // But compatibility scores are ALWAYS freshly calculated
+    const candidates = page.candidates.map(({ score_components, scoring_profile_version, mutual_fit, ...candidate }, index) => (
+      explain
+        ? {
+            ...candidate,
+            ranking_explanation: buildRankingExplanation(
+              {
+                ...candidate,
+                score_components,
+                scoring_profile_version,
+                mutual_fit,
+                shadow_deprioritized: deprioritizedIds.has(candidate.id)
+              },
+              page.positions[index],
+              scoringProfiles.get(scoring_profile_version)
+            )
+          }
+        : candidate
+    ));
 
-    // 4. RETURN RESPONSE (with fresh real-time calculated scores)
+    // 4. RETURN RESPONSE
     return new Response(
       JSON.stringify({
-        data: updatedData,
+        data: candidates,
         pagination: {
-          hasMore: false,
-          nextCursor: null,
-          pageSize: updatedData.length
+          hasMore: page.hasMore,
+          nextCursor: page.hasMore ? encodeDeckCursor(deck.deck_id, page.nextPosition) : null,
+          pageSize: candidates.length
         },
         metadata: {
-          profileListCached: fromCacheQuery,
-          scoresCalculatedFresh: true,
-          calculatedAt: new Date().toISOString(),
-          note: 'Compatibility scores are ALWAYS calculated fresh for accuracy'
+          deckId: deck.deck_id,
+          deckPending: false,
+          deckGeneratedAt: deck.generated_at,
+          deckExpiresAt: deck.expires_at,
+          deckSize: deck.candidate_count,
+          deckPosition: page.nextPosition,
+          explained: explain,
+          experiments: summarizeAssignments(assignments)
         }
       }),
       {
@@ -307,5 +263,3 @@ serve(async (req: Request) => {
     );
   }
 });
-
-console.log('[BOOT] Direct fetch-based Redis client ready');
@@ -83,6 +83,8 @@ interface SettingsResponse {
     max_height_preference?: number;
     education_level_preference?: string[];
     zodiac_compatibility_required: boolean;
+    children_preference?: string[] | null;
+    filter_strictness?: Record<'age' | 'distance' | 'gender' | 'children', 'dealbreaker' | 'preference'>;
   };
   privacy_settings?: {
     read_receipts_enabled: boolean;
@@ -91,6 +93,8 @@ interface SettingsResponse {
     show_age_on_profile: boolean;
     show_height_on_profile: boolean;
     data_sharing_enabled: boolean;
+    show_activity_status?: boolean;
+    typing_indicators_enabled?: boolean;
   };
   notification_settings?: {
     message_notifications_enabled: boolean;
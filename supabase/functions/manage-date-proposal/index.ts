@@ -15,13 +15,22 @@ import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhance
 import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
 // Using import map
 
+const MAX_PROPOSAL_SLOTS = 5;
+
 // Zod Schemas for Input Validation
+const ProposalSlotSchema = z.object({
+  datetime: z.string().datetime().refine(value => new Date(value) > new Date(), 'Slot must be in the future'),
+  location: z.string().max(200).optional().nullable(),
+});
+
 const CreatePayloadSchema = z.object({
   match_id: z.string().uuid(),
   proposer_id: z.string().uuid(),
   recipient_id: z.string().uuid(),
   conversation_id: z.string().uuid().optional().nullable(),
-  proposed_datetime: z.string().datetime(), 
+  proposed_datetime: z.string().datetime().optional(),
+  // Candidate slots the recipient picks from; proposed_datetime is the first one
+  proposed_slots: z.array(ProposalSlotSchema).min(1).max(MAX_PROPOSAL_SLOTS).optional(),
   location: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
   activity_details: z.object({ 
@@ -30,18 +39,55 @@ const CreatePayloadSchema = z.object({
     customTitle: z.string().optional().nullable(),
     customDescription: z.string().optional().nullable(),
   }),
+}).refine(data => data.proposed_datetime || data.proposed_slots, {
+  message: 'Either proposed_datetime or proposed_slots is required',
 });
 
 const UpdateStatusPayloadSchema = z.object({
   proposal_id: z.string().uuid(),
   status: z.enum(['accepted', 'rejected', 'cancelled_by_proposer', 'cancelled_by_recipient', 'completed']),
+  // Required when accepting a proposal with more than one slot
+  slot_index: z.number().int().min(0).max(MAX_PROPOSAL_SLOTS - 1).optional(),
+});
+
+const CounterPayloadSchema = z.object({
+  proposal_id: z.string().uuid(),
+  proposed_slots: z.array(ProposalSlotSchema).min(1).max(MAX_PROPOSAL_SLOTS).optional(),
+  location: z.string().min(1).max(200).optional(),
+  notes: z.string().max(500).optional(),
+}).refine(data => data.proposed_slots || data.location, {
+  message: 'A counter needs new slots or a different location',
 });
 
 const RequestBodySchema = z.union([
   z.object({ action: z.literal('create'), payload: CreatePayloadSchema }),
   z.object({ action: z.literal('updateStatus'), payload: UpdateStatusPayloadSchema }),
+  z.object({ action: z.literal('counter'), payload: CounterPayloadSchema }),
 ]);
 
+/** Proposal row returned by update_date_proposal_status_rpc and accept_date_proposal_slot */
+interface DateProposalRow {
+  id: string;
+  proposer_id: string;
+  recipient_id: string;
+  conversation_id: string | null;
+  status: string;
+  proposed_datetime: string;
+  [column: string]: unknown;
+}
+
+// counter_date_proposal / accept_date_proposal_slot failure reasons
+const NEGOTIATION_FAILURE_STATUS: Record<string, { status: number; message: string }> = {
+  not_found: { status: 404, message: 'Proposal not found' },
+  not_recipient: { status: 403, message: 'Only the recipient of the current terms can respond' },
+  not_pending: { status: 409, message: 'Proposal is no longer pending' },
+  too_many_counters: { status: 409, message: 'This proposal has been countered too many times' },
+  invalid_counter: { status: 400, message: 'A counter needs new slots or a different location' },
+  invalid_slots: { status: 400, message: 'Slots must be future times' },
+  invalid_slot: { status: 400, message: 'Selected slot does not exist' },
+  slot_in_past: { status: 409, message: 'Selected slot has already passed' },
+};
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*', 
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -173,13 +219,18 @@ return new Response(JSON.stringify({ error: 'Failed to initialize Supabase clien
         });
       }
 
+      const proposedSlots = createPayload.proposed_slots
+        ? createPayload.proposed_slots.map(slot => ({ datetime: slot.datetime, location: slot.location || createPayload.location || null }))
+        : [{ datetime: createPayload.proposed_datetime!, location: createPayload.location || null }];
+
       const proposalToInsert = {
         match_id: createPayload.match_id,
         proposer_id: createPayload.proposer_id,
         recipient_id: createPayload.recipient_id,
         conversation_id: createPayload.conversation_id || null,
-        proposed_datetime: createPayload.proposed_datetime,
-        location: createPayload.location || null,
+        proposed_datetime: proposedSlots[0].datetime,
+        proposed_slots: proposedSlots,
+        location: proposedSlots[0].location,
         notes: createPayload.notes || null,
         activity_details: createPayload.activity_details,
       };
@@ -211,7 +262,7 @@ return new Response(JSON.stringify({ error: 'Failed to initialize Supabase clien
 
     } else if (action === 'updateStatus') {
       const updatePayload = payload as z.infer<typeof UpdateStatusPayloadSchema>;
-      const { data: currentProposal, error: fetchError } = await supabaseClient.from('date_proposals').select('proposer_id, recipient_id, conversation_id, status, proposed_datetime').eq('id', updatePayload.proposal_id).single();
+      const { data: currentProposal, error: fetchError } = await supabaseClient.from('date_proposals').select('proposer_id, recipient_id, conversation_id, status, proposed_datetime, proposed_slots').eq('id', updatePayload.proposal_id).single();
       if (fetchError || !currentProposal) throw fetchError || new Error(`Proposal not found: ${updatePayload.proposal_id}`);
 
       const isProposer = currentProposal.proposer_id === user.id;
@@ -220,16 +271,41 @@ return new Response(JSON.stringify({ error: 'Failed to initialize Supabase clien
         throw new Error('Permission denied for this status update.');
       }
 
-      const { data, error } = await supabaseClient.rpc('update_date_proposal_status_rpc', {
-        proposal_id_input: updatePayload.proposal_id, new_status_input: updatePayload.status, acting_user_id: user.id
-      });
-      
-      if (error) throw error;
-      if (!data) throw new Error('Failed to update status: No data from RPC.');
+      // Multi-slot proposals are accepted for one specific slot; the slot is
+      // selected and the proposal accepted in a single RPC
+      const slotCount = Array.isArray(currentProposal.proposed_slots) ? currentProposal.proposed_slots.length : 0;
+      let data: DateProposalRow;
+      if (updatePayload.status === 'accepted' && (slotCount > 1 || updatePayload.slot_index !== undefined)) {
+        if (updatePayload.slot_index === undefined) {
+          return new Response(JSON.stringify({ error: 'slot_index is required to accept a proposal with several slots', reason: 'slot_required' }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400
+          });
+        }
+
+        const { data: acceptResult, error: acceptError } = await supabaseClient.rpc('accept_date_proposal_slot', {
+          p_proposal_id: updatePayload.proposal_id, p_user_id: user.id, p_slot_index: updatePayload.slot_index
+        });
+        if (acceptError) throw acceptError;
+        if (!acceptResult?.success) {
+          const failure = NEGOTIATION_FAILURE_STATUS[acceptResult?.reason] || { status: 400, message: 'Could not accept slot' };
+          return new Response(JSON.stringify({ error: failure.message, reason: acceptResult?.reason }), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: failure.status
+          });
+        }
+        data = acceptResult.proposal as DateProposalRow;
+      } else {
+        const { data: statusData, error } = await supabaseClient.rpc('update_date_proposal_status_rpc', {
+          proposal_id_input: updatePayload.proposal_id, new_status_input: updatePayload.status, acting_user_id: user.id
+        });
+
+        if (error) throw error;
+        if (!statusData) throw new Error('Failed to update status: No data from RPC.');
+        data = statusData as DateProposalRow;
+      }
 
       try {
         let userToNotifyId: string | null = null; let notificationBody = '';
-        const updatedProposal = data as any; // Assuming RPC returns the updated proposal
+        const updatedProposal = data;
         const proposerName = (await supabaseClient.from('profiles').select('display_name').eq('id', updatedProposal.proposer_id).single()).data?.display_name || 'Your match';
         const recipientName = (await supabaseClient.from('profiles').select('display_name').eq('id', updatedProposal.recipient_id).single()).data?.display_name || 'Your match';
         const formattedDate = new Date(updatedProposal.proposed_datetime).toLocaleDateString();
@@ -249,6 +325,45 @@ return new Response(JSON.stringify({ error: 'Failed to initialize Supabase clien
       }
 
       return new Response(JSON.stringify(data), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 });
+
+    } else if (action === 'counter') {
+      const counterPayload = payload as z.infer<typeof CounterPayloadSchema>;
+
+      const { data: counterResult, error: counterError } = await supabaseClient.rpc('counter_date_proposal', {
+        p_proposal_id: counterPayload.proposal_id,
+        p_user_id: user.id,
+        p_slots: counterPayload.proposed_slots
+          ? counterPayload.proposed_slots.map(slot => ({ datetime: slot.datetime, location: slot.location || null }))
+          : null,
+        p_location: counterPayload.location || null,
+        p_notes: counterPayload.notes || null,
+      });
+
+      if (counterError) throw counterError;
+      if (!counterResult?.success) {
+        const failure = NEGOTIATION_FAILURE_STATUS[counterResult?.reason] || { status: 400, message: 'Could not counter proposal' };
+        return new Response(JSON.stringify({ error: failure.message, reason: counterResult?.reason }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: failure.status
+        });
+      }
+
+      // The counter swapped roles: the original proposer now has to respond
+      const counteredProposal = counterResult.proposal;
+      try {
+        const { data: targetProfile } = await supabaseClient.from('profiles').select('push_token').eq('id', counteredProposal.recipient_id).single();
+        const { data: counterProfile } = await supabaseClient.from('profiles').select('display_name').eq('id', user.id).single();
+        if (targetProfile?.push_token) {
+          await sendPushNotification(
+            targetProfile.push_token, 'New Counter-Proposal 🔁',
+            `${counterProfile?.display_name || 'Your match'} suggested ${counterPayload.proposed_slots ? 'other times' : 'a different place'} for your date.`,
+            { type: 'date_proposal_countered', proposalId: counteredProposal.id, conversationId: counteredProposal.conversation_id || undefined }
+          );
+        }
+      } catch (notificationError) {
+        console.error('Failed to send push notification:', notificationError);
+      }
+
+      return new Response(JSON.stringify(counteredProposal), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 });
     }
 
     return new Response(JSON.stringify({ error: 'Invalid action' }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 });
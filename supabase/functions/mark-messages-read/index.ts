@@ -6,7 +6,9 @@
  * 
  * Features:
  * - Respects user privacy settings for read receipts
- * - Mutual consent read receipt sharing
+ * - Mutual consent read receipt sharing: with receipts off on either side
+ *   the sender never sees the read, but the reader's unread counts still
+ *   update (see 20251119000000_read_receipt_privacy.sql)
  * - Bulk message marking for performance
  * - Comprehensive security and validation
  * - Real-time notification integration
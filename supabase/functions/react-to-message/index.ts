@@ -0,0 +1,323 @@
+/**
+ * React To Message Edge Function
+ *
+ * Toggles the caller's emoji reaction on a message: reacting with an emoji
+ * the caller already used removes it. Reactions are limited to a fixed set
+ * and only conversation participants may react (toggle_message_reaction
+ * checks is_conversation_participant).
+ *
+ * The other participant receives a message_reaction broadcast and, unless
+ * the client opts out or their notification settings say otherwise, a
+ * low-priority push.
+ */
+
+import { serve } from 'std/http/server.ts';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { csrfMiddleware } from '../_shared/csrf-protection.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { broadcastMessageEvent } from '../_shared/message-events.ts';
+import { sendPushNotification } from '../_shared/sendPushNotification.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { logger } from '../_shared/logger.ts';
+
+/** Reactions clients may use. Keep in sync with message_reactions_reaction_allowed. */
+const ALLOWED_REACTIONS = ['❤️', '😂', '😮', '😢', '👍', '🔥'] as const;
+
+const ReactToMessagePayloadSchema = z.object({
+  message_id: z.string().uuid('Invalid message ID format'),
+  reaction: z.enum(ALLOWED_REACTIONS, {
+    errorMap: () => ({ message: `Reaction must be one of ${ALLOWED_REACTIONS.join(' ')}` })
+  }),
+  // Set false to skip the push to the message sender (e.g. rapid re-taps)
+  notify: z.boolean().default(true),
+}).strict();
+
+interface ReactionResult {
+  success: boolean;
+  reason?: 'not_found' | 'invalid_reaction' | 'unsent';
+  action?: 'added' | 'removed';
+  message_id?: string;
+  conversation_id?: string;
+  message_sender_id?: string;
+  reaction?: string;
+  reaction_counts?: Record<string, number>;
+}
+
+// Maps toggle_message_reaction failure reasons onto public error codes
+const REACTION_FAILURE_CODES: Record<NonNullable<ReactionResult['reason']>, string> = {
+  not_found: 'not_found',
+  invalid_reaction: 'validation_error',
+  unsent: 'conflict'
+};
+
+/**
+ * Low-priority push to the message sender about a new reaction. Respects
+ * the same notification settings as new messages. Never throws.
+ */
+async function notifyReaction(
+  client: SupabaseClient,
+  reactorId: string,
+  result: ReactionResult,
+  requestId: string
+): Promise<void> {
+  const recipientId = result.message_sender_id;
+  if (!recipientId || recipientId === reactorId) return;
+
+  try {
+    // Service role only: it reads the recipient's settings
+    const { data: shouldNotify } = await getSupabaseAdmin().rpc('should_send_notification', {
+      target_user_id: recipientId,
+      notification_type: 'message',
+      conversation_id: result.conversation_id
+    });
+    if (shouldNotify === false) return;
+
+    const { data: prefs } = await client
+      .rpc('get_user_notification_preferences', { target_user_id: recipientId });
+    if (!prefs?.message_notifications_enabled || !prefs?.message_notifications_push) return;
+
+    const [{ data: reactor }, { data: recipient }] = await Promise.all([
+      client.from('profiles').select('display_name').eq('id', reactorId).single(),
+      client.from('profiles').select('push_token').eq('id', recipientId).single()
+    ]);
+    if (!recipient?.push_token) return;
+
+    await sendPushNotification(
+      recipient.push_token,
+      `${reactor?.display_name || 'Someone'} reacted ${result.reaction}`,
+      'to your message',
+      {
+        type: 'message_reaction',
+        conversationId: result.conversation_id,
+        messageId: result.message_id
+      },
+      { priority: 'normal', silent: true }
+    );
+  } catch (error) {
+    logger.warn('Failed to send reaction notification', {
+      recipientId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId
+    });
+  }
+}
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `react_msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'react-to-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/react-to-message',
+      undefined,
+      RateLimitCategory.MESSAGING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // CSRF Protection (skipped outside production, as in send-message)
+    const environment = Deno.env.get('SENTRY_ENVIRONMENT') || Deno.env.get('ENVIRONMENT') || 'development';
+    if (environment === 'production') {
+      const csrfValidation = await csrfMiddleware.validateCSRF(req);
+      if (!csrfValidation.valid) {
+        return csrfValidation.response;
+      }
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'react-to-message',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'react-to-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'react-to-message',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'react-to-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'react-to-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'react-to-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'react-to-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const { message_id, reaction, notify } = ReactToMessagePayloadSchema.parse(await req.json());
+
+    // Participant check, toggle and recount happen atomically in SQL
+    const { data: reactionData, error: reactionError } = await supabaseClient
+      .rpc('toggle_message_reaction', {
+        p_message_id: message_id,
+        p_user_id: user.id,
+        p_reaction: reaction
+      });
+
+    if (reactionError) {
+      logger.error('Message reaction failed', {
+        userId: user.id,
+        messageId: message_id,
+        error: reactionError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to react to message' },
+        { endpoint: 'react-to-message', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const reactionResult = reactionData as ReactionResult;
+
+    if (!reactionResult?.success) {
+      const reason = reactionResult?.reason ?? 'not_found';
+      logger.info('Message reaction rejected', {
+        userId: user.id,
+        messageId: message_id,
+        reason,
+        requestId
+      });
+      return createErrorResponse(
+        { code: REACTION_FAILURE_CODES[reason], message: `Reaction rejected: ${reason}`, reason },
+        { endpoint: 'react-to-message', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    await broadcastMessageEvent(reactionResult.conversation_id!, 'message_reaction', {
+      message_id: reactionResult.message_id,
+      user_id: user.id,
+      reaction: reactionResult.reaction,
+      action: reactionResult.action,
+      reaction_counts: reactionResult.reaction_counts
+    });
+
+    if (notify && reactionResult.action === 'added') {
+      await notifyReaction(supabaseClient, user.id, reactionResult, requestId);
+    }
+
+    logger.info('Message reaction toggled', {
+      userId: user.id,
+      messageId: reactionResult.message_id,
+      action: reactionResult.action,
+      requestId
+    });
+
+    return createSuccessResponse(
+      {
+        message_id: reactionResult.message_id,
+        reaction: reactionResult.reaction,
+        action: reactionResult.action,
+        reaction_counts: reactionResult.reaction_counts ?? {},
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      200
+    );
+
+  } catch (error) {
+    logger.error('Critical error in react-to-message', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    const isValidationError = error instanceof z.ZodError || error instanceof SyntaxError;
+
+    return createErrorResponse(
+      {
+        code: isValidationError ? 'validation_error' : 'server_error',
+        message: isValidationError ? 'Invalid request data' : 'Message reaction failed'
+      },
+      { endpoint: 'react-to-message', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
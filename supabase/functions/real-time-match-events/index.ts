@@ -10,11 +10,19 @@
  * - Match response notifications  
  * - Connection management and heartbeat
  * - User-specific event streams
+ * - Per-conversation typing indicators (POST, throttled in record_typing_indicator)
+ * - Online / last-seen presence of conversation partners
  * - Security and authentication validation
+ *
+ * Typing and presence honour get_user_privacy_settings (typing_indicators_enabled,
+ * show_activity_status, incognito_mode) and blocks. They are fanned out through a
+ * private realtime broadcast channel so every instance can deliver to its own
+ * SSE connections.
  */
 
 import { serve } from 'std/http/server.ts';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { z, ZodError } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
 import { structuredLogger } from '../_shared/structured-logging.ts';
@@ -25,7 +33,7 @@ import { structuredLogger } from '../_shared/structured-logging.ts';
 
 interface MatchEvent {
   id: string;
-  type: 'match_request' | 'match_response' | 'new_match' | 'match_expired' | 'heartbeat';
+  type: 'match_request' | 'match_response' | 'new_match' | 'match_expired' | 'heartbeat' | 'typing' | 'presence';
   data: Record<string, any>;
   timestamp: string;
   userId: string;
@@ -48,6 +56,49 @@ interface ConnectionManager {
   getUserConnections(userId: string): string[];
 }
 
+/** One event for one user, relayed between instances */
+interface ActivityDelivery {
+  userId: string;
+  event: MatchEvent;
+}
+
+/** Row of get_presence_audience */
+interface PresenceAudienceRow {
+  viewer_id: string;
+  conversation_id: string;
+}
+
+/** Result of record_typing_indicator */
+interface TypingIndicatorResult {
+  success: boolean;
+  reason?: 'not_participant' | 'typing_disabled' | 'blocked' | 'throttled';
+  recipient_id?: string;
+}
+
+/** Logger handed to the activity handler by the request */
+interface ActivityLogger {
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+// Clients clear a typing indicator that is not refreshed within this time
+// (record_typing_indicator uses the same window)
+const TYPING_INDICATOR_TTL_MS = 6000;
+// Private broadcast channel used to hand typing/presence events to every instance
+const ACTIVITY_CHANNEL = 'realtime_activity';
+
+const ActivityPayloadSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('typing'),
+    conversation_id: z.string().uuid('Invalid conversation ID format'),
+    is_typing: z.boolean()
+  }).strict(),
+  z.object({
+    type: z.literal('presence'),
+    status: z.enum(['online', 'away', 'offline'])
+  }).strict()
+]);
+
 // =====================================================================================
 // CONNECTION MANAGER IMPLEMENTATION
 // =====================================================================================
@@ -62,6 +113,9 @@ class SSEConnectionManager implements ConnectionManager {
 
   private cleanupInterval: number;
 
+  /** Called when a user's last connection on this instance goes away */
+  onUserDisconnected?: (userId: string) => void;
+
   constructor() {
     // Cleanup stale connections every 30 seconds
     this.cleanupInterval = setInterval(() => this.cleanup(), 30000);
@@ -98,6 +152,10 @@ class SSEConnectionManager implements ConnectionManager {
         console.warn(`Error closing connection ${connectionId}:`, error);
       }
       this.connections.delete(connectionId);
+
+      if (this.onUserDisconnected && this.getUserConnections(connection.userId).length === 0) {
+        this.onUserDisconnected(connection.userId);
+      }
     }
   }
 
@@ -162,6 +220,222 @@ class SSEConnectionManager implements ConnectionManager {
 // Global connection manager instance
 const connectionManager = new SSEConnectionManager();
 
+// Service role client for the activity relay and for presence updates after
+// the user's own token may have expired
+let serviceClient: SupabaseClient | null = null;
+
+function getServiceClient(): SupabaseClient {
+  if (!serviceClient) {
+    serviceClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+  }
+  return serviceClient;
+}
+
+// =====================================================================================
+// TYPING AND PRESENCE
+// =====================================================================================
+
+/**
+ * Hand events to every instance; each one delivers to its own connections.
+ * The channel is private, so only service role clients can join it.
+ */
+async function publishActivity(deliveries: ActivityDelivery[]): Promise<void> {
+  if (deliveries.length === 0) return;
+
+  try {
+    await getServiceClient()
+      .channel(ACTIVITY_CHANNEL, { config: { private: true } })
+      .send({
+        type: 'broadcast',
+        event: 'activity',
+        payload: { deliveries }
+      });
+  } catch (error) {
+    console.warn('Failed to publish activity event:', error);
+  }
+}
+
+/**
+ * Record a presence change and tell the conversation partners allowed to
+ * see it (get_presence_audience applies privacy settings and blocks).
+ */
+async function updatePresence(client: SupabaseClient, userId: string, status: 'online' | 'away' | 'offline') {
+  const { data: presence, error: presenceError } = await client
+    .rpc('set_user_presence', { p_user_id: userId, p_status: status });
+
+  if (presenceError) {
+    throw new Error(`Failed to update presence: ${presenceError.message}`);
+  }
+
+  const { data: audience, error: audienceError } = await client
+    .rpc('get_presence_audience', { p_user_id: userId });
+
+  if (audienceError) {
+    throw new Error(`Failed to load presence audience: ${audienceError.message}`);
+  }
+
+  const timestamp = new Date().toISOString();
+  await publishActivity(((audience || []) as PresenceAudienceRow[]).map((row) => ({
+    userId: row.viewer_id,
+    event: {
+      id: crypto.randomUUID(),
+      type: 'presence',
+      data: {
+        user_id: userId,
+        conversation_id: row.conversation_id,
+        status: presence.status,
+        last_seen_at: presence.last_seen_at
+      },
+      timestamp,
+      userId: row.viewer_id
+    }
+  })));
+
+  return presence;
+}
+
+connectionManager.onUserDisconnected = (userId: string) => {
+  updatePresence(getServiceClient(), userId, 'offline').catch((error) => {
+    console.warn(`Failed to mark ${userId} offline:`, error);
+  });
+};
+
+/**
+ * Handle a typing or presence update from a connected client
+ */
+async function handleActivityUpdate(req: Request, logger: ActivityLogger): Promise<Response> {
+  const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+  const rateLimitResult = await applyRateLimit(
+    req,
+    '/real-time-match-events',
+    undefined,
+    RateLimitCategory.MESSAGING
+  );
+
+  if (rateLimitResult.blocked) {
+    return rateLimitResult.response;
+  }
+
+  const userAuthHeader = req.headers.get('Authorization');
+  if (!userAuthHeader) {
+    return new Response(
+      JSON.stringify({ error: 'Authorization required for real-time events' }),
+      { status: 401, headers: jsonHeaders }
+    );
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    logger.error('Missing Supabase configuration for activity update');
+    return new Response(
+      JSON.stringify({ error: 'Server configuration error' }),
+      { status: 500, headers: jsonHeaders }
+    );
+  }
+
+  const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: userAuthHeader } }
+  });
+
+  const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+
+  if (userError || !user) {
+    logger.warn('User authentication failed for activity update', { error: userError?.message });
+    return new Response(
+      JSON.stringify({ error: 'Authentication failed' }),
+      { status: 401, headers: jsonHeaders }
+    );
+  }
+
+  let payload: z.infer<typeof ActivityPayloadSchema>;
+  try {
+    payload = ActivityPayloadSchema.parse(await req.json());
+  } catch (error) {
+    if (error instanceof ZodError || error instanceof SyntaxError) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid request data' }),
+        { status: 400, headers: jsonHeaders }
+      );
+    }
+    throw error;
+  }
+
+  if (payload.type === 'presence') {
+    const presence = await updatePresence(supabaseClient, user.id, payload.status);
+    return new Response(
+      JSON.stringify({ success: true, presence }),
+      { status: 200, headers: jsonHeaders }
+    );
+  }
+
+  const { conversation_id, is_typing } = payload;
+
+  // Privacy, blocks and the throttle are checked in the database so they
+  // hold across instances
+  const { data, error: typingError } = await supabaseClient
+    .rpc('record_typing_indicator', {
+      p_conversation_id: conversation_id,
+      p_user_id: user.id,
+      p_is_typing: is_typing
+    });
+
+  if (typingError) {
+    throw new Error(`Failed to record typing indicator: ${typingError.message}`);
+  }
+
+  const typingData = data as TypingIndicatorResult | null;
+
+  if (typingData?.reason === 'throttled') {
+    return new Response(
+      JSON.stringify({ success: true, delivered: false, throttled: true }),
+      { status: 200, headers: jsonHeaders }
+    );
+  }
+
+  if (!typingData?.success || !typingData.recipient_id) {
+    if (typingData?.reason === 'not_participant') {
+      logger.warn('Typing indicator for foreign conversation', { userId: user.id, conversationId: conversation_id });
+      return new Response(
+        JSON.stringify({ error: 'Not a participant in this conversation' }),
+        { status: 403, headers: jsonHeaders }
+      );
+    }
+
+    // Hidden by privacy settings or a block; the sender is not told which
+    return new Response(
+      JSON.stringify({ success: true, delivered: false }),
+      { status: 200, headers: jsonHeaders }
+    );
+  }
+
+  await publishActivity([{
+    userId: typingData.recipient_id,
+    event: {
+      id: crypto.randomUUID(),
+      type: 'typing',
+      data: {
+        conversation_id,
+        user_id: user.id,
+        is_typing,
+        expires_in_ms: is_typing ? TYPING_INDICATOR_TTL_MS : 0
+      },
+      timestamp: new Date().toISOString(),
+      userId: typingData.recipient_id
+    }
+  }]);
+
+  return new Response(
+    JSON.stringify({ success: true, delivered: true }),
+    { status: 200, headers: jsonHeaders }
+  );
+}
+
 // =====================================================================================
 // DATABASE EVENT LISTENERS
 // =====================================================================================
@@ -316,17 +590,33 @@ async function setupDatabaseListeners(supabaseClient: any) {
       }
     );
 
+  // Typing and presence events relayed from any instance
+  const activityChannel = getServiceClient()
+    .channel(ACTIVITY_CHANNEL, { config: { private: true } })
+    .on(
+      'broadcast',
+      { event: 'activity' },
+      (message: { payload?: { deliveries?: ActivityDelivery[] } }) => {
+        const deliveries = message.payload?.deliveries || [];
+        for (const delivery of deliveries) {
+          connectionManager.sendToUser(delivery.userId, delivery.event);
+        }
+      }
+    );
+
   // Subscribe to all channels
   await Promise.all([
     matchRequestsChannel.subscribe(),
     matchRequestUpdatesChannel.subscribe(),
-    matchesChannel.subscribe()
+    matchesChannel.subscribe(),
+    activityChannel.subscribe()
   ]);
 
   return {
     matchRequestsChannel,
     matchRequestUpdatesChannel,
-    matchesChannel
+    matchesChannel,
+    activityChannel
   };
 }
 
@@ -350,10 +640,15 @@ serve(async (req: Request) => {
       return new Response('ok', { headers: corsHeaders });
     }
 
+    // POST carries typing and presence updates from a connected client
+    if (req.method === 'POST') {
+      return await handleActivityUpdate(req, logger);
+    }
+
     // Only allow GET method for SSE
     if (req.method !== 'GET') {
       return new Response(
-        JSON.stringify({ error: 'Method not allowed. Use GET for SSE connection.' }),
+        JSON.stringify({ error: 'Method not allowed. Use GET for SSE connection or POST for activity updates.' }),
         {
           status: 405,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -433,6 +728,7 @@ serve(async (req: Request) => {
     // =====================================================================================
 
     const connectionId = crypto.randomUUID();
+    const isFirstConnection = connectionManager.getUserConnections(user.id).length === 0;
     
     const stream = new ReadableStream({
       start(controller) {
@@ -444,6 +740,34 @@ serve(async (req: Request) => {
           totalConnections: connectionManager.getConnectionCount()
         });
 
+        // Announce the user and send the partners' current presence
+        (async () => {
+          if (isFirstConnection) {
+            await updatePresence(supabaseClient, user.id, 'online');
+          }
+
+          const { data: presence, error: presenceError } = await supabaseClient
+            .rpc('get_conversation_presence', { p_user_id: user.id });
+
+          if (presenceError) {
+            throw new Error(presenceError.message);
+          }
+
+          connectionManager.sendToConnection(connectionId, {
+            id: crypto.randomUUID(),
+            type: 'presence',
+            data: { snapshot: true, presence: presence || [] },
+            timestamp: new Date().toISOString(),
+            userId: user.id
+          });
+        })().catch((error) => {
+          logger.warn('Failed to initialise presence', {
+            connectionId,
+            userId: user.id,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        });
+
         // Send heartbeat every 30 seconds to keep connection alive
         const heartbeatInterval = setInterval(() => {
           const heartbeatEvent: MatchEvent = {
@@ -498,7 +822,9 @@ serve(async (req: Request) => {
 
     return new Response(
       JSON.stringify({
-        error: 'Failed to establish real-time connection',
+        error: req.method === 'POST'
+          ? 'Failed to process activity update'
+          : 'Failed to establish real-time connection',
         requestId
       }),
       {
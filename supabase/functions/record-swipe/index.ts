@@ -24,6 +24,32 @@ import { sendPushNotification } from '../_shared/sendPushNotification.ts';
 import { logSecurityEvent, SecurityEventType, SecuritySeverity } from '../_shared/security-monitoring.ts';
 import { createErrorResponse, createSecureErrorResponse, EnhancedErrorContext } from '../_shared/enhanced-error-handler.ts';
 import { csrfMiddleware } from '../_shared/csrf-protection.ts';
+import { getExperimentAssignments, logExperimentSwipe, summarizeAssignments } from '../_shared/experiments.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { deriveDeviceFingerprint, evaluateSwipeBehavior, reportSwipeFraud } from '../_shared/swipe-fraud-detector.ts';
+
+/** Max length of the note attached to a super like (matches swipes.super_like_note) */
+const SUPER_LIKE_NOTE_MAX_LENGTH = 140;
+
+/** Swipe types that count as a "right swipe" for mutual-like detection */
+const POSITIVE_SWIPE_TYPES = ['like', 'super_like'];
+
+// Supabase edge runtime global: keeps the isolate alive for work that
+// finishes after the response has been sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+/**
+ * Run bookkeeping that the response doesn't depend on without delaying it.
+ * Failures are only logged.
+ */
+function runAfterResponse(label: string, task: () => Promise<void>): void {
+  const promise = task().catch((error) => {
+    console.warn(`[RECORD_SWIPE] ${label} failed:`, error);
+  });
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(promise);
+  }
+}
 
 // ENHANCED SECURITY: Comprehensive Zod Schema with advanced validation
 const SwipePayloadSchema = z.object({
@@ -35,15 +61,26 @@ const SwipePayloadSchema = z.object({
       return validation.valid && validation.riskLevel < 3;
     }, 'swiped_id failed security validation'),
     
-  swipe_type: z.enum(['like', 'pass'], {
+  swipe_type: z.enum(['like', 'pass', 'super_like'], {
     required_error: 'swipe_type is required',
-    invalid_type_error: 'swipe_type must be either "like" or "pass"'
+    invalid_type_error: 'swipe_type must be "like", "pass" or "super_like"'
   }),
+
+  // Optional short note, only allowed with a super like
+  note: z.string()
+    .trim()
+    .min(1, 'note cannot be empty')
+    .max(SUPER_LIKE_NOTE_MAX_LENGTH, `note too long (max ${SUPER_LIKE_NOTE_MAX_LENGTH} characters)`)
+    .optional(),
   
   // Optional metadata for enhanced security tracking
   client_timestamp: z.number().optional(),
   device_info: z.string().max(100).optional(),
-}).strict(); // Reject unknown fields
+}).strict() // Reject unknown fields
+  .refine(
+    (data) => data.note === undefined || data.swipe_type === 'super_like',
+    { message: 'note is only allowed with a super_like', path: ['note'] }
+  );
 
 // CORS Headers
 const corsHeaders = {
@@ -198,6 +235,46 @@ async function sendMatchNotifications(
   }
 }
 
+/**
+ * Send the distinct "super like" push to the recipient
+ * Follows: Single Responsibility, Least Surprise principles
+ */
+async function sendSuperLikeNotification(
+  supabaseClient: SupabaseClient,
+  swiperId: string,
+  swipedId: string,
+  swipeId: string,
+  note: string | null
+): Promise<void> {
+  const [{ data: swipedUserProfile }, { data: swiperProfile }] = await Promise.all([
+    supabaseClient
+      .from('profiles')
+      .select('push_token')
+      .eq('id', swipedId)
+      .single(),
+    supabaseClient
+      .from('profiles')
+      .select('display_name')
+      .eq('id', swiperId)
+      .single()
+  ]);
+
+  if (swipedUserProfile?.push_token && swiperProfile?.display_name) {
+    await sendPushNotification(
+      swipedUserProfile.push_token,
+      "🌟 You got a Super Like!",
+      note
+        ? `${swiperProfile.display_name}: "${note}"`
+        : `${swiperProfile.display_name} super liked you!`,
+      {
+        type: 'super_like_received',
+        from_user_id: swiperId,
+        swipe_id: swipeId
+      }
+    );
+  }
+}
+
 serve(async (req: Request) => {
   // ENHANCED SECURITY: Apply advanced security middleware first
   const securityCheck = await applyAdvancedSecurityMiddleware(req, undefined, {
@@ -436,6 +513,7 @@ serve(async (req: Request) => {
 
     const swiper_id = user.id;
     const { swiped_id, swipe_type } = validatedPayload;
+    const isPositiveSwipe = POSITIVE_SWIPE_TYPES.includes(swipe_type);
 
     // ENHANCED SECURITY: Comprehensive validation with enhanced headers
     if (swiper_id === swiped_id) {
@@ -469,11 +547,53 @@ serve(async (req: Request) => {
       });
     }
 
-    const { data: swipeData, error: swipeError } = await supabaseClient
-      .from('swipes')
-      .insert({ swiper_id, swiped_id, swipe_type })
-      .select()
-      .single();
+    // Super likes are drawn from a daily allowance (free: 1, premium: 5)
+    let superLikeNote: string | null = null;
+    let superLikesRemaining: number | null = null;
+    let swipeResult;
+
+    if (swipe_type === 'super_like') {
+      if (validatedPayload.note) {
+        const noteValidation = validateTextInput(validatedPayload.note, 'note', SUPER_LIKE_NOTE_MAX_LENGTH, false);
+        if (!noteValidation.valid) {
+          return createSecureErrorResponse(
+            { code: 'validation_error', message: noteValidation.error || 'Invalid note' },
+            errorContext,
+            corsHeaders
+          );
+        }
+        superLikeNote = noteValidation.sanitized || null;
+      }
+
+      // Spends the allowance and inserts the swipe in one transaction, so a
+      // failed insert (e.g. a duplicate) never costs a super like.
+      // Service-role only: the note has been validated above
+      const { data: superLike, error: superLikeError } = await getSupabaseAdmin()
+        .rpc('record_super_like_swipe', {
+          p_swiper_id: swiper_id,
+          p_swiped_id: swiped_id,
+          p_note: superLikeNote
+        });
+
+      const superLikeRow = Array.isArray(superLike) ? superLike[0] : superLike;
+      if (!superLikeError && !superLikeRow?.success) {
+        return createSecureErrorResponse(
+          { code: 'quota_exceeded', message: 'No super likes remaining today' },
+          errorContext,
+          corsHeaders
+        );
+      }
+      superLikesRemaining = superLikeRow?.remaining_after ?? null;
+      swipeResult = { data: superLikeRow?.swipe ?? null, error: superLikeError };
+    } else {
+      swipeResult = await supabaseClient
+        .from('swipes')
+        .insert({ swiper_id, swiped_id, swipe_type })
+        .select()
+        .single();
+    }
+
+    const { data: swipeData, error: swipeError } = swipeResult;
 
     if (swipeError) {
       await logSecurityEvent(
@@ -542,13 +662,13 @@ serve(async (req: Request) => {
       match_details: null,
     };
 
-    if (swipe_type === 'like') {
+    if (isPositiveSwipe) {
       const { data: mutualLike, error: mutualLikeError } = await supabaseClient
         .from('swipes')
         .select('id')
         .eq('swiper_id', swiped_id)
         .eq('swiped_id', swiper_id)
-        .eq('swipe_type', 'like')
+        .in('swipe_type', POSITIVE_SWIPE_TYPES)
         .maybeSingle(); 
 
       if (mutualLikeError) {
@@ -631,6 +751,28 @@ serve(async (req: Request) => {
             );
           }
         }
+      } else if (swipe_type === 'super_like') {
+        // No mutual like found - super likes get their own, more prominent push
+        try {
+          await sendSuperLikeNotification(supabaseClient, swiper_id, swiped_id, swipeData.id, superLikeNote);
+        } catch (superLikeNotificationError) {
+          await logSecurityEvent(
+            SecurityEventType.SUSPICIOUS_PATTERN,
+            SecuritySeverity.LOW,
+            {
+              endpoint: 'record-swipe',
+              operation: 'send_super_like_notification',
+              error: superLikeNotificationError.message,
+              swiper_id,
+              swiped_id
+            },
+            {
+              userId: user.id,
+              endpoint: errorContext.endpoint,
+              requestId: errorContext.requestId
+            }
+          );
+        }
       } else {
         // No mutual like found - send notification for a regular like (non-mutual)
         try {
@@ -679,15 +821,42 @@ serve(async (req: Request) => {
       }
     }
 
+    // Experiment outcomes (like-rate / match-rate) for the swiper's variants,
+    // logged after the response. Experiment salts are service-role only
+    const experimentAssignments = await getExperimentAssignments(getSupabaseAdmin(), swiper_id);
+    runAfterResponse('Experiment swipe logging', () =>
+      logExperimentSwipe(supabaseClient, swiper_id, experimentAssignments, {
+        swipe_type,
+        matched: matchResult.match_created
+      })
+    );
+
+    // Behavioural fraud / bot detection, also after the response. Flagged
+    // accounts are shadow deprioritised in decks; the response is unchanged.
+    runAfterResponse('Swipe fraud evaluation', async () => {
+      const fingerprintHash = await deriveDeviceFingerprint(req);
+      const fraudEvaluation = await evaluateSwipeBehavior(getSupabaseAdmin(), swiper_id, fingerprintHash);
+      if (fraudEvaluation) {
+        await reportSwipeFraud(fraudEvaluation, {
+          userId: swiper_id,
+          ip: errorContext.ip,
+          userAgent: errorContext.userAgent,
+          requestId: errorContext.requestId
+        });
+      }
+    });
+
     // ENHANCED SECURITY: Return response with comprehensive security headers
     const securityHeaders = getAdvancedSecurityHeaders('json', true); // Has user data
     
     return new Response(JSON.stringify({ 
       swipe: swipeData, 
       match: matchResult,
+      ...(superLikesRemaining !== null ? { super_likes_remaining: superLikesRemaining } : {}),
       metadata: {
         timestamp: new Date().toISOString(),
-        requestId: errorContext.requestId
+        requestId: errorContext.requestId,
+        experiments: summarizeAssignments(experimentAssignments)
       }
     }), {
       headers: { 
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.7.1";
 import { corsHeaders } from "../_shared/cors.ts";
+import { MAX_ISSUE_DESCRIPTION_LENGTH, submitIssueReport } from "../_shared/issue-reports.ts";
 
 import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
 import { 
@@ -70,7 +71,7 @@ serve(async (req) => {
       );
     }
 
-    if (issue_description.trim().length > 2000) {
+    if (issue_description.trim().length > MAX_ISSUE_DESCRIPTION_LENGTH) {
       return new Response(
         JSON.stringify({ error: "Issue description must be less than 2000 characters" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -84,17 +85,7 @@ serve(async (req) => {
     );
 
     // Insert the issue report
-    const { data, error } = await supabaseAdmin
-      .from("issue_reports")
-      .insert([
-        {
-          user_id: user.id,
-          issue_description: issue_description.trim(),
-          status: "open",
-          created_at: new Date().toISOString(),
-        },
-      ])
-      .select();
+    const { reportId, error } = await submitIssueReport(supabaseAdmin, user.id, issue_description);
 
     if (error) {
 return new Response(
@@ -107,7 +98,7 @@ return new Response(
     return new Response(
       JSON.stringify({
         message: "Issue report submitted successfully",
-        report_id: data[0]?.id,
+        report_id: reportId,
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
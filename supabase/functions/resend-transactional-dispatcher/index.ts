@@ -11,6 +11,7 @@ import {
   PasswordChangedEmail,
   AccountDeletionEmail,
   WeeklyMatchDigestEmail,
+  DateSafetyShareEmail,
 } from '../_shared/emails/index.ts';
 
 const dispatcherSchema = z.object({
@@ -51,6 +52,27 @@ function buildUnsubscribeUrl(email: string, source: string) {
   return url.toString();
 }
 
+/** Long date and time in the sharer's time zone, falling back to UTC */
+function formatShareDateTime(value: unknown, timeZone: unknown): string {
+  const date = new Date(String(value ?? ''));
+  if (Number.isNaN(date.getTime())) {
+    return 'the planned time';
+  }
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  };
+  try {
+    return date.toLocaleString('en-US', { ...options, timeZone: String(timeZone ?? 'UTC') });
+  } catch {
+    return date.toLocaleString('en-US', { ...options, timeZone: 'UTC' });
+  }
+}
+
 function renderTransactionalTemplate(event: QueueRow | { event_type: string; email: string; payload?: Record<string, unknown> | null }): {
   subject: string;
   html: string;
@@ -147,6 +169,30 @@ function renderTransactionalTemplate(event: QueueRow | { event_type: string; ema
         text: rendered.text,
       };
     }
+    case 'date_safety_share':
+    case 'date_safety_share_escalation': {
+      const escalated = event.event_type === 'date_safety_share_escalation';
+      const sharerName = String(payload.sharer_name ?? 'Your friend');
+      const rendered = renderEmail(DateSafetyShareEmail, {
+        contactName: name,
+        sharerName,
+        matchFirstName: String(payload.match_first_name ?? 'their match'),
+        matchPhotoUrl: (payload.match_photo_url as string | null | undefined) ?? null,
+        dateTime: formatShareDateTime(payload.proposed_datetime, payload.time_zone),
+        location: (payload.location as string | null | undefined) ?? null,
+        checkInBy: formatShareDateTime(payload.check_in_by, payload.time_zone),
+        shareUrl: (payload.share_url as string | undefined) ?? '#',
+        variant: escalated ? 'escalation' : 'share',
+        unsubscribeUrl,
+      });
+      return {
+        subject: escalated
+          ? `${sharerName} hasn't checked in after their date`
+          : `${sharerName} shared their date plans with you`,
+        html: rendered.html,
+        text: rendered.text,
+      };
+    }
     default:
       throw new Error(`Unsupported transactional event type: ${event.event_type}`);
   }
@@ -0,0 +1,252 @@
+/**
+ * Rewind Swipe Edge Function
+ *
+ * Undoes the caller's most recent swipe ("rewind") as long as it happened
+ * within the rewind window. Backed by the rewind_last_swipe SQL function,
+ * which performs the whole operation atomically.
+ *
+ * Features:
+ * - Premium gating via has_active_premium
+ * - Daily rewind quota
+ * - Cancels match requests created by the rewound swipe
+ * - Returns the candidate to the feed (rewound swipes stop excluding
+ *   them, plus match deck invalidation)
+ *
+ * The 5-minute window and 5-per-day quota are fixed inside the SQL function.
+ */
+
+import { serve } from 'std/http/server.ts';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { csrfMiddleware } from '../_shared/csrf-protection.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { invalidateMatchDeck } from '../_shared/match-deck.ts';
+import { logger } from '../_shared/logger.ts';
+
+// Zod schema for rewind request (no options yet; reject unknown fields)
+const RewindRequestSchema = z.object({}).strict();
+
+interface RewindResult {
+  success: boolean;
+  reason?: 'premium_required' | 'quota_exceeded' | 'no_swipe' | 'window_expired' | 'already_matched';
+  swipe_id?: string;
+  swiped_id?: string;
+  swipe_type?: string;
+  cancelled_match_request_ids?: string[];
+  rewinds_remaining?: number;
+}
+
+// Maps rewind_last_swipe failure reasons onto public error codes
+const REWIND_FAILURE_CODES: Record<NonNullable<RewindResult['reason']>, string> = {
+  premium_required: 'premium_required',
+  quota_exceeded: 'quota_exceeded',
+  no_swipe: 'not_found',
+  window_expired: 'conflict',
+  already_matched: 'conflict'
+};
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `rewind_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'rewind-swipe', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/rewind-swipe',
+      undefined,
+      RateLimitCategory.MATCHING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // CSRF Protection
+    const csrfValidation = await csrfMiddleware.validateCSRF(req);
+    if (!csrfValidation.valid) {
+      return csrfValidation.response;
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'rewind-swipe',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'rewind-swipe', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'rewind-swipe',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'rewind-swipe', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'rewind-swipe', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'rewind-swipe', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'rewind-swipe', requestId },
+        corsHeaders
+      );
+    }
+
+    // Body is optional; an empty body is treated as {}
+    const rawBody = await req.text();
+    RewindRequestSchema.parse(rawBody ? JSON.parse(rawBody) : {});
+
+    // Premium check, quota, swipe lookup and rollback happen atomically in SQL
+    const { data: rewindData, error: rewindError } = await supabaseClient
+      .rpc('rewind_last_swipe', { p_user_id: user.id });
+
+    if (rewindError) {
+      logger.error('Rewind operation failed', {
+        userId: user.id,
+        error: rewindError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to rewind swipe' },
+        { endpoint: 'rewind-swipe', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const rewindResult = rewindData as RewindResult;
+
+    if (!rewindResult?.success) {
+      const reason = rewindResult?.reason ?? 'no_swipe';
+      logger.info('Rewind rejected', {
+        userId: user.id,
+        reason,
+        requestId
+      });
+      return createErrorResponse(
+        { code: REWIND_FAILURE_CODES[reason], message: `Rewind rejected: ${reason}`, reason },
+        { endpoint: 'rewind-swipe', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    // Queue a deck rebuild so the candidate shows up again
+    await invalidateMatchDeck(supabaseClient, user.id);
+
+    logger.info('Swipe rewound successfully', {
+      userId: user.id,
+      swipeId: rewindResult.swipe_id,
+      swipedId: rewindResult.swiped_id,
+      cancelledMatchRequests: rewindResult.cancelled_match_request_ids?.length ?? 0,
+      requestId
+    });
+
+    return createSuccessResponse(
+      {
+        rewound_swipe: {
+          id: rewindResult.swipe_id,
+          swiped_id: rewindResult.swiped_id,
+          swipe_type: rewindResult.swipe_type
+        },
+        cancelled_match_request_ids: rewindResult.cancelled_match_request_ids ?? [],
+        rewinds_remaining: rewindResult.rewinds_remaining ?? 0,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      200
+    );
+
+  } catch (error) {
+    logger.error('Critical error in rewind-swipe', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    const isValidationError = error instanceof z.ZodError || error instanceof SyntaxError;
+
+    return createErrorResponse(
+      {
+        code: isValidationError ? 'validation_error' : 'server_error',
+        message: isValidationError ? 'Invalid request data' : 'Rewind operation failed'
+      },
+      { endpoint: 'rewind-swipe', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
@@ -0,0 +1,284 @@
+/**
+ * Search Messages Edge Function
+ *
+ * Full-text search over the caller's own conversations, optionally limited
+ * to one conversation. Backed by the search_messages SQL function, which
+ * skips unsent and moderation-removed messages and conversations with a
+ * blocked user.
+ *
+ * Features:
+ * - Snippets with matched terms wrapped in <mark>...</mark> (stored content
+ *   is HTML-escaped by send-message, so the tags are unambiguous)
+ * - Jump cursors: get_messages_with_cursor(conversation_id, limit,
+ *   jump_cursor, 'before') opens the thread at the hit
+ * - Cursor pagination (pass back next_cursor to load older hits)
+ *
+ * The query travels in a POST body so search terms stay out of URLs and
+ * access logs.
+ */
+
+import { serve } from 'std/http/server.ts';
+import { z, ZodError } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { csrfMiddleware } from '../_shared/csrf-protection.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { logger } from '../_shared/logger.ts';
+
+const SearchMessagesPayloadSchema = z.object({
+  query: z.string()
+    .trim()
+    .min(2, 'Search query too short (min 2 characters)')
+    .max(200, 'Search query too long (max 200 characters)'),
+  conversation_id: z.string().uuid('Invalid conversation ID format').optional(),
+  limit: z.number().int().min(1).max(50).default(20),
+  cursor: z.string().datetime({ offset: true }).optional(),
+}).strict();
+
+interface SearchMessageRow {
+  message_id: string;
+  conversation_id: string;
+  sender_id: string;
+  other_user_id: string;
+  message_type: string;
+  created_at: string;
+  snippet: string;
+  rank: number;
+  jump_cursor: string;
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `search_msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'search-messages', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/search-messages',
+      undefined,
+      RateLimitCategory.MESSAGING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // CSRF Protection (skipped outside production, as in send-message)
+    const environment = Deno.env.get('SENTRY_ENVIRONMENT') || Deno.env.get('ENVIRONMENT') || 'development';
+    if (environment === 'production') {
+      const csrfValidation = await csrfMiddleware.validateCSRF(req);
+      if (!csrfValidation.valid) {
+        return csrfValidation.response;
+      }
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'search-messages',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'search-messages', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'search-messages',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'search-messages', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'search-messages', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'search-messages', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'search-messages', requestId },
+        corsHeaders
+      );
+    }
+
+    let validatedPayload: z.infer<typeof SearchMessagesPayloadSchema>;
+    try {
+      validatedPayload = SearchMessagesPayloadSchema.parse(await req.json());
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return createValidationErrorResponse(error, corsHeaders);
+      }
+      throw error;
+    }
+
+    const { query, conversation_id, limit, cursor } = validatedPayload;
+
+    const { data: searchData, error: searchError } = await supabaseClient
+      .rpc('search_messages', {
+        p_user_id: user.id,
+        p_query: query,
+        p_conversation_id: conversation_id ?? null,
+        p_limit: limit,
+        p_cursor: cursor ?? null
+      });
+
+    if (searchError) {
+      // 42501: conversation_id belongs to someone else
+      if (searchError.code === '42501') {
+        logSecurityEvent('unauthorized_message_search', user.id, {
+          endpoint: 'search-messages',
+          conversationId: conversation_id,
+          requestId
+        });
+        return createErrorResponse(
+          { code: 'PGRST301', message: 'Not a participant in this conversation' },
+          { endpoint: 'search-messages', userId: user.id, requestId },
+          corsHeaders
+        );
+      }
+
+      logger.error('Message search failed', {
+        userId: user.id,
+        conversationId: conversation_id,
+        error: searchError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to search messages' },
+        { endpoint: 'search-messages', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const rows = (searchData || []) as SearchMessageRow[];
+    const lastRow = rows[rows.length - 1];
+
+    // Search terms are not logged
+    logger.info('Message search completed', {
+      userId: user.id,
+      scopedToConversation: Boolean(conversation_id),
+      resultCount: rows.length,
+      requestId
+    });
+
+    return createSuccessResponse(
+      {
+        results: rows.map(row => ({
+          message_id: row.message_id,
+          conversation_id: row.conversation_id,
+          sender_id: row.sender_id,
+          other_user_id: row.other_user_id,
+          message_type: row.message_type,
+          created_at: row.created_at,
+          snippet: row.snippet,
+          rank: row.rank,
+          jump: {
+            conversation_id: row.conversation_id,
+            cursor: row.jump_cursor,
+            direction: 'before'
+          }
+        })),
+        pagination: {
+          hasMore: lastRow?.has_more ?? false,
+          nextCursor: lastRow?.next_cursor ?? null,
+          pageSize: rows.length
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      200
+    );
+
+  } catch (error) {
+    logger.error('Critical error in search-messages', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    const isValidationError = error instanceof ZodError || error instanceof SyntaxError;
+
+    return createErrorResponse(
+      {
+        code: isValidationError ? 'validation_error' : 'server_error',
+        message: isValidationError ? 'Invalid request data' : 'Message search failed'
+      },
+      { endpoint: 'search-messages', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
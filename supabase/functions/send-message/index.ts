@@ -1,7 +1,7 @@
 import { serve } from 'std/http/server.ts'; // Using import map
 import { createClient, SupabaseClient } from '@supabase/supabase-js'; // Using import map
 import { z, ZodError } from 'https://deno.land/x/zod@v3.22.4/mod.ts'; // Zod often used directly
-import { sendPushNotification } from '../_shared/sendPushNotification.ts'; // Fixed relative import
+import { notifyMessageRecipient } from '../_shared/message-push.ts';
 import { getCorsHeaders, checkRateLimit, RATE_LIMITS } from '../_shared/cors.ts';
 import { 
   createErrorResponse, 
@@ -21,12 +21,35 @@ import {
   ValidationError
 } from '../_shared/security-validation.ts';
 import { validateMessageContent, sanitizeMessage } from '../_shared/message-sanitizer.ts';
+import { checkLinkDomain } from '../_shared/content-moderation.ts';
+import { extractUrls, resolveLinkPreview } from '../_shared/link-preview.ts';
+import type { LinkPreview } from '../_shared/link-preview.ts';
 import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
 import { logger } from '../_shared/logger.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
 
 // PHASE 4 SECURITY: CSRF Protection for messaging endpoints
 import { csrfMiddleware } from '../_shared/csrf-protection.ts';
 
+const MIN_EXPIRES_IN_SECONDS = 30;
+const MAX_EXPIRES_IN_SECONDS = 7 * 24 * 60 * 60;
+
+interface ScheduleResult {
+  success: boolean;
+  reason?: 'not_participant' | 'invalid_send_at' | 'too_many_scheduled';
+  scheduled_message_id?: string;
+  conversation_id?: string;
+  send_at?: string;
+  expires_in_seconds?: number | null;
+}
+
+// Maps schedule_message failure reasons onto public error codes
+const SCHEDULE_FAILURE_CODES: Record<NonNullable<ScheduleResult['reason']>, string> = {
+  not_participant: 'PGRST301',
+  invalid_send_at: 'validation_error',
+  too_many_scheduled: 'conflict'
+};
+
 // Enhanced Zod Schema for Input Validation with XSS Protection
 const SendMessagePayloadSchema = z.object({
   conversation_id: z.string().uuid('Invalid conversation ID format'),
@@ -57,6 +80,15 @@ const SendMessagePayloadSchema = z.object({
   media_type: z.enum(['image', 'video', 'audio', 'gif'], {
     errorMap: () => ({ message: 'Media type must be image, video, audio, or gif' })
   }).optional().nullable(),
+  reply_to_message_id: z.string().uuid('Invalid reply message ID format').optional().nullable(),
+  // Deliver later (1 minute to 30 days out; checked by schedule_message)
+  send_at: z.string().datetime({ offset: true, message: 'send_at must be an ISO 8601 timestamp' }).optional().nullable(),
+  // Disappearing message: removed this long after delivery
+  expires_in_seconds: z.number().int()
+    .min(MIN_EXPIRES_IN_SECONDS, `Messages must last at least ${MIN_EXPIRES_IN_SECONDS} seconds`)
+    .max(MAX_EXPIRES_IN_SECONDS, 'Messages can last at most 7 days')
+    .optional()
+    .nullable(),
 }).refine(
   (data) => {
     // If media_url is provided, media_type must also be provided
@@ -243,7 +275,15 @@ serve(async (req: Request) => {
     const body = await req.json();
     const validatedPayload = SendMessagePayloadSchema.parse(body);
 
-    const { conversation_id, content, media_url, media_type } = validatedPayload;
+    const {
+      conversation_id,
+      content,
+      media_url,
+      media_type,
+      reply_to_message_id,
+      send_at,
+      expires_in_seconds
+    } = validatedPayload;
     const sender_id = user.id;
 
     // Verify user is a participant in the conversation
@@ -284,6 +324,24 @@ serve(async (req: Request) => {
       );
     }
 
+    // Replies must reference a message in the same conversation
+    if (reply_to_message_id) {
+      const { data: replyTarget, error: replyTargetError } = await supabaseClient
+        .from('messages')
+        .select('id')
+        .eq('id', reply_to_message_id)
+        .eq('conversation_id', conversation_id)
+        .maybeSingle();
+
+      if (replyTargetError || !replyTarget) {
+        return createErrorResponse(
+          { code: 'validation_error', message: 'Reply target is not in this conversation' },
+          { endpoint: 'send-message', phase: 'reply_check', userId: user.id },
+          corsHeaders
+        );
+      }
+    }
+
     // Comprehensive XSS protection and sanitization
     const sanitizationResult = sanitizeMessage(content, {
       allowRichText: false,
@@ -325,11 +383,94 @@ serve(async (req: Request) => {
       }
     }
 
+    // Links to known-malicious domains block the whole message
+    const linkUrls = extractUrls(content);
+    const blockedLink = linkUrls
+      .map(url => checkLinkDomain(url))
+      .find(result => result.blocked && result.reason === 'malicious_domain');
+
+    if (blockedLink) {
+      logSecurityEvent('message_blocked_link', user.id, {
+        endpoint: 'send-message',
+        conversationId: conversation_id,
+        domain: blockedLink.domain,
+        matchedDomain: blockedLink.matchedDomain,
+      });
+      return createErrorResponse(
+        { code: 'MESSAGE_BLOCKED_LINK', message: 'Message contains a link to a blocked site' },
+        { endpoint: 'send-message', phase: 'link_check', userId: user.id },
+        corsHeaders
+      );
+    }
+
+    // Preview the first link; a failed unfurl never blocks the message
+    let linkPreview: LinkPreview | null = null;
+    if (linkUrls.length > 0) {
+      linkPreview = await resolveLinkPreview(linkUrls[0]);
+    }
+
     const sanitizedContent = sanitizationResult.sanitized;
 
+    // Both RPCs store linkPreview as given, so they are service-only; the
+    // sender is the authenticated user checked above
+    const supabaseAdmin = getSupabaseAdmin();
+
+    // Scheduled sends are queued; deliver-scheduled-messages inserts and pushes them at send_at
+    if (send_at) {
+      const { data: scheduleData, error: scheduleError } = await supabaseAdmin.rpc('schedule_message', {
+        p_conversation_id: conversation_id,
+        p_sender_id: sender_id,
+        p_content: sanitizedContent,
+        p_send_at: send_at,
+        p_media_url: media_url || null,
+        p_media_type: media_type || null,
+        p_reply_to_message_id: reply_to_message_id || null,
+        p_link_preview: linkPreview,
+        p_expires_in_seconds: expires_in_seconds ?? null,
+        p_notification_preview: content.substring(0, 100),
+      });
+
+      if (scheduleError) {
+        throw scheduleError;
+      }
+
+      const scheduleResult = scheduleData as ScheduleResult;
+      if (!scheduleResult?.success) {
+        const reason = scheduleResult?.reason ?? 'not_participant';
+        return createErrorResponse(
+          { code: SCHEDULE_FAILURE_CODES[reason], message: `Message scheduling rejected: ${reason}`, reason },
+          { endpoint: 'send-message', phase: 'schedule', userId: user.id },
+          corsHeaders
+        );
+      }
+
+      logger.info('Message scheduled successfully', {
+        conversationId: conversation_id,
+        senderId: sender_id,
+        sendAt: scheduleResult.send_at,
+        expiresInSeconds: expires_in_seconds ?? null,
+        hasLinkPreview: !!linkPreview,
+        requestId
+      });
+
+      const scheduledResponse = createSuccessResponse({
+        scheduled: true,
+        scheduled_message_id: scheduleResult.scheduled_message_id,
+        conversation_id,
+        send_at: scheduleResult.send_at,
+        expires_in_seconds: scheduleResult.expires_in_seconds ?? null
+      }, corsHeaders, 202);
+      apiMonitor.endRequest(requestData, scheduledResponse, user.id);
+      return scheduledResponse;
+    }
+
+    const expiresAt = expires_in_seconds
+      ? new Date(Date.now() + expires_in_seconds * 1000).toISOString()
+      : null;
+
     const { data: newMessage, error: rpcError } = await monitor.db.monitorDatabaseQuery(
       'create_message_and_update_conversation',
-      () => supabaseClient.rpc(
+      () => supabaseAdmin.rpc(
         'create_message_and_update_conversation',
         {
           p_conversation_id: conversation_id,
@@ -337,6 +478,9 @@ serve(async (req: Request) => {
           p_content: sanitizedContent,
           p_media_url: media_url || null,
           p_media_type: media_type || null,
+          p_reply_to_message_id: reply_to_message_id || null,
+          p_link_preview: linkPreview,
+          p_expires_at: expiresAt,
         }
       ),
       { conversationId: conversation_id, senderId: sender_id, contentLength: sanitizedContent.length }
@@ -349,119 +493,13 @@ serve(async (req: Request) => {
         throw new Error('Failed to send message: No data returned from RPC, or RPC indicated an issue.');
     }
 
-    // --- Enhanced Push Notification Logic with User Preferences ---
-    try {
-      const { data: conversationData, error: convoError } = await supabaseClient
-        .from('conversations')
-        .select('user1_id, user2_id')
-        .eq('id', conversation_id)
-        .single();
-
-      if (convoError) throw convoError;
-      if (!conversationData) throw new Error('Conversation not found for notification.');
-
-      const recipientId = conversationData.user1_id === sender_id ? conversationData.user2_id : conversationData.user1_id;
-
-      if (recipientId) {
-        // Check if recipient should receive notifications using unified settings system
-        const { data: shouldNotify, error: notificationCheckError } = await supabaseClient
-          .rpc('should_send_notification', {
-            target_user_id: recipientId,
-            notification_type: 'message'
-          });
-        
-        if (notificationCheckError) {
-          logger.warn('Failed to check notification preferences, defaulting to enabled', {
-            recipientId,
-            error: notificationCheckError.message,
-            requestId
-          });
-        }
-        
-        // Only proceed if notifications are enabled for this user
-        if (shouldNotify !== false) {
-          const { data: senderProfile, error: senderProfileError } = await supabaseClient
-            .from('profiles')
-            .select('display_name')
-            .eq('id', sender_id)
-            .single();
-          
-          // Get recipient's notification preferences
-          const { data: recipientNotificationPrefs, error: recipientPrefsError } = await supabaseClient
-            .rpc('get_user_notification_preferences', { target_user_id: recipientId });
-          
-          const { data: recipientProfile, error: recipientProfileError } = await supabaseClient
-            .from('profiles')
-            .select('push_token')
-            .eq('id', recipientId)
-            .single();
-
-          if (senderProfileError || recipientProfileError) {
-            logger.error('Error fetching profiles for message notification', {
-              senderError: senderProfileError?.message,
-              recipientError: recipientProfileError?.message,
-              requestId
-            });
-          } else if (recipientProfile?.push_token && 
-                     recipientNotificationPrefs?.message_notifications_enabled &&
-                     recipientNotificationPrefs?.message_notifications_push) {
-            
-            // Determine notification sound based on user preferences
-            const notificationOptions = {
-              type: 'new_message', 
-              conversationId: conversation_id, 
-              messageId: (newMessage as any).id || 'new_message',
-              sound: recipientNotificationPrefs?.message_notifications_sound ? 'default' : undefined
-            };
-            
-            const messageId = (newMessage as any).id || 'new_message';
-            await sendPushNotification(
-              recipientProfile.push_token,
-              `New message from ${senderProfile?.display_name || 'Someone'}`,
-              content.substring(0, 100), 
-              notificationOptions
-            );
-            
-            logger.info('Message notification sent successfully', {
-              recipientId,
-              senderId: sender_id,
-              conversationId: conversation_id,
-              notificationEnabled: true,
-              pushEnabled: recipientNotificationPrefs?.message_notifications_push,
-              soundEnabled: recipientNotificationPrefs?.message_notifications_sound,
-              requestId
-            });
-          } else {
-            logger.info('Message notification skipped due to user preferences', {
-              recipientId,
-              senderId: sender_id,
-              conversationId: conversation_id,
-              hasPushToken: !!recipientProfile?.push_token,
-              notificationEnabled: recipientNotificationPrefs?.message_notifications_enabled,
-              pushEnabled: recipientNotificationPrefs?.message_notifications_push,
-              requestId
-            });
-          }
-        } else {
-          logger.info('Message notification blocked by Do Not Disturb or disabled notifications', {
-            recipientId,
-            senderId: sender_id,
-            conversationId: conversation_id,
-            shouldNotify,
-            requestId
-          });
-        }
-      }
-    } catch (notificationError: any) {
-      logger.error('Failed to process new message notification', {
-        error: notificationError.message,
-        stack: notificationError.stack,
-        conversationId: conversation_id,
-        senderId: sender_id,
-        requestId
-      });
-    }
-    // --- End Push Notification Logic ---
+    await notifyMessageRecipient(supabaseClient, {
+      conversationId: conversation_id,
+      senderId: sender_id,
+      messageId: newMessage as string,
+      preview: content,
+      requestId
+    });
 
     // Track business metrics
     monitor.business.trackBusinessMetric('message_sent', 1, {
@@ -473,6 +511,9 @@ serve(async (req: Request) => {
       conversationId: conversation_id,
       senderId: sender_id,
       hasMedia: !!media_url,
+      isReply: !!reply_to_message_id,
+      hasLinkPreview: !!linkPreview,
+      expiresAt,
       contentLength: sanitizedContent.length
     });
 
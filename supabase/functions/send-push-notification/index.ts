@@ -21,6 +21,8 @@ const PushNotificationSchema = z.object({
   title: z.string().min(1).max(100),
   body: z.string().min(1).max(200),
   data: z.record(z.string()).optional(),
+  // Low-priority pushes are delivered quietly (no sound, normal priority)
+  priority: z.enum(['default', 'low']).default('default'),
 });
 
 serve(async (req: Request) => {
@@ -207,7 +209,10 @@ serve(async (req: Request) => {
         recipientProfile.push_token,
         validatedData.title,
         validatedData.body,
-        validatedData.data || {}
+        validatedData.data || {},
+        validatedData.priority === 'low'
+          ? { priority: 'normal', silent: true }
+          : {}
       );
       // Debug logging removed for security
 } else {
@@ -0,0 +1,420 @@
+/**
+ * Send Voice Message Edge Function
+ *
+ * Accepts a recorded voice note as multipart/form-data (conversation_id,
+ * optional reply_to_message_id, audio file). The audio is checked by
+ * audio-security.ts (size cap, container magic numbers, duration read from
+ * the header) before it is stored in the private voice-messages bucket. The
+ * message row carries the duration and a waveform summary so clients can
+ * render the player without downloading the file.
+ *
+ * Users can't write to the bucket or call create_voice_message directly; both
+ * happen here with the admin client once the caller and audio are checked.
+ */
+
+import { serve } from 'std/http/server.ts';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { csrfMiddleware } from '../_shared/csrf-protection.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import {
+  validateSensitiveRequest,
+  createValidationErrorResponse as createSecurityValidationErrorResponse
+} from '../_shared/security-validation.ts';
+import { getAudioSecurityService, AudioContainer } from '../_shared/audio-security.ts';
+import { sendPushNotification } from '../_shared/sendPushNotification.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { logger } from '../_shared/logger.ts';
+
+const VOICE_BUCKET = 'voice-messages';
+
+/** Audio cap plus room for the multipart envelope and form fields */
+const MAX_VOICE_REQUEST_BYTES = getAudioSecurityService().getConfig().maxFileSize + 64 * 1024;
+
+const FILE_EXTENSIONS: Record<AudioContainer, string> = {
+  wav: 'wav',
+  ogg: 'ogg',
+  webm: 'webm',
+  mp4: 'm4a',
+  mp3: 'mp3'
+};
+
+const SendVoiceMessageFieldsSchema = z.object({
+  conversation_id: z.string().uuid('Invalid conversation ID format'),
+  reply_to_message_id: z.string().uuid('Invalid reply message ID format').optional(),
+}).strict();
+
+/**
+ * Push to the other participant, with the same notification settings as
+ * text messages. Never throws.
+ */
+async function notifyVoiceMessage(
+  client: SupabaseClient,
+  senderId: string,
+  recipientId: string,
+  conversationId: string,
+  messageId: string,
+  requestId: string
+): Promise<void> {
+  try {
+    // Service role only: it reads the recipient's settings
+    const { data: shouldNotify } = await getSupabaseAdmin().rpc('should_send_notification', {
+      target_user_id: recipientId,
+      notification_type: 'message',
+      conversation_id: conversationId
+    });
+    if (shouldNotify === false) return;
+
+    const { data: prefs } = await client
+      .rpc('get_user_notification_preferences', { target_user_id: recipientId });
+    if (!prefs?.message_notifications_enabled || !prefs?.message_notifications_push) return;
+
+    const [{ data: sender }, { data: recipient }] = await Promise.all([
+      client.from('profiles').select('display_name').eq('id', senderId).single(),
+      client.from('profiles').select('push_token').eq('id', recipientId).single()
+    ]);
+    if (!recipient?.push_token) return;
+
+    await sendPushNotification(
+      recipient.push_token,
+      `New message from ${sender?.display_name || 'Someone'}`,
+      '🎤 Voice message',
+      {
+        type: 'new_message',
+        conversationId,
+        messageId,
+        sound: prefs?.message_notifications_sound ? 'default' : undefined
+      }
+    );
+  } catch (error) {
+    logger.warn('Failed to send voice message notification', {
+      recipientId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      requestId
+    });
+  }
+}
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `voice_msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'send-voice-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/send-voice-message',
+      undefined,
+      RateLimitCategory.FILE_UPLOADS
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // Size cap before the body is read. Content-Length is required so the
+    // upload is never buffered just to be measured.
+    if (!req.headers.get('Content-Length')) {
+      return createErrorResponse(
+        { code: 'validation_error', message: 'Content-Length header is required' },
+        { endpoint: 'send-voice-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const sizeValidation = await validateSensitiveRequest(req, {
+      maxSize: MAX_VOICE_REQUEST_BYTES,
+      requireAuth: true,
+      allowedMethods: ['POST'],
+      requireJSON: false
+    });
+    if (!sizeValidation.valid) {
+      return createSecurityValidationErrorResponse([{
+        field: 'request',
+        error: sizeValidation.error || 'Request validation failed'
+      }], 413);
+    }
+
+    // CSRF Protection (skipped outside production, as in send-message)
+    const environment = Deno.env.get('SENTRY_ENVIRONMENT') || Deno.env.get('ENVIRONMENT') || 'development';
+    if (environment === 'production') {
+      const csrfValidation = await csrfMiddleware.validateCSRF(req);
+      if (!csrfValidation.valid) {
+        return csrfValidation.response;
+      }
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'send-voice-message',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'send-voice-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'send-voice-message',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'send-voice-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'send-voice-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'send-voice-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'send-voice-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Form fields
+    const form = await req.formData();
+    const audio = form.get('audio');
+    const fields = SendVoiceMessageFieldsSchema.parse({
+      conversation_id: form.get('conversation_id') ?? undefined,
+      reply_to_message_id: form.get('reply_to_message_id') || undefined
+    });
+
+    if (!(audio instanceof File)) {
+      return createErrorResponse(
+        { code: 'validation_error', message: 'Audio file is required' },
+        { endpoint: 'send-voice-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const { conversation_id, reply_to_message_id } = fields;
+
+    // Verify user is a participant in the conversation
+    const { data: conversation, error: conversationError } = await supabaseClient
+      .from('conversations')
+      .select('user1_id, user2_id')
+      .eq('id', conversation_id)
+      .single();
+
+    if (conversationError || !conversation ||
+        (conversation.user1_id !== user.id && conversation.user2_id !== user.id)) {
+      logSecurityEvent('unauthorized_conversation_access', user.id, {
+        endpoint: 'send-voice-message',
+        conversationId: conversation_id,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'PGRST301', message: 'Access denied to conversation' },
+        { endpoint: 'send-voice-message', phase: 'participant_check', userId: user.id },
+        corsHeaders
+      );
+    }
+
+    // Size, magic numbers, duration and waveform
+    const audioValidation = await getAudioSecurityService().validateAudio(audio);
+
+    if (audioValidation.securityThreats.length > 0) {
+      logSecurityEvent('audio_security_threats', user.id, {
+        endpoint: 'send-voice-message',
+        conversationId: conversation_id,
+        threats: audioValidation.securityThreats,
+        declaredType: audioValidation.format,
+        fileSize: audioValidation.fileSize,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'validation_error', message: 'Audio file rejected' },
+        { endpoint: 'send-voice-message', phase: 'security_check', userId: user.id },
+        corsHeaders
+      );
+    }
+
+    if (!audioValidation.isValid) {
+      logger.info('Voice message rejected', {
+        userId: user.id,
+        errors: audioValidation.errors,
+        detectedFormat: audioValidation.actualFormat,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'validation_error', message: audioValidation.errors.join(', ') },
+        { endpoint: 'send-voice-message', phase: 'audio_validation', userId: user.id },
+        corsHeaders
+      );
+    }
+
+    // Store under <conversation>/<sender>/ so storage policies can check access
+    const storagePath = `${conversation_id}/${user.id}/${crypto.randomUUID()}.${FILE_EXTENSIONS[audioValidation.actualFormat!]}`;
+    const supabaseAdmin = getSupabaseAdmin();
+
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from(VOICE_BUCKET)
+      .upload(storagePath, audio, {
+        contentType: audioValidation.contentType,
+        upsert: false
+      });
+
+    if (uploadError) {
+      logger.error('Voice message upload failed', {
+        userId: user.id,
+        error: uploadError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to store voice message' },
+        { endpoint: 'send-voice-message', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const { data: messageId, error: messageError } = await supabaseAdmin
+      .rpc('create_voice_message', {
+        p_conversation_id: conversation_id,
+        p_sender_id: user.id,
+        p_storage_path: storagePath,
+        p_duration_ms: audioValidation.durationMs,
+        p_waveform: audioValidation.waveform,
+        p_reply_to_message_id: reply_to_message_id ?? null
+      });
+
+    if (messageError || !messageId) {
+      // Don't leave an orphaned upload behind
+      await supabaseAdmin.storage.from(VOICE_BUCKET).remove([storagePath]);
+
+      logger.error('Voice message creation failed', {
+        userId: user.id,
+        error: messageError?.message ?? 'No message ID returned',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to send voice message' },
+        { endpoint: 'send-voice-message', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const recipientId = conversation.user1_id === user.id ? conversation.user2_id : conversation.user1_id;
+    if (recipientId) {
+      await notifyVoiceMessage(supabaseClient, user.id, recipientId, conversation_id, messageId as string, requestId);
+    }
+
+    logger.info('Voice message sent successfully', {
+      userId: user.id,
+      conversationId: conversation_id,
+      messageId,
+      format: audioValidation.actualFormat,
+      durationMs: audioValidation.durationMs,
+      fileSize: audioValidation.fileSize,
+      requestId
+    });
+
+    return createSuccessResponse(
+      {
+        message: {
+          id: messageId,
+          conversation_id,
+          media_url: storagePath,
+          media_type: 'audio',
+          media_duration_ms: audioValidation.durationMs,
+          media_waveform: audioValidation.waveform,
+          reply_to_message_id: reply_to_message_id ?? null
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      200
+    );
+
+  } catch (error) {
+    logger.error('Critical error in send-voice-message', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    const isValidationError = error instanceof z.ZodError || error instanceof SyntaxError;
+
+    return createErrorResponse(
+      {
+        code: isValidationError ? 'validation_error' : 'server_error',
+        message: isValidationError ? 'Invalid request data' : 'Voice message failed'
+      },
+      { endpoint: 'send-voice-message', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
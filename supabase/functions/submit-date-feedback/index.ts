@@ -0,0 +1,351 @@
+/**
+ * Submit Date Feedback Edge Function
+ *
+ * Answers to the follow-ups sent by date-followups:
+ * - action "feedback": would_meet_again / not_a_match / report. The first
+ *   answer moves the proposal to completed, and the outcome feeds the rated
+ *   user's mutual fit signals (get_mutual_fit_signals).
+ * - action "checkin": the post-date safety check-in, ok / need_help.
+ * Every negative answer (not_a_match, report, need_help) is also filed as an
+ * issue report for the admin queue.
+ */
+
+import { serve } from 'std/http/server.ts';
+import { z, ZodError } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { csrfMiddleware } from '../_shared/csrf-protection.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { submitIssueReport } from '../_shared/issue-reports.ts';
+import { logger } from '../_shared/logger.ts';
+
+const SubmitDateFeedbackSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('feedback'),
+    proposal_id: z.string().uuid('Invalid proposal ID format'),
+    outcome: z.enum(['would_meet_again', 'not_a_match', 'report']),
+    comment: z.string().max(2000).optional(),
+  }).strict(),
+  z.object({
+    action: z.literal('checkin'),
+    proposal_id: z.string().uuid('Invalid proposal ID format'),
+    response: z.enum(['ok', 'need_help']),
+  }).strict(),
+]);
+
+interface DateFollowupResult {
+  success: boolean;
+  reason?: 'validation_error' | 'not_found' | 'not_started' | 'already_submitted';
+  feedback_id?: string;
+  proposal_id?: string;
+  rated_user_id?: string;
+  other_user_id?: string;
+  outcome?: string;
+  response?: string;
+  status?: string;
+}
+
+/**
+ * Issue report text for a negative answer (not_a_match, report, need_help),
+ * or null when the answer needs no follow-up from the admin queue
+ */
+function describeNegativeOutcome(
+  payload: z.infer<typeof SubmitDateFeedbackSchema>,
+  result: DateFollowupResult
+): string | null {
+  if (payload.action === 'checkin') {
+    return payload.response === 'need_help'
+      ? `[Safety check-in] User asked for help after date ${payload.proposal_id} with user ${result.other_user_id}`
+      : null;
+  }
+
+  const comment = payload.comment ? `: ${payload.comment}` : '';
+  switch (payload.outcome) {
+    case 'report':
+      return `[Date report] Proposal ${payload.proposal_id}, reported user ${result.rated_user_id}${comment}`;
+    case 'not_a_match':
+      return `[Date feedback] Proposal ${payload.proposal_id}, not a match with user ${result.rated_user_id}${comment}`;
+    default:
+      return null;
+  }
+}
+
+// Maps submit_date_feedback / respond_date_checkin failure reasons onto public error codes
+const FOLLOWUP_FAILURE_CODES: Record<NonNullable<DateFollowupResult['reason']>, string> = {
+  validation_error: 'validation_error',
+  not_found: 'not_found',
+  not_started: 'conflict',
+  already_submitted: 'conflict'
+};
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `date_feedback_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'submit-date-feedback', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/submit-date-feedback',
+      undefined,
+      RateLimitCategory.MESSAGING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // CSRF Protection (skipped outside production, as in send-message)
+    const environment = Deno.env.get('SENTRY_ENVIRONMENT') || Deno.env.get('ENVIRONMENT') || 'development';
+    if (environment === 'production') {
+      const csrfValidation = await csrfMiddleware.validateCSRF(req);
+      if (!csrfValidation.valid) {
+        return csrfValidation.response;
+      }
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'submit-date-feedback',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'submit-date-feedback', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'submit-date-feedback',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'submit-date-feedback', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'submit-date-feedback', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'submit-date-feedback', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'submit-date-feedback', requestId },
+        corsHeaders
+      );
+    }
+
+    const payload = SubmitDateFeedbackSchema.parse(await req.json());
+
+    // Participant, status and timing checks happen in SQL
+    const { data: resultData, error: rpcError } = payload.action === 'feedback'
+      ? await supabaseClient.rpc('submit_date_feedback', {
+          p_proposal_id: payload.proposal_id,
+          p_user_id: user.id,
+          p_outcome: payload.outcome,
+          p_comment: payload.comment ?? null
+        })
+      : await supabaseClient.rpc('respond_date_checkin', {
+          p_proposal_id: payload.proposal_id,
+          p_user_id: user.id,
+          p_response: payload.response
+        });
+
+    if (rpcError) {
+      logger.error('Date follow-up answer failed', {
+        userId: user.id,
+        proposalId: payload.proposal_id,
+        action: payload.action,
+        error: rpcError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to save your answer' },
+        { endpoint: 'submit-date-feedback', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const result = resultData as DateFollowupResult;
+
+    if (!result?.success) {
+      const reason = result?.reason ?? 'not_found';
+      logger.info('Date follow-up answer rejected', {
+        userId: user.id,
+        proposalId: payload.proposal_id,
+        action: payload.action,
+        reason,
+        requestId
+      });
+      return createErrorResponse(
+        { code: FOLLOWUP_FAILURE_CODES[reason], message: `Answer rejected: ${reason}`, reason },
+        { endpoint: 'submit-date-feedback', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    // Issue reports and analytics are written with the service role
+    const supabaseAdmin = getSupabaseAdmin();
+    let issueReportId: string | null = null;
+
+    const issueDescription = describeNegativeOutcome(payload, result);
+
+    if (issueDescription) {
+      const { reportId, error: reportError } = await submitIssueReport(supabaseAdmin, user.id, issueDescription);
+
+      if (reportError) {
+        logger.error('Failed to file date follow-up issue report', {
+          userId: user.id,
+          proposalId: payload.proposal_id,
+          action: payload.action,
+          error: reportError,
+          requestId
+        });
+      } else if (reportId) {
+        issueReportId = reportId;
+      }
+
+      if (reportId && payload.action === 'feedback') {
+        const { error: linkError } = await supabaseAdmin.rpc('link_date_feedback_issue_report', {
+          p_feedback_id: result.feedback_id,
+          p_issue_report_id: reportId
+        });
+        if (linkError) {
+          logger.warn('Failed to link issue report to date feedback', {
+            feedbackId: result.feedback_id,
+            issueReportId: reportId,
+            error: linkError.message,
+            requestId
+          });
+        }
+      }
+    }
+
+    // Best effort; the answer is already saved
+    const { error: analyticsError } = await supabaseAdmin.from('analytics_events').insert({
+      user_id: user.id,
+      event_name: payload.action === 'feedback' ? 'date_feedback' : 'date_safety_checkin',
+      event_properties: {
+        proposal_id: payload.proposal_id,
+        ...(payload.action === 'feedback' ? { outcome: payload.outcome } : { response: payload.response }),
+        issue_reported: issueReportId !== null
+      }
+    });
+
+    if (analyticsError) {
+      logger.warn('Failed to log date follow-up event', {
+        userId: user.id,
+        error: analyticsError.message,
+        requestId
+      });
+    }
+
+    logger.info('Date follow-up answer saved', {
+      userId: user.id,
+      proposalId: payload.proposal_id,
+      action: payload.action,
+      issueReportId,
+      requestId
+    });
+
+    return createSuccessResponse(
+      {
+        proposal_id: payload.proposal_id,
+        ...(payload.action === 'feedback'
+          ? { outcome: payload.outcome, status: result.status }
+          : { response: payload.response }),
+        issue_report_id: issueReportId,
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      200
+    );
+
+  } catch (error) {
+    logger.error('Critical error in submit-date-feedback', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    const isValidationError = error instanceof ZodError || error instanceof SyntaxError;
+
+    return createErrorResponse(
+      {
+        code: isValidationError ? 'validation_error' : 'server_error',
+        message: isValidationError ? 'Invalid request data' : 'Failed to save your answer'
+      },
+      { endpoint: 'submit-date-feedback', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
@@ -0,0 +1,264 @@
+/**
+ * Unsend Message Edge Function
+ *
+ * Lets the sender retract a message. The message stays in the thread as a
+ * tombstone (content and media cleared for both participants) so ordering
+ * and read state are preserved. Backed by the unsend_message SQL function,
+ * which checks the 24 hour unsend window and archives the original for
+ * moderation. The function is service-role only, so it is called with the
+ * admin client once the caller is authenticated.
+ *
+ * The other participant receives the change through the messages realtime
+ * publication and a message_unsent broadcast on the conversation channel.
+ */
+
+import { serve } from 'std/http/server.ts';
+import { z, ZodError } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { csrfMiddleware } from '../_shared/csrf-protection.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { getSupabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { broadcastMessageEvent } from '../_shared/message-events.ts';
+import { logger } from '../_shared/logger.ts';
+
+const UnsendMessagePayloadSchema = z.object({
+  message_id: z.string().uuid('Invalid message ID format'),
+}).strict();
+
+interface UnsendResult {
+  success: boolean;
+  reason?: 'not_found' | 'not_sender' | 'unsent' | 'removed' | 'window_expired';
+  message_id?: string;
+  conversation_id?: string;
+  unsent_at?: string;
+  had_media?: boolean;
+}
+
+// Maps unsend_message failure reasons onto public error codes
+const UNSEND_FAILURE_CODES: Record<NonNullable<UnsendResult['reason']>, string> = {
+  not_found: 'not_found',
+  not_sender: 'forbidden',
+  unsent: 'conflict',
+  removed: 'conflict',
+  window_expired: 'conflict'
+};
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `unsend_msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'unsend-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/unsend-message',
+      undefined,
+      RateLimitCategory.MESSAGING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // CSRF Protection (skipped outside production, as in send-message)
+    const environment = Deno.env.get('SENTRY_ENVIRONMENT') || Deno.env.get('ENVIRONMENT') || 'development';
+    if (environment === 'production') {
+      const csrfValidation = await csrfMiddleware.validateCSRF(req);
+      if (!csrfValidation.valid) {
+        return csrfValidation.response;
+      }
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'unsend-message',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'unsend-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'unsend-message',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'unsend-message', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'unsend-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'unsend-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'unsend-message', requestId },
+        corsHeaders
+      );
+    }
+
+    const { message_id } = UnsendMessagePayloadSchema.parse(await req.json());
+
+    // Ownership, window check, history archive and tombstoning happen atomically in SQL
+    const { data: unsendData, error: unsendError } = await getSupabaseAdmin()
+      .rpc('unsend_message', {
+        p_message_id: message_id,
+        p_user_id: user.id
+      });
+
+    if (unsendError) {
+      logger.error('Message unsend failed', {
+        userId: user.id,
+        messageId: message_id,
+        error: unsendError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to unsend message' },
+        { endpoint: 'unsend-message', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const unsendResult = unsendData as UnsendResult;
+
+    if (!unsendResult?.success) {
+      const reason = unsendResult?.reason ?? 'not_found';
+      if (reason === 'not_sender') {
+        logSecurityEvent('unauthorized_message_unsend', user.id, {
+          endpoint: 'unsend-message',
+          messageId: message_id,
+          requestId
+        });
+      }
+      logger.info('Message unsend rejected', {
+        userId: user.id,
+        messageId: message_id,
+        reason,
+        requestId
+      });
+      return createErrorResponse(
+        { code: UNSEND_FAILURE_CODES[reason], message: `Unsend rejected: ${reason}`, reason },
+        { endpoint: 'unsend-message', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    await broadcastMessageEvent(unsendResult.conversation_id!, 'message_unsent', {
+      message_id: unsendResult.message_id,
+      sender_id: user.id,
+      unsent_at: unsendResult.unsent_at
+    });
+
+    logger.info('Message unsent successfully', {
+      userId: user.id,
+      messageId: unsendResult.message_id,
+      conversationId: unsendResult.conversation_id,
+      hadMedia: unsendResult.had_media,
+      requestId
+    });
+
+    return createSuccessResponse(
+      {
+        message: {
+          id: unsendResult.message_id,
+          conversation_id: unsendResult.conversation_id,
+          unsent_at: unsendResult.unsent_at
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      200
+    );
+
+  } catch (error) {
+    logger.error('Critical error in unsend-message', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    const isValidationError = error instanceof ZodError || error instanceof SyntaxError;
+
+    return createErrorResponse(
+      {
+        code: isValidationError ? 'validation_error' : 'server_error',
+        message: isValidationError ? 'Invalid request data' : 'Message unsend failed'
+      },
+      { endpoint: 'unsend-message', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
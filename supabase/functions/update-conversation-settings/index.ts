@@ -0,0 +1,281 @@
+/**
+ * Update Conversation Settings Edge Function
+ *
+ * Per-user, per-conversation controls. Only the fields sent are changed:
+ * - muted_until: ISO timestamp, 'forever', or null to unmute. Muted
+ *   conversations get no push notifications (should_send_notification).
+ * - pinned: pinned conversations sort first in get-my-conversations (max 5)
+ * - archived: archived conversations are hidden from get-my-conversations
+ *   unless include_archived=true. Archiving only affects the caller.
+ *
+ * Backed by the update_conversation_settings SQL function (archive_conversation
+ * is a wrapper around the same store).
+ */
+
+import { serve } from 'std/http/server.ts';
+import { z, ZodError } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+
+// Import security and validation modules
+import { applyRateLimit, RateLimitCategory } from '../_shared/rate-limit-enhancements.ts';
+import { validateJWTHeader, createSecureSupabaseClient } from '../_shared/secure-jwt-validator.ts';
+import { csrfMiddleware } from '../_shared/csrf-protection.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  logSecurityEvent
+} from '../_shared/error-handler.ts';
+import { logger } from '../_shared/logger.ts';
+
+const UpdateConversationSettingsPayloadSchema = z.object({
+  conversation_id: z.string().uuid('Invalid conversation ID format'),
+  muted_until: z.union([
+    z.string().datetime({ offset: true, message: 'muted_until must be an ISO 8601 timestamp' }),
+    z.literal('forever'),
+    z.null()
+  ]).optional(),
+  pinned: z.boolean().optional(),
+  archived: z.boolean().optional(),
+}).strict().refine(
+  (data) => data.muted_until !== undefined || data.pinned !== undefined || data.archived !== undefined,
+  { message: 'At least one of muted_until, pinned or archived is required' }
+);
+
+interface ConversationSettingsResult {
+  success: boolean;
+  reason?: 'not_participant' | 'invalid_muted_until' | 'too_many_pinned';
+  conversation_id?: string;
+  muted_until?: string | null;
+  is_muted?: boolean;
+  pinned?: boolean;
+  pinned_at?: string | null;
+  archived?: boolean;
+  archived_at?: string | null;
+  updated_at?: string;
+}
+
+// Maps update_conversation_settings failure reasons onto public error codes
+const SETTINGS_FAILURE_CODES: Record<NonNullable<ConversationSettingsResult['reason']>, string> = {
+  not_participant: 'PGRST301',
+  invalid_muted_until: 'validation_error',
+  too_many_pinned: 'conflict'
+};
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+  const requestId = `conv_settings_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Handle CORS preflight
+    const origin = req.headers.get('Origin');
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    // Only allow POST method
+    if (req.method !== 'POST') {
+      return createErrorResponse(
+        { code: 'method_not_allowed', message: 'Method not allowed' },
+        { endpoint: 'update-conversation-settings', requestId },
+        corsHeaders
+      );
+    }
+
+    // Rate limiting
+    const rateLimitResult = await applyRateLimit(
+      req,
+      '/update-conversation-settings',
+      undefined,
+      RateLimitCategory.MESSAGING
+    );
+    if (rateLimitResult.blocked) {
+      return rateLimitResult.response;
+    }
+
+    // CSRF Protection (skipped outside production, as in send-message)
+    const environment = Deno.env.get('SENTRY_ENVIRONMENT') || Deno.env.get('ENVIRONMENT') || 'development';
+    if (environment === 'production') {
+      const csrfValidation = await csrfMiddleware.validateCSRF(req);
+      if (!csrfValidation.valid) {
+        return csrfValidation.response;
+      }
+    }
+
+    // JWT Authentication
+    const userAuthHeader = req.headers.get('Authorization');
+    if (!userAuthHeader) {
+      logSecurityEvent('missing_auth_header', undefined, {
+        endpoint: 'update-conversation-settings',
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Missing authorization' },
+        { endpoint: 'update-conversation-settings', requestId },
+        corsHeaders
+      );
+    }
+
+    const jwtValidation = validateJWTHeader(userAuthHeader);
+    if (!jwtValidation.valid) {
+      logSecurityEvent('jwt_validation_failed', undefined, {
+        endpoint: 'update-conversation-settings',
+        error: jwtValidation.error,
+        securityRisk: jwtValidation.securityRisk,
+        requestId
+      });
+      return createErrorResponse(
+        {
+          code: 'invalid_grant',
+          message: jwtValidation.securityRisk === 'high'
+            ? 'Security violation detected'
+            : 'Invalid authorization token'
+        },
+        { endpoint: 'update-conversation-settings', requestId },
+        corsHeaders
+      );
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseAnonKey) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Server configuration error' },
+        { endpoint: 'update-conversation-settings', requestId },
+        corsHeaders
+      );
+    }
+
+    const secureClientResult = await createSecureSupabaseClient(
+      userAuthHeader,
+      supabaseUrl,
+      supabaseAnonKey
+    );
+
+    if (secureClientResult.error || !secureClientResult.client) {
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to create secure database connection' },
+        { endpoint: 'update-conversation-settings', requestId },
+        corsHeaders
+      );
+    }
+
+    const supabaseClient = secureClientResult.client;
+
+    // Get authenticated user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return createErrorResponse(
+        { code: 'invalid_grant', message: 'Invalid authentication token' },
+        { endpoint: 'update-conversation-settings', requestId },
+        corsHeaders
+      );
+    }
+
+    const { conversation_id, muted_until, pinned, archived } =
+      UpdateConversationSettingsPayloadSchema.parse(await req.json());
+
+    // Only keys that were sent are changed; 'forever' is stored as infinity
+    const changes: Record<string, unknown> = {};
+    if (muted_until !== undefined) {
+      changes.muted_until = muted_until === 'forever' ? 'infinity' : muted_until;
+    }
+    if (pinned !== undefined) changes.pinned = pinned;
+    if (archived !== undefined) changes.archived = archived;
+
+    const { data: settingsData, error: settingsError } = await supabaseClient
+      .rpc('update_conversation_settings', {
+        p_user_id: user.id,
+        p_conversation_id: conversation_id,
+        p_changes: changes
+      });
+
+    if (settingsError) {
+      logger.error('Conversation settings update failed', {
+        userId: user.id,
+        conversationId: conversation_id,
+        error: settingsError.message,
+        requestId
+      });
+      return createErrorResponse(
+        { code: 'server_error', message: 'Failed to update conversation settings' },
+        { endpoint: 'update-conversation-settings', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    const settingsResult = settingsData as ConversationSettingsResult;
+
+    if (!settingsResult?.success) {
+      const reason = settingsResult?.reason ?? 'not_participant';
+      if (reason === 'not_participant') {
+        logSecurityEvent('unauthorized_conversation_settings', user.id, {
+          endpoint: 'update-conversation-settings',
+          conversationId: conversation_id,
+          requestId
+        });
+      }
+      logger.info('Conversation settings update rejected', {
+        userId: user.id,
+        conversationId: conversation_id,
+        reason,
+        requestId
+      });
+      return createErrorResponse(
+        { code: SETTINGS_FAILURE_CODES[reason], message: `Settings update rejected: ${reason}`, reason },
+        { endpoint: 'update-conversation-settings', userId: user.id, requestId },
+        corsHeaders
+      );
+    }
+
+    logger.info('Conversation settings updated', {
+      userId: user.id,
+      conversationId: conversation_id,
+      changed: Object.keys(changes),
+      requestId
+    });
+
+    return createSuccessResponse(
+      {
+        settings: {
+          conversation_id: settingsResult.conversation_id,
+          muted_until: settingsResult.muted_until === 'infinity' ? 'forever' : settingsResult.muted_until ?? null,
+          is_muted: settingsResult.is_muted ?? false,
+          pinned: settingsResult.pinned ?? false,
+          pinned_at: settingsResult.pinned_at ?? null,
+          archived: settingsResult.archived ?? false,
+          archived_at: settingsResult.archived_at ?? null,
+          updated_at: settingsResult.updated_at
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          request_id: requestId,
+          processing_time_ms: Date.now() - startTime
+        }
+      },
+      corsHeaders,
+      200
+    );
+
+  } catch (error) {
+    logger.error('Critical error in update-conversation-settings', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      stack: error instanceof Error ? error.stack : undefined,
+      requestId
+    });
+
+    const isValidationError = error instanceof ZodError || error instanceof SyntaxError;
+
+    return createErrorResponse(
+      {
+        code: isValidationError ? 'validation_error' : 'server_error',
+        message: isValidationError ? 'Invalid request data' : 'Conversation settings update failed'
+      },
+      { endpoint: 'update-conversation-settings', requestId },
+      getCorsHeaders(req.headers.get('Origin'))
+    );
+  }
+});
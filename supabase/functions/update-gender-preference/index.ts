@@ -13,6 +13,7 @@ import {
   validateTextInput,
   ValidationError
 } from '../_shared/security-validation.ts';
+import { invalidateMatchDeck } from '../_shared/match-deck.ts';
 // Input validation schema
 const UpdateGenderPreferenceSchema = z.object({
   preference: z.enum(['male', 'female', 'both', 'any', 'non-binary', 'transgender'])
@@ -139,6 +140,9 @@ return new Response(JSON.stringify({ error: 'Failed to update preference' }), {
       });
     }
 
+    // Gender preference shapes the deck; build-match-decks rebuilds it
+    await invalidateMatchDeck(supabaseClient, user.id);
+
     return new Response(JSON.stringify({ 
       success: true, 
       message: 'Gender preference updated successfully',
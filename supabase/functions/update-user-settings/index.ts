@@ -42,9 +42,13 @@ import {
   logSecurityEvent 
 } from '../_shared/error-handler.ts';
 import { getAdvancedCache } from '../_shared/advanced-cache-system.ts';
+import { invalidateMatchDeck } from '../_shared/match-deck.ts';
 import { getPerformanceMonitor } from '../_shared/performance-monitor.ts';
 import { logger } from '../_shared/logger.ts';
 
+// How strictly a matching filter is applied when building match decks
+const FilterStrictnessSchema = z.enum(['dealbreaker', 'preference']);
+
 // Comprehensive Zod schema for all user settings
 const UpdateSettingsSchema = z.object({
   matching_preferences: z.object({
@@ -80,7 +84,21 @@ const UpdateSettingsSchema = z.object({
       
     education_level_preference: z.array(z.string()).optional(),
     
-    zodiac_compatibility_required: z.boolean().optional()
+    zodiac_compatibility_required: z.boolean().optional(),
+    
+    // Acceptable wants_kids values for candidates (null clears the filter)
+    children_preference: z.array(z.enum(['Yes', 'No', 'Maybe', 'Open to it']))
+      .min(1, "Select at least one children preference")
+      .nullable()
+      .optional(),
+    
+    // Dealbreakers exclude candidates; preferences only down-rank them
+    filter_strictness: z.object({
+      age: FilterStrictnessSchema.optional(),
+      distance: FilterStrictnessSchema.optional(),
+      gender: FilterStrictnessSchema.optional(),
+      children: FilterStrictnessSchema.optional()
+    }).strict().optional()
   }).optional(),
   
   privacy_settings: z.object({
@@ -89,7 +107,9 @@ const UpdateSettingsSchema = z.object({
     show_distance_on_profile: z.boolean().optional(),
     show_age_on_profile: z.boolean().optional(),
     show_height_on_profile: z.boolean().optional(),
-    data_sharing_enabled: z.boolean().optional()
+    data_sharing_enabled: z.boolean().optional(),
+    show_activity_status: z.boolean().optional(),
+    typing_indicators_enabled: z.boolean().optional()
   }).optional(),
   
   notification_settings: z.object({
@@ -569,6 +589,12 @@ serve(async (req: Request) => {
       }
       
       cacheTracker.end();
+
+      // Matching preferences changed: drop the precomputed swipe deck so
+      // build-match-decks rebuilds it in the background with the new filters
+      if (validatedSettings.matching_preferences) {
+        await invalidateMatchDeck(supabaseClient, userId);
+      }
       
       logger.info('Settings cache invalidated successfully', { userId, requestId });
     } catch (cacheError) {
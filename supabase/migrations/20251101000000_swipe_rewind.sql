@@ -0,0 +1,175 @@
+-- =====================================================
+-- SWIPE REWIND ("UNDO LAST SWIPE")
+-- =====================================================
+-- Lets premium users take back their most recent swipe within a short
+-- time window. Rewinding also cancels any match request the swipe created
+-- and makes the candidate eligible for the feed again.
+-- Date: 2025-11-01
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. REWIND AUDIT / QUOTA TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.swipe_rewinds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    swipe_id UUID NOT NULL,
+    swiped_id UUID NOT NULL,
+    swipe_type TEXT NOT NULL,
+    swiped_at TIMESTAMPTZ NOT NULL,
+    cancelled_match_request_ids UUID[] NOT NULL DEFAULT ARRAY[]::UUID[],
+    rewound_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_swipe_rewinds_user_date
+    ON public.swipe_rewinds(user_id, rewound_at DESC);
+
+-- Feed lookup: has the viewer rewound a swipe on this candidate?
+CREATE INDEX IF NOT EXISTS idx_swipe_rewinds_user_swiped
+    ON public.swipe_rewinds(user_id, swiped_id);
+
+COMMENT ON TABLE public.swipe_rewinds IS 'Audit trail of rewound swipes. Also used to enforce the daily rewind quota.';
+
+ALTER TABLE public.swipe_rewinds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own swipe rewinds" ON public.swipe_rewinds
+    FOR SELECT USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Service role can manage swipe rewinds" ON public.swipe_rewinds
+    FOR ALL USING ((SELECT auth.role()) = 'service_role');
+
+-- Supports the "latest swipe" lookup below
+CREATE INDEX IF NOT EXISTS idx_swipes_swiper_created
+    ON public.swipes(swiper_id, created_at DESC);
+
+-- =====================================================
+-- 2. REWIND FUNCTION
+-- =====================================================
+-- Returns { success, reason, ... }. Failure reasons:
+--   premium_required, quota_exceeded, no_swipe, window_expired, already_matched
+-- The window and daily quota are fixed here so callers can't widen them.
+
+CREATE OR REPLACE FUNCTION public.rewind_last_swipe(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    c_window CONSTANT INTERVAL := INTERVAL '5 minutes';
+    c_daily_limit CONSTANT INTEGER := 5;
+    v_swipe RECORD;
+    v_used_today INTEGER;
+    v_cancelled_ids UUID[];
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only rewind your own swipes' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT has_active_premium(p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'premium_required');
+    END IF;
+
+    SELECT COUNT(*) INTO v_used_today
+    FROM public.swipe_rewinds
+    WHERE user_id = p_user_id
+      AND rewound_at >= date_trunc('day', NOW());
+
+    IF v_used_today >= c_daily_limit THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'reason', 'quota_exceeded',
+            'rewinds_remaining', 0
+        );
+    END IF;
+
+    -- Lock the caller's most recent swipe
+    SELECT id, swiped_id, swipe_type, created_at
+    INTO v_swipe
+    FROM public.swipes
+    WHERE swiper_id = p_user_id
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'no_swipe');
+    END IF;
+
+    IF v_swipe.created_at < NOW() - c_window THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'reason', 'window_expired',
+            'swipe_id', v_swipe.id
+        );
+    END IF;
+
+    -- A confirmed match has already been announced to both users; it must be
+    -- ended through unmatch instead.
+    IF EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE m.deleted_at IS NULL
+          AND ((m.user1_id = p_user_id AND m.user2_id = v_swipe.swiped_id)
+            OR (m.user1_id = v_swipe.swiped_id AND m.user2_id = p_user_id))
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'reason', 'already_matched',
+            'swipe_id', v_swipe.id
+        );
+    END IF;
+
+    -- Roll back match requests created by this swipe
+    WITH cancelled AS (
+        UPDATE public.match_requests
+        SET status = 'cancelled',
+            updated_at = NOW()
+        WHERE requester_id = p_user_id
+          AND matched_user_id = v_swipe.swiped_id
+          AND status IN ('pending', 'confirmed')
+          AND created_at >= v_swipe.created_at
+        RETURNING id
+    )
+    SELECT COALESCE(array_agg(id), ARRAY[]::UUID[]) INTO v_cancelled_ids FROM cancelled;
+
+    INSERT INTO public.swipe_rewinds (
+        user_id, swipe_id, swiped_id, swipe_type, swiped_at, cancelled_match_request_ids
+    ) VALUES (
+        p_user_id, v_swipe.id, v_swipe.swiped_id, v_swipe.swipe_type, v_swipe.created_at, v_cancelled_ids
+    );
+
+    -- swipe_exclusion_cache is left to its scheduled refresh: the feed
+    -- ignores a cached swipe once it has been rewound (swipe_rewinds row, no
+    -- swipes row), so only this user's exclusion changes
+    DELETE FROM public.swipes WHERE id = v_swipe.id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'swipe_id', v_swipe.id,
+        'swiped_id', v_swipe.swiped_id,
+        'swipe_type', v_swipe.swipe_type,
+        'cancelled_match_request_ids', to_jsonb(v_cancelled_ids),
+        'rewinds_remaining', GREATEST(c_daily_limit - v_used_today - 1, 0)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rewind_last_swipe(UUID) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.rewind_last_swipe(UUID) IS 'Undo the caller''s most recent swipe within 5 minutes. Premium only, limited to 5 rewinds per day. Cancels match requests created by the swipe; the feed stops excluding the candidate straight away.';
+
+-- =====================================================
+-- 3. VALIDATION & MIGRATION CONFIRMATION
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Swipe Rewind Migration Complete';
+    RAISE NOTICE '  - swipe_rewinds: audit trail and daily quota source';
+    RAISE NOTICE '  - rewind_last_swipe(): premium-gated undo of the latest swipe';
+END $$;
+
+COMMIT;
@@ -0,0 +1,601 @@
+-- =====================================================
+-- SUPER LIKE SWIPE TYPE
+-- =====================================================
+-- Adds a third swipe type, 'super_like', which:
+-- - Can carry a short optional note for the recipient
+-- - Is consumed from a daily allowance (same model as consume_invite)
+-- - Ranks the super-liker at the top of the recipient's feed
+-- Date: 2025-11-02
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. SWIPES: ALLOW SUPER LIKES + NOTE
+-- =====================================================
+
+-- Drop whatever unnamed CHECK constraint currently limits swipe_type
+DO $$
+DECLARE
+    v_constraint TEXT;
+BEGIN
+    FOR v_constraint IN
+        SELECT con.conname
+        FROM pg_constraint con
+        JOIN pg_class rel ON rel.oid = con.conrelid
+        JOIN pg_namespace nsp ON nsp.oid = rel.relnamespace
+        WHERE nsp.nspname = 'public'
+          AND rel.relname = 'swipes'
+          AND con.contype = 'c'
+          AND pg_get_constraintdef(con.oid) ILIKE '%swipe_type%'
+    LOOP
+        EXECUTE format('ALTER TABLE public.swipes DROP CONSTRAINT %I', v_constraint);
+    END LOOP;
+END $$;
+
+ALTER TABLE public.swipes
+ADD CONSTRAINT swipes_swipe_type_check CHECK (swipe_type IN ('like', 'pass', 'super_like'));
+
+ALTER TABLE public.swipes
+ADD COLUMN IF NOT EXISTS super_like_note TEXT CHECK (
+    super_like_note IS NULL OR char_length(super_like_note) <= 140
+);
+
+COMMENT ON COLUMN public.swipes.super_like_note IS 'Optional short note sent with a super like (max 140 chars). NULL for other swipe types.';
+
+-- Super likes only come from record_super_like_swipe, which spends the
+-- daily allowance and sanitizes the note. The swipes owner policies would
+-- otherwise let a client insert one, or add a note, directly.
+CREATE OR REPLACE FUNCTION public.guard_super_like_swipes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF current_user IN ('authenticated', 'anon') AND (
+        (TG_OP = 'INSERT' AND (NEW.swipe_type = 'super_like' OR NEW.super_like_note IS NOT NULL))
+        OR (TG_OP = 'UPDATE' AND (
+            (NEW.swipe_type = 'super_like' AND OLD.swipe_type IS DISTINCT FROM 'super_like')
+            OR NEW.super_like_note IS DISTINCT FROM OLD.super_like_note
+        ))
+    ) THEN
+        RAISE EXCEPTION 'Super likes can only be recorded through record-swipe'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_super_like_swipes ON public.swipes;
+CREATE TRIGGER trigger_guard_super_like_swipes
+    BEFORE INSERT OR UPDATE ON public.swipes
+    FOR EACH ROW EXECUTE FUNCTION public.guard_super_like_swipes();
+
+-- Fast lookup of super likes received by a user
+CREATE INDEX IF NOT EXISTS idx_swipes_super_likes_received
+    ON public.swipes(swiped_id, swiper_id)
+    WHERE swipe_type = 'super_like';
+
+-- =====================================================
+-- 2. PROFILES: DAILY SUPER LIKE ALLOWANCE
+-- =====================================================
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS daily_super_likes_remaining INTEGER DEFAULT 1 CHECK (daily_super_likes_remaining >= 0),
+ADD COLUMN IF NOT EXISTS last_super_like_reset_date DATE DEFAULT CURRENT_DATE;
+
+COMMENT ON COLUMN profiles.daily_super_likes_remaining IS 'Number of super likes remaining for today (free: 1/day, premium: 5/day)';
+COMMENT ON COLUMN profiles.last_super_like_reset_date IS 'Date when super likes were last reset (used to determine if daily reset is needed)';
+
+-- =====================================================
+-- 3. CONSUME / REFUND FUNCTIONS
+-- =====================================================
+
+-- Atomically check and decrement daily_super_likes_remaining
+-- Mirrors consume_invite: FOR UPDATE lock + lazy daily reset
+CREATE OR REPLACE FUNCTION consume_super_like(user_uuid UUID)
+RETURNS TABLE (
+    success BOOLEAN,
+    remaining_after INTEGER,
+    subscription_status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_remaining INTEGER;
+    v_last_reset DATE;
+    v_today DATE;
+    v_subscription TEXT;
+    v_total INTEGER;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM user_uuid AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only consume your own super likes' USING ERRCODE = '42501';
+    END IF;
+
+    v_today := CURRENT_DATE;
+
+    -- Lock row for update and get current status
+    SELECT
+        p.daily_super_likes_remaining,
+        p.last_super_like_reset_date,
+        p.subscription_status
+    INTO
+        v_remaining,
+        v_last_reset,
+        v_subscription
+    FROM profiles p
+    WHERE p.id = user_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, 0, 'free'::TEXT;
+        RETURN;
+    END IF;
+
+    v_total := CASE WHEN v_subscription IN ('premium', 'premium_cancelled') THEN 5 ELSE 1 END;
+
+    -- Reset if needed (new day)
+    IF v_last_reset IS NULL OR v_last_reset < v_today THEN
+        v_remaining := v_total;
+        v_last_reset := v_today;
+    END IF;
+
+    IF v_remaining <= 0 THEN
+        RETURN QUERY SELECT FALSE, 0, v_subscription;
+        RETURN;
+    END IF;
+
+    UPDATE profiles
+    SET
+        daily_super_likes_remaining = v_remaining - 1,
+        last_super_like_reset_date = v_last_reset
+    WHERE id = user_uuid;
+
+    RETURN QUERY SELECT TRUE, v_remaining - 1, v_subscription;
+END;
+$$;
+
+-- Consume a super like and record the swipe in one transaction. If the
+-- insert fails (e.g. a duplicate swipe) the whole call rolls back, so the
+-- allowance is only spent on super likes that were actually recorded.
+CREATE OR REPLACE FUNCTION record_super_like_swipe(
+    p_swiper_id UUID,
+    p_swiped_id UUID,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    remaining_after INTEGER,
+    swipe JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_allowed BOOLEAN;
+    v_remaining INTEGER;
+    v_swipe JSONB;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_swiper_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only super like as yourself' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT c.success, c.remaining_after
+    INTO v_allowed, v_remaining
+    FROM consume_super_like(p_swiper_id) c;
+
+    IF NOT COALESCE(v_allowed, FALSE) THEN
+        RETURN QUERY SELECT FALSE, 0, NULL::JSONB;
+        RETURN;
+    END IF;
+
+    INSERT INTO swipes AS s (swiper_id, swiped_id, swipe_type, super_like_note)
+    VALUES (p_swiper_id, p_swiped_id, 'super_like', p_note)
+    RETURNING to_jsonb(s.*) INTO v_swipe;
+
+    RETURN QUERY SELECT TRUE, v_remaining, v_swipe;
+END;
+$$;
+
+-- The allowance is only spent through record_super_like_swipe, which
+-- record-swipe calls after validating the note
+REVOKE ALL ON FUNCTION consume_super_like(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_super_like(UUID) TO service_role;
+REVOKE ALL ON FUNCTION record_super_like_swipe(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_super_like_swipe(UUID, UUID, TEXT) TO service_role;
+
+COMMENT ON FUNCTION record_super_like_swipe(UUID, UUID, TEXT) IS 'Consumes a daily super like and inserts the super_like swipe atomically; returns success = false when the allowance is used up';
+
+-- =====================================================
+-- 4. MATCHING: RANK SUPER LIKERS FIRST
+-- =====================================================
+-- Same filters as 20251022120000_unified_matching_filters_production_ready,
+-- plus super_liked_viewer / super_like_note outputs and ordering.
+
+DROP FUNCTION IF EXISTS public.get_potential_matches_optimized(UUID, UUID[], TEXT, INTEGER, INTEGER, INTEGER, TEXT, INTEGER, INTEGER) CASCADE;
+
+CREATE OR REPLACE FUNCTION public.get_potential_matches_optimized(
+    viewer_id UUID,
+    exclude_user_ids UUID[] DEFAULT ARRAY[]::UUID[],
+    zodiac_filter TEXT DEFAULT NULL,
+    min_age_filter INTEGER DEFAULT NULL,
+    max_age_filter INTEGER DEFAULT NULL,
+    max_distance_km INTEGER DEFAULT NULL,
+    activity_filter TEXT DEFAULT NULL,  -- CRITICAL: Activity type filtering (main app feature)
+    limit_count INTEGER DEFAULT 10,
+    offset_count INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    display_name TEXT,
+    avatar_url TEXT,
+    gender TEXT,
+    age INTEGER,
+    zodiac_sign TEXT,
+    interests TEXT[],
+    education_level TEXT,
+    bio TEXT,
+    compatibility_score INTEGER,
+    distance_km NUMERIC,
+    traits TEXT[],
+    height INTEGER,
+    lat DECIMAL,
+    lng DECIMAL,
+    last_active TIMESTAMPTZ,
+    premium_user BOOLEAN,
+    profile_image_url TEXT,
+    super_liked_viewer BOOLEAN,
+    super_like_note TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_profile RECORD;
+    viewer_user RECORD;
+    viewer_lat NUMERIC;
+    viewer_lng NUMERIC;
+BEGIN
+    -- Returns who super liked the viewer (and their notes): own feed only
+    IF auth.uid() IS DISTINCT FROM viewer_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only list matches for yourself' USING ERRCODE = '42501';
+    END IF;
+
+    -- Get viewer profile and user data for bidirectional filtering
+    SELECT * INTO viewer_profile FROM public.profiles WHERE id = viewer_id;
+    SELECT * INTO viewer_user FROM public.users WHERE id = viewer_id;
+
+    -- If viewer data not found, return empty
+    IF viewer_profile IS NULL THEN
+        RETURN;
+    END IF;
+
+    -- Get viewer coordinates for distance calculation
+    viewer_lat := COALESCE(viewer_profile.current_city_lat, viewer_user.birth_lat);
+    viewer_lng := COALESCE(viewer_profile.current_city_lng, viewer_user.birth_lng);
+
+    -- Return filtered potential matches with comprehensive exclusions
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.display_name,
+        p.avatar_url,
+        p.gender,
+        p.age,
+        p.zodiac_sign,
+        COALESCE(p.interests, ARRAY[]::TEXT[]) as interests,
+        p.education_level,
+        COALESCE(p.bio, '') as bio,
+        -- Get compatibility score from cache if available, otherwise default to 50
+        COALESCE(
+            (SELECT compatibility_score::INTEGER
+             FROM public.compatibility_scores
+             WHERE (user_id = viewer_id AND potential_match_id = p.id)
+                OR (user_id = p.id AND potential_match_id = viewer_id)
+             ORDER BY calculated_at DESC
+             LIMIT 1),
+            50
+        ) as compatibility_score,
+        -- Calculate distance using Haversine formula (returns km)
+        CASE
+            WHEN viewer_lat IS NOT NULL
+                AND viewer_lng IS NOT NULL
+                AND COALESCE(p.current_city_lat, u.birth_lat) IS NOT NULL
+                AND COALESCE(p.current_city_lng, u.birth_lng) IS NOT NULL
+            THEN
+                ROUND(
+                    (6371 * acos(
+                        LEAST(1.0, GREATEST(-1.0,
+                            cos(radians(viewer_lat)) *
+                            cos(radians(COALESCE(p.current_city_lat, u.birth_lat))) *
+                            cos(radians(COALESCE(p.current_city_lng, u.birth_lng)) - radians(viewer_lng)) +
+                            sin(radians(viewer_lat)) *
+                            sin(radians(COALESCE(p.current_city_lat, u.birth_lat)))
+                        ))
+                    ))::NUMERIC, 1
+                )
+            ELSE NULL
+        END as distance_km,
+        COALESCE(p.traits, ARRAY[]::TEXT[]) as traits,
+        p.height,
+        COALESCE(p.current_city_lat, u.birth_lat)::DECIMAL as lat,
+        COALESCE(p.current_city_lng, u.birth_lng)::DECIMAL as lng,
+        p.updated_at as last_active,
+        COALESCE(u.subscription_status = 'active', false) as premium_user,
+        p.avatar_url as profile_image_url,
+        (sl.id IS NOT NULL) as super_liked_viewer,
+        sl.super_like_note
+    FROM public.profiles p
+    JOIN public.users u ON u.id = p.id
+    LEFT JOIN public.swipe_exclusion_cache sec ON sec.swiper_id = viewer_id
+    -- SUPER LIKES RECEIVED: candidate super liked the viewer
+    LEFT JOIN public.swipes sl
+        ON sl.swiper_id = p.id
+       AND sl.swiped_id = viewer_id
+       AND sl.swipe_type = 'super_like'
+    WHERE
+        -- BASIC EXCLUSIONS
+        -- Exclude self
+        p.id != viewer_id
+
+        -- Exclude explicitly passed user IDs
+        AND (
+            array_length(exclude_user_ids, 1) IS NULL
+            OR NOT (p.id = ANY(exclude_user_ids))
+        )
+
+        -- Only show users who completed onboarding
+        AND p.onboarding_completed = true
+
+        -- SWIPE EXCLUSIONS
+        -- Exclude already-swiped users (prevents re-showing swiped profiles)
+        AND (
+            sec.swiped_user_ids IS NULL
+            OR NOT (p.id = ANY(sec.swiped_user_ids))
+            -- The cache lags behind rewinds: a rewound swipe with no newer
+            -- swipe no longer excludes the candidate
+            OR (
+                EXISTS (
+                    SELECT 1 FROM public.swipe_rewinds sr
+                    WHERE sr.user_id = viewer_id
+                      AND sr.swiped_id = p.id
+                )
+                AND NOT EXISTS (
+                    SELECT 1 FROM public.swipes s
+                    WHERE s.swiper_id = viewer_id
+                      AND s.swiped_id = p.id
+                )
+            )
+        )
+
+        -- MATCH REQUESTS EXCLUSIONS (CRITICAL - prevents duplicate invites)
+        -- Exclude users with pending match requests (sent by viewer)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = viewer_id
+              AND mr.matched_user_id = p.id
+              AND mr.status IN ('pending', 'confirmed')
+        )
+
+        -- Exclude users who sent match requests to viewer (pending)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = p.id
+              AND mr.matched_user_id = viewer_id
+              AND mr.status = 'pending'
+        )
+
+        -- Exclude users who declined viewer's match request
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = viewer_id
+              AND mr.matched_user_id = p.id
+              AND mr.status = 'rejected'
+        )
+
+        -- Exclude users whose match request viewer declined
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = p.id
+              AND mr.matched_user_id = viewer_id
+              AND mr.status = 'rejected'
+        )
+
+        -- ALREADY MATCHED EXCLUSIONS
+        -- Exclude users already matched (bidirectional check)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.matches m
+            WHERE (m.user1_id = viewer_id AND m.user2_id = p.id)
+               OR (m.user1_id = p.id AND m.user2_id = viewer_id)
+        )
+
+        -- BLOCKS EXCLUSIONS
+        -- Exclude blocked users (bidirectional)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.user_blocks b
+            WHERE (b.blocking_user_id = viewer_id AND b.blocked_user_id = p.id)
+               OR (b.blocking_user_id = p.id AND b.blocked_user_id = viewer_id)
+        )
+
+        -- AGE FILTERS (STRICT)
+        AND (
+            min_age_filter IS NULL
+            OR p.age IS NULL
+            OR p.age >= min_age_filter
+        )
+        AND (
+            max_age_filter IS NULL
+            OR p.age IS NULL
+            OR p.age <= max_age_filter
+        )
+
+        -- ZODIAC FILTER (with "Any Sign" support)
+        AND (
+            zodiac_filter IS NULL
+            OR zodiac_filter = ''
+            OR LOWER(zodiac_filter) = 'any'
+            OR LOWER(zodiac_filter) = 'all'
+            OR p.zodiac_sign = zodiac_filter
+            OR LOWER(p.zodiac_sign) = LOWER(zodiac_filter)
+        )
+
+        -- DISTANCE FILTER (STRICT - only filter if both users have coordinates)
+        AND (
+            max_distance_km IS NULL
+            OR viewer_lat IS NULL
+            OR viewer_lng IS NULL
+            OR COALESCE(p.current_city_lat, u.birth_lat) IS NULL
+            OR COALESCE(p.current_city_lng, u.birth_lng) IS NULL
+            OR (
+                6371 * acos(
+                    LEAST(1.0, GREATEST(-1.0,
+                        cos(radians(viewer_lat)) *
+                        cos(radians(COALESCE(p.current_city_lat, u.birth_lat))) *
+                        cos(radians(COALESCE(p.current_city_lng, u.birth_lng)) - radians(viewer_lng)) +
+                        sin(radians(viewer_lat)) *
+                        sin(radians(COALESCE(p.current_city_lat, u.birth_lat)))
+                    ))
+                ) <= max_distance_km
+            )
+        )
+
+        -- BIDIRECTIONAL GENDER/SEXUALITY PREFERENCE FILTERING
+        -- Viewer's preference: Check if viewer wants target's gender
+        AND (
+            viewer_user.looking_for IS NULL
+            OR array_length(viewer_user.looking_for, 1) IS NULL
+            OR p.gender IS NULL
+            OR (
+                CASE p.gender
+                    WHEN 'Male' THEN 'Males'
+                    WHEN 'Female' THEN 'Females'
+                    WHEN 'Non-binary' THEN 'Non-Binary'
+                    WHEN 'Other' THEN 'Non-Binary'
+                    ELSE 'Non-Binary'
+                END = ANY(viewer_user.looking_for)
+            )
+            OR 'Both' = ANY(viewer_user.looking_for)
+            OR 'Everyone' = ANY(viewer_user.looking_for)
+        )
+
+        -- Target's preference: Check if target wants viewer's gender
+        AND (
+            u.looking_for IS NULL
+            OR array_length(u.looking_for, 1) IS NULL
+            OR viewer_profile.gender IS NULL
+            OR (
+                CASE viewer_profile.gender
+                    WHEN 'Male' THEN 'Males'
+                    WHEN 'Female' THEN 'Females'
+                    WHEN 'Non-binary' THEN 'Non-Binary'
+                    WHEN 'Other' THEN 'Non-Binary'
+                    ELSE 'Non-Binary'
+                END = ANY(u.looking_for)
+            )
+            OR 'Both' = ANY(u.looking_for)
+            OR 'Everyone' = ANY(u.looking_for)
+        )
+
+        -- ACTIVITY TYPE FILTERING (with "Any Date" support)
+        -- Main app feature: filter by preferred date activity
+        AND (
+            activity_filter IS NULL
+            OR activity_filter = ''
+            OR LOWER(activity_filter) = 'any'
+            OR LOWER(activity_filter) = 'all'
+            OR LOWER(activity_filter) = 'any date'
+            OR (
+                -- Check if user has this activity in their preferences
+                u.activity_preferences IS NOT NULL
+                AND u.activity_preferences::jsonb ? activity_filter
+            )
+            OR (
+                -- Also check profile-level activity preferences if they exist
+                p.activity_preferences IS NOT NULL
+                AND p.activity_preferences::jsonb ? activity_filter
+            )
+        )
+
+        -- DATA COMPLETENESS CHECK
+        -- Only show users with complete compatibility data
+        AND u.natal_chart_data IS NOT NULL
+        AND u.questionnaire_responses IS NOT NULL
+        AND jsonb_typeof(u.questionnaire_responses) = 'array'
+        AND jsonb_array_length(u.questionnaire_responses) > 0
+
+    -- ORDERING
+    ORDER BY
+        -- Surface candidates who super liked the viewer first
+        (sl.id IS NOT NULL) DESC,
+        -- Then prioritize premium users
+        COALESCE(u.subscription_status = 'active', false) DESC,
+        -- Then by compatibility score (highest first)
+        COALESCE(
+            (SELECT compatibility_score
+             FROM public.compatibility_scores
+             WHERE (user_id = viewer_id AND potential_match_id = p.id)
+                OR (user_id = p.id AND potential_match_id = viewer_id)
+             ORDER BY calculated_at DESC
+             LIMIT 1),
+            50
+        ) DESC,
+        -- Then by distance (closest first)
+        CASE
+            WHEN viewer_lat IS NOT NULL AND viewer_lng IS NOT NULL
+                 AND COALESCE(p.current_city_lat, u.birth_lat) IS NOT NULL
+                 AND COALESCE(p.current_city_lng, u.birth_lng) IS NOT NULL
+            THEN 6371 * acos(
+                LEAST(1.0, GREATEST(-1.0,
+                    cos(radians(viewer_lat)) *
+                    cos(radians(COALESCE(p.current_city_lat, u.birth_lat))) *
+                    cos(radians(COALESCE(p.current_city_lng, u.birth_lng)) - radians(viewer_lng)) +
+                    sin(radians(viewer_lat)) *
+                    sin(radians(COALESCE(p.current_city_lat, u.birth_lat)))
+                ))
+            )
+            ELSE 999999  -- Put users without coordinates at the end
+        END ASC,
+        -- Finally by recency
+        p.updated_at DESC
+    LIMIT limit_count
+    OFFSET offset_count;
+
+EXCEPTION
+    WHEN insufficient_privilege THEN
+        RAISE;
+    WHEN OTHERS THEN
+        -- Log error and return empty result rather than failing
+        RAISE WARNING 'Error in get_potential_matches_optimized: % (SQLSTATE: %)', SQLERRM, SQLSTATE;
+        RETURN;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_potential_matches_optimized FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_potential_matches_optimized TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_potential_matches_optimized TO service_role;
+
+COMMENT ON FUNCTION public.get_potential_matches_optimized IS
+'Unified matching function (see 20251022120000_unified_matching_filters_production_ready).
+Ranks candidates who super liked the viewer first and returns super_liked_viewer / super_like_note.
+Version: 1.1.0 (super likes)
+Date: 2025-11-02';
+
+-- =====================================================
+-- 5. VALIDATION & MIGRATION CONFIRMATION
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Super Like Migration Complete';
+    RAISE NOTICE '  - swipes.swipe_type now accepts super_like (+ super_like_note)';
+    RAISE NOTICE '  - record_super_like_swipe(): daily allowance consumed with the swipe insert';
+    RAISE NOTICE '  - guard_super_like_swipes() trigger: no direct super_like writes';
+    RAISE NOTICE '  - get_potential_matches_optimized(): super likers ranked first';
+END $$;
+
+COMMIT;
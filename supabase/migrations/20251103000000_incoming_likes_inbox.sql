@@ -0,0 +1,173 @@
+-- =====================================================
+-- INCOMING LIKES ("WHO LIKED ME") INBOX
+-- =====================================================
+-- Lists users who liked the caller (via a like / super like swipe or a
+-- pending match request) and are still waiting for the caller to respond.
+-- Pagination is newest first on a (liked_at, like_id) keyset, so likes
+-- sharing a timestamp are never skipped; has_more / next_cursor /
+-- next_cursor_id are repeated on every row.
+-- Returns identifying profile fields, so only the service role may call it;
+-- get-incoming-likes decides between full cards and blurred previews.
+-- Date: 2025-11-03
+-- =====================================================
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.get_incoming_likes_with_cursor(
+    p_user_id UUID,
+    p_limit INTEGER DEFAULT 20,
+    p_cursor TIMESTAMPTZ DEFAULT NULL,
+    p_cursor_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    like_id UUID,
+    liker_id UUID,
+    liked_at TIMESTAMPTZ,
+    source TEXT,
+    is_super_like BOOLEAN,
+    super_like_note TEXT,
+    display_name TEXT,
+    avatar_url TEXT,
+    age INTEGER,
+    zodiac_sign TEXT,
+    bio TEXT,
+    interests TEXT[],
+    has_more BOOLEAN,
+    next_cursor TIMESTAMPTZ,
+    next_cursor_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only read your own incoming likes' USING ERRCODE = '42501';
+    END IF;
+
+    -- Validate limit
+    p_limit := LEAST(GREATEST(p_limit, 1), 50);
+
+    RETURN QUERY
+    WITH incoming AS (
+        -- Right swipes on the caller
+        SELECT
+            s.id AS like_id,
+            s.swiper_id AS liker_id,
+            s.created_at AS liked_at,
+            'swipe'::TEXT AS source,
+            (s.swipe_type = 'super_like') AS is_super_like,
+            s.super_like_note
+        FROM public.swipes s
+        WHERE s.swiped_id = p_user_id
+          AND s.swipe_type IN ('like', 'super_like')
+
+        UNION ALL
+
+        -- Pending match requests addressed to the caller
+        SELECT
+            mr.id,
+            mr.requester_id,
+            mr.created_at,
+            'match_request'::TEXT,
+            FALSE,
+            NULL::TEXT
+        FROM public.match_requests mr
+        WHERE mr.matched_user_id = p_user_id
+          AND mr.status = 'pending'
+    ),
+    -- One row per liker: keep the most recent signal, prefer super likes
+    latest AS (
+        SELECT DISTINCT ON (i.liker_id) i.*
+        FROM incoming i
+        ORDER BY i.liker_id, i.is_super_like DESC, i.liked_at DESC
+    ),
+    waiting AS (
+        SELECT l.*
+        FROM latest l
+        JOIN public.profiles p ON p.id = l.liker_id
+        WHERE l.liker_id != p_user_id
+          -- Caller has not swiped back yet
+          AND NOT EXISTS (
+              SELECT 1 FROM public.swipes back
+              WHERE back.swiper_id = p_user_id
+                AND back.swiped_id = l.liker_id
+          )
+          -- Not already matched
+          AND NOT EXISTS (
+              SELECT 1 FROM public.matches m
+              WHERE m.deleted_at IS NULL
+                AND ((m.user1_id = p_user_id AND m.user2_id = l.liker_id)
+                  OR (m.user1_id = l.liker_id AND m.user2_id = p_user_id))
+          )
+          -- Not blocked in either direction
+          AND NOT EXISTS (
+              SELECT 1 FROM public.user_blocks b
+              WHERE (b.blocking_user_id = p_user_id AND b.blocked_user_id = l.liker_id)
+                 OR (b.blocking_user_id = l.liker_id AND b.blocked_user_id = p_user_id)
+          )
+          AND (p_cursor IS NULL
+               OR (p_cursor_id IS NULL AND l.liked_at < p_cursor)
+               OR (l.liked_at, l.like_id) < (p_cursor, p_cursor_id))
+    ),
+    page AS (
+        SELECT w.*
+        FROM waiting w
+        ORDER BY w.liked_at DESC, w.like_id DESC
+        LIMIT p_limit + 1
+    ),
+    last_row AS (
+        SELECT pg.liked_at, pg.like_id
+        FROM page pg
+        ORDER BY pg.liked_at DESC, pg.like_id DESC
+        OFFSET p_limit - 1
+        LIMIT 1
+    ),
+    page_meta AS (
+        SELECT
+            (SELECT COUNT(*) FROM page) > p_limit AS more,
+            (SELECT lr.liked_at FROM last_row lr) AS last_liked_at,
+            (SELECT lr.like_id FROM last_row lr) AS last_like_id
+    )
+    SELECT
+        pg.like_id,
+        pg.liker_id,
+        pg.liked_at,
+        pg.source,
+        pg.is_super_like,
+        pg.super_like_note,
+        p.display_name,
+        p.avatar_url,
+        p.age,
+        p.zodiac_sign,
+        COALESCE(p.bio, ''),
+        COALESCE(p.interests, ARRAY[]::TEXT[]),
+        pm.more,
+        CASE WHEN pm.more THEN pm.last_liked_at ELSE NULL END,
+        CASE WHEN pm.more THEN pm.last_like_id ELSE NULL END
+    FROM page pg
+    JOIN public.profiles p ON p.id = pg.liker_id
+    CROSS JOIN page_meta pm
+    ORDER BY pg.liked_at DESC, pg.like_id DESC
+    LIMIT p_limit;
+END;
+$$;
+
+-- Identifying fields are paywalled in get-incoming-likes, so clients can't call this directly
+REVOKE ALL ON FUNCTION public.get_incoming_likes_with_cursor(UUID, INTEGER, TIMESTAMPTZ, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_incoming_likes_with_cursor(UUID, INTEGER, TIMESTAMPTZ, UUID) TO service_role;
+
+COMMENT ON FUNCTION public.get_incoming_likes_with_cursor(UUID, INTEGER, TIMESTAMPTZ, UUID) IS 'Keyset-paginated list of users who liked p_user_id (swipes + pending match requests) and are still awaiting a response. Excludes answered, matched and blocked pairs.';
+
+-- Supports the "liked the caller" scan
+CREATE INDEX IF NOT EXISTS idx_swipes_swiped_created
+    ON public.swipes(swiped_id, created_at DESC)
+    WHERE swipe_type IN ('like', 'super_like');
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Incoming Likes Inbox Migration Complete';
+    RAISE NOTICE '  - get_incoming_likes_with_cursor(): who liked me, cursor paginated';
+END $$;
+
+COMMIT;
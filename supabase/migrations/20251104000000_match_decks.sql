@@ -0,0 +1,189 @@
+-- =====================================================
+-- PRECOMPUTED MATCH DECKS
+-- =====================================================
+-- Stores one precomputed, deduplicated "deck" of candidates per user along
+-- with a server-side cursor. Decks are built off the request path by the
+-- build-match-decks worker: on a preference change (invalidate_match_deck),
+-- when a feed request finds no usable deck, and ahead of expiry for active
+-- users. get-potential-matches-optimized only reads decks, page by page, so
+-- compatibility scoring never runs on a feed request.
+-- Date: 2025-11-04
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. DECK TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.match_decks (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    deck_id UUID NOT NULL DEFAULT gen_random_uuid(),
+    -- Normalized filter set the deck was built for (sorted-key JSON string)
+    filters_key TEXT NOT NULL DEFAULT '{}',
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- Ordered candidate cards with precomputed compatibility scores
+    candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+    candidate_count INTEGER NOT NULL DEFAULT 0,
+    -- Server-side cursor: index of the next candidate to serve
+    cursor_position INTEGER NOT NULL DEFAULT 0 CHECK (cursor_position >= 0),
+    generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    invalidated_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_decks_expires_at
+    ON public.match_decks(expires_at);
+
+COMMENT ON TABLE public.match_decks IS 'Per-user precomputed candidate deck with a server-side cursor. Invalidated when matching preferences change.';
+COMMENT ON COLUMN public.match_decks.cursor_position IS 'Index into candidates of the next card to serve; advanced as pages are read.';
+
+ALTER TABLE public.match_decks ENABLE ROW LEVEL SECURITY;
+
+-- Decks hold each candidate's mutual fit (who already likes the viewer,
+-- their like rates) and the ranking itself, so users can neither read nor
+-- write them; get-potential-matches-optimized serves pages with the
+-- service client
+DROP POLICY IF EXISTS "Users can manage their own match deck" ON public.match_decks;
+
+CREATE POLICY "Service role can manage match decks" ON public.match_decks
+    FOR ALL USING ((SELECT auth.role()) = 'service_role');
+
+REVOKE ALL ON public.match_decks FROM anon, authenticated;
+GRANT ALL ON public.match_decks TO service_role;
+
+-- =====================================================
+-- 2. BUILD REQUESTS
+-- =====================================================
+
+-- One pending build per user, for the filters it should be built with.
+-- A request is removed once its deck is stored; a newer request made while
+-- the build ran (requested_at changed) survives and is built next.
+CREATE TABLE IF NOT EXISTS public.match_deck_requests (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    filters_key TEXT NOT NULL DEFAULT '{}',
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    claimed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_deck_requests_requested_at
+    ON public.match_deck_requests(requested_at);
+
+ALTER TABLE public.match_deck_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage match deck requests" ON public.match_deck_requests
+    FOR ALL USING ((SELECT auth.role()) = 'service_role');
+
+REVOKE ALL ON public.match_deck_requests FROM anon, authenticated;
+GRANT ALL ON public.match_deck_requests TO service_role;
+
+COMMENT ON TABLE public.match_deck_requests IS 'Pending match deck builds for the build-match-decks worker';
+
+-- Queues refreshes for decks about to expire whose owner read them in the
+-- last day, then claims pending requests for a short lease (oldest first).
+-- Overlapping worker runs skip each other's claims.
+CREATE OR REPLACE FUNCTION public.claim_match_deck_requests(p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+    user_id UUID,
+    filters JSONB,
+    requested_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    -- Longer than building one batch of decks
+    c_claim_lease CONSTANT INTERVAL := INTERVAL '5 minutes';
+BEGIN
+    IF auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Match deck builds are service role only' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.match_deck_requests AS r (user_id, filters_key, filters, requested_at)
+    SELECT d.user_id, d.filters_key, d.filters, NOW()
+    FROM public.match_decks d
+    WHERE d.invalidated_at IS NULL
+      AND d.expires_at <= NOW() + INTERVAL '30 minutes'
+      AND d.updated_at > NOW() - INTERVAL '1 day'
+    ON CONFLICT ON CONSTRAINT match_deck_requests_pkey DO NOTHING;
+
+    RETURN QUERY
+    WITH due AS (
+        SELECT r.user_id
+        FROM public.match_deck_requests r
+        WHERE r.claimed_at IS NULL OR r.claimed_at < NOW() - c_claim_lease
+        ORDER BY r.requested_at
+        LIMIT LEAST(COALESCE(p_limit, 20), 100)
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE public.match_deck_requests r
+    SET claimed_at = NOW()
+    FROM due
+    WHERE r.user_id = due.user_id
+    RETURNING r.user_id, r.filters, r.requested_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_match_deck_requests(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_match_deck_requests(INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.claim_match_deck_requests(INTEGER) IS 'Worker: queue refreshes for expiring decks and claim pending deck builds (5 minute lease)';
+
+-- =====================================================
+-- 3. INVALIDATION
+-- =====================================================
+
+-- Mark a user's deck stale and queue a rebuild with the same filters.
+-- Callable by the user for their own deck (settings / preference updates).
+CREATE OR REPLACE FUNCTION public.invalidate_match_deck(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only invalidate your own match deck' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.match_decks
+    SET invalidated_at = NOW(),
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+      AND invalidated_at IS NULL;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO public.match_deck_requests AS r (user_id, filters_key, filters, requested_at)
+    SELECT d.user_id, d.filters_key, d.filters, NOW()
+    FROM public.match_decks d
+    WHERE d.user_id = p_user_id
+    ON CONFLICT ON CONSTRAINT match_deck_requests_pkey DO UPDATE
+        SET requested_at = EXCLUDED.requested_at;
+
+    RETURN TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.invalidate_match_deck(UUID) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.invalidate_match_deck(UUID) IS 'Mark the user''s precomputed match deck as stale and queue a rebuild. Called after matching preference changes.';
+
+-- =====================================================
+-- 4. VALIDATION & MIGRATION CONFIRMATION
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Match Decks Migration Complete';
+    RAISE NOTICE '  - match_decks: precomputed candidate deck + server-side cursor';
+    RAISE NOTICE '  - match_deck_requests + claim_match_deck_requests(): background deck builds';
+    RAISE NOTICE '  - invalidate_match_deck(): mark a deck stale and queue a rebuild';
+END $$;
+
+COMMIT;
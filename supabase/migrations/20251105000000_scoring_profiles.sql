@@ -0,0 +1,152 @@
+-- =====================================================
+-- VERSIONED MATCH SCORING PROFILES
+-- =====================================================
+-- Moves the hardcoded matching weights (astro / questionnaire blend,
+-- per-body synastry weights, aspect orbs and grade cutoffs) into an
+-- admin-managed, versioned table. Exactly one profile is active at a time;
+-- the matching code loads it at runtime and stamps the version on every
+-- compatibility_scores row it writes. The feed's components still come from
+-- calculate_compatibility_scores, so for those rows only the blend ratio is
+-- profile-driven; body weights, orbs and cutoffs apply to the TypeScript
+-- synastry.
+-- Date: 2025-11-05
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. SCORING PROFILES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.scoring_profiles (
+    version INTEGER PRIMARY KEY CHECK (version > 0),
+    name TEXT NOT NULL,
+    description TEXT,
+    -- Combined score blend (must sum to 1)
+    astrological_weight NUMERIC(4,3) NOT NULL CHECK (astrological_weight BETWEEN 0 AND 1),
+    questionnaire_weight NUMERIC(4,3) NOT NULL CHECK (questionnaire_weight BETWEEN 0 AND 1),
+    -- Synastry weight per body; a pair uses the larger of its two bodies
+    body_weights JSONB NOT NULL,
+    -- Overrides for specific body pairs, keyed "<BodyA>-<BodyB>" (alphabetical)
+    pair_weights JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- Allowed orb in degrees per aspect
+    aspect_orbs JSONB NOT NULL,
+    -- Minimum score for each letter grade
+    grade_cutoffs JSONB NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT false,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    activated_at TIMESTAMPTZ,
+    CONSTRAINT scoring_profiles_blend_sums_to_one
+        CHECK (astrological_weight + questionnaire_weight = 1)
+);
+
+-- At most one active profile
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scoring_profiles_single_active
+    ON public.scoring_profiles(is_active)
+    WHERE is_active;
+
+COMMENT ON TABLE public.scoring_profiles IS 'Versioned matching weights (blend, body weights, aspect orbs, grade cutoffs). One active profile is loaded by the matching code at runtime.';
+
+-- Version 1 reproduces the previously hardcoded weights
+INSERT INTO public.scoring_profiles (
+    version, name, description,
+    astrological_weight, questionnaire_weight,
+    body_weights, pair_weights, aspect_orbs, grade_cutoffs,
+    is_active, activated_at
+) VALUES (
+    1,
+    'baseline',
+    'Original hardcoded weights from compatibility-orchestrator.ts and astronomical-calculations.ts',
+    0.4, 0.6,
+    '{"Sun": 1.5, "Moon": 1.5, "Ascendant": 1.5, "Mercury": 1.0, "Venus": 1.0, "Mars": 1.0}'::jsonb,
+    '{"Moon-Sun": 2.0, "Mars-Venus": 1.7}'::jsonb,
+    '{"CONJUNCTION": 8.0, "OPPOSITION": 8.0, "TRINE": 8.0, "SQUARE": 8.0, "SEXTILE": 6.0, "QUINCUNX": 3.0}'::jsonb,
+    '{"A": 90, "B": 80, "C": 70, "D": 60}'::jsonb,
+    true,
+    NOW()
+) ON CONFLICT (version) DO NOTHING;
+
+ALTER TABLE public.scoring_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Matching code running as the user needs to read the active profile
+CREATE POLICY "Authenticated users can read scoring profiles" ON public.scoring_profiles
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Admins can create scoring profiles" ON public.scoring_profiles
+    FOR INSERT TO authenticated WITH CHECK (
+        is_active = false
+        AND EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = (SELECT auth.uid())
+            AND profiles.is_admin = true
+        )
+    );
+
+CREATE POLICY "Service role can manage scoring profiles" ON public.scoring_profiles
+    FOR ALL USING ((SELECT auth.role()) = 'service_role');
+
+-- =====================================================
+-- 2. VERSION ON COMPATIBILITY SCORES
+-- =====================================================
+
+ALTER TABLE public.compatibility_scores
+    ADD COLUMN IF NOT EXISTS scoring_profile_version INTEGER
+        REFERENCES public.scoring_profiles(version);
+
+COMMENT ON COLUMN public.compatibility_scores.scoring_profile_version IS 'Scoring profile version whose blend ratio produced compatibility_score (NULL for rows written before scoring profiles existed). Components come from calculate_compatibility_scores, which does not read the profile.';
+
+-- =====================================================
+-- 3. ACTIVATION
+-- =====================================================
+
+-- Atomically switch the active profile. Admins or service role only.
+CREATE OR REPLACE FUNCTION public.activate_scoring_profile(p_version INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF auth.role() != 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND is_admin = true
+    ) THEN
+        RAISE EXCEPTION 'Unauthorized: Only admins can activate scoring profiles' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.scoring_profiles WHERE version = p_version) THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE public.scoring_profiles
+    SET is_active = false
+    WHERE is_active AND version != p_version;
+
+    UPDATE public.scoring_profiles
+    SET is_active = true,
+        activated_at = NOW()
+    WHERE version = p_version
+      AND NOT is_active;
+
+    RETURN TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.activate_scoring_profile(INTEGER) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.activate_scoring_profile(INTEGER) IS 'Make the given scoring profile version the single active profile. Admin only.';
+
+-- =====================================================
+-- 4. VALIDATION & MIGRATION CONFIRMATION
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Scoring Profiles Migration Complete';
+    RAISE NOTICE '  - scoring_profiles: versioned matching weights (v1 = previous hardcoded values, active)';
+    RAISE NOTICE '  - compatibility_scores.scoring_profile_version';
+    RAISE NOTICE '  - activate_scoring_profile(): switch the active profile';
+END $$;
+
+COMMIT;
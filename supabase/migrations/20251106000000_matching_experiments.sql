@@ -0,0 +1,170 @@
+-- =====================================================
+-- MATCHING A/B EXPERIMENTS
+-- =====================================================
+-- Experiment definitions for comparing ranking strategies without a
+-- deploy. Users are bucketed deterministically by id in the edge functions
+-- (_shared/experiments.ts); exposures and swipe outcomes are logged to
+-- analytics_events and rolled up per variant into daily_metrics by
+-- aggregate-daily-stats via aggregate_experiment_metrics().
+-- Date: 2025-11-06
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. EXPERIMENT DEFINITIONS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.experiments (
+    key TEXT PRIMARY KEY CHECK (key ~ '^[a-z0-9_]{3,64}$'),
+    description TEXT,
+    -- [{ "name": "control", "weight": 50, "config": {} }, ...]
+    variants JSONB NOT NULL CHECK (jsonb_typeof(variants) = 'array' AND jsonb_array_length(variants) >= 2),
+    -- Changing the salt reshuffles every user into a new bucket
+    salt TEXT NOT NULL DEFAULT encode(gen_random_bytes(8), 'hex'),
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+    started_at TIMESTAMPTZ,
+    ended_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiments_running
+    ON public.experiments(status)
+    WHERE status = 'running';
+
+COMMENT ON TABLE public.experiments IS 'A/B experiment definitions. Variant config may carry ranking overrides such as scoring_profile_version.';
+
+ALTER TABLE public.experiments ENABLE ROW LEVEL SECURITY;
+
+-- No user-facing policy: knowing the salt lets anyone predict every
+-- user's bucket, so only edge functions (service role) read definitions
+CREATE POLICY "Service role can manage experiments" ON public.experiments
+    FOR ALL USING ((SELECT auth.role()) = 'service_role');
+
+-- Supports the per-experiment rollup scans
+CREATE INDEX IF NOT EXISTS idx_analytics_events_experiment
+    ON public.analytics_events ((event_properties->>'experiment_key'), event_name, created_at)
+    WHERE event_name IN ('experiment_exposure', 'experiment_swipe');
+
+-- =====================================================
+-- 2. PER-VARIANT ROLLUP
+-- =====================================================
+
+-- Outcome metrics per experiment variant for one day:
+--   like_rate          = right swipes / swipes
+--   match_rate         = matches / right swipes
+--   messages_per_match = messages sent by exposed users that day /
+--                        active matches of exposed users that had messages
+CREATE OR REPLACE FUNCTION public.aggregate_experiment_metrics(p_metric_date DATE)
+RETURNS TABLE (
+    experiment_key TEXT,
+    variant TEXT,
+    exposed_users BIGINT,
+    swipes BIGINT,
+    likes BIGINT,
+    matches BIGINT,
+    messages BIGINT,
+    matches_with_messages BIGINT,
+    like_rate NUMERIC,
+    match_rate NUMERIC,
+    messages_per_match NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_day_start TIMESTAMPTZ := p_metric_date::TIMESTAMPTZ;
+    v_day_end TIMESTAMPTZ := (p_metric_date + 1)::TIMESTAMPTZ;
+BEGIN
+    IF auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Experiment rollups are service role only' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    WITH exposed AS (
+        -- Users exposed during the day
+        SELECT DISTINCT
+            ae.event_properties->>'experiment_key' AS exp_key,
+            ae.event_properties->>'variant' AS exp_variant,
+            ae.user_id
+        FROM public.analytics_events ae
+        WHERE ae.event_name = 'experiment_exposure'
+          AND ae.created_at >= v_day_start
+          AND ae.created_at < v_day_end
+          AND ae.user_id IS NOT NULL
+    ),
+    swipe_outcomes AS (
+        SELECT
+            ae.event_properties->>'experiment_key' AS exp_key,
+            ae.event_properties->>'variant' AS exp_variant,
+            COUNT(*) AS swipe_count,
+            COUNT(*) FILTER (WHERE ae.event_properties->>'swipe_type' IN ('like', 'super_like')) AS like_count,
+            COUNT(*) FILTER (WHERE (ae.event_properties->>'matched')::BOOLEAN) AS match_count
+        FROM public.analytics_events ae
+        WHERE ae.event_name = 'experiment_swipe'
+          AND ae.created_at >= v_day_start
+          AND ae.created_at < v_day_end
+        GROUP BY 1, 2
+    ),
+    message_outcomes AS (
+        SELECT
+            e.exp_key,
+            e.exp_variant,
+            COUNT(msg.id) AS message_count,
+            COUNT(DISTINCT m.id) AS conversing_matches
+        FROM exposed e
+        JOIN public.matches m
+            ON (m.user1_id = e.user_id OR m.user2_id = e.user_id)
+           AND m.deleted_at IS NULL
+        JOIN public.messages msg
+            ON msg.conversation_id = m.conversation_id
+           AND msg.sender_id = e.user_id
+           AND msg.created_at >= v_day_start
+           AND msg.created_at < v_day_end
+        GROUP BY 1, 2
+    ),
+    variants AS (
+        SELECT e.exp_key, e.exp_variant, COUNT(DISTINCT e.user_id) AS user_count
+        FROM exposed e
+        GROUP BY 1, 2
+    )
+    SELECT
+        v.exp_key,
+        v.exp_variant,
+        v.user_count,
+        COALESCE(so.swipe_count, 0),
+        COALESCE(so.like_count, 0),
+        COALESCE(so.match_count, 0),
+        COALESCE(mo.message_count, 0),
+        COALESCE(mo.conversing_matches, 0),
+        ROUND(COALESCE(so.like_count::NUMERIC / NULLIF(so.swipe_count, 0), 0), 4),
+        ROUND(COALESCE(so.match_count::NUMERIC / NULLIF(so.like_count, 0), 0), 4),
+        ROUND(COALESCE(mo.message_count::NUMERIC / NULLIF(mo.conversing_matches, 0), 0), 2)
+    FROM variants v
+    JOIN public.experiments ex ON ex.key = v.exp_key
+    LEFT JOIN swipe_outcomes so ON so.exp_key = v.exp_key AND so.exp_variant = v.exp_variant
+    LEFT JOIN message_outcomes mo ON mo.exp_key = v.exp_key AND mo.exp_variant = v.exp_variant
+    WHERE ex.status = 'running'
+       OR (ex.ended_at IS NOT NULL AND ex.ended_at >= v_day_start)
+    ORDER BY v.exp_key, v.exp_variant;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.aggregate_experiment_metrics(DATE) TO service_role;
+
+COMMENT ON FUNCTION public.aggregate_experiment_metrics(DATE) IS 'Per-variant like-rate, match-rate and messages-per-match for one day, from experiment_exposure / experiment_swipe analytics events.';
+
+-- =====================================================
+-- 3. VALIDATION & MIGRATION CONFIRMATION
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Matching Experiments Migration Complete';
+    RAISE NOTICE '  - experiments: A/B experiment definitions (deterministic bucketing in edge functions)';
+    RAISE NOTICE '  - aggregate_experiment_metrics(): per-variant daily rollup';
+END $$;
+
+COMMIT;
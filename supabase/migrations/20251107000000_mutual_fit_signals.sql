@@ -0,0 +1,160 @@
+-- =====================================================
+-- RECIPROCAL ("MUTUAL FIT") SIGNALS
+-- =====================================================
+-- Raw inputs for estimating how likely each candidate is to like the viewer
+-- back: the candidate's stated preferences checked against the viewer, and
+-- the candidate's historical like pattern from swipes (overall and on
+-- profiles similar to the viewer). The edge functions combine these into a
+-- 0-1 score (calculateMutualFitScore) and rank decks by two-way fit.
+-- Date: 2025-11-07
+-- =====================================================
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.get_mutual_fit_signals(
+    p_viewer_id UUID,
+    p_candidate_ids UUID[]
+)
+RETURNS TABLE (
+    candidate_id UUID,
+    already_likes_viewer BOOLEAN,
+    age_in_range BOOLEAN,
+    within_distance BOOLEAN,
+    zodiac_preferred BOOLEAN,
+    height_in_range BOOLEAN,
+    total_swipes INTEGER,
+    total_likes INTEGER,
+    similar_swipes INTEGER,
+    similar_likes INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_viewer_profile RECORD;
+    v_viewer_lat NUMERIC;
+    v_viewer_lng NUMERIC;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_viewer_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only read mutual fit for your own feed' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT p.age, p.gender, p.zodiac_sign, p.height,
+           COALESCE(p.current_city_lat, u.birth_lat) AS lat,
+           COALESCE(p.current_city_lng, u.birth_lng) AS lng
+    INTO v_viewer_profile
+    FROM public.profiles p
+    JOIN public.users u ON u.id = p.id
+    WHERE p.id = p_viewer_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    v_viewer_lat := v_viewer_profile.lat;
+    v_viewer_lng := v_viewer_profile.lng;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            c.id,
+            cu.preferences,
+            cs.min_age_preference,
+            cs.max_age_preference,
+            cs.preferred_distance_km,
+            cs.min_height_preference,
+            cs.max_height_preference,
+            COALESCE(cp.current_city_lat, cu.birth_lat) AS lat,
+            COALESCE(cp.current_city_lng, cu.birth_lng) AS lng
+        FROM unnest(p_candidate_ids) AS c(id)
+        JOIN public.profiles cp ON cp.id = c.id
+        JOIN public.users cu ON cu.id = c.id
+        LEFT JOIN public.user_settings cs ON cs.user_id = c.id
+    ),
+    -- Candidate swipe history (last 180 days), with the swiped profile's traits
+    history AS (
+        SELECT
+            s.swiper_id,
+            (s.swipe_type IN ('like', 'super_like')) AS liked,
+            -- "Similar to the viewer": same gender and within 3 years of age
+            (sp.gender IS NOT DISTINCT FROM v_viewer_profile.gender
+             AND sp.age IS NOT NULL AND v_viewer_profile.age IS NOT NULL
+             AND abs(sp.age - v_viewer_profile.age) <= 3) AS similar
+        FROM public.swipes s
+        JOIN public.profiles sp ON sp.id = s.swiped_id
+        WHERE s.swiper_id = ANY(p_candidate_ids)
+          AND s.created_at >= NOW() - INTERVAL '180 days'
+    ),
+    history_stats AS (
+        SELECT
+            h.swiper_id,
+            COUNT(*)::INTEGER AS total_swipes,
+            COUNT(*) FILTER (WHERE h.liked)::INTEGER AS total_likes,
+            COUNT(*) FILTER (WHERE h.similar)::INTEGER AS similar_swipes,
+            COUNT(*) FILTER (WHERE h.similar AND h.liked)::INTEGER AS similar_likes
+        FROM history h
+        GROUP BY h.swiper_id
+    )
+    SELECT
+        c.id,
+        EXISTS (
+            SELECT 1 FROM public.swipes back
+            WHERE back.swiper_id = c.id
+              AND back.swiped_id = p_viewer_id
+              AND back.swipe_type IN ('like', 'super_like')
+        ),
+        -- Stated preferences: NULL when the candidate has not set one
+        CASE
+            WHEN v_viewer_profile.age IS NULL OR c.min_age_preference IS NULL THEN NULL
+            ELSE v_viewer_profile.age BETWEEN c.min_age_preference AND COALESCE(c.max_age_preference, 100)
+        END,
+        CASE
+            WHEN c.preferred_distance_km IS NULL OR v_viewer_lat IS NULL OR v_viewer_lng IS NULL
+                 OR c.lat IS NULL OR c.lng IS NULL THEN NULL
+            ELSE 6371 * acos(
+                LEAST(1.0, GREATEST(-1.0,
+                    cos(radians(v_viewer_lat)) * cos(radians(c.lat)) *
+                    cos(radians(c.lng) - radians(v_viewer_lng)) +
+                    sin(radians(v_viewer_lat)) * sin(radians(c.lat))
+                ))
+            ) <= c.preferred_distance_km
+        END,
+        CASE
+            WHEN v_viewer_profile.zodiac_sign IS NULL THEN NULL
+            WHEN COALESCE(c.preferences->>'preferredZodiac', c.preferences->>'zodiac') IS NULL
+                 OR LOWER(COALESCE(c.preferences->>'preferredZodiac', c.preferences->>'zodiac')) = 'any' THEN NULL
+            ELSE LOWER(COALESCE(c.preferences->>'preferredZodiac', c.preferences->>'zodiac')) = LOWER(v_viewer_profile.zodiac_sign)
+        END,
+        CASE
+            WHEN v_viewer_profile.height IS NULL
+                 OR (c.min_height_preference IS NULL AND c.max_height_preference IS NULL) THEN NULL
+            ELSE v_viewer_profile.height BETWEEN COALESCE(c.min_height_preference, 0) AND COALESCE(c.max_height_preference, 1000)
+        END,
+        COALESCE(hs.total_swipes, 0),
+        COALESCE(hs.total_likes, 0),
+        COALESCE(hs.similar_swipes, 0),
+        COALESCE(hs.similar_likes, 0)
+    FROM candidates c
+    LEFT JOIN history_stats hs ON hs.swiper_id = c.id;
+END;
+$$;
+
+-- Reveals whether candidates already like the viewer, so only the deck
+-- builder (service role) may call it
+REVOKE ALL ON FUNCTION public.get_mutual_fit_signals(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_mutual_fit_signals(UUID, UUID[]) TO service_role;
+
+COMMENT ON FUNCTION public.get_mutual_fit_signals(UUID, UUID[]) IS 'Per-candidate inputs for the reciprocal "mutual fit" score: candidate stated preferences vs the viewer and the candidate''s recent like pattern.';
+
+-- Supports the candidate swipe-history scan
+CREATE INDEX IF NOT EXISTS idx_swipes_swiper_created_type
+    ON public.swipes(swiper_id, created_at DESC, swipe_type);
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Mutual Fit Signals Migration Complete';
+    RAISE NOTICE '  - get_mutual_fit_signals(): reciprocal preference + like-history inputs';
+END $$;
+
+COMMIT;
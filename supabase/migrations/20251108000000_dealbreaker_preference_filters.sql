@@ -0,0 +1,697 @@
+-- =====================================================
+-- DEALBREAKER VS PREFERENCE MATCH FILTERS
+-- =====================================================
+-- Lets users mark each matching filter (age, distance, gender, children)
+-- as a "dealbreaker" (hard cut, the previous behaviour for everything) or a
+-- "preference" (candidates outside it are down-ranked, not excluded).
+-- Date: 2025-11-08
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. USER SETTINGS COLUMNS
+-- =====================================================
+
+ALTER TABLE public.user_settings
+    ADD COLUMN IF NOT EXISTS children_preference TEXT[] DEFAULT NULL,
+    ADD COLUMN IF NOT EXISTS filter_strictness JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+ALTER TABLE public.user_settings
+    DROP CONSTRAINT IF EXISTS user_settings_children_preference_valid;
+ALTER TABLE public.user_settings
+    ADD CONSTRAINT user_settings_children_preference_valid
+    CHECK (children_preference IS NULL OR children_preference <@ ARRAY['Yes', 'No', 'Maybe', 'Open to it']::TEXT[]);
+
+ALTER TABLE public.user_settings
+    DROP CONSTRAINT IF EXISTS user_settings_filter_strictness_valid;
+ALTER TABLE public.user_settings
+    ADD CONSTRAINT user_settings_filter_strictness_valid
+    CHECK (
+        jsonb_typeof(filter_strictness) = 'object'
+        AND (filter_strictness - ARRAY['age', 'distance', 'gender', 'children']) = '{}'::JSONB
+        AND COALESCE(filter_strictness->>'age', 'dealbreaker') IN ('dealbreaker', 'preference')
+        AND COALESCE(filter_strictness->>'distance', 'dealbreaker') IN ('dealbreaker', 'preference')
+        AND COALESCE(filter_strictness->>'gender', 'dealbreaker') IN ('dealbreaker', 'preference')
+        AND COALESCE(filter_strictness->>'children', 'dealbreaker') IN ('dealbreaker', 'preference')
+    );
+
+COMMENT ON COLUMN public.user_settings.children_preference IS 'Acceptable candidate wants_kids values (NULL = no children filter)';
+COMMENT ON COLUMN public.user_settings.filter_strictness IS 'Per-filter mode: {"age"|"distance"|"gender"|"children": "dealbreaker"|"preference"}. Missing keys are dealbreakers.';
+
+-- =====================================================
+-- 2. SETTINGS READ / WRITE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_user_settings(target_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    settings_record RECORD;
+    settings_json JSONB;
+BEGIN
+    -- Get the user settings
+    SELECT * INTO settings_record
+    FROM public.user_settings 
+    WHERE user_id = target_user_id;
+    
+    -- If no settings exist, return defaults
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'matching_preferences', jsonb_build_object(
+                'preferred_distance_km', 50,
+                'min_age_preference', 21,
+                'max_age_preference', 40,
+                'gender_preference', 'any',
+                'max_height_preference', 84,
+                'zodiac_compatibility_required', false,
+                'children_preference', NULL,
+                'filter_strictness', jsonb_build_object(
+                    'age', 'dealbreaker',
+                    'distance', 'dealbreaker',
+                    'gender', 'dealbreaker',
+                    'children', 'dealbreaker'
+                )
+            ),
+            'privacy_settings', jsonb_build_object(
+                'read_receipts_enabled', true,
+                'profile_visibility_public', true,
+                'show_distance_on_profile', true,
+                'show_age_on_profile', true,
+                'show_height_on_profile', false,
+                'data_sharing_enabled', false
+            ),
+            'notification_settings', jsonb_build_object(
+                'message_notifications_enabled', true,
+                'message_notifications_push', true,
+                'match_notifications_enabled', true,
+                'do_not_disturb_enabled', false
+            ),
+            'discovery_settings', jsonb_build_object(
+                'discovery_enabled', true,
+                'boost_profile', false,
+                'incognito_mode', false
+            ),
+            'settings_version', 1,
+            'created_at', NOW(),
+            'updated_at', NOW()
+        );
+    END IF;
+    
+    -- Build the structured JSON response
+    settings_json := jsonb_build_object(
+        'matching_preferences', jsonb_build_object(
+            'preferred_distance_km', settings_record.preferred_distance_km,
+            'min_age_preference', settings_record.min_age_preference,
+            'max_age_preference', settings_record.max_age_preference,
+            'gender_preference', settings_record.gender_preference,
+            'min_height_preference', settings_record.min_height_preference,
+            'max_height_preference', settings_record.max_height_preference,
+            'education_level_preference', settings_record.education_level_preference,
+            'zodiac_compatibility_required', settings_record.zodiac_compatibility_required,
+            'children_preference', settings_record.children_preference,
+            'filter_strictness', jsonb_build_object(
+                'age', 'dealbreaker',
+                'distance', 'dealbreaker',
+                'gender', 'dealbreaker',
+                'children', 'dealbreaker'
+            ) || settings_record.filter_strictness
+        ),
+        'privacy_settings', jsonb_build_object(
+            'read_receipts_enabled', settings_record.read_receipts_enabled,
+            'profile_visibility_public', settings_record.profile_visibility_public,
+            'show_distance_on_profile', settings_record.show_distance_on_profile,
+            'show_age_on_profile', settings_record.show_age_on_profile,
+            'show_height_on_profile', settings_record.show_height_on_profile,
+            'data_sharing_enabled', settings_record.data_sharing_enabled
+        ),
+        'notification_settings', jsonb_build_object(
+            'message_notifications_enabled', settings_record.message_notifications_enabled,
+            'message_notifications_push', settings_record.message_notifications_push,
+            'message_notifications_email', settings_record.message_notifications_email,
+            'message_notifications_sound', settings_record.message_notifications_sound,
+            'match_notifications_enabled', settings_record.match_notifications_enabled,
+            'match_request_notifications', settings_record.match_request_notifications,
+            'daily_matches_notifications', settings_record.daily_matches_notifications,
+            'app_update_notifications', settings_record.app_update_notifications,
+            'marketing_notifications_enabled', settings_record.marketing_notifications_enabled,
+            'do_not_disturb_enabled', settings_record.do_not_disturb_enabled,
+            'do_not_disturb_start_time', settings_record.do_not_disturb_start_time,
+            'do_not_disturb_end_time', settings_record.do_not_disturb_end_time
+        ),
+        'accessibility_settings', jsonb_build_object(
+            'accessibility_features_enabled', settings_record.accessibility_features_enabled,
+            'large_text_enabled', settings_record.large_text_enabled,
+            'high_contrast_enabled', settings_record.high_contrast_enabled,
+            'reduced_motion_enabled', settings_record.reduced_motion_enabled,
+            'screen_reader_enabled', settings_record.screen_reader_enabled
+        ),
+        'discovery_settings', jsonb_build_object(
+            'discovery_enabled', settings_record.discovery_enabled,
+            'boost_profile', settings_record.boost_profile,
+            'incognito_mode', settings_record.incognito_mode
+        ),
+        'advanced_preferences', settings_record.advanced_preferences,
+        'metadata', jsonb_build_object(
+            'settings_version', settings_record.settings_version,
+            'created_at', settings_record.created_at,
+            'updated_at', settings_record.updated_at
+        )
+    );
+    
+    RETURN settings_json;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_user_settings(
+    target_user_id UUID,
+    settings_update JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    existing_settings RECORD;
+    updated_settings JSONB;
+BEGIN
+    -- Get existing settings or create default
+    SELECT * INTO existing_settings
+    FROM public.user_settings 
+    WHERE user_id = target_user_id;
+    
+    -- If no settings exist, create with defaults
+    IF NOT FOUND THEN
+        INSERT INTO public.user_settings (user_id) VALUES (target_user_id);
+        SELECT * INTO existing_settings
+        FROM public.user_settings 
+        WHERE user_id = target_user_id;
+    END IF;
+    
+    -- Update the settings based on the provided JSONB
+    UPDATE public.user_settings SET
+        -- Matching preferences
+        preferred_distance_km = COALESCE(
+            (settings_update->'matching_preferences'->>'preferred_distance_km')::INTEGER,
+            preferred_distance_km
+        ),
+        min_age_preference = COALESCE(
+            (settings_update->'matching_preferences'->>'min_age_preference')::INTEGER,
+            min_age_preference
+        ),
+        max_age_preference = COALESCE(
+            (settings_update->'matching_preferences'->>'max_age_preference')::INTEGER,
+            max_age_preference
+        ),
+        gender_preference = COALESCE(
+            settings_update->'matching_preferences'->>'gender_preference',
+            gender_preference
+        ),
+        min_height_preference = CASE
+            WHEN settings_update->'matching_preferences' ? 'min_height_preference' THEN
+                (settings_update->'matching_preferences'->>'min_height_preference')::INTEGER
+            ELSE min_height_preference
+        END,
+        max_height_preference = CASE
+            WHEN settings_update->'matching_preferences' ? 'max_height_preference' THEN
+                (settings_update->'matching_preferences'->>'max_height_preference')::INTEGER
+            ELSE max_height_preference
+        END,
+        zodiac_compatibility_required = COALESCE(
+            (settings_update->'matching_preferences'->>'zodiac_compatibility_required')::BOOLEAN,
+            zodiac_compatibility_required
+        ),
+        children_preference = CASE
+            WHEN settings_update->'matching_preferences' ? 'children_preference' THEN
+                CASE
+                    WHEN jsonb_typeof(settings_update->'matching_preferences'->'children_preference') = 'array' THEN
+                        ARRAY(SELECT jsonb_array_elements_text(settings_update->'matching_preferences'->'children_preference'))
+                    ELSE NULL
+                END
+            ELSE children_preference
+        END,
+        -- Per-filter strictness (merge, so a single filter can be changed)
+        filter_strictness = filter_strictness || COALESCE(settings_update->'matching_preferences'->'filter_strictness', '{}'::JSONB),
+        
+        -- Privacy settings
+        read_receipts_enabled = COALESCE(
+            (settings_update->'privacy_settings'->>'read_receipts_enabled')::BOOLEAN,
+            read_receipts_enabled
+        ),
+        profile_visibility_public = COALESCE(
+            (settings_update->'privacy_settings'->>'profile_visibility_public')::BOOLEAN,
+            profile_visibility_public
+        ),
+        show_distance_on_profile = COALESCE(
+            (settings_update->'privacy_settings'->>'show_distance_on_profile')::BOOLEAN,
+            show_distance_on_profile
+        ),
+        show_age_on_profile = COALESCE(
+            (settings_update->'privacy_settings'->>'show_age_on_profile')::BOOLEAN,
+            show_age_on_profile
+        ),
+        show_height_on_profile = COALESCE(
+            (settings_update->'privacy_settings'->>'show_height_on_profile')::BOOLEAN,
+            show_height_on_profile
+        ),
+        data_sharing_enabled = COALESCE(
+            (settings_update->'privacy_settings'->>'data_sharing_enabled')::BOOLEAN,
+            data_sharing_enabled
+        ),
+        
+        -- Notification settings
+        message_notifications_enabled = COALESCE(
+            (settings_update->'notification_settings'->>'message_notifications_enabled')::BOOLEAN,
+            message_notifications_enabled
+        ),
+        message_notifications_push = COALESCE(
+            (settings_update->'notification_settings'->>'message_notifications_push')::BOOLEAN,
+            message_notifications_push
+        ),
+        match_notifications_enabled = COALESCE(
+            (settings_update->'notification_settings'->>'match_notifications_enabled')::BOOLEAN,
+            match_notifications_enabled
+        ),
+        do_not_disturb_enabled = COALESCE(
+            (settings_update->'notification_settings'->>'do_not_disturb_enabled')::BOOLEAN,
+            do_not_disturb_enabled
+        ),
+        
+        -- Discovery settings  
+        discovery_enabled = COALESCE(
+            (settings_update->'discovery_settings'->>'discovery_enabled')::BOOLEAN,
+            discovery_enabled
+        ),
+        boost_profile = COALESCE(
+            (settings_update->'discovery_settings'->>'boost_profile')::BOOLEAN,
+            boost_profile
+        ),
+        incognito_mode = COALESCE(
+            (settings_update->'discovery_settings'->>'incognito_mode')::BOOLEAN,
+            incognito_mode
+        ),
+        
+        -- Advanced preferences (merge JSONB)
+        advanced_preferences = advanced_preferences || COALESCE(settings_update->'advanced_preferences', '{}'::JSONB)
+        
+    WHERE user_id = target_user_id;
+    
+    -- Return the updated settings
+    RETURN get_user_settings(target_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- 3. UPDATE get_potential_matches_optimized
+-- =====================================================
+-- Same filters as 20251102000000_super_like_swipes, with age, distance,
+-- viewer-side gender and children filters following filter_strictness and a
+-- preference_misses output.
+
+DROP FUNCTION IF EXISTS public.get_potential_matches_optimized(UUID, UUID[], TEXT, INTEGER, INTEGER, INTEGER, TEXT, INTEGER, INTEGER) CASCADE;
+
+CREATE OR REPLACE FUNCTION public.get_potential_matches_optimized(
+    viewer_id UUID,
+    exclude_user_ids UUID[] DEFAULT ARRAY[]::UUID[],
+    zodiac_filter TEXT DEFAULT NULL,
+    min_age_filter INTEGER DEFAULT NULL,
+    max_age_filter INTEGER DEFAULT NULL,
+    max_distance_km INTEGER DEFAULT NULL,
+    activity_filter TEXT DEFAULT NULL,  -- CRITICAL: Activity type filtering (main app feature)
+    limit_count INTEGER DEFAULT 10,
+    offset_count INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    display_name TEXT,
+    avatar_url TEXT,
+    gender TEXT,
+    age INTEGER,
+    zodiac_sign TEXT,
+    interests TEXT[],
+    education_level TEXT,
+    bio TEXT,
+    compatibility_score INTEGER,
+    distance_km NUMERIC,
+    traits TEXT[],
+    height INTEGER,
+    lat DECIMAL,
+    lng DECIMAL,
+    last_active TIMESTAMPTZ,
+    premium_user BOOLEAN,
+    profile_image_url TEXT,
+    super_liked_viewer BOOLEAN,
+    super_like_note TEXT,
+    preference_misses TEXT[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_profile RECORD;
+    viewer_user RECORD;
+    viewer_lat NUMERIC;
+    viewer_lng NUMERIC;
+    viewer_strictness JSONB := '{}'::JSONB;
+    viewer_children_pref TEXT[];
+    age_mode TEXT;
+    distance_mode TEXT;
+    gender_mode TEXT;
+    children_mode TEXT;
+BEGIN
+    -- Returns who super liked the viewer (and their notes): own feed only
+    IF auth.uid() IS DISTINCT FROM viewer_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only list matches for yourself' USING ERRCODE = '42501';
+    END IF;
+
+    -- Get viewer profile and user data for bidirectional filtering
+    SELECT * INTO viewer_profile FROM public.profiles WHERE id = viewer_id;
+    SELECT * INTO viewer_user FROM public.users WHERE id = viewer_id;
+
+    -- If viewer data not found, return empty
+    IF viewer_profile IS NULL THEN
+        RETURN;
+    END IF;
+
+    -- Get viewer coordinates for distance calculation
+    viewer_lat := COALESCE(viewer_profile.current_city_lat, viewer_user.birth_lat);
+    viewer_lng := COALESCE(viewer_profile.current_city_lng, viewer_user.birth_lng);
+
+    -- Dealbreaker vs preference mode per filter (missing = dealbreaker)
+    SELECT COALESCE(us.filter_strictness, '{}'::JSONB), us.children_preference
+    INTO viewer_strictness, viewer_children_pref
+    FROM public.user_settings us
+    WHERE us.user_id = viewer_id;
+
+    age_mode := COALESCE(viewer_strictness->>'age', 'dealbreaker');
+    distance_mode := COALESCE(viewer_strictness->>'distance', 'dealbreaker');
+    gender_mode := COALESCE(viewer_strictness->>'gender', 'dealbreaker');
+    children_mode := COALESCE(viewer_strictness->>'children', 'dealbreaker');
+
+    -- Return filtered potential matches with comprehensive exclusions
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.display_name,
+        p.avatar_url,
+        p.gender,
+        p.age,
+        p.zodiac_sign,
+        COALESCE(p.interests, ARRAY[]::TEXT[]) as interests,
+        p.education_level,
+        COALESCE(p.bio, '') as bio,
+        -- Get compatibility score from cache if available, otherwise default to 50
+        COALESCE(
+            (SELECT compatibility_score::INTEGER
+             FROM public.compatibility_scores
+             WHERE (user_id = viewer_id AND potential_match_id = p.id)
+                OR (user_id = p.id AND potential_match_id = viewer_id)
+             ORDER BY calculated_at DESC
+             LIMIT 1),
+            50
+        ) as compatibility_score,
+        ROUND(d.km::NUMERIC, 1) as distance_km,
+        COALESCE(p.traits, ARRAY[]::TEXT[]) as traits,
+        p.height,
+        COALESCE(p.current_city_lat, u.birth_lat)::DECIMAL as lat,
+        COALESCE(p.current_city_lng, u.birth_lng)::DECIMAL as lng,
+        p.updated_at as last_active,
+        COALESCE(u.subscription_status = 'active', false) as premium_user,
+        p.avatar_url as profile_image_url,
+        (sl.id IS NOT NULL) as super_liked_viewer,
+        sl.super_like_note,
+        -- Preference-mode filters this candidate misses (down-ranked, not excluded)
+        array_remove(ARRAY[
+            CASE WHEN miss.age THEN 'age' END,
+            CASE WHEN miss.distance THEN 'distance' END,
+            CASE WHEN miss.gender THEN 'gender' END,
+            CASE WHEN miss.children THEN 'children' END
+        ], NULL) as preference_misses
+    FROM public.profiles p
+    JOIN public.users u ON u.id = p.id
+    LEFT JOIN public.swipe_exclusion_cache sec ON sec.swiper_id = viewer_id
+    -- SUPER LIKES RECEIVED: candidate super liked the viewer
+    LEFT JOIN public.swipes sl
+        ON sl.swiper_id = p.id
+       AND sl.swiped_id = viewer_id
+       AND sl.swipe_type = 'super_like'
+    -- Calculate distance using Haversine formula (km, NULL without coordinates)
+    CROSS JOIN LATERAL (
+        SELECT CASE
+            WHEN viewer_lat IS NOT NULL
+                AND viewer_lng IS NOT NULL
+                AND COALESCE(p.current_city_lat, u.birth_lat) IS NOT NULL
+                AND COALESCE(p.current_city_lng, u.birth_lng) IS NOT NULL
+            THEN
+                6371 * acos(
+                    LEAST(1.0, GREATEST(-1.0,
+                        cos(radians(viewer_lat)) *
+                        cos(radians(COALESCE(p.current_city_lat, u.birth_lat))) *
+                        cos(radians(COALESCE(p.current_city_lng, u.birth_lng)) - radians(viewer_lng)) +
+                        sin(radians(viewer_lat)) *
+                        sin(radians(COALESCE(p.current_city_lat, u.birth_lat)))
+                    ))
+                )
+            ELSE NULL
+        END AS km
+    ) d
+    -- Which of the viewer's strictness-aware filters the candidate misses.
+    -- Unknown candidate data (no age, no coordinates...) never counts as a miss.
+    CROSS JOIN LATERAL (
+        SELECT
+            (p.age IS NOT NULL AND (
+                (min_age_filter IS NOT NULL AND p.age < min_age_filter)
+                OR (max_age_filter IS NOT NULL AND p.age > max_age_filter)
+            )) AS age,
+            (max_distance_km IS NOT NULL AND d.km IS NOT NULL AND d.km > max_distance_km) AS distance,
+            (
+                viewer_user.looking_for IS NOT NULL
+                AND array_length(viewer_user.looking_for, 1) IS NOT NULL
+                AND p.gender IS NOT NULL
+                AND NOT (
+                    CASE p.gender
+                        WHEN 'Male' THEN 'Males'
+                        WHEN 'Female' THEN 'Females'
+                        WHEN 'Non-binary' THEN 'Non-Binary'
+                        WHEN 'Other' THEN 'Non-Binary'
+                        ELSE 'Non-Binary'
+                    END = ANY(viewer_user.looking_for)
+                )
+                AND NOT ('Both' = ANY(viewer_user.looking_for))
+                AND NOT ('Everyone' = ANY(viewer_user.looking_for))
+            ) AS gender,
+            (
+                array_length(viewer_children_pref, 1) IS NOT NULL
+                AND u.wants_kids IS NOT NULL
+                AND NOT (u.wants_kids = ANY(viewer_children_pref))
+            ) AS children
+    ) miss
+    WHERE
+        -- BASIC EXCLUSIONS
+        -- Exclude self
+        p.id != viewer_id
+
+        -- Exclude explicitly passed user IDs
+        AND (
+            array_length(exclude_user_ids, 1) IS NULL
+            OR NOT (p.id = ANY(exclude_user_ids))
+        )
+
+        -- Only show users who completed onboarding
+        AND p.onboarding_completed = true
+
+        -- SWIPE EXCLUSIONS
+        -- Exclude already-swiped users (prevents re-showing swiped profiles)
+        AND (
+            sec.swiped_user_ids IS NULL
+            OR NOT (p.id = ANY(sec.swiped_user_ids))
+            -- The cache lags behind rewinds: a rewound swipe with no newer
+            -- swipe no longer excludes the candidate
+            OR (
+                EXISTS (
+                    SELECT 1 FROM public.swipe_rewinds sr
+                    WHERE sr.user_id = viewer_id
+                      AND sr.swiped_id = p.id
+                )
+                AND NOT EXISTS (
+                    SELECT 1 FROM public.swipes s
+                    WHERE s.swiper_id = viewer_id
+                      AND s.swiped_id = p.id
+                )
+            )
+        )
+
+        -- MATCH REQUESTS EXCLUSIONS (CRITICAL - prevents duplicate invites)
+        -- Exclude users with pending match requests (sent by viewer)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = viewer_id
+              AND mr.matched_user_id = p.id
+              AND mr.status IN ('pending', 'confirmed')
+        )
+
+        -- Exclude users who sent match requests to viewer (pending)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = p.id
+              AND mr.matched_user_id = viewer_id
+              AND mr.status = 'pending'
+        )
+
+        -- Exclude users who declined viewer's match request
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = viewer_id
+              AND mr.matched_user_id = p.id
+              AND mr.status = 'rejected'
+        )
+
+        -- Exclude users whose match request viewer declined
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = p.id
+              AND mr.matched_user_id = viewer_id
+              AND mr.status = 'rejected'
+        )
+
+        -- ALREADY MATCHED EXCLUSIONS
+        -- Exclude users already matched (bidirectional check)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.matches m
+            WHERE (m.user1_id = viewer_id AND m.user2_id = p.id)
+               OR (m.user1_id = p.id AND m.user2_id = viewer_id)
+        )
+
+        -- BLOCKS EXCLUSIONS
+        -- Exclude blocked users (bidirectional)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.user_blocks b
+            WHERE (b.blocking_user_id = viewer_id AND b.blocked_user_id = p.id)
+               OR (b.blocking_user_id = p.id AND b.blocked_user_id = viewer_id)
+        )
+
+        -- STRICTNESS-AWARE FILTERS (age, distance, gender, children)
+        -- Dealbreakers exclude. Preference misses are never excluded; they
+        -- only down-rank via preference_misses.
+        AND NOT (miss.age AND age_mode = 'dealbreaker')
+        AND NOT (miss.distance AND distance_mode = 'dealbreaker')
+        AND NOT (miss.gender AND gender_mode = 'dealbreaker')
+        AND NOT (miss.children AND children_mode = 'dealbreaker')
+
+        -- ZODIAC FILTER (with "Any Sign" support)
+        AND (
+            zodiac_filter IS NULL
+            OR zodiac_filter = ''
+            OR LOWER(zodiac_filter) = 'any'
+            OR LOWER(zodiac_filter) = 'all'
+            OR p.zodiac_sign = zodiac_filter
+            OR LOWER(p.zodiac_sign) = LOWER(zodiac_filter)
+        )
+
+        -- BIDIRECTIONAL GENDER/SEXUALITY PREFERENCE FILTERING
+        -- Viewer's preference is strictness-aware (see above); the target's
+        -- preference is always respected
+        -- Target's preference: Check if target wants viewer's gender
+        AND (
+            u.looking_for IS NULL
+            OR array_length(u.looking_for, 1) IS NULL
+            OR viewer_profile.gender IS NULL
+            OR (
+                CASE viewer_profile.gender
+                    WHEN 'Male' THEN 'Males'
+                    WHEN 'Female' THEN 'Females'
+                    WHEN 'Non-binary' THEN 'Non-Binary'
+                    WHEN 'Other' THEN 'Non-Binary'
+                    ELSE 'Non-Binary'
+                END = ANY(u.looking_for)
+            )
+            OR 'Both' = ANY(u.looking_for)
+            OR 'Everyone' = ANY(u.looking_for)
+        )
+
+        -- ACTIVITY TYPE FILTERING (with "Any Date" support)
+        -- Main app feature: filter by preferred date activity
+        AND (
+            activity_filter IS NULL
+            OR activity_filter = ''
+            OR LOWER(activity_filter) = 'any'
+            OR LOWER(activity_filter) = 'all'
+            OR LOWER(activity_filter) = 'any date'
+            OR (
+                -- Check if user has this activity in their preferences
+                u.activity_preferences IS NOT NULL
+                AND u.activity_preferences::jsonb ? activity_filter
+            )
+            OR (
+                -- Also check profile-level activity preferences if they exist
+                p.activity_preferences IS NOT NULL
+                AND p.activity_preferences::jsonb ? activity_filter
+            )
+        )
+
+        -- DATA COMPLETENESS CHECK
+        -- Only show users with complete compatibility data
+        AND u.natal_chart_data IS NOT NULL
+        AND u.questionnaire_responses IS NOT NULL
+        AND jsonb_typeof(u.questionnaire_responses) = 'array'
+        AND jsonb_array_length(u.questionnaire_responses) > 0
+
+    -- ORDERING
+    ORDER BY
+        -- Surface candidates who super liked the viewer first
+        (sl.id IS NOT NULL) DESC,
+        -- Then prioritize premium users
+        COALESCE(u.subscription_status = 'active', false) DESC,
+        -- Then candidates missing fewer preference-mode filters
+        ((miss.age AND age_mode = 'preference')::INT
+         + (miss.distance AND distance_mode = 'preference')::INT
+         + (miss.gender AND gender_mode = 'preference')::INT
+         + (miss.children AND children_mode = 'preference')::INT) ASC,
+        -- Then by compatibility score (highest first)
+        COALESCE(
+            (SELECT compatibility_score
+             FROM public.compatibility_scores
+             WHERE (user_id = viewer_id AND potential_match_id = p.id)
+                OR (user_id = p.id AND potential_match_id = viewer_id)
+             ORDER BY calculated_at DESC
+             LIMIT 1),
+            50
+        ) DESC,
+        -- Then by distance (closest first, users without coordinates last)
+        COALESCE(d.km, 999999) ASC,
+        -- Finally by recency
+        p.updated_at DESC
+    LIMIT limit_count
+    OFFSET offset_count;
+
+EXCEPTION
+    WHEN insufficient_privilege THEN
+        RAISE;
+    WHEN OTHERS THEN
+        -- Log error and return empty result rather than failing
+        RAISE WARNING 'Error in get_potential_matches_optimized: % (SQLSTATE: %)', SQLERRM, SQLSTATE;
+        RETURN;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_potential_matches_optimized FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_potential_matches_optimized TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_potential_matches_optimized TO service_role;
+
+COMMENT ON FUNCTION public.get_potential_matches_optimized IS
+'Unified matching function (see 20251022120000_unified_matching_filters_production_ready).
+Ranks candidates who super liked the viewer first and returns super_liked_viewer / super_like_note.
+Age, distance, gender and children filters follow user_settings.filter_strictness: dealbreakers
+exclude, preferences only down-rank (reported in preference_misses).
+Version: 1.2.0 (dealbreaker vs preference filters)
+Date: 2025-11-08';
+
+-- =====================================================
+-- 4. VALIDATION & MIGRATION CONFIRMATION
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Dealbreaker vs Preference Filters Migration Complete';
+    RAISE NOTICE '  - user_settings.filter_strictness / children_preference';
+    RAISE NOTICE '  - get_potential_matches_optimized(): preference filters down-rank';
+END $$;
+
+COMMIT;
@@ -0,0 +1,861 @@
+-- =====================================================
+-- SWIPE FRAUD & BOT DETECTION
+-- =====================================================
+-- Behavioural detector run by record-swipe after every swipe. Complements
+-- check_swipe_rate_limit (volume only) with:
+--   - all_right_swipes:          near-100% right-swipe ratio over a meaningful sample
+--   - inhuman_timing:            median gap between swipes faster than a person can read a card
+--   - robotic_cadence:           near-constant gaps between swipes
+--   - shared_device_fingerprint: same device (network + user agent, derived
+--                                server-side) used by several accounts
+-- Flagged accounts are recorded in swipe_fraud_flags, surfaced through
+-- get_user_risk_assessment, and shadow-deprioritised in other users' decks
+-- (get_potential_matches_optimized / get_mutual_fit_signals).
+-- Date: 2025-11-09
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. DEVICE FINGERPRINTS & FRAUD FLAGS
+-- =====================================================
+
+-- Hashed device fingerprints seen on swipes. record-swipe derives them from
+-- the request (client IP + user agent), never from client-supplied values
+CREATE TABLE IF NOT EXISTS public.swipe_device_fingerprints (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    fingerprint_hash TEXT NOT NULL CHECK (fingerprint_hash ~ '^[0-9a-f]{64}$'),
+    swipe_count INTEGER NOT NULL DEFAULT 1,
+    first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, fingerprint_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_swipe_device_fingerprints_hash
+    ON public.swipe_device_fingerprints(fingerprint_hash, last_seen_at DESC);
+
+ALTER TABLE public.swipe_device_fingerprints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage swipe device fingerprints" ON public.swipe_device_fingerprints
+    FOR ALL USING ((SELECT auth.role()) = 'service_role');
+
+CREATE TABLE IF NOT EXISTS public.swipe_fraud_flags (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    risk_score INTEGER NOT NULL CHECK (risk_score >= 0 AND risk_score <= 100),
+    signals TEXT[] NOT NULL DEFAULT '{}',
+    details JSONB NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'flagged' CHECK (status IN ('flagged', 'cleared')),
+    -- While true the account is ranked last in other users' decks
+    deprioritized BOOLEAN NOT NULL DEFAULT true,
+    flagged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    reviewed_at TIMESTAMPTZ,
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_swipe_fraud_flags_deprioritized
+    ON public.swipe_fraud_flags(user_id)
+    WHERE deprioritized = true;
+
+COMMENT ON TABLE public.swipe_fraud_flags IS 'Accounts flagged by the record-swipe behavioural detector. Never exposed to the flagged user.';
+
+ALTER TABLE public.swipe_fraud_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can review swipe fraud flags" ON public.swipe_fraud_flags
+    FOR SELECT TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = (SELECT auth.uid())
+            AND profiles.is_admin = true
+        )
+    );
+
+CREATE POLICY "Admins can clear swipe fraud flags" ON public.swipe_fraud_flags
+    FOR UPDATE TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = (SELECT auth.uid())
+            AND profiles.is_admin = true
+        )
+    );
+
+CREATE POLICY "Service role can manage swipe fraud flags" ON public.swipe_fraud_flags
+    FOR ALL USING ((SELECT auth.role()) = 'service_role');
+
+-- =====================================================
+-- 2. BEHAVIOURAL EVALUATION
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.evaluate_swipe_behavior(
+    p_user_id UUID,
+    p_fingerprint_hash TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    -- Minimum sample sizes before a signal can fire
+    c_ratio_min_swipes CONSTANT INTEGER := 40;
+    c_timing_min_swipes CONSTANT INTEGER := 20;
+    -- Thresholds
+    c_right_swipe_ratio CONSTANT NUMERIC := 0.98;
+    c_min_human_gap_ms CONSTANT NUMERIC := 800;
+    c_robotic_cv CONSTANT NUMERIC := 0.15;
+    c_shared_device_accounts CONSTANT INTEGER := 3;
+    c_flag_threshold CONSTANT INTEGER := 60;
+
+    v_swipes_24h INTEGER;
+    v_right_swipes_24h INTEGER;
+    v_right_ratio NUMERIC;
+    v_gap_count INTEGER;
+    v_median_gap_ms NUMERIC;
+    v_gap_cv NUMERIC;
+    v_shared_accounts INTEGER := 0;
+    v_signals TEXT[] := '{}';
+    v_score INTEGER := 0;
+    v_existing RECORD;
+    v_evidence_since TIMESTAMPTZ;
+    v_flagged BOOLEAN := false;
+    v_newly_flagged BOOLEAN := false;
+    v_details JSONB;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only evaluate your own swipes' USING ERRCODE = '42501';
+    END IF;
+
+    -- After an admin clears a flag, only evidence gathered since the review
+    -- counts, so the account is re-flagged on new behaviour but not on what
+    -- was already cleared
+    SELECT * INTO v_existing FROM public.swipe_fraud_flags WHERE user_id = p_user_id;
+    IF v_existing IS NOT NULL AND v_existing.status = 'cleared' THEN
+        v_evidence_since := COALESCE(v_existing.reviewed_at, v_existing.updated_at);
+    END IF;
+
+    -- Record the device fingerprint for cross-account checks
+    IF p_fingerprint_hash IS NOT NULL THEN
+        INSERT INTO public.swipe_device_fingerprints (user_id, fingerprint_hash)
+        VALUES (p_user_id, p_fingerprint_hash)
+        ON CONFLICT (user_id, fingerprint_hash) DO UPDATE
+            SET swipe_count = swipe_device_fingerprints.swipe_count + 1,
+                last_seen_at = NOW();
+
+        SELECT COUNT(DISTINCT sdf.user_id)::INTEGER INTO v_shared_accounts
+        FROM public.swipe_device_fingerprints sdf
+        WHERE sdf.fingerprint_hash = p_fingerprint_hash
+          AND sdf.last_seen_at >= GREATEST(NOW() - INTERVAL '30 days', v_evidence_since);
+    END IF;
+
+    -- Right-swipe ratio over the last 24 hours
+    SELECT
+        COUNT(*)::INTEGER,
+        COUNT(*) FILTER (WHERE s.swipe_type IN ('like', 'super_like'))::INTEGER
+    INTO v_swipes_24h, v_right_swipes_24h
+    FROM public.swipes s
+    WHERE s.swiper_id = p_user_id
+      AND s.created_at >= GREATEST(NOW() - INTERVAL '24 hours', v_evidence_since);
+
+    v_right_ratio := v_right_swipes_24h::NUMERIC / NULLIF(v_swipes_24h, 0);
+
+    -- Inter-swipe timing over the most recent 50 swipes
+    WITH recent AS (
+        SELECT s.created_at
+        FROM public.swipes s
+        WHERE s.swiper_id = p_user_id
+          AND (v_evidence_since IS NULL OR s.created_at >= v_evidence_since)
+        ORDER BY s.created_at DESC
+        LIMIT 50
+    ),
+    gaps AS (
+        SELECT EXTRACT(EPOCH FROM (lag(r.created_at) OVER (ORDER BY r.created_at DESC) - r.created_at)) * 1000 AS gap_ms
+        FROM recent r
+    )
+    SELECT
+        COUNT(g.gap_ms)::INTEGER,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY g.gap_ms),
+        stddev_samp(g.gap_ms) / NULLIF(avg(g.gap_ms), 0)
+    INTO v_gap_count, v_median_gap_ms, v_gap_cv
+    FROM gaps g
+    WHERE g.gap_ms IS NOT NULL;
+
+    IF v_swipes_24h >= c_ratio_min_swipes AND v_right_ratio >= c_right_swipe_ratio THEN
+        v_signals := array_append(v_signals, 'all_right_swipes');
+        v_score := v_score + 35;
+    END IF;
+
+    IF v_gap_count >= c_timing_min_swipes AND v_median_gap_ms < c_min_human_gap_ms THEN
+        v_signals := array_append(v_signals, 'inhuman_timing');
+        v_score := v_score + 40;
+    END IF;
+
+    IF v_gap_count >= c_timing_min_swipes AND v_gap_cv IS NOT NULL AND v_gap_cv < c_robotic_cv THEN
+        v_signals := array_append(v_signals, 'robotic_cadence');
+        v_score := v_score + 25;
+    END IF;
+
+    -- A shared network + user agent is common (households, offices, carrier
+    -- NAT), so it only corroborates: added to the like ratio or to either
+    -- timing signal alone it stays below the flag threshold
+    IF v_shared_accounts >= c_shared_device_accounts THEN
+        v_signals := array_append(v_signals, 'shared_device_fingerprint');
+        v_score := v_score + 15;
+    END IF;
+
+    v_score := LEAST(v_score, 100);
+
+    v_details := jsonb_build_object(
+        'swipes_24h', v_swipes_24h,
+        'right_swipe_ratio', ROUND(COALESCE(v_right_ratio, 0), 3),
+        'median_gap_ms', ROUND(COALESCE(v_median_gap_ms, 0)::NUMERIC, 0),
+        'gap_variation', ROUND(COALESCE(v_gap_cv, 0)::NUMERIC, 3),
+        'accounts_on_device', v_shared_accounts
+    );
+
+    IF v_score >= c_flag_threshold THEN
+        v_newly_flagged := v_existing IS NULL OR v_existing.status = 'cleared';
+
+        INSERT INTO public.swipe_fraud_flags (user_id, risk_score, signals, details)
+        VALUES (p_user_id, v_score, v_signals, v_details)
+        ON CONFLICT (user_id) DO UPDATE
+            SET risk_score = GREATEST(
+                    CASE WHEN swipe_fraud_flags.status = 'flagged' THEN swipe_fraud_flags.risk_score ELSE 0 END,
+                    EXCLUDED.risk_score
+                ),
+                signals = EXCLUDED.signals,
+                details = EXCLUDED.details,
+                status = 'flagged',
+                deprioritized = true,
+                flagged_at = CASE WHEN swipe_fraud_flags.status = 'flagged' THEN swipe_fraud_flags.flagged_at ELSE NOW() END,
+                updated_at = NOW();
+
+        v_flagged := true;
+    ELSE
+        v_flagged := v_existing IS NOT NULL AND v_existing.status = 'flagged';
+    END IF;
+
+    RETURN jsonb_build_object(
+        'risk_score', v_score,
+        'signals', to_jsonb(v_signals),
+        'flagged', v_flagged,
+        'newly_flagged', v_newly_flagged,
+        'details', v_details
+    );
+END;
+$$;
+
+-- Only record-swipe (service role) runs the detector, with its own fingerprint
+REVOKE ALL ON FUNCTION public.evaluate_swipe_behavior(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.evaluate_swipe_behavior(UUID, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.evaluate_swipe_behavior(UUID, TEXT) IS 'Behavioural swipe fraud / bot detector run after each swipe. Records the device fingerprint, scores the signals and flags the account at 60+.';
+
+-- =====================================================
+-- 3. RISK ASSESSMENT
+-- =====================================================
+-- Same as 20250729130000_security_monitoring_schema, plus the swipe fraud
+-- flag. Restricted to admins and the service role now that it carries it.
+
+CREATE OR REPLACE FUNCTION get_user_risk_assessment(target_user_id UUID)
+RETURNS JSON AS $$
+DECLARE
+    result JSON;
+BEGIN
+    IF auth.role() != 'service_role'
+       AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = true) THEN
+        RAISE EXCEPTION 'Unauthorized: Risk assessments are admin only' USING ERRCODE = '42501';
+    END IF;
+
+    WITH user_events AS (
+        SELECT * FROM security_events 
+        WHERE user_id = target_user_id 
+        AND timestamp > NOW() - INTERVAL '7 days'
+    ),
+    risk_summary AS (
+        SELECT 
+            COUNT(*) as total_events,
+            AVG(threat_score)::DECIMAL(5,2) as avg_threat_score,
+            MAX(threat_score) as max_threat_score,
+            COUNT(*) FILTER (WHERE severity IN ('high', 'critical')) as high_risk_events,
+            COUNT(*) FILTER (WHERE blocked = true) as blocked_events,
+            COUNT(DISTINCT ip_address) as unique_ips,
+            COUNT(DISTINCT DATE(timestamp)) as active_days
+        FROM user_events
+    ),
+    recent_behavior AS (
+        SELECT * FROM user_behavior_analytics 
+        WHERE user_id = target_user_id 
+        ORDER BY date DESC 
+        LIMIT 7
+    ),
+    swipe_fraud AS (
+        SELECT risk_score, signals, details, status, deprioritized, flagged_at, reviewed_at
+        FROM public.swipe_fraud_flags
+        WHERE user_id = target_user_id
+    )
+    SELECT json_build_object(
+        'user_id', target_user_id,
+        'risk_summary', (SELECT row_to_json(risk_summary) FROM risk_summary),
+        'recent_behavior', (SELECT json_agg(row_to_json(recent_behavior)) FROM recent_behavior),
+        'swipe_fraud', (SELECT row_to_json(swipe_fraud) FROM swipe_fraud),
+        'assessment_date', NOW()
+    ) INTO result;
+    
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+REVOKE EXECUTE ON FUNCTION get_user_risk_assessment(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_user_risk_assessment(UUID) TO authenticated, service_role;
+
+-- =====================================================
+-- 4. SHADOW DEPRIORITISATION IN DECKS
+-- =====================================================
+-- get_potential_matches_optimized (20251108000000) ranks flagged accounts
+-- after everyone else; get_mutual_fit_signals (20251107000000) reports it so
+-- the deck re-rank keeps them last. Neither exposes the flag as a column the
+-- client sees.
+
+DROP FUNCTION IF EXISTS public.get_potential_matches_optimized(UUID, UUID[], TEXT, INTEGER, INTEGER, INTEGER, TEXT, INTEGER, INTEGER) CASCADE;
+
+CREATE OR REPLACE FUNCTION public.get_potential_matches_optimized(
+    viewer_id UUID,
+    exclude_user_ids UUID[] DEFAULT ARRAY[]::UUID[],
+    zodiac_filter TEXT DEFAULT NULL,
+    min_age_filter INTEGER DEFAULT NULL,
+    max_age_filter INTEGER DEFAULT NULL,
+    max_distance_km INTEGER DEFAULT NULL,
+    activity_filter TEXT DEFAULT NULL,  -- CRITICAL: Activity type filtering (main app feature)
+    limit_count INTEGER DEFAULT 10,
+    offset_count INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    display_name TEXT,
+    avatar_url TEXT,
+    gender TEXT,
+    age INTEGER,
+    zodiac_sign TEXT,
+    interests TEXT[],
+    education_level TEXT,
+    bio TEXT,
+    compatibility_score INTEGER,
+    distance_km NUMERIC,
+    traits TEXT[],
+    height INTEGER,
+    lat DECIMAL,
+    lng DECIMAL,
+    last_active TIMESTAMPTZ,
+    premium_user BOOLEAN,
+    profile_image_url TEXT,
+    super_liked_viewer BOOLEAN,
+    super_like_note TEXT,
+    preference_misses TEXT[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    viewer_profile RECORD;
+    viewer_user RECORD;
+    viewer_lat NUMERIC;
+    viewer_lng NUMERIC;
+    viewer_strictness JSONB := '{}'::JSONB;
+    viewer_children_pref TEXT[];
+    age_mode TEXT;
+    distance_mode TEXT;
+    gender_mode TEXT;
+    children_mode TEXT;
+BEGIN
+    -- Returns who super liked the viewer (and their notes): own feed only
+    IF auth.uid() IS DISTINCT FROM viewer_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only list matches for yourself' USING ERRCODE = '42501';
+    END IF;
+
+    -- Get viewer profile and user data for bidirectional filtering
+    SELECT * INTO viewer_profile FROM public.profiles WHERE id = viewer_id;
+    SELECT * INTO viewer_user FROM public.users WHERE id = viewer_id;
+
+    -- If viewer data not found, return empty
+    IF viewer_profile IS NULL THEN
+        RETURN;
+    END IF;
+
+    -- Get viewer coordinates for distance calculation
+    viewer_lat := COALESCE(viewer_profile.current_city_lat, viewer_user.birth_lat);
+    viewer_lng := COALESCE(viewer_profile.current_city_lng, viewer_user.birth_lng);
+
+    -- Dealbreaker vs preference mode per filter (missing = dealbreaker)
+    SELECT COALESCE(us.filter_strictness, '{}'::JSONB), us.children_preference
+    INTO viewer_strictness, viewer_children_pref
+    FROM public.user_settings us
+    WHERE us.user_id = viewer_id;
+
+    age_mode := COALESCE(viewer_strictness->>'age', 'dealbreaker');
+    distance_mode := COALESCE(viewer_strictness->>'distance', 'dealbreaker');
+    gender_mode := COALESCE(viewer_strictness->>'gender', 'dealbreaker');
+    children_mode := COALESCE(viewer_strictness->>'children', 'dealbreaker');
+
+    -- Return filtered potential matches with comprehensive exclusions
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.display_name,
+        p.avatar_url,
+        p.gender,
+        p.age,
+        p.zodiac_sign,
+        COALESCE(p.interests, ARRAY[]::TEXT[]) as interests,
+        p.education_level,
+        COALESCE(p.bio, '') as bio,
+        -- Get compatibility score from cache if available, otherwise default to 50
+        COALESCE(
+            (SELECT compatibility_score::INTEGER
+             FROM public.compatibility_scores
+             WHERE (user_id = viewer_id AND potential_match_id = p.id)
+                OR (user_id = p.id AND potential_match_id = viewer_id)
+             ORDER BY calculated_at DESC
+             LIMIT 1),
+            50
+        ) as compatibility_score,
+        ROUND(d.km::NUMERIC, 1) as distance_km,
+        COALESCE(p.traits, ARRAY[]::TEXT[]) as traits,
+        p.height,
+        COALESCE(p.current_city_lat, u.birth_lat)::DECIMAL as lat,
+        COALESCE(p.current_city_lng, u.birth_lng)::DECIMAL as lng,
+        p.updated_at as last_active,
+        COALESCE(u.subscription_status = 'active', false) as premium_user,
+        p.avatar_url as profile_image_url,
+        (sl.id IS NOT NULL) as super_liked_viewer,
+        sl.super_like_note,
+        -- Preference-mode filters this candidate misses (down-ranked, not excluded)
+        array_remove(ARRAY[
+            CASE WHEN miss.age THEN 'age' END,
+            CASE WHEN miss.distance THEN 'distance' END,
+            CASE WHEN miss.gender THEN 'gender' END,
+            CASE WHEN miss.children THEN 'children' END
+        ], NULL) as preference_misses
+    FROM public.profiles p
+    JOIN public.users u ON u.id = p.id
+    LEFT JOIN public.swipe_exclusion_cache sec ON sec.swiper_id = viewer_id
+    -- SUPER LIKES RECEIVED: candidate super liked the viewer
+    LEFT JOIN public.swipes sl
+        ON sl.swiper_id = p.id
+       AND sl.swiped_id = viewer_id
+       AND sl.swipe_type = 'super_like'
+    -- SHADOW DEPRIORITISATION: accounts flagged by the swipe fraud detector
+    LEFT JOIN public.swipe_fraud_flags sff
+        ON sff.user_id = p.id
+       AND sff.deprioritized = true
+    -- Calculate distance using Haversine formula (km, NULL without coordinates)
+    CROSS JOIN LATERAL (
+        SELECT CASE
+            WHEN viewer_lat IS NOT NULL
+                AND viewer_lng IS NOT NULL
+                AND COALESCE(p.current_city_lat, u.birth_lat) IS NOT NULL
+                AND COALESCE(p.current_city_lng, u.birth_lng) IS NOT NULL
+            THEN
+                6371 * acos(
+                    LEAST(1.0, GREATEST(-1.0,
+                        cos(radians(viewer_lat)) *
+                        cos(radians(COALESCE(p.current_city_lat, u.birth_lat))) *
+                        cos(radians(COALESCE(p.current_city_lng, u.birth_lng)) - radians(viewer_lng)) +
+                        sin(radians(viewer_lat)) *
+                        sin(radians(COALESCE(p.current_city_lat, u.birth_lat)))
+                    ))
+                )
+            ELSE NULL
+        END AS km
+    ) d
+    -- Which of the viewer's strictness-aware filters the candidate misses.
+    -- Unknown candidate data (no age, no coordinates...) never counts as a miss.
+    CROSS JOIN LATERAL (
+        SELECT
+            (p.age IS NOT NULL AND (
+                (min_age_filter IS NOT NULL AND p.age < min_age_filter)
+                OR (max_age_filter IS NOT NULL AND p.age > max_age_filter)
+            )) AS age,
+            (max_distance_km IS NOT NULL AND d.km IS NOT NULL AND d.km > max_distance_km) AS distance,
+            (
+                viewer_user.looking_for IS NOT NULL
+                AND array_length(viewer_user.looking_for, 1) IS NOT NULL
+                AND p.gender IS NOT NULL
+                AND NOT (
+                    CASE p.gender
+                        WHEN 'Male' THEN 'Males'
+                        WHEN 'Female' THEN 'Females'
+                        WHEN 'Non-binary' THEN 'Non-Binary'
+                        WHEN 'Other' THEN 'Non-Binary'
+                        ELSE 'Non-Binary'
+                    END = ANY(viewer_user.looking_for)
+                )
+                AND NOT ('Both' = ANY(viewer_user.looking_for))
+                AND NOT ('Everyone' = ANY(viewer_user.looking_for))
+            ) AS gender,
+            (
+                array_length(viewer_children_pref, 1) IS NOT NULL
+                AND u.wants_kids IS NOT NULL
+                AND NOT (u.wants_kids = ANY(viewer_children_pref))
+            ) AS children
+    ) miss
+    WHERE
+        -- BASIC EXCLUSIONS
+        -- Exclude self
+        p.id != viewer_id
+
+        -- Exclude explicitly passed user IDs
+        AND (
+            array_length(exclude_user_ids, 1) IS NULL
+            OR NOT (p.id = ANY(exclude_user_ids))
+        )
+
+        -- Only show users who completed onboarding
+        AND p.onboarding_completed = true
+
+        -- SWIPE EXCLUSIONS
+        -- Exclude already-swiped users (prevents re-showing swiped profiles)
+        AND (
+            sec.swiped_user_ids IS NULL
+            OR NOT (p.id = ANY(sec.swiped_user_ids))
+            -- The cache lags behind rewinds: a rewound swipe with no newer
+            -- swipe no longer excludes the candidate
+            OR (
+                EXISTS (
+                    SELECT 1 FROM public.swipe_rewinds sr
+                    WHERE sr.user_id = viewer_id
+                      AND sr.swiped_id = p.id
+                )
+                AND NOT EXISTS (
+                    SELECT 1 FROM public.swipes s
+                    WHERE s.swiper_id = viewer_id
+                      AND s.swiped_id = p.id
+                )
+            )
+        )
+
+        -- MATCH REQUESTS EXCLUSIONS (CRITICAL - prevents duplicate invites)
+        -- Exclude users with pending match requests (sent by viewer)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = viewer_id
+              AND mr.matched_user_id = p.id
+              AND mr.status IN ('pending', 'confirmed')
+        )
+
+        -- Exclude users who sent match requests to viewer (pending)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = p.id
+              AND mr.matched_user_id = viewer_id
+              AND mr.status = 'pending'
+        )
+
+        -- Exclude users who declined viewer's match request
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = viewer_id
+              AND mr.matched_user_id = p.id
+              AND mr.status = 'rejected'
+        )
+
+        -- Exclude users whose match request viewer declined
+        AND NOT EXISTS (
+            SELECT 1 FROM public.match_requests mr
+            WHERE mr.requester_id = p.id
+              AND mr.matched_user_id = viewer_id
+              AND mr.status = 'rejected'
+        )
+
+        -- ALREADY MATCHED EXCLUSIONS
+        -- Exclude users already matched (bidirectional check)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.matches m
+            WHERE (m.user1_id = viewer_id AND m.user2_id = p.id)
+               OR (m.user1_id = p.id AND m.user2_id = viewer_id)
+        )
+
+        -- BLOCKS EXCLUSIONS
+        -- Exclude blocked users (bidirectional)
+        AND NOT EXISTS (
+            SELECT 1 FROM public.user_blocks b
+            WHERE (b.blocking_user_id = viewer_id AND b.blocked_user_id = p.id)
+               OR (b.blocking_user_id = p.id AND b.blocked_user_id = viewer_id)
+        )
+
+        -- STRICTNESS-AWARE FILTERS (age, distance, gender, children)
+        -- Dealbreakers exclude. Preference misses are never excluded; they
+        -- only down-rank via preference_misses.
+        AND NOT (miss.age AND age_mode = 'dealbreaker')
+        AND NOT (miss.distance AND distance_mode = 'dealbreaker')
+        AND NOT (miss.gender AND gender_mode = 'dealbreaker')
+        AND NOT (miss.children AND children_mode = 'dealbreaker')
+
+        -- ZODIAC FILTER (with "Any Sign" support)
+        AND (
+            zodiac_filter IS NULL
+            OR zodiac_filter = ''
+            OR LOWER(zodiac_filter) = 'any'
+            OR LOWER(zodiac_filter) = 'all'
+            OR p.zodiac_sign = zodiac_filter
+            OR LOWER(p.zodiac_sign) = LOWER(zodiac_filter)
+        )
+
+        -- BIDIRECTIONAL GENDER/SEXUALITY PREFERENCE FILTERING
+        -- Viewer's preference is strictness-aware (see above); the target's
+        -- preference is always respected
+        -- Target's preference: Check if target wants viewer's gender
+        AND (
+            u.looking_for IS NULL
+            OR array_length(u.looking_for, 1) IS NULL
+            OR viewer_profile.gender IS NULL
+            OR (
+                CASE viewer_profile.gender
+                    WHEN 'Male' THEN 'Males'
+                    WHEN 'Female' THEN 'Females'
+                    WHEN 'Non-binary' THEN 'Non-Binary'
+                    WHEN 'Other' THEN 'Non-Binary'
+                    ELSE 'Non-Binary'
+                END = ANY(u.looking_for)
+            )
+            OR 'Both' = ANY(u.looking_for)
+            OR 'Everyone' = ANY(u.looking_for)
+        )
+
+        -- ACTIVITY TYPE FILTERING (with "Any Date" support)
+        -- Main app feature: filter by preferred date activity
+        AND (
+            activity_filter IS NULL
+            OR activity_filter = ''
+            OR LOWER(activity_filter) = 'any'
+            OR LOWER(activity_filter) = 'all'
+            OR LOWER(activity_filter) = 'any date'
+            OR (
+                -- Check if user has this activity in their preferences
+                u.activity_preferences IS NOT NULL
+                AND u.activity_preferences::jsonb ? activity_filter
+            )
+            OR (
+                -- Also check profile-level activity preferences if they exist
+                p.activity_preferences IS NOT NULL
+                AND p.activity_preferences::jsonb ? activity_filter
+            )
+        )
+
+        -- DATA COMPLETENESS CHECK
+        -- Only show users with complete compatibility data
+        AND u.natal_chart_data IS NOT NULL
+        AND u.questionnaire_responses IS NOT NULL
+        AND jsonb_typeof(u.questionnaire_responses) = 'array'
+        AND jsonb_array_length(u.questionnaire_responses) > 0
+
+    -- ORDERING
+    ORDER BY
+        -- Flagged accounts go last, whatever else they have going for them
+        (sff.user_id IS NOT NULL) ASC,
+        -- Surface candidates who super liked the viewer first
+        (sl.id IS NOT NULL) DESC,
+        -- Then prioritize premium users
+        COALESCE(u.subscription_status = 'active', false) DESC,
+        -- Then candidates missing fewer preference-mode filters
+        ((miss.age AND age_mode = 'preference')::INT
+         + (miss.distance AND distance_mode = 'preference')::INT
+         + (miss.gender AND gender_mode = 'preference')::INT
+         + (miss.children AND children_mode = 'preference')::INT) ASC,
+        -- Then by compatibility score (highest first)
+        COALESCE(
+            (SELECT compatibility_score
+             FROM public.compatibility_scores
+             WHERE (user_id = viewer_id AND potential_match_id = p.id)
+                OR (user_id = p.id AND potential_match_id = viewer_id)
+             ORDER BY calculated_at DESC
+             LIMIT 1),
+            50
+        ) DESC,
+        -- Then by distance (closest first, users without coordinates last)
+        COALESCE(d.km, 999999) ASC,
+        -- Finally by recency
+        p.updated_at DESC
+    LIMIT limit_count
+    OFFSET offset_count;
+
+EXCEPTION
+    WHEN insufficient_privilege THEN
+        RAISE;
+    WHEN OTHERS THEN
+        -- Log error and return empty result rather than failing
+        RAISE WARNING 'Error in get_potential_matches_optimized: % (SQLSTATE: %)', SQLERRM, SQLSTATE;
+        RETURN;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_potential_matches_optimized FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_potential_matches_optimized TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_potential_matches_optimized TO service_role;
+
+COMMENT ON FUNCTION public.get_potential_matches_optimized IS
+'Unified matching function (see 20251022120000_unified_matching_filters_production_ready).
+Ranks candidates who super liked the viewer first and returns super_liked_viewer / super_like_note.
+Age, distance, gender and children filters follow user_settings.filter_strictness: dealbreakers
+exclude, preferences only down-rank (reported in preference_misses).
+Accounts flagged by evaluate_swipe_behavior (swipe_fraud_flags.deprioritized) are ranked last.
+Version: 1.3.0 (swipe fraud deprioritisation)
+Date: 2025-11-09';
+
+
+DROP FUNCTION IF EXISTS public.get_mutual_fit_signals(UUID, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.get_mutual_fit_signals(
+    p_viewer_id UUID,
+    p_candidate_ids UUID[]
+)
+RETURNS TABLE (
+    candidate_id UUID,
+    already_likes_viewer BOOLEAN,
+    age_in_range BOOLEAN,
+    within_distance BOOLEAN,
+    zodiac_preferred BOOLEAN,
+    height_in_range BOOLEAN,
+    total_swipes INTEGER,
+    total_likes INTEGER,
+    similar_swipes INTEGER,
+    similar_likes INTEGER,
+    shadow_deprioritized BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_viewer_profile RECORD;
+    v_viewer_lat NUMERIC;
+    v_viewer_lng NUMERIC;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_viewer_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only read mutual fit for your own feed' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT p.age, p.gender, p.zodiac_sign, p.height,
+           COALESCE(p.current_city_lat, u.birth_lat) AS lat,
+           COALESCE(p.current_city_lng, u.birth_lng) AS lng
+    INTO v_viewer_profile
+    FROM public.profiles p
+    JOIN public.users u ON u.id = p.id
+    WHERE p.id = p_viewer_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    v_viewer_lat := v_viewer_profile.lat;
+    v_viewer_lng := v_viewer_profile.lng;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            c.id,
+            cu.preferences,
+            cs.min_age_preference,
+            cs.max_age_preference,
+            cs.preferred_distance_km,
+            cs.min_height_preference,
+            cs.max_height_preference,
+            COALESCE(cp.current_city_lat, cu.birth_lat) AS lat,
+            COALESCE(cp.current_city_lng, cu.birth_lng) AS lng
+        FROM unnest(p_candidate_ids) AS c(id)
+        JOIN public.profiles cp ON cp.id = c.id
+        JOIN public.users cu ON cu.id = c.id
+        LEFT JOIN public.user_settings cs ON cs.user_id = c.id
+    ),
+    -- Candidate swipe history (last 180 days), with the swiped profile's traits
+    history AS (
+        SELECT
+            s.swiper_id,
+            (s.swipe_type IN ('like', 'super_like')) AS liked,
+            -- "Similar to the viewer": same gender and within 3 years of age
+            (sp.gender IS NOT DISTINCT FROM v_viewer_profile.gender
+             AND sp.age IS NOT NULL AND v_viewer_profile.age IS NOT NULL
+             AND abs(sp.age - v_viewer_profile.age) <= 3) AS similar
+        FROM public.swipes s
+        JOIN public.profiles sp ON sp.id = s.swiped_id
+        WHERE s.swiper_id = ANY(p_candidate_ids)
+          AND s.created_at >= NOW() - INTERVAL '180 days'
+    ),
+    history_stats AS (
+        SELECT
+            h.swiper_id,
+            COUNT(*)::INTEGER AS total_swipes,
+            COUNT(*) FILTER (WHERE h.liked)::INTEGER AS total_likes,
+            COUNT(*) FILTER (WHERE h.similar)::INTEGER AS similar_swipes,
+            COUNT(*) FILTER (WHERE h.similar AND h.liked)::INTEGER AS similar_likes
+        FROM history h
+        GROUP BY h.swiper_id
+    )
+    SELECT
+        c.id,
+        EXISTS (
+            SELECT 1 FROM public.swipes back
+            WHERE back.swiper_id = c.id
+              AND back.swiped_id = p_viewer_id
+              AND back.swipe_type IN ('like', 'super_like')
+        ),
+        -- Stated preferences: NULL when the candidate has not set one
+        CASE
+            WHEN v_viewer_profile.age IS NULL OR c.min_age_preference IS NULL THEN NULL
+            ELSE v_viewer_profile.age BETWEEN c.min_age_preference AND COALESCE(c.max_age_preference, 100)
+        END,
+        CASE
+            WHEN c.preferred_distance_km IS NULL OR v_viewer_lat IS NULL OR v_viewer_lng IS NULL
+                 OR c.lat IS NULL OR c.lng IS NULL THEN NULL
+            ELSE 6371 * acos(
+                LEAST(1.0, GREATEST(-1.0,
+                    cos(radians(v_viewer_lat)) * cos(radians(c.lat)) *
+                    cos(radians(c.lng) - radians(v_viewer_lng)) +
+                    sin(radians(v_viewer_lat)) * sin(radians(c.lat))
+                ))
+            ) <= c.preferred_distance_km
+        END,
+        CASE
+            WHEN v_viewer_profile.zodiac_sign IS NULL THEN NULL
+            WHEN COALESCE(c.preferences->>'preferredZodiac', c.preferences->>'zodiac') IS NULL
+                 OR LOWER(COALESCE(c.preferences->>'preferredZodiac', c.preferences->>'zodiac')) = 'any' THEN NULL
+            ELSE LOWER(COALESCE(c.preferences->>'preferredZodiac', c.preferences->>'zodiac')) = LOWER(v_viewer_profile.zodiac_sign)
+        END,
+        CASE
+            WHEN v_viewer_profile.height IS NULL
+                 OR (c.min_height_preference IS NULL AND c.max_height_preference IS NULL) THEN NULL
+            ELSE v_viewer_profile.height BETWEEN COALESCE(c.min_height_preference, 0) AND COALESCE(c.max_height_preference, 1000)
+        END,
+        COALESCE(hs.total_swipes, 0),
+        COALESCE(hs.total_likes, 0),
+        COALESCE(hs.similar_swipes, 0),
+        COALESCE(hs.similar_likes, 0),
+        EXISTS (
+            SELECT 1 FROM public.swipe_fraud_flags sff
+            WHERE sff.user_id = c.id
+              AND sff.deprioritized = true
+        )
+    FROM candidates c
+    LEFT JOIN history_stats hs ON hs.swiper_id = c.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_mutual_fit_signals(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_mutual_fit_signals(UUID, UUID[]) TO service_role;
+
+COMMENT ON FUNCTION public.get_mutual_fit_signals(UUID, UUID[]) IS 'Per-candidate inputs for the reciprocal "mutual fit" score: candidate stated preferences vs the viewer and the candidate''s recent like pattern.';
+
+-- =====================================================
+-- 5. VALIDATION & MIGRATION CONFIRMATION
+-- =====================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Swipe Fraud Detection Migration Complete';
+    RAISE NOTICE '  - swipe_device_fingerprints / swipe_fraud_flags';
+    RAISE NOTICE '  - evaluate_swipe_behavior(): right-swipe ratio, timing, shared device signals';
+    RAISE NOTICE '  - get_user_risk_assessment(): includes swipe_fraud';
+    RAISE NOTICE '  - get_potential_matches_optimized() / get_mutual_fit_signals(): flagged accounts ranked last';
+END $$;
+
+COMMIT;
@@ -0,0 +1,368 @@
+-- =====================================================
+-- MESSAGE EDITING AND UNSEND
+-- =====================================================
+-- Senders can edit a message for a short time after sending it and unsend
+-- (retract) it for longer. Every previous version is archived in
+-- message_edit_history for moderation; participants only ever see the
+-- current version. Updates to messages reach the other participant through
+-- the existing realtime publication (REPLICA IDENTITY FULL).
+-- Date: 2025-11-10
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. MESSAGE STATE COLUMNS
+-- =====================================================
+
+ALTER TABLE public.messages
+    ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ DEFAULT NULL,
+    ADD COLUMN IF NOT EXISTS edit_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS unsent_at TIMESTAMPTZ DEFAULT NULL;
+
+COMMENT ON COLUMN public.messages.edited_at IS 'When the sender last edited the message (NULL if never edited)';
+COMMENT ON COLUMN public.messages.unsent_at IS 'When the sender unsent the message. Content and media are cleared; the original is kept in message_edit_history.';
+
+-- =====================================================
+-- 2. EDIT HISTORY (MODERATION AUDIT)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.message_edit_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL,
+    editor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    action TEXT NOT NULL CHECK (action IN ('edit', 'unsend')),
+    version INTEGER NOT NULL,
+    previous_content TEXT NOT NULL,
+    new_content TEXT,
+    previous_media_url TEXT,
+    previous_media_type TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_edit_history_message
+    ON public.message_edit_history(message_id, version);
+
+CREATE INDEX IF NOT EXISTS idx_message_edit_history_conversation
+    ON public.message_edit_history(conversation_id, created_at DESC);
+
+COMMENT ON TABLE public.message_edit_history IS 'Previous versions of edited and unsent messages. Readable by admins for moderation only.';
+
+ALTER TABLE public.message_edit_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view message edit history" ON public.message_edit_history
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = (SELECT auth.uid()) AND is_admin = true
+        )
+    );
+
+CREATE POLICY "Service role can manage message edit history" ON public.message_edit_history
+    FOR ALL USING ((SELECT auth.role()) = 'service_role');
+
+-- =====================================================
+-- 3. EDIT FUNCTION
+-- =====================================================
+-- Returns { success, reason, ... }. Failure reasons:
+--   not_found, not_sender, unsent, window_expired, unchanged
+
+CREATE OR REPLACE FUNCTION public.edit_message(
+    p_message_id UUID,
+    p_user_id UUID,
+    p_new_content TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    c_edit_window CONSTANT INTERVAL := INTERVAL '15 minutes';
+    v_message RECORD;
+    v_edited_at TIMESTAMPTZ := NOW();
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only edit your own messages' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT id, conversation_id, sender_id, content, edit_count, unsent_at, created_at
+    INTO v_message
+    FROM public.messages
+    WHERE id = p_message_id
+    FOR UPDATE;
+
+    -- Messages in conversations the caller is not part of are reported as missing
+    IF NOT FOUND OR NOT public.is_conversation_participant(v_message.conversation_id, p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_message.sender_id IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_sender');
+    END IF;
+
+    IF v_message.unsent_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'unsent');
+    END IF;
+
+    IF v_message.created_at < NOW() - c_edit_window THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'window_expired');
+    END IF;
+
+    IF v_message.content = p_new_content THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'unchanged');
+    END IF;
+
+    INSERT INTO public.message_edit_history (
+        message_id, conversation_id, editor_id, action, version, previous_content, new_content
+    ) VALUES (
+        v_message.id, v_message.conversation_id, p_user_id, 'edit',
+        v_message.edit_count + 1, v_message.content, p_new_content
+    );
+
+    UPDATE public.messages
+    SET content = p_new_content,
+        edited_at = v_edited_at,
+        edit_count = edit_count + 1,
+        updated_at = v_edited_at
+    WHERE id = v_message.id;
+
+    -- Keep the conversation preview in sync when the latest message changed
+    UPDATE public.conversations c
+    SET last_message_preview = CASE
+            WHEN LENGTH(p_new_content) > 100 THEN LEFT(p_new_content, 100) || '...'
+            ELSE p_new_content
+        END,
+        updated_at = v_edited_at
+    WHERE c.id = v_message.conversation_id
+      AND NOT EXISTS (
+          SELECT 1 FROM public.messages later
+          WHERE later.conversation_id = v_message.conversation_id
+            AND later.created_at > v_message.created_at
+      );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message_id', v_message.id,
+        'conversation_id', v_message.conversation_id,
+        'content', p_new_content,
+        'edited_at', v_edited_at,
+        'edit_count', v_message.edit_count + 1
+    );
+END;
+$$;
+
+-- edit-message calls this with the service client after sanitizing the content
+REVOKE ALL ON FUNCTION public.edit_message(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.edit_message(UUID, UUID, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.edit_message(UUID, UUID, TEXT) IS 'Edit own message within the edit window. The previous version is archived in message_edit_history.';
+
+-- =====================================================
+-- 4. UNSEND FUNCTION
+-- =====================================================
+-- Returns { success, reason, ... }. Failure reasons:
+--   not_found, not_sender, unsent, window_expired
+
+CREATE OR REPLACE FUNCTION public.unsend_message(
+    p_message_id UUID,
+    p_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    c_unsend_window CONSTANT INTERVAL := INTERVAL '24 hours';
+    v_message RECORD;
+    v_unsent_at TIMESTAMPTZ := NOW();
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only unsend your own messages' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT id, conversation_id, sender_id, content, media_url, media_type,
+           edit_count, unsent_at, created_at
+    INTO v_message
+    FROM public.messages
+    WHERE id = p_message_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.is_conversation_participant(v_message.conversation_id, p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_message.sender_id IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_sender');
+    END IF;
+
+    IF v_message.unsent_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'unsent');
+    END IF;
+
+    IF v_message.created_at < NOW() - c_unsend_window THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'window_expired');
+    END IF;
+
+    INSERT INTO public.message_edit_history (
+        message_id, conversation_id, editor_id, action, version,
+        previous_content, new_content, previous_media_url, previous_media_type
+    ) VALUES (
+        v_message.id, v_message.conversation_id, p_user_id, 'unsend', v_message.edit_count + 1,
+        v_message.content, NULL, v_message.media_url, v_message.media_type
+    );
+
+    UPDATE public.messages
+    SET content = '',
+        media_url = NULL,
+        media_type = NULL,
+        unsent_at = v_unsent_at,
+        updated_at = v_unsent_at
+    WHERE id = v_message.id;
+
+    UPDATE public.conversations c
+    SET last_message_preview = 'Message unsent',
+        updated_at = v_unsent_at
+    WHERE c.id = v_message.conversation_id
+      AND NOT EXISTS (
+          SELECT 1 FROM public.messages later
+          WHERE later.conversation_id = v_message.conversation_id
+            AND later.created_at > v_message.created_at
+      );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message_id', v_message.id,
+        'conversation_id', v_message.conversation_id,
+        'unsent_at', v_unsent_at,
+        'had_media', v_message.media_url IS NOT NULL
+    );
+END;
+$$;
+
+-- unsend-message calls this with the service client
+REVOKE ALL ON FUNCTION public.unsend_message(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.unsend_message(UUID, UUID) TO service_role;
+
+COMMENT ON FUNCTION public.unsend_message(UUID, UUID) IS 'Unsend own message: clears content and media for both participants. The original is archived in message_edit_history.';
+
+-- =====================================================
+-- 5. MESSAGE PAGINATION WITH EDIT STATE
+-- =====================================================
+-- Return type changes (edited_at, unsent_at, media), so drop and recreate.
+-- Also adds the participant check the previous version was missing.
+
+DROP FUNCTION IF EXISTS public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_messages_with_cursor(
+    p_conversation_id UUID,
+    p_limit INTEGER DEFAULT 50,
+    p_cursor TIMESTAMPTZ DEFAULT NULL,
+    p_direction TEXT DEFAULT 'before' -- 'before' or 'after'
+)
+RETURNS TABLE (
+    id UUID,
+    conversation_id UUID,
+    sender_id UUID,
+    content TEXT,
+    message_type TEXT,
+    media_url TEXT,
+    media_type TEXT,
+    created_at TIMESTAMPTZ,
+    edited_at TIMESTAMPTZ,
+    unsent_at TIMESTAMPTZ,
+    has_more BOOLEAN,
+    next_cursor TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_total_count INTEGER;
+BEGIN
+    IF auth.role() != 'service_role'
+       AND NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized: Not a participant in this conversation' USING ERRCODE = '42501';
+    END IF;
+
+    -- Max 100 messages per request
+    p_limit := LEAST(COALESCE(p_limit, 50), 100);
+
+    SELECT COUNT(*) INTO v_total_count
+    FROM public.messages m
+    WHERE m.conversation_id = p_conversation_id
+      AND (p_cursor IS NULL
+           OR (p_direction = 'before' AND m.created_at < p_cursor)
+           OR (p_direction <> 'before' AND m.created_at > p_cursor));
+
+    RETURN QUERY
+    WITH page AS (
+        SELECT m.*
+        FROM public.messages m
+        WHERE m.conversation_id = p_conversation_id
+          AND (p_cursor IS NULL
+               OR (p_direction = 'before' AND m.created_at < p_cursor)
+               OR (p_direction <> 'before' AND m.created_at > p_cursor))
+        ORDER BY m.created_at DESC
+        LIMIT p_limit
+    )
+    SELECT
+        page.id,
+        page.conversation_id,
+        page.sender_id,
+        -- Unsent messages are tombstones: no content or media
+        CASE WHEN page.unsent_at IS NOT NULL THEN '' ELSE page.content END,
+        page.message_type::TEXT,
+        CASE WHEN page.unsent_at IS NOT NULL THEN NULL ELSE page.media_url END,
+        CASE WHEN page.unsent_at IS NOT NULL THEN NULL ELSE page.media_type END,
+        page.created_at,
+        page.edited_at,
+        page.unsent_at,
+        v_total_count > p_limit,
+        CASE WHEN v_total_count > p_limit
+             THEN (SELECT MIN(p2.created_at) FROM page p2)
+             ELSE NULL
+        END
+    FROM page
+    ORDER BY page.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) IS 'Cursor-paginated messages for a conversation participant, newest first, with edit/unsend state.';
+
+-- =====================================================
+-- 6. CONVERSATION EVENT CHANNEL
+-- =====================================================
+-- Edit / unsend / reaction events are broadcast on the private realtime
+-- channel conversation:<id>. Only the two participants may join it; there
+-- is no INSERT policy, so only the service role can send on it.
+
+DROP POLICY IF EXISTS "Participants can receive conversation events" ON realtime.messages;
+
+CREATE POLICY "Participants can receive conversation events" ON realtime.messages
+    FOR SELECT TO authenticated USING (
+        realtime.messages.extension = 'broadcast'
+        AND (SELECT realtime.topic()) LIKE 'conversation:%'
+        AND EXISTS (
+            SELECT 1 FROM public.conversations c
+            WHERE c.id::TEXT = split_part((SELECT realtime.topic()), ':', 2)
+            AND (c.user1_id = (SELECT auth.uid()) OR c.user2_id = (SELECT auth.uid()))
+        )
+    );
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Message Edit / Unsend Migration Complete';
+    RAISE NOTICE '  - messages: edited_at, edit_count, unsent_at';
+    RAISE NOTICE '  - message_edit_history: admin-only audit of previous versions';
+    RAISE NOTICE '  - edit_message() / unsend_message(): sender-only, time-windowed';
+    RAISE NOTICE '  - get_messages_with_cursor(): participant check + edit state';
+    RAISE NOTICE '  - realtime.messages: participant-only conversation event channel';
+END $$;
+
+COMMIT;
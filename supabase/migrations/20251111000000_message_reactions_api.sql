@@ -0,0 +1,229 @@
+-- =====================================================
+-- MESSAGE REACTIONS API
+-- =====================================================
+-- Emoji reactions on messages, toggled through toggle_message_reaction().
+-- message_reactions already exists (20250111000000); this limits it to the
+-- fixed reaction set, makes reactions visible to conversation participants
+-- only, and folds per-message counts into get_messages_with_cursor.
+-- Date: 2025-11-11
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. ALLOWED REACTION SET
+-- =====================================================
+-- Keep in sync with ALLOWED_REACTIONS in react-to-message.
+-- NOT VALID: enforced for new reactions without rejecting legacy rows.
+
+ALTER TABLE public.message_reactions
+    DROP CONSTRAINT IF EXISTS message_reactions_reaction_allowed;
+
+ALTER TABLE public.message_reactions
+    ADD CONSTRAINT message_reactions_reaction_allowed
+    CHECK (reaction IN ('❤️', '😂', '😮', '😢', '👍', '🔥')) NOT VALID;
+
+-- =====================================================
+-- 2. RLS: PARTICIPANTS ONLY
+-- =====================================================
+-- The original policies let any authenticated user read every reaction.
+-- message_reactions_authenticated_manage (20251029000000) already scopes
+-- reads and writes to conversation participants.
+
+DROP POLICY IF EXISTS "Users can view reactions" ON public.message_reactions;
+DROP POLICY IF EXISTS "Users can add reactions" ON public.message_reactions;
+DROP POLICY IF EXISTS "Users can delete own reactions" ON public.message_reactions;
+
+-- =====================================================
+-- 3. TOGGLE FUNCTION
+-- =====================================================
+-- Adds the reaction if the user has not made it yet, otherwise removes it.
+-- Returns { success, reason, action, ... }. Failure reasons:
+--   not_found, invalid_reaction, unsent
+
+CREATE OR REPLACE FUNCTION public.toggle_message_reaction(
+    p_message_id UUID,
+    p_user_id UUID,
+    p_reaction TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_message RECORD;
+    v_action TEXT;
+    v_counts JSONB;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only react as yourself' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_reaction IS NULL OR p_reaction NOT IN ('❤️', '😂', '😮', '😢', '👍', '🔥') THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'invalid_reaction');
+    END IF;
+
+    SELECT id, conversation_id, sender_id, unsent_at
+    INTO v_message
+    FROM public.messages
+    WHERE id = p_message_id;
+
+    IF NOT FOUND OR NOT public.is_conversation_participant(v_message.conversation_id, p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_message.unsent_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'unsent');
+    END IF;
+
+    DELETE FROM public.message_reactions
+    WHERE message_id = p_message_id
+      AND user_id = p_user_id
+      AND reaction = p_reaction;
+
+    IF FOUND THEN
+        v_action := 'removed';
+    ELSE
+        INSERT INTO public.message_reactions (message_id, user_id, reaction)
+        VALUES (p_message_id, p_user_id, p_reaction)
+        ON CONFLICT (message_id, user_id, reaction) DO NOTHING;
+        v_action := 'added';
+    END IF;
+
+    SELECT COALESCE(jsonb_object_agg(rc.reaction, rc.cnt), '{}'::jsonb)
+    INTO v_counts
+    FROM (
+        SELECT r.reaction, COUNT(*) AS cnt
+        FROM public.message_reactions r
+        WHERE r.message_id = p_message_id
+        GROUP BY r.reaction
+    ) rc;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'action', v_action,
+        'message_id', v_message.id,
+        'conversation_id', v_message.conversation_id,
+        'message_sender_id', v_message.sender_id,
+        'reaction', p_reaction,
+        'reaction_counts', v_counts
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.toggle_message_reaction(UUID, UUID, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.toggle_message_reaction(UUID, UUID, TEXT) IS 'Add or remove the caller''s emoji reaction on a message in one of their conversations.';
+
+-- =====================================================
+-- 4. MESSAGE PAGINATION WITH REACTION COUNTS
+-- =====================================================
+
+DROP FUNCTION IF EXISTS public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_messages_with_cursor(
+    p_conversation_id UUID,
+    p_limit INTEGER DEFAULT 50,
+    p_cursor TIMESTAMPTZ DEFAULT NULL,
+    p_direction TEXT DEFAULT 'before' -- 'before' or 'after'
+)
+RETURNS TABLE (
+    id UUID,
+    conversation_id UUID,
+    sender_id UUID,
+    content TEXT,
+    message_type TEXT,
+    media_url TEXT,
+    media_type TEXT,
+    created_at TIMESTAMPTZ,
+    edited_at TIMESTAMPTZ,
+    unsent_at TIMESTAMPTZ,
+    reaction_counts JSONB,
+    my_reactions TEXT[],
+    has_more BOOLEAN,
+    next_cursor TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_total_count INTEGER;
+BEGIN
+    IF auth.role() != 'service_role'
+       AND NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized: Not a participant in this conversation' USING ERRCODE = '42501';
+    END IF;
+
+    -- Max 100 messages per request
+    p_limit := LEAST(COALESCE(p_limit, 50), 100);
+
+    SELECT COUNT(*) INTO v_total_count
+    FROM public.messages m
+    WHERE m.conversation_id = p_conversation_id
+      AND (p_cursor IS NULL
+           OR (p_direction = 'before' AND m.created_at < p_cursor)
+           OR (p_direction <> 'before' AND m.created_at > p_cursor));
+
+    RETURN QUERY
+    WITH page AS (
+        SELECT m.*
+        FROM public.messages m
+        WHERE m.conversation_id = p_conversation_id
+          AND (p_cursor IS NULL
+               OR (p_direction = 'before' AND m.created_at < p_cursor)
+               OR (p_direction <> 'before' AND m.created_at > p_cursor))
+        ORDER BY m.created_at DESC
+        LIMIT p_limit
+    )
+    SELECT
+        page.id,
+        page.conversation_id,
+        page.sender_id,
+        -- Unsent messages are tombstones: no content or media
+        CASE WHEN page.unsent_at IS NOT NULL THEN '' ELSE page.content END,
+        page.message_type::TEXT,
+        CASE WHEN page.unsent_at IS NOT NULL THEN NULL ELSE page.media_url END,
+        CASE WHEN page.unsent_at IS NOT NULL THEN NULL ELSE page.media_type END,
+        page.created_at,
+        page.edited_at,
+        page.unsent_at,
+        COALESCE(rx.counts, '{}'::jsonb),
+        COALESCE(rx.mine, ARRAY[]::TEXT[]),
+        v_total_count > p_limit,
+        CASE WHEN v_total_count > p_limit
+             THEN (SELECT MIN(p2.created_at) FROM page p2)
+             ELSE NULL
+        END
+    FROM page
+    LEFT JOIN LATERAL (
+        SELECT
+            jsonb_object_agg(rc.reaction, rc.cnt) AS counts,
+            array_agg(rc.reaction) FILTER (WHERE rc.mine) AS mine
+        FROM (
+            SELECT r.reaction,
+                   COUNT(*) AS cnt,
+                   bool_or(r.user_id = auth.uid()) AS mine
+            FROM public.message_reactions r
+            WHERE r.message_id = page.id
+            GROUP BY r.reaction
+        ) rc
+    ) rx ON true
+    ORDER BY page.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) IS 'Cursor-paginated messages for a conversation participant, newest first, with edit/unsend state and reaction counts.';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Message Reactions API Migration Complete';
+    RAISE NOTICE '  - message_reactions: fixed reaction set, participant-only visibility';
+    RAISE NOTICE '  - toggle_message_reaction(): add/remove toggle';
+    RAISE NOTICE '  - get_messages_with_cursor(): reaction_counts + my_reactions';
+END $$;
+
+COMMIT;
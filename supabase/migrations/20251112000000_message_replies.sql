@@ -0,0 +1,610 @@
+-- =====================================================
+-- MESSAGE REPLIES AND QUOTED PREVIEWS
+-- =====================================================
+-- Messages can reply to an earlier message in the same conversation.
+-- Fetches return a compact quote of the parent that hides unsent and
+-- moderation-removed content. Adds the moderation removal state those
+-- quotes (and the rest of the message API) respect.
+-- Date: 2025-11-12
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. REPLY AND MODERATION COLUMNS
+-- =====================================================
+
+ALTER TABLE public.messages
+    ADD COLUMN IF NOT EXISTS reply_to_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS moderation_removed_at TIMESTAMPTZ DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to
+    ON public.messages(reply_to_message_id)
+    WHERE reply_to_message_id IS NOT NULL;
+
+COMMENT ON COLUMN public.messages.reply_to_message_id IS 'Message this one replies to (same conversation)';
+COMMENT ON COLUMN public.messages.moderation_removed_at IS 'When a moderator removed the message. Content and media are cleared; the original is kept in message_edit_history.';
+
+-- Moderation removals are recorded alongside edits and unsends. editor_id is
+-- NULL when the removal was made by an automated (service role) process.
+ALTER TABLE public.message_edit_history
+    DROP CONSTRAINT IF EXISTS message_edit_history_action_check;
+
+ALTER TABLE public.message_edit_history
+    ADD CONSTRAINT message_edit_history_action_check
+    CHECK (action IN ('edit', 'unsend', 'moderation_removal'));
+
+ALTER TABLE public.message_edit_history
+    ALTER COLUMN editor_id DROP NOT NULL,
+    ADD COLUMN IF NOT EXISTS reason TEXT;
+
+-- =====================================================
+-- 2. MODERATION REMOVAL
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.moderation_remove_message(
+    p_message_id UUID,
+    p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_message RECORD;
+    v_removed_at TIMESTAMPTZ := NOW();
+BEGIN
+    IF auth.role() != 'service_role'
+       AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = true) THEN
+        RAISE EXCEPTION 'Unauthorized: Message removal is admin only' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT id, conversation_id, content, media_url, media_type, edit_count, moderation_removed_at
+    INTO v_message
+    FROM public.messages
+    WHERE id = p_message_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_message.moderation_removed_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'removed');
+    END IF;
+
+    INSERT INTO public.message_edit_history (
+        message_id, conversation_id, editor_id, action, version,
+        previous_content, new_content, previous_media_url, previous_media_type, reason
+    ) VALUES (
+        v_message.id, v_message.conversation_id, auth.uid(), 'moderation_removal', v_message.edit_count + 1,
+        v_message.content, NULL, v_message.media_url, v_message.media_type, p_reason
+    );
+
+    UPDATE public.messages
+    SET content = '',
+        media_url = NULL,
+        media_type = NULL,
+        moderation_removed_at = v_removed_at,
+        updated_at = v_removed_at
+    WHERE id = v_message.id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message_id', v_message.id,
+        'conversation_id', v_message.conversation_id,
+        'moderation_removed_at', v_removed_at
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.moderation_remove_message(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.moderation_remove_message(UUID, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.moderation_remove_message(UUID, TEXT) IS 'Admin/service: remove a message for moderation. Clears content for participants; the original is archived in message_edit_history.';
+
+-- Removed messages can no longer be edited, unsent or reacted to
+-- (new failure reason: removed)
+
+CREATE OR REPLACE FUNCTION public.edit_message(
+    p_message_id UUID,
+    p_user_id UUID,
+    p_new_content TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    c_edit_window CONSTANT INTERVAL := INTERVAL '15 minutes';
+    v_message RECORD;
+    v_edited_at TIMESTAMPTZ := NOW();
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only edit your own messages' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT id, conversation_id, sender_id, content, edit_count, unsent_at, moderation_removed_at, created_at
+    INTO v_message
+    FROM public.messages
+    WHERE id = p_message_id
+    FOR UPDATE;
+
+    -- Messages in conversations the caller is not part of are reported as missing
+    IF NOT FOUND OR NOT public.is_conversation_participant(v_message.conversation_id, p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_message.sender_id IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_sender');
+    END IF;
+
+    IF v_message.moderation_removed_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'removed');
+    END IF;
+
+    IF v_message.unsent_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'unsent');
+    END IF;
+
+    IF v_message.created_at < NOW() - c_edit_window THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'window_expired');
+    END IF;
+
+    IF v_message.content = p_new_content THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'unchanged');
+    END IF;
+
+    INSERT INTO public.message_edit_history (
+        message_id, conversation_id, editor_id, action, version, previous_content, new_content
+    ) VALUES (
+        v_message.id, v_message.conversation_id, p_user_id, 'edit',
+        v_message.edit_count + 1, v_message.content, p_new_content
+    );
+
+    UPDATE public.messages
+    SET content = p_new_content,
+        edited_at = v_edited_at,
+        edit_count = edit_count + 1,
+        updated_at = v_edited_at
+    WHERE id = v_message.id;
+
+    -- Keep the conversation preview in sync when the latest message changed
+    UPDATE public.conversations c
+    SET last_message_preview = CASE
+            WHEN LENGTH(p_new_content) > 100 THEN LEFT(p_new_content, 100) || '...'
+            ELSE p_new_content
+        END,
+        updated_at = v_edited_at
+    WHERE c.id = v_message.conversation_id
+      AND NOT EXISTS (
+          SELECT 1 FROM public.messages later
+          WHERE later.conversation_id = v_message.conversation_id
+            AND later.created_at > v_message.created_at
+      );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message_id', v_message.id,
+        'conversation_id', v_message.conversation_id,
+        'content', p_new_content,
+        'edited_at', v_edited_at,
+        'edit_count', v_message.edit_count + 1
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.edit_message(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.edit_message(UUID, UUID, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.edit_message(UUID, UUID, TEXT) IS 'Edit own message within the edit window. The previous version is archived in message_edit_history.';
+
+CREATE OR REPLACE FUNCTION public.unsend_message(
+    p_message_id UUID,
+    p_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    c_unsend_window CONSTANT INTERVAL := INTERVAL '24 hours';
+    v_message RECORD;
+    v_unsent_at TIMESTAMPTZ := NOW();
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only unsend your own messages' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT id, conversation_id, sender_id, content, media_url, media_type,
+           edit_count, unsent_at, moderation_removed_at, created_at
+    INTO v_message
+    FROM public.messages
+    WHERE id = p_message_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.is_conversation_participant(v_message.conversation_id, p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_message.sender_id IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_sender');
+    END IF;
+
+    IF v_message.moderation_removed_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'removed');
+    END IF;
+
+    IF v_message.unsent_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'unsent');
+    END IF;
+
+    IF v_message.created_at < NOW() - c_unsend_window THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'window_expired');
+    END IF;
+
+    INSERT INTO public.message_edit_history (
+        message_id, conversation_id, editor_id, action, version,
+        previous_content, new_content, previous_media_url, previous_media_type
+    ) VALUES (
+        v_message.id, v_message.conversation_id, p_user_id, 'unsend', v_message.edit_count + 1,
+        v_message.content, NULL, v_message.media_url, v_message.media_type
+    );
+
+    UPDATE public.messages
+    SET content = '',
+        media_url = NULL,
+        media_type = NULL,
+        unsent_at = v_unsent_at,
+        updated_at = v_unsent_at
+    WHERE id = v_message.id;
+
+    UPDATE public.conversations c
+    SET last_message_preview = 'Message unsent',
+        updated_at = v_unsent_at
+    WHERE c.id = v_message.conversation_id
+      AND NOT EXISTS (
+          SELECT 1 FROM public.messages later
+          WHERE later.conversation_id = v_message.conversation_id
+            AND later.created_at > v_message.created_at
+      );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message_id', v_message.id,
+        'conversation_id', v_message.conversation_id,
+        'unsent_at', v_unsent_at,
+        'had_media', v_message.media_url IS NOT NULL
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.unsend_message(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.unsend_message(UUID, UUID) TO service_role;
+
+COMMENT ON FUNCTION public.unsend_message(UUID, UUID) IS 'Unsend own message: clears content and media for both participants. The original is archived in message_edit_history.';
+
+CREATE OR REPLACE FUNCTION public.toggle_message_reaction(
+    p_message_id UUID,
+    p_user_id UUID,
+    p_reaction TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_message RECORD;
+    v_action TEXT;
+    v_counts JSONB;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only react as yourself' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_reaction IS NULL OR p_reaction NOT IN ('❤️', '😂', '😮', '😢', '👍', '🔥') THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'invalid_reaction');
+    END IF;
+
+    SELECT id, conversation_id, sender_id, unsent_at, moderation_removed_at
+    INTO v_message
+    FROM public.messages
+    WHERE id = p_message_id;
+
+    IF NOT FOUND OR NOT public.is_conversation_participant(v_message.conversation_id, p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_message.unsent_at IS NOT NULL OR v_message.moderation_removed_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'unsent');
+    END IF;
+
+    DELETE FROM public.message_reactions
+    WHERE message_id = p_message_id
+      AND user_id = p_user_id
+      AND reaction = p_reaction;
+
+    IF FOUND THEN
+        v_action := 'removed';
+    ELSE
+        INSERT INTO public.message_reactions (message_id, user_id, reaction)
+        VALUES (p_message_id, p_user_id, p_reaction)
+        ON CONFLICT (message_id, user_id, reaction) DO NOTHING;
+        v_action := 'added';
+    END IF;
+
+    SELECT COALESCE(jsonb_object_agg(rc.reaction, rc.cnt), '{}'::jsonb)
+    INTO v_counts
+    FROM (
+        SELECT r.reaction, COUNT(*) AS cnt
+        FROM public.message_reactions r
+        WHERE r.message_id = p_message_id
+        GROUP BY r.reaction
+    ) rc;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'action', v_action,
+        'message_id', v_message.id,
+        'conversation_id', v_message.conversation_id,
+        'message_sender_id', v_message.sender_id,
+        'reaction', p_reaction,
+        'reaction_counts', v_counts
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.toggle_message_reaction(UUID, UUID, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.toggle_message_reaction(UUID, UUID, TEXT) IS 'Add or remove the caller''s emoji reaction on a message in one of their conversations.';
+
+-- =====================================================
+-- 3. QUOTED PREVIEW
+-- =====================================================
+-- Compact quote of a reply's parent. state is visible, unsent or removed;
+-- preview and media_type are only included for visible parents.
+
+CREATE OR REPLACE FUNCTION public.message_quote_preview(p_message_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+    SELECT jsonb_build_object(
+        'id', m.id,
+        'sender_id', m.sender_id,
+        'created_at', m.created_at,
+        'state', CASE
+            WHEN m.moderation_removed_at IS NOT NULL THEN 'removed'
+            WHEN m.unsent_at IS NOT NULL THEN 'unsent'
+            ELSE 'visible'
+        END,
+        'preview', CASE
+            WHEN m.moderation_removed_at IS NOT NULL OR m.unsent_at IS NOT NULL THEN NULL
+            WHEN LENGTH(m.content) > 100 THEN LEFT(m.content, 100) || '...'
+            ELSE m.content
+        END,
+        'media_type', CASE
+            WHEN m.moderation_removed_at IS NOT NULL OR m.unsent_at IS NOT NULL THEN NULL
+            ELSE m.media_type
+        END
+    )
+    FROM public.messages m
+    WHERE m.id = p_message_id;
+$$;
+
+-- Only called from get_messages_with_cursor, which performs the participant check
+REVOKE EXECUTE ON FUNCTION public.message_quote_preview(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.message_quote_preview(UUID) TO service_role;
+
+COMMENT ON FUNCTION public.message_quote_preview(UUID) IS 'Compact quoted preview of a replied-to message, hiding unsent and moderation-removed content.';
+
+-- =====================================================
+-- 4. SEND WITH REPLY
+-- =====================================================
+-- New optional parameter; drop the 5-argument version so named calls
+-- from send-message resolve to a single function.
+
+DROP FUNCTION IF EXISTS public.create_message_and_update_conversation(UUID, UUID, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_message_and_update_conversation(
+    p_conversation_id UUID,
+    p_sender_id UUID,
+    p_content TEXT,
+    p_media_url TEXT DEFAULT NULL,
+    p_media_type TEXT DEFAULT NULL,
+    p_reply_to_message_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_message_id UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.conversations WHERE id = p_conversation_id) THEN
+        RAISE EXCEPTION 'Conversation with id % does not exist', p_conversation_id;
+    END IF;
+
+    IF NOT public.is_conversation_participant(p_conversation_id, p_sender_id) THEN
+        RAISE EXCEPTION 'User % is not a participant in conversation %', p_sender_id, p_conversation_id;
+    END IF;
+
+    -- Replies must point at a message in the same conversation
+    IF p_reply_to_message_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.messages
+        WHERE id = p_reply_to_message_id
+          AND conversation_id = p_conversation_id
+    ) THEN
+        RAISE EXCEPTION 'Reply target % is not in conversation %', p_reply_to_message_id, p_conversation_id;
+    END IF;
+
+    INSERT INTO public.messages (
+        conversation_id,
+        sender_id,
+        content,
+        media_url,
+        media_type,
+        reply_to_message_id,
+        created_at
+    )
+    VALUES (
+        p_conversation_id,
+        p_sender_id,
+        p_content,
+        p_media_url,
+        p_media_type,
+        p_reply_to_message_id,
+        NOW()
+    )
+    RETURNING id INTO v_message_id;
+
+    UPDATE public.conversations
+    SET
+        last_message_preview = CASE
+            WHEN LENGTH(p_content) > 100 THEN LEFT(p_content, 100) || '...'
+            ELSE p_content
+        END,
+        last_message_at = NOW(),
+        updated_at = NOW()
+    WHERE id = p_conversation_id;
+
+    RETURN v_message_id;
+
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE WARNING 'Error in create_message_and_update_conversation: %', SQLERRM;
+        RETURN NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_message_and_update_conversation(UUID, UUID, TEXT, TEXT, TEXT, UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.create_message_and_update_conversation(UUID, UUID, TEXT, TEXT, TEXT, UUID) IS
+'Creates a new message in a conversation and updates the conversation last message info. Returns the message ID. Supports optional media and an optional reply_to_message_id in the same conversation.';
+
+-- =====================================================
+-- 5. MESSAGE PAGINATION WITH QUOTED REPLIES
+-- =====================================================
+
+DROP FUNCTION IF EXISTS public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_messages_with_cursor(
+    p_conversation_id UUID,
+    p_limit INTEGER DEFAULT 50,
+    p_cursor TIMESTAMPTZ DEFAULT NULL,
+    p_direction TEXT DEFAULT 'before' -- 'before' or 'after'
+)
+RETURNS TABLE (
+    id UUID,
+    conversation_id UUID,
+    sender_id UUID,
+    content TEXT,
+    message_type TEXT,
+    media_url TEXT,
+    media_type TEXT,
+    created_at TIMESTAMPTZ,
+    edited_at TIMESTAMPTZ,
+    unsent_at TIMESTAMPTZ,
+    moderation_removed_at TIMESTAMPTZ,
+    reply_to JSONB,
+    reaction_counts JSONB,
+    my_reactions TEXT[],
+    has_more BOOLEAN,
+    next_cursor TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_total_count INTEGER;
+BEGIN
+    IF auth.role() != 'service_role'
+       AND NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized: Not a participant in this conversation' USING ERRCODE = '42501';
+    END IF;
+
+    -- Max 100 messages per request
+    p_limit := LEAST(COALESCE(p_limit, 50), 100);
+
+    SELECT COUNT(*) INTO v_total_count
+    FROM public.messages m
+    WHERE m.conversation_id = p_conversation_id
+      AND (p_cursor IS NULL
+           OR (p_direction = 'before' AND m.created_at < p_cursor)
+           OR (p_direction <> 'before' AND m.created_at > p_cursor));
+
+    RETURN QUERY
+    WITH page AS (
+        SELECT m.*
+        FROM public.messages m
+        WHERE m.conversation_id = p_conversation_id
+          AND (p_cursor IS NULL
+               OR (p_direction = 'before' AND m.created_at < p_cursor)
+               OR (p_direction <> 'before' AND m.created_at > p_cursor))
+        ORDER BY m.created_at DESC
+        LIMIT p_limit
+    )
+    SELECT
+        page.id,
+        page.conversation_id,
+        page.sender_id,
+        -- Unsent and moderation-removed messages are tombstones: no content or media
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN '' ELSE page.content END,
+        page.message_type::TEXT,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_url END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_type END,
+        page.created_at,
+        page.edited_at,
+        page.unsent_at,
+        page.moderation_removed_at,
+        public.message_quote_preview(page.reply_to_message_id),
+        COALESCE(rx.counts, '{}'::jsonb),
+        COALESCE(rx.mine, ARRAY[]::TEXT[]),
+        v_total_count > p_limit,
+        CASE WHEN v_total_count > p_limit
+             THEN (SELECT MIN(p2.created_at) FROM page p2)
+             ELSE NULL
+        END
+    FROM page
+    LEFT JOIN LATERAL (
+        SELECT
+            jsonb_object_agg(rc.reaction, rc.cnt) AS counts,
+            array_agg(rc.reaction) FILTER (WHERE rc.mine) AS mine
+        FROM (
+            SELECT r.reaction,
+                   COUNT(*) AS cnt,
+                   bool_or(r.user_id = auth.uid()) AS mine
+            FROM public.message_reactions r
+            WHERE r.message_id = page.id
+            GROUP BY r.reaction
+        ) rc
+    ) rx ON true
+    ORDER BY page.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) IS 'Cursor-paginated messages for a conversation participant, newest first, with edit/unsend state, reply quotes and reaction counts.';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Message Replies Migration Complete';
+    RAISE NOTICE '  - messages: reply_to_message_id, moderation_removed_at';
+    RAISE NOTICE '  - moderation_remove_message(): admin removal, archived in message_edit_history';
+    RAISE NOTICE '  - create_message_and_update_conversation(): optional same-conversation reply';
+    RAISE NOTICE '  - get_messages_with_cursor(): reply_to quote + moderation state';
+END $$;
+
+COMMIT;
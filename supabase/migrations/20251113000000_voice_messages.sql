@@ -0,0 +1,240 @@
+-- =====================================================
+-- VOICE MESSAGES
+-- =====================================================
+-- Voice notes uploaded through send-voice-message. The edge function checks
+-- size, container magic numbers and duration, then stores the file in the
+-- private voice-messages bucket and the duration + waveform summary on the
+-- message so clients can render the player without downloading audio.
+-- Date: 2025-11-13
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. VOICE METADATA COLUMNS
+-- =====================================================
+
+ALTER TABLE public.messages
+    ADD COLUMN IF NOT EXISTS media_duration_ms INTEGER
+        CHECK (media_duration_ms IS NULL OR media_duration_ms > 0),
+    ADD COLUMN IF NOT EXISTS media_waveform SMALLINT[]
+        CHECK (media_waveform IS NULL OR cardinality(media_waveform) <= 128);
+
+COMMENT ON COLUMN public.messages.media_duration_ms IS 'Audio duration read from the container header (voice messages)';
+COMMENT ON COLUMN public.messages.media_waveform IS 'Waveform summary: amplitude buckets 0-100 (voice messages)';
+
+-- =====================================================
+-- 2. STORAGE BUCKET
+-- =====================================================
+-- Object paths: <conversation_id>/<sender_id>/<uuid>.<ext>
+-- CASE keeps the uuid cast from running on other buckets' object names.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'voice-messages',
+    'voice-messages',
+    false,
+    4194304,
+    ARRAY['audio/wav', 'audio/ogg', 'audio/webm', 'audio/mp4', 'audio/mpeg']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Participants can read voice messages" ON storage.objects;
+CREATE POLICY "Participants can read voice messages" ON storage.objects
+    FOR SELECT TO authenticated
+    USING (
+        CASE WHEN bucket_id = 'voice-messages' THEN
+            public.is_conversation_participant(
+                ((storage.foldername(name))[1])::uuid,
+                (SELECT auth.uid())
+            )
+        ELSE false END
+    );
+
+-- No INSERT policy: uploads only go through send-voice-message (service
+-- role) after the audio checks, so clients can't store unvalidated files
+DROP POLICY IF EXISTS "Participants can upload own voice messages" ON storage.objects;
+
+-- =====================================================
+-- 3. CREATE VOICE MESSAGE
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.create_voice_message(
+    p_conversation_id UUID,
+    p_sender_id UUID,
+    p_storage_path TEXT,
+    p_duration_ms INTEGER,
+    p_waveform SMALLINT[],
+    p_reply_to_message_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_message_id UUID;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_sender_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only send voice messages as yourself' USING ERRCODE = '42501';
+    END IF;
+
+    -- The file must live under this conversation and sender
+    IF p_storage_path NOT LIKE p_conversation_id::text || '/' || p_sender_id::text || '/%' THEN
+        RAISE EXCEPTION 'Voice message path does not match conversation and sender' USING ERRCODE = '22023';
+    END IF;
+
+    v_message_id := public.create_message_and_update_conversation(
+        p_conversation_id,
+        p_sender_id,
+        '🎤 Voice message',
+        p_storage_path,
+        'audio',
+        p_reply_to_message_id
+    );
+
+    IF v_message_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE public.messages
+    SET message_type = 'voice',
+        media_duration_ms = p_duration_ms,
+        media_waveform = p_waveform
+    WHERE id = v_message_id;
+
+    RETURN v_message_id;
+END;
+$$;
+
+-- Only send-voice-message creates voice messages, after validating the audio
+REVOKE ALL ON FUNCTION public.create_voice_message(UUID, UUID, TEXT, INTEGER, SMALLINT[], UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_voice_message(UUID, UUID, TEXT, INTEGER, SMALLINT[], UUID) TO service_role;
+
+COMMENT ON FUNCTION public.create_voice_message(UUID, UUID, TEXT, INTEGER, SMALLINT[], UUID) IS 'Create a voice message for an uploaded voice-messages object, with its duration and waveform summary.';
+
+-- =====================================================
+-- 4. MESSAGE PAGINATION WITH VOICE METADATA
+-- =====================================================
+
+DROP FUNCTION IF EXISTS public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_messages_with_cursor(
+    p_conversation_id UUID,
+    p_limit INTEGER DEFAULT 50,
+    p_cursor TIMESTAMPTZ DEFAULT NULL,
+    p_direction TEXT DEFAULT 'before' -- 'before' or 'after'
+)
+RETURNS TABLE (
+    id UUID,
+    conversation_id UUID,
+    sender_id UUID,
+    content TEXT,
+    message_type TEXT,
+    media_url TEXT,
+    media_type TEXT,
+    media_duration_ms INTEGER,
+    media_waveform SMALLINT[],
+    created_at TIMESTAMPTZ,
+    edited_at TIMESTAMPTZ,
+    unsent_at TIMESTAMPTZ,
+    moderation_removed_at TIMESTAMPTZ,
+    reply_to JSONB,
+    reaction_counts JSONB,
+    my_reactions TEXT[],
+    has_more BOOLEAN,
+    next_cursor TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_total_count INTEGER;
+BEGIN
+    IF auth.role() != 'service_role'
+       AND NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized: Not a participant in this conversation' USING ERRCODE = '42501';
+    END IF;
+
+    -- Max 100 messages per request
+    p_limit := LEAST(COALESCE(p_limit, 50), 100);
+
+    SELECT COUNT(*) INTO v_total_count
+    FROM public.messages m
+    WHERE m.conversation_id = p_conversation_id
+      AND (p_cursor IS NULL
+           OR (p_direction = 'before' AND m.created_at < p_cursor)
+           OR (p_direction <> 'before' AND m.created_at > p_cursor));
+
+    RETURN QUERY
+    WITH page AS (
+        SELECT m.*
+        FROM public.messages m
+        WHERE m.conversation_id = p_conversation_id
+          AND (p_cursor IS NULL
+               OR (p_direction = 'before' AND m.created_at < p_cursor)
+               OR (p_direction <> 'before' AND m.created_at > p_cursor))
+        ORDER BY m.created_at DESC
+        LIMIT p_limit
+    )
+    SELECT
+        page.id,
+        page.conversation_id,
+        page.sender_id,
+        -- Unsent and moderation-removed messages are tombstones: no content or media
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN '' ELSE page.content END,
+        page.message_type::TEXT,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_url END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_type END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_duration_ms END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_waveform END,
+        page.created_at,
+        page.edited_at,
+        page.unsent_at,
+        page.moderation_removed_at,
+        public.message_quote_preview(page.reply_to_message_id),
+        COALESCE(rx.counts, '{}'::jsonb),
+        COALESCE(rx.mine, ARRAY[]::TEXT[]),
+        v_total_count > p_limit,
+        CASE WHEN v_total_count > p_limit
+             THEN (SELECT MIN(p2.created_at) FROM page p2)
+             ELSE NULL
+        END
+    FROM page
+    LEFT JOIN LATERAL (
+        SELECT
+            jsonb_object_agg(rc.reaction, rc.cnt) AS counts,
+            array_agg(rc.reaction) FILTER (WHERE rc.mine) AS mine
+        FROM (
+            SELECT r.reaction,
+                   COUNT(*) AS cnt,
+                   bool_or(r.user_id = auth.uid()) AS mine
+            FROM public.message_reactions r
+            WHERE r.message_id = page.id
+            GROUP BY r.reaction
+        ) rc
+    ) rx ON true
+    ORDER BY page.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) IS 'Cursor-paginated messages for a conversation participant, newest first, with edit/unsend state, reply quotes, voice metadata and reaction counts.';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Voice Messages Migration Complete';
+    RAISE NOTICE '  - messages: media_duration_ms, media_waveform';
+    RAISE NOTICE '  - voice-messages storage bucket (participant-only access)';
+    RAISE NOTICE '  - create_voice_message()';
+    RAISE NOTICE '  - get_messages_with_cursor(): duration + waveform';
+END $$;
+
+COMMIT;
@@ -0,0 +1,631 @@
+-- =====================================================
+-- TYPING INDICATORS AND PRESENCE
+-- =====================================================
+-- Per-conversation typing indicators and online / last-seen presence for
+-- the real-time-match-events stream. Two new privacy switches control what
+-- other people see: show_activity_status (online + last seen, reciprocal:
+-- hiding yours also hides everyone else's from you) and
+-- typing_indicators_enabled. Incognito mode also hides activity status.
+-- Presence rows are no longer readable by every authenticated user; they
+-- go through the privacy-aware functions below instead.
+-- Date: 2025-11-14
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. PRIVACY SETTINGS COLUMNS
+-- =====================================================
+
+ALTER TABLE public.user_settings
+    ADD COLUMN IF NOT EXISTS show_activity_status BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN IF NOT EXISTS typing_indicators_enabled BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.user_settings.show_activity_status IS 'Share online status and last seen with conversation partners (reciprocal)';
+COMMENT ON COLUMN public.user_settings.typing_indicators_enabled IS 'Share typing indicators with conversation partners';
+
+-- =====================================================
+-- 2. PRESENCE TABLE ACCESS
+-- =====================================================
+-- Own row only; other users' presence is read through
+-- get_conversation_presence(), which applies privacy settings.
+
+DROP POLICY IF EXISTS "user_presence_authenticated_view_others" ON public.user_presence CASCADE;
+-- Baseline read-everything policy (20250111000000_enable_realtime_messaging_production)
+DROP POLICY IF EXISTS "Users can view presence" ON public.user_presence CASCADE;
+
+-- =====================================================
+-- 3. PRIVACY SETTINGS READ
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION get_user_privacy_settings(target_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    privacy_settings JSONB;
+BEGIN
+    SELECT jsonb_build_object(
+        'read_receipts_enabled', read_receipts_enabled,
+        'profile_visibility_public', profile_visibility_public,
+        'show_distance_on_profile', show_distance_on_profile,
+        'show_age_on_profile', show_age_on_profile,
+        'show_height_on_profile', show_height_on_profile,
+        'data_sharing_enabled', data_sharing_enabled,
+        'discovery_enabled', discovery_enabled,
+        'incognito_mode', incognito_mode,
+        'show_activity_status', show_activity_status,
+        'typing_indicators_enabled', typing_indicators_enabled
+    ) INTO privacy_settings
+    FROM public.user_settings
+    WHERE user_id = target_user_id;
+    
+    -- Return defaults if no settings found
+    IF privacy_settings IS NULL THEN
+        privacy_settings := jsonb_build_object(
+            'read_receipts_enabled', true,
+            'profile_visibility_public', true,
+            'show_distance_on_profile', true,
+            'show_age_on_profile', true,
+            'show_height_on_profile', false,
+            'data_sharing_enabled', false,
+            'discovery_enabled', true,
+            'incognito_mode', false,
+            'show_activity_status', true,
+            'typing_indicators_enabled', true
+        );
+    END IF;
+    
+    RETURN privacy_settings;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- 4. SETTINGS READ / WRITE
+-- =====================================================
+-- Same as 20251108000000_dealbreaker_preference_filters with the two new
+-- privacy switches.
+
+CREATE OR REPLACE FUNCTION get_user_settings(target_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    settings_record RECORD;
+    settings_json JSONB;
+BEGIN
+    -- Get the user settings
+    SELECT * INTO settings_record
+    FROM public.user_settings 
+    WHERE user_id = target_user_id;
+    
+    -- If no settings exist, return defaults
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'matching_preferences', jsonb_build_object(
+                'preferred_distance_km', 50,
+                'min_age_preference', 21,
+                'max_age_preference', 40,
+                'gender_preference', 'any',
+                'max_height_preference', 84,
+                'zodiac_compatibility_required', false,
+                'children_preference', NULL,
+                'filter_strictness', jsonb_build_object(
+                    'age', 'dealbreaker',
+                    'distance', 'dealbreaker',
+                    'gender', 'dealbreaker',
+                    'children', 'dealbreaker'
+                )
+            ),
+            'privacy_settings', jsonb_build_object(
+                'read_receipts_enabled', true,
+                'profile_visibility_public', true,
+                'show_distance_on_profile', true,
+                'show_age_on_profile', true,
+                'show_height_on_profile', false,
+                'data_sharing_enabled', false,
+                'show_activity_status', true,
+                'typing_indicators_enabled', true
+            ),
+            'notification_settings', jsonb_build_object(
+                'message_notifications_enabled', true,
+                'message_notifications_push', true,
+                'match_notifications_enabled', true,
+                'do_not_disturb_enabled', false
+            ),
+            'discovery_settings', jsonb_build_object(
+                'discovery_enabled', true,
+                'boost_profile', false,
+                'incognito_mode', false
+            ),
+            'settings_version', 1,
+            'created_at', NOW(),
+            'updated_at', NOW()
+        );
+    END IF;
+    
+    -- Build the structured JSON response
+    settings_json := jsonb_build_object(
+        'matching_preferences', jsonb_build_object(
+            'preferred_distance_km', settings_record.preferred_distance_km,
+            'min_age_preference', settings_record.min_age_preference,
+            'max_age_preference', settings_record.max_age_preference,
+            'gender_preference', settings_record.gender_preference,
+            'min_height_preference', settings_record.min_height_preference,
+            'max_height_preference', settings_record.max_height_preference,
+            'education_level_preference', settings_record.education_level_preference,
+            'zodiac_compatibility_required', settings_record.zodiac_compatibility_required,
+            'children_preference', settings_record.children_preference,
+            'filter_strictness', jsonb_build_object(
+                'age', 'dealbreaker',
+                'distance', 'dealbreaker',
+                'gender', 'dealbreaker',
+                'children', 'dealbreaker'
+            ) || settings_record.filter_strictness
+        ),
+        'privacy_settings', jsonb_build_object(
+            'read_receipts_enabled', settings_record.read_receipts_enabled,
+            'profile_visibility_public', settings_record.profile_visibility_public,
+            'show_distance_on_profile', settings_record.show_distance_on_profile,
+            'show_age_on_profile', settings_record.show_age_on_profile,
+            'show_height_on_profile', settings_record.show_height_on_profile,
+            'data_sharing_enabled', settings_record.data_sharing_enabled,
+            'show_activity_status', settings_record.show_activity_status,
+            'typing_indicators_enabled', settings_record.typing_indicators_enabled
+        ),
+        'notification_settings', jsonb_build_object(
+            'message_notifications_enabled', settings_record.message_notifications_enabled,
+            'message_notifications_push', settings_record.message_notifications_push,
+            'message_notifications_email', settings_record.message_notifications_email,
+            'message_notifications_sound', settings_record.message_notifications_sound,
+            'match_notifications_enabled', settings_record.match_notifications_enabled,
+            'match_request_notifications', settings_record.match_request_notifications,
+            'daily_matches_notifications', settings_record.daily_matches_notifications,
+            'app_update_notifications', settings_record.app_update_notifications,
+            'marketing_notifications_enabled', settings_record.marketing_notifications_enabled,
+            'do_not_disturb_enabled', settings_record.do_not_disturb_enabled,
+            'do_not_disturb_start_time', settings_record.do_not_disturb_start_time,
+            'do_not_disturb_end_time', settings_record.do_not_disturb_end_time
+        ),
+        'accessibility_settings', jsonb_build_object(
+            'accessibility_features_enabled', settings_record.accessibility_features_enabled,
+            'large_text_enabled', settings_record.large_text_enabled,
+            'high_contrast_enabled', settings_record.high_contrast_enabled,
+            'reduced_motion_enabled', settings_record.reduced_motion_enabled,
+            'screen_reader_enabled', settings_record.screen_reader_enabled
+        ),
+        'discovery_settings', jsonb_build_object(
+            'discovery_enabled', settings_record.discovery_enabled,
+            'boost_profile', settings_record.boost_profile,
+            'incognito_mode', settings_record.incognito_mode
+        ),
+        'advanced_preferences', settings_record.advanced_preferences,
+        'metadata', jsonb_build_object(
+            'settings_version', settings_record.settings_version,
+            'created_at', settings_record.created_at,
+            'updated_at', settings_record.updated_at
+        )
+    );
+    
+    RETURN settings_json;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_user_settings(
+    target_user_id UUID,
+    settings_update JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    existing_settings RECORD;
+    updated_settings JSONB;
+BEGIN
+    -- Get existing settings or create default
+    SELECT * INTO existing_settings
+    FROM public.user_settings 
+    WHERE user_id = target_user_id;
+    
+    -- If no settings exist, create with defaults
+    IF NOT FOUND THEN
+        INSERT INTO public.user_settings (user_id) VALUES (target_user_id);
+        SELECT * INTO existing_settings
+        FROM public.user_settings 
+        WHERE user_id = target_user_id;
+    END IF;
+    
+    -- Update the settings based on the provided JSONB
+    UPDATE public.user_settings SET
+        -- Matching preferences
+        preferred_distance_km = COALESCE(
+            (settings_update->'matching_preferences'->>'preferred_distance_km')::INTEGER,
+            preferred_distance_km
+        ),
+        min_age_preference = COALESCE(
+            (settings_update->'matching_preferences'->>'min_age_preference')::INTEGER,
+            min_age_preference
+        ),
+        max_age_preference = COALESCE(
+            (settings_update->'matching_preferences'->>'max_age_preference')::INTEGER,
+            max_age_preference
+        ),
+        gender_preference = COALESCE(
+            settings_update->'matching_preferences'->>'gender_preference',
+            gender_preference
+        ),
+        min_height_preference = CASE
+            WHEN settings_update->'matching_preferences' ? 'min_height_preference' THEN
+                (settings_update->'matching_preferences'->>'min_height_preference')::INTEGER
+            ELSE min_height_preference
+        END,
+        max_height_preference = CASE
+            WHEN settings_update->'matching_preferences' ? 'max_height_preference' THEN
+                (settings_update->'matching_preferences'->>'max_height_preference')::INTEGER
+            ELSE max_height_preference
+        END,
+        zodiac_compatibility_required = COALESCE(
+            (settings_update->'matching_preferences'->>'zodiac_compatibility_required')::BOOLEAN,
+            zodiac_compatibility_required
+        ),
+        children_preference = CASE
+            WHEN settings_update->'matching_preferences' ? 'children_preference' THEN
+                CASE
+                    WHEN jsonb_typeof(settings_update->'matching_preferences'->'children_preference') = 'array' THEN
+                        ARRAY(SELECT jsonb_array_elements_text(settings_update->'matching_preferences'->'children_preference'))
+                    ELSE NULL
+                END
+            ELSE children_preference
+        END,
+        -- Per-filter strictness (merge, so a single filter can be changed)
+        filter_strictness = filter_strictness || COALESCE(settings_update->'matching_preferences'->'filter_strictness', '{}'::JSONB),
+        
+        -- Privacy settings
+        read_receipts_enabled = COALESCE(
+            (settings_update->'privacy_settings'->>'read_receipts_enabled')::BOOLEAN,
+            read_receipts_enabled
+        ),
+        profile_visibility_public = COALESCE(
+            (settings_update->'privacy_settings'->>'profile_visibility_public')::BOOLEAN,
+            profile_visibility_public
+        ),
+        show_distance_on_profile = COALESCE(
+            (settings_update->'privacy_settings'->>'show_distance_on_profile')::BOOLEAN,
+            show_distance_on_profile
+        ),
+        show_age_on_profile = COALESCE(
+            (settings_update->'privacy_settings'->>'show_age_on_profile')::BOOLEAN,
+            show_age_on_profile
+        ),
+        show_height_on_profile = COALESCE(
+            (settings_update->'privacy_settings'->>'show_height_on_profile')::BOOLEAN,
+            show_height_on_profile
+        ),
+        data_sharing_enabled = COALESCE(
+            (settings_update->'privacy_settings'->>'data_sharing_enabled')::BOOLEAN,
+            data_sharing_enabled
+        ),
+        show_activity_status = COALESCE(
+            (settings_update->'privacy_settings'->>'show_activity_status')::BOOLEAN,
+            show_activity_status
+        ),
+        typing_indicators_enabled = COALESCE(
+            (settings_update->'privacy_settings'->>'typing_indicators_enabled')::BOOLEAN,
+            typing_indicators_enabled
+        ),
+        
+        -- Notification settings
+        message_notifications_enabled = COALESCE(
+            (settings_update->'notification_settings'->>'message_notifications_enabled')::BOOLEAN,
+            message_notifications_enabled
+        ),
+        message_notifications_push = COALESCE(
+            (settings_update->'notification_settings'->>'message_notifications_push')::BOOLEAN,
+            message_notifications_push
+        ),
+        match_notifications_enabled = COALESCE(
+            (settings_update->'notification_settings'->>'match_notifications_enabled')::BOOLEAN,
+            match_notifications_enabled
+        ),
+        do_not_disturb_enabled = COALESCE(
+            (settings_update->'notification_settings'->>'do_not_disturb_enabled')::BOOLEAN,
+            do_not_disturb_enabled
+        ),
+        
+        -- Discovery settings  
+        discovery_enabled = COALESCE(
+            (settings_update->'discovery_settings'->>'discovery_enabled')::BOOLEAN,
+            discovery_enabled
+        ),
+        boost_profile = COALESCE(
+            (settings_update->'discovery_settings'->>'boost_profile')::BOOLEAN,
+            boost_profile
+        ),
+        incognito_mode = COALESCE(
+            (settings_update->'discovery_settings'->>'incognito_mode')::BOOLEAN,
+            incognito_mode
+        ),
+        
+        -- Advanced preferences (merge JSONB)
+        advanced_preferences = advanced_preferences || COALESCE(settings_update->'advanced_preferences', '{}'::JSONB)
+        
+    WHERE user_id = target_user_id;
+    
+    -- Return the updated settings
+    RETURN get_user_settings(target_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- 5. VISIBILITY CHECK
+-- =====================================================
+
+-- Whether p_viewer_id may see p_owner_id's online status and last seen.
+-- Requires a shared conversation, no block either way, the owner sharing
+-- activity status outside incognito mode, and the viewer sharing theirs.
+CREATE OR REPLACE FUNCTION public.can_view_activity_status(
+    p_owner_id UUID,
+    p_viewer_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_owner_privacy JSONB;
+    v_viewer_privacy JSONB;
+BEGIN
+    IF p_owner_id = p_viewer_id THEN
+        RETURN true;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.conversations c
+        WHERE (c.user1_id = p_owner_id AND c.user2_id = p_viewer_id)
+           OR (c.user1_id = p_viewer_id AND c.user2_id = p_owner_id)
+    ) THEN
+        RETURN false;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.user_blocks b
+        WHERE b.block_type = 'block'
+          AND ((b.blocking_user_id = p_owner_id AND b.blocked_user_id = p_viewer_id)
+            OR (b.blocking_user_id = p_viewer_id AND b.blocked_user_id = p_owner_id))
+    ) THEN
+        RETURN false;
+    END IF;
+
+    v_owner_privacy := get_user_privacy_settings(p_owner_id);
+    v_viewer_privacy := get_user_privacy_settings(p_viewer_id);
+
+    RETURN (v_owner_privacy->>'show_activity_status')::BOOLEAN
+        AND NOT (v_owner_privacy->>'incognito_mode')::BOOLEAN
+        AND (v_viewer_privacy->>'show_activity_status')::BOOLEAN;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_view_activity_status(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.can_view_activity_status(UUID, UUID) TO service_role;
+
+COMMENT ON FUNCTION public.can_view_activity_status(UUID, UUID) IS 'True when the viewer may see the owner''s online status and last seen (shared conversation, not blocked, both sharing activity status, owner not incognito).';
+
+-- =====================================================
+-- 6. PRESENCE
+-- =====================================================
+
+-- Record the caller's own presence. Going offline stamps last_seen_at.
+CREATE OR REPLACE FUNCTION public.set_user_presence(
+    p_user_id UUID,
+    p_status TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_presence RECORD;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only set your own presence' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_status NOT IN ('online', 'offline', 'away') THEN
+        RAISE EXCEPTION 'Invalid presence status: %', p_status USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.user_presence (user_id, status, last_seen_at, updated_at)
+    VALUES (p_user_id, p_status, NOW(), NOW())
+    ON CONFLICT (user_id) DO UPDATE
+        SET status = EXCLUDED.status,
+            last_seen_at = NOW(),
+            updated_at = NOW()
+    RETURNING status, last_seen_at INTO v_presence;
+
+    RETURN jsonb_build_object(
+        'user_id', p_user_id,
+        'status', v_presence.status,
+        'last_seen_at', v_presence.last_seen_at
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_user_presence(UUID, TEXT) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.set_user_presence(UUID, TEXT) IS 'Upserts the caller''s presence (online/away/offline) and last_seen_at.';
+
+-- Conversation partners allowed to see p_user_id's presence changes
+CREATE OR REPLACE FUNCTION public.get_presence_audience(p_user_id UUID)
+RETURNS TABLE (
+    viewer_id UUID,
+    conversation_id UUID
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only list your own presence audience' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT partner.viewer_id, partner.conversation_id
+    FROM (
+        SELECT CASE WHEN c.user1_id = p_user_id THEN c.user2_id ELSE c.user1_id END AS viewer_id,
+               c.id AS conversation_id
+        FROM public.conversations c
+        WHERE c.user1_id = p_user_id OR c.user2_id = p_user_id
+    ) partner
+    WHERE public.can_view_activity_status(p_user_id, partner.viewer_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_presence_audience(UUID) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.get_presence_audience(UUID) IS 'Conversation partners who may see the user''s presence, one row per conversation.';
+
+-- Presence of everyone p_user_id has a conversation with, where visible
+CREATE OR REPLACE FUNCTION public.get_conversation_presence(p_user_id UUID)
+RETURNS TABLE (
+    conversation_id UUID,
+    user_id UUID,
+    status TEXT,
+    last_seen_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only read presence as yourself' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT partner.conversation_id,
+           partner.partner_id,
+           COALESCE(up.status, 'offline'),
+           up.last_seen_at
+    FROM (
+        SELECT c.id AS conversation_id,
+               CASE WHEN c.user1_id = p_user_id THEN c.user2_id ELSE c.user1_id END AS partner_id
+        FROM public.conversations c
+        WHERE c.user1_id = p_user_id OR c.user2_id = p_user_id
+    ) partner
+    LEFT JOIN public.user_presence up ON up.user_id = partner.partner_id
+    WHERE public.can_view_activity_status(partner.partner_id, p_user_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_conversation_presence(UUID) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.get_conversation_presence(UUID) IS 'Online status and last seen of the user''s conversation partners, filtered by privacy settings and blocks.';
+
+-- =====================================================
+-- 7. TYPING INDICATORS
+-- =====================================================
+
+-- When each user's last "started typing" indicator was forwarded per
+-- conversation. Shared by every real-time-match-events instance, so the
+-- throttle holds however requests are routed.
+CREATE TABLE IF NOT EXISTS public.typing_indicator_state (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+    started_sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, conversation_id)
+);
+
+ALTER TABLE public.typing_indicator_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage typing indicator state" ON public.typing_indicator_state
+    FOR ALL USING ((SELECT auth.role()) = 'service_role');
+
+-- Check and throttle p_user_id's typing indicator in a conversation.
+-- "Started" indicators are forwarded at most once per 3 seconds; a
+-- "stopped" indicator only while a "started" one is still showing (clients
+-- expire it after 6 seconds). Returns {success, reason, recipient_id}.
+CREATE OR REPLACE FUNCTION public.record_typing_indicator(
+    p_conversation_id UUID,
+    p_user_id UUID,
+    p_is_typing BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    c_started_throttle CONSTANT INTERVAL := INTERVAL '3 seconds';
+    c_indicator_ttl CONSTANT INTERVAL := INTERVAL '6 seconds';
+    v_conversation RECORD;
+    v_recipient_id UUID;
+    v_started_sent_at TIMESTAMPTZ;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only send typing indicators as yourself' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT c.user1_id, c.user2_id INTO v_conversation
+    FROM public.conversations c
+    WHERE c.id = p_conversation_id;
+
+    IF NOT FOUND OR p_user_id NOT IN (v_conversation.user1_id, v_conversation.user2_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_participant');
+    END IF;
+
+    v_recipient_id := CASE WHEN v_conversation.user1_id = p_user_id
+        THEN v_conversation.user2_id ELSE v_conversation.user1_id END;
+
+    IF NOT (get_user_privacy_settings(p_user_id)->>'typing_indicators_enabled')::BOOLEAN THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'typing_disabled');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.user_blocks b
+        WHERE b.block_type = 'block'
+          AND ((b.blocking_user_id = p_user_id AND b.blocked_user_id = v_recipient_id)
+            OR (b.blocking_user_id = v_recipient_id AND b.blocked_user_id = p_user_id))
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'blocked');
+    END IF;
+
+    IF p_is_typing THEN
+        INSERT INTO public.typing_indicator_state (user_id, conversation_id, started_sent_at)
+        VALUES (p_user_id, p_conversation_id, NOW())
+        ON CONFLICT (user_id, conversation_id) DO UPDATE
+            SET started_sent_at = NOW()
+            WHERE typing_indicator_state.started_sent_at <= NOW() - c_started_throttle
+        RETURNING started_sent_at INTO v_started_sent_at;
+
+        IF v_started_sent_at IS NULL THEN
+            RETURN jsonb_build_object('success', false, 'reason', 'throttled');
+        END IF;
+    ELSE
+        DELETE FROM public.typing_indicator_state
+        WHERE user_id = p_user_id AND conversation_id = p_conversation_id
+        RETURNING started_sent_at INTO v_started_sent_at;
+
+        IF v_started_sent_at IS NULL OR v_started_sent_at < NOW() - c_indicator_ttl THEN
+            RETURN jsonb_build_object('success', false, 'reason', 'throttled');
+        END IF;
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'recipient_id', v_recipient_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_typing_indicator(UUID, UUID, BOOLEAN) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.record_typing_indicator(UUID, UUID, BOOLEAN) IS 'Throttles a typing indicator and returns its recipient, or a reason it should not be sent (not_participant, typing_disabled, blocked, throttled).';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Typing Indicators and Presence Migration Complete';
+    RAISE NOTICE '  - user_settings: show_activity_status, typing_indicators_enabled';
+    RAISE NOTICE '  - user_presence: readable only by its owner';
+    RAISE NOTICE '  - get_user_privacy_settings(), get_user_settings(), update_user_settings(): new switches';
+    RAISE NOTICE '  - set_user_presence(), get_presence_audience(), get_conversation_presence()';
+    RAISE NOTICE '  - typing_indicator_state, record_typing_indicator(): throttled typing indicators';
+END $$;
+
+COMMIT;
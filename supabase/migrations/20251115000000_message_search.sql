@@ -0,0 +1,169 @@
+-- =====================================================
+-- MESSAGE SEARCH
+-- =====================================================
+-- Full-text search over the caller's own conversations for the
+-- search-messages function. Unsent and moderation-removed messages are
+-- never matched, and conversations with a blocked user (either direction)
+-- are skipped. Each hit carries a jump cursor for get_messages_with_cursor
+-- so the client can open the thread at that message.
+-- Date: 2025-11-15
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. FULL-TEXT INDEX
+-- =====================================================
+-- Expression index rather than a stored column, so the messages table is
+-- not rewritten. Queries must use the same expression to hit it.
+
+CREATE INDEX IF NOT EXISTS idx_messages_content_search
+    ON public.messages
+    USING GIN (to_tsvector('english'::regconfig, COALESCE(content, '')))
+    WHERE unsent_at IS NULL AND moderation_removed_at IS NULL;
+
+-- =====================================================
+-- 2. SEARCH FUNCTION
+-- =====================================================
+-- Results are newest first and paginate with the same timestamp cursor
+-- contract as get_messages_with_cursor. jump_cursor is the message time
+-- plus one microsecond: get_messages_with_cursor(conversation_id, limit,
+-- jump_cursor, 'before') returns a page that starts at the hit.
+-- Snippets mark matched terms with <mark>...</mark>.
+
+CREATE OR REPLACE FUNCTION public.search_messages(
+    p_user_id UUID,
+    p_query TEXT,
+    p_conversation_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_cursor TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    message_id UUID,
+    conversation_id UUID,
+    sender_id UUID,
+    other_user_id UUID,
+    message_type TEXT,
+    created_at TIMESTAMPTZ,
+    snippet TEXT,
+    rank REAL,
+    jump_cursor TIMESTAMPTZ,
+    has_more BOOLEAN,
+    next_cursor TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_query tsquery;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only search your own messages' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_conversation_id IS NOT NULL
+       AND NOT public.is_conversation_participant(p_conversation_id, p_user_id) THEN
+        RAISE EXCEPTION 'Unauthorized: Not a participant in this conversation' USING ERRCODE = '42501';
+    END IF;
+
+    -- Max 50 results per request
+    p_limit := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50);
+
+    v_query := websearch_to_tsquery('english'::regconfig, COALESCE(p_query, ''));
+
+    -- Stop words only ("the", "and"...) produce an empty query
+    IF numnode(v_query) = 0 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH my_conversations AS (
+        SELECT
+            c.id,
+            CASE WHEN c.user1_id = p_user_id THEN c.user2_id ELSE c.user1_id END AS other_user_id
+        FROM public.conversations c
+        WHERE (c.user1_id = p_user_id OR c.user2_id = p_user_id)
+          AND (p_conversation_id IS NULL OR c.id = p_conversation_id)
+    ),
+    visible_conversations AS (
+        SELECT mc.*
+        FROM my_conversations mc
+        -- Not blocked in either direction
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.user_blocks b
+            WHERE b.block_type = 'block'
+              AND ((b.blocking_user_id = p_user_id AND b.blocked_user_id = mc.other_user_id)
+                OR (b.blocking_user_id = mc.other_user_id AND b.blocked_user_id = p_user_id))
+        )
+    ),
+    hits AS (
+        SELECT
+            m.id,
+            m.conversation_id,
+            m.sender_id,
+            vc.other_user_id,
+            m.message_type::TEXT AS message_type,
+            m.created_at,
+            m.content,
+            ts_rank(to_tsvector('english'::regconfig, COALESCE(m.content, '')), v_query) AS rank
+        FROM public.messages m
+        JOIN visible_conversations vc ON vc.id = m.conversation_id
+        WHERE m.unsent_at IS NULL
+          AND m.moderation_removed_at IS NULL
+          AND to_tsvector('english'::regconfig, COALESCE(m.content, '')) @@ v_query
+          AND (p_cursor IS NULL OR m.created_at < p_cursor)
+        ORDER BY m.created_at DESC
+        LIMIT p_limit + 1
+    ),
+    page_meta AS (
+        SELECT
+            COUNT(*) > p_limit AS more,
+            (SELECT MIN(x.created_at) FROM (
+                SELECT h.created_at FROM hits h ORDER BY h.created_at DESC LIMIT p_limit
+            ) x) AS last_created_at
+        FROM hits
+    ),
+    page AS (
+        SELECT h.*
+        FROM hits h
+        ORDER BY h.created_at DESC
+        LIMIT p_limit
+    )
+    SELECT
+        pg.id,
+        pg.conversation_id,
+        pg.sender_id,
+        pg.other_user_id,
+        pg.message_type,
+        pg.created_at,
+        -- Headlines are only built for the returned page
+        ts_headline(
+            'english'::regconfig,
+            pg.content,
+            v_query,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=6, MaxFragments=2, FragmentDelimiter=" … "'
+        ),
+        pg.rank,
+        pg.created_at + INTERVAL '1 microsecond',
+        pm.more,
+        CASE WHEN pm.more THEN pm.last_created_at ELSE NULL END
+    FROM page pg
+    CROSS JOIN page_meta pm
+    ORDER BY pg.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_messages(UUID, TEXT, UUID, INTEGER, TIMESTAMPTZ) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.search_messages(UUID, TEXT, UUID, INTEGER, TIMESTAMPTZ) IS 'Full-text search over the caller''s conversations, newest first, with highlighted snippets and get_messages_with_cursor jump cursors. Skips unsent/removed messages and blocked users.';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Message Search Migration Complete';
+    RAISE NOTICE '  - idx_messages_content_search (GIN, english tsvector)';
+    RAISE NOTICE '  - search_messages()';
+END $$;
+
+COMMIT;
@@ -0,0 +1,351 @@
+-- =====================================================
+-- MESSAGE LINK PREVIEWS
+-- =====================================================
+-- send-message unfurls the first link in a message (Open Graph title,
+-- description and image) and stores the result with the message, so
+-- clients render a card instead of a raw URL. Previews are hidden on
+-- unsent/removed messages and dropped when the message is edited.
+-- Date: 2025-11-16
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. PREVIEW COLUMN
+-- =====================================================
+
+ALTER TABLE public.messages
+    ADD COLUMN IF NOT EXISTS link_preview JSONB
+        CHECK (link_preview IS NULL OR jsonb_typeof(link_preview) = 'object');
+
+COMMENT ON COLUMN public.messages.link_preview IS 'Unfurled preview of the first link: {url, title, description, image_url, site_name, fetched_at}';
+
+-- Previews come from send-message's resolver only; a client inserting
+-- directly can't attach one (the title/image would be forgeable)
+DROP POLICY IF EXISTS "messages_authenticated_insert_no_link_preview" ON public.messages;
+CREATE POLICY "messages_authenticated_insert_no_link_preview"
+    ON public.messages
+    AS RESTRICTIVE
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (link_preview IS NULL);
+
+-- =====================================================
+-- 2. SEND WITH LINK PREVIEW
+-- =====================================================
+-- New optional parameter; drop the 6-argument version so named calls
+-- from send-message resolve to a single function.
+
+DROP FUNCTION IF EXISTS public.create_message_and_update_conversation(UUID, UUID, TEXT, TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.create_message_and_update_conversation(
+    p_conversation_id UUID,
+    p_sender_id UUID,
+    p_content TEXT,
+    p_media_url TEXT DEFAULT NULL,
+    p_media_type TEXT DEFAULT NULL,
+    p_reply_to_message_id UUID DEFAULT NULL,
+    p_link_preview JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_message_id UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.conversations WHERE id = p_conversation_id) THEN
+        RAISE EXCEPTION 'Conversation with id % does not exist', p_conversation_id;
+    END IF;
+
+    IF NOT public.is_conversation_participant(p_conversation_id, p_sender_id) THEN
+        RAISE EXCEPTION 'User % is not a participant in conversation %', p_sender_id, p_conversation_id;
+    END IF;
+
+    -- Replies must point at a message in the same conversation
+    IF p_reply_to_message_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.messages
+        WHERE id = p_reply_to_message_id
+          AND conversation_id = p_conversation_id
+    ) THEN
+        RAISE EXCEPTION 'Reply target % is not in conversation %', p_reply_to_message_id, p_conversation_id;
+    END IF;
+
+    INSERT INTO public.messages (
+        conversation_id,
+        sender_id,
+        content,
+        media_url,
+        media_type,
+        reply_to_message_id,
+        link_preview,
+        created_at
+    )
+    VALUES (
+        p_conversation_id,
+        p_sender_id,
+        p_content,
+        p_media_url,
+        p_media_type,
+        p_reply_to_message_id,
+        p_link_preview,
+        NOW()
+    )
+    RETURNING id INTO v_message_id;
+
+    UPDATE public.conversations
+    SET
+        last_message_preview = CASE
+            WHEN LENGTH(p_content) > 100 THEN LEFT(p_content, 100) || '...'
+            ELSE p_content
+        END,
+        last_message_at = NOW(),
+        updated_at = NOW()
+    WHERE id = p_conversation_id;
+
+    RETURN v_message_id;
+
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE WARNING 'Error in create_message_and_update_conversation: %', SQLERRM;
+        RETURN NULL;
+END;
+$$;
+
+-- p_link_preview is stored as given, so only send-message (which resolves
+-- the preview itself) may call this
+REVOKE ALL ON FUNCTION public.create_message_and_update_conversation(UUID, UUID, TEXT, TEXT, TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_message_and_update_conversation(UUID, UUID, TEXT, TEXT, TEXT, UUID, JSONB) TO service_role;
+
+COMMENT ON FUNCTION public.create_message_and_update_conversation(UUID, UUID, TEXT, TEXT, TEXT, UUID, JSONB) IS
+'Creates a new message in a conversation and updates the conversation last message info. Returns the message ID. Supports optional media, an optional reply_to_message_id in the same conversation and an optional link preview.';
+
+-- =====================================================
+-- 3. EDITS DROP THE PREVIEW
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.edit_message(
+    p_message_id UUID,
+    p_user_id UUID,
+    p_new_content TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    c_edit_window CONSTANT INTERVAL := INTERVAL '15 minutes';
+    v_message RECORD;
+    v_edited_at TIMESTAMPTZ := NOW();
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only edit your own messages' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT id, conversation_id, sender_id, content, edit_count, unsent_at, moderation_removed_at, created_at
+    INTO v_message
+    FROM public.messages
+    WHERE id = p_message_id
+    FOR UPDATE;
+
+    -- Messages in conversations the caller is not part of are reported as missing
+    IF NOT FOUND OR NOT public.is_conversation_participant(v_message.conversation_id, p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_message.sender_id IS DISTINCT FROM p_user_id THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_sender');
+    END IF;
+
+    IF v_message.moderation_removed_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'removed');
+    END IF;
+
+    IF v_message.unsent_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'unsent');
+    END IF;
+
+    IF v_message.created_at < NOW() - c_edit_window THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'window_expired');
+    END IF;
+
+    IF v_message.content = p_new_content THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'unchanged');
+    END IF;
+
+    INSERT INTO public.message_edit_history (
+        message_id, conversation_id, editor_id, action, version, previous_content, new_content
+    ) VALUES (
+        v_message.id, v_message.conversation_id, p_user_id, 'edit',
+        v_message.edit_count + 1, v_message.content, p_new_content
+    );
+
+    UPDATE public.messages
+    SET content = p_new_content,
+        edited_at = v_edited_at,
+        edit_count = edit_count + 1,
+        -- The preview belonged to the old text
+        link_preview = NULL,
+        updated_at = v_edited_at
+    WHERE id = v_message.id;
+
+    -- Keep the conversation preview in sync when the latest message changed
+    UPDATE public.conversations c
+    SET last_message_preview = CASE
+            WHEN LENGTH(p_new_content) > 100 THEN LEFT(p_new_content, 100) || '...'
+            ELSE p_new_content
+        END,
+        updated_at = v_edited_at
+    WHERE c.id = v_message.conversation_id
+      AND NOT EXISTS (
+          SELECT 1 FROM public.messages later
+          WHERE later.conversation_id = v_message.conversation_id
+            AND later.created_at > v_message.created_at
+      );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message_id', v_message.id,
+        'conversation_id', v_message.conversation_id,
+        'content', p_new_content,
+        'edited_at', v_edited_at,
+        'edit_count', v_message.edit_count + 1
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.edit_message(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.edit_message(UUID, UUID, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.edit_message(UUID, UUID, TEXT) IS 'Edit own message within the edit window. The previous version is archived in message_edit_history.';
+
+-- =====================================================
+-- 4. MESSAGE PAGINATION WITH LINK PREVIEWS
+-- =====================================================
+
+DROP FUNCTION IF EXISTS public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_messages_with_cursor(
+    p_conversation_id UUID,
+    p_limit INTEGER DEFAULT 50,
+    p_cursor TIMESTAMPTZ DEFAULT NULL,
+    p_direction TEXT DEFAULT 'before' -- 'before' or 'after'
+)
+RETURNS TABLE (
+    id UUID,
+    conversation_id UUID,
+    sender_id UUID,
+    content TEXT,
+    message_type TEXT,
+    media_url TEXT,
+    media_type TEXT,
+    media_duration_ms INTEGER,
+    media_waveform SMALLINT[],
+    link_preview JSONB,
+    created_at TIMESTAMPTZ,
+    edited_at TIMESTAMPTZ,
+    unsent_at TIMESTAMPTZ,
+    moderation_removed_at TIMESTAMPTZ,
+    reply_to JSONB,
+    reaction_counts JSONB,
+    my_reactions TEXT[],
+    has_more BOOLEAN,
+    next_cursor TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_total_count INTEGER;
+BEGIN
+    IF auth.role() != 'service_role'
+       AND NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized: Not a participant in this conversation' USING ERRCODE = '42501';
+    END IF;
+
+    -- Max 100 messages per request
+    p_limit := LEAST(COALESCE(p_limit, 50), 100);
+
+    SELECT COUNT(*) INTO v_total_count
+    FROM public.messages m
+    WHERE m.conversation_id = p_conversation_id
+      AND (p_cursor IS NULL
+           OR (p_direction = 'before' AND m.created_at < p_cursor)
+           OR (p_direction <> 'before' AND m.created_at > p_cursor));
+
+    RETURN QUERY
+    WITH page AS (
+        SELECT m.*
+        FROM public.messages m
+        WHERE m.conversation_id = p_conversation_id
+          AND (p_cursor IS NULL
+               OR (p_direction = 'before' AND m.created_at < p_cursor)
+               OR (p_direction <> 'before' AND m.created_at > p_cursor))
+        ORDER BY m.created_at DESC
+        LIMIT p_limit
+    )
+    SELECT
+        page.id,
+        page.conversation_id,
+        page.sender_id,
+        -- Unsent and moderation-removed messages are tombstones: no content or media
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN '' ELSE page.content END,
+        page.message_type::TEXT,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_url END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_type END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_duration_ms END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_waveform END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.link_preview END,
+        page.created_at,
+        page.edited_at,
+        page.unsent_at,
+        page.moderation_removed_at,
+        public.message_quote_preview(page.reply_to_message_id),
+        COALESCE(rx.counts, '{}'::jsonb),
+        COALESCE(rx.mine, ARRAY[]::TEXT[]),
+        v_total_count > p_limit,
+        CASE WHEN v_total_count > p_limit
+             THEN (SELECT MIN(p2.created_at) FROM page p2)
+             ELSE NULL
+        END
+    FROM page
+    LEFT JOIN LATERAL (
+        SELECT
+            jsonb_object_agg(rc.reaction, rc.cnt) AS counts,
+            array_agg(rc.reaction) FILTER (WHERE rc.mine) AS mine
+        FROM (
+            SELECT r.reaction,
+                   COUNT(*) AS cnt,
+                   bool_or(r.user_id = auth.uid()) AS mine
+            FROM public.message_reactions r
+            WHERE r.message_id = page.id
+            GROUP BY r.reaction
+        ) rc
+    ) rx ON true
+    ORDER BY page.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) IS 'Cursor-paginated messages for a conversation participant, newest first, with edit/unsend state, reply quotes, voice metadata, link previews and reaction counts.';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Message Link Previews Migration Complete';
+    RAISE NOTICE '  - messages.link_preview';
+    RAISE NOTICE '  - create_message_and_update_conversation(): p_link_preview';
+    RAISE NOTICE '  - edit_message(): clears link_preview';
+    RAISE NOTICE '  - get_messages_with_cursor(): link_preview';
+END $$;
+
+COMMIT;
@@ -0,0 +1,830 @@
+-- =====================================================
+-- SCHEDULED AND DISAPPEARING MESSAGES
+-- =====================================================
+-- send-message accepts send_at (deliver later) and expires_in_seconds
+-- (disappear after delivery). Scheduled messages wait in their own table
+-- and only enter public.messages when the deliver-scheduled-messages
+-- worker picks them up, so realtime, conversation previews, unread counts
+-- and push all see them at delivery time; until then the sender can cancel
+-- them (cancel-scheduled-message). Expired messages are hidden from reads
+-- immediately and hard-deleted by the same worker.
+-- Date: 2025-11-17
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. MESSAGE EXPIRY
+-- =====================================================
+
+ALTER TABLE public.messages
+    ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_messages_expires_at
+    ON public.messages (expires_at)
+    WHERE expires_at IS NOT NULL;
+
+COMMENT ON COLUMN public.messages.expires_at IS 'Disappearing messages: hidden from reads after this time and purged by deliver-scheduled-messages';
+
+-- Purging hard-deletes expired messages; edit, unsend and moderation
+-- removal records in message_edit_history must outlive them
+ALTER TABLE public.message_edit_history
+    ALTER COLUMN message_id DROP NOT NULL,
+    DROP CONSTRAINT IF EXISTS message_edit_history_message_id_fkey,
+    ADD CONSTRAINT message_edit_history_message_id_fkey
+        FOREIGN KEY (message_id) REFERENCES public.messages(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.message_edit_history.message_id IS 'NULL once the message itself was purged (disappearing messages); conversation_id is kept';
+
+-- Purging removes new_message notifications that point at the message
+CREATE INDEX IF NOT EXISTS idx_user_notifications_message_id
+    ON public.user_notifications ((metadata->>'messageId'))
+    WHERE type = 'new_message';
+
+-- =====================================================
+-- 2. SCHEDULED MESSAGES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.scheduled_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+    sender_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    content TEXT NOT NULL,
+    media_url TEXT,
+    media_type TEXT,
+    reply_to_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+    link_preview JSONB,
+    notification_preview TEXT,
+    send_at TIMESTAMPTZ NOT NULL,
+    expires_in_seconds INTEGER CHECK (expires_in_seconds IS NULL OR expires_in_seconds > 0),
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'delivered', 'failed', 'cancelled')),
+    message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL,
+    failure_reason TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due
+    ON public.scheduled_messages (send_at)
+    WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_sender
+    ON public.scheduled_messages (sender_id, conversation_id, send_at)
+    WHERE status = 'pending';
+
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- Only the sender knows a message is queued; writes go through
+-- schedule_message and cancel_scheduled_message
+DROP POLICY IF EXISTS "scheduled_messages_sender_select" ON public.scheduled_messages;
+CREATE POLICY "scheduled_messages_sender_select" ON public.scheduled_messages
+    FOR SELECT
+    USING ((SELECT auth.uid()) = sender_id);
+
+COMMENT ON TABLE public.scheduled_messages IS 'Messages queued by send-message with send_at; moved into messages by deliver_due_scheduled_messages';
+COMMENT ON COLUMN public.scheduled_messages.notification_preview IS 'Unescaped first 100 characters for the push notification sent on delivery';
+
+CREATE OR REPLACE FUNCTION public.schedule_message(
+    p_conversation_id UUID,
+    p_sender_id UUID,
+    p_content TEXT,
+    p_send_at TIMESTAMPTZ,
+    p_media_url TEXT DEFAULT NULL,
+    p_media_type TEXT DEFAULT NULL,
+    p_reply_to_message_id UUID DEFAULT NULL,
+    p_link_preview JSONB DEFAULT NULL,
+    p_expires_in_seconds INTEGER DEFAULT NULL,
+    p_notification_preview TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_scheduled_id UUID;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_sender_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot schedule messages for another user' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT public.is_conversation_participant(p_conversation_id, p_sender_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_participant');
+    END IF;
+
+    -- At least a minute out, at most 30 days
+    IF p_send_at < NOW() + INTERVAL '1 minute' OR p_send_at > NOW() + INTERVAL '30 days' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'invalid_send_at');
+    END IF;
+
+    -- Cap the queue per conversation so it can't be used to flood later
+    IF (
+        SELECT COUNT(*) FROM public.scheduled_messages
+        WHERE sender_id = p_sender_id
+          AND conversation_id = p_conversation_id
+          AND status = 'pending'
+    ) >= 20 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'too_many_scheduled');
+    END IF;
+
+    INSERT INTO public.scheduled_messages (
+        conversation_id,
+        sender_id,
+        content,
+        media_url,
+        media_type,
+        reply_to_message_id,
+        link_preview,
+        notification_preview,
+        send_at,
+        expires_in_seconds
+    )
+    VALUES (
+        p_conversation_id,
+        p_sender_id,
+        p_content,
+        p_media_url,
+        p_media_type,
+        p_reply_to_message_id,
+        p_link_preview,
+        LEFT(p_notification_preview, 100),
+        p_send_at,
+        p_expires_in_seconds
+    )
+    RETURNING id INTO v_scheduled_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'scheduled_message_id', v_scheduled_id,
+        'conversation_id', p_conversation_id,
+        'send_at', p_send_at,
+        'expires_in_seconds', p_expires_in_seconds
+    );
+END;
+$$;
+
+-- Like create_message_and_update_conversation, the link preview is trusted
+-- as given: send-message only
+REVOKE ALL ON FUNCTION public.schedule_message(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT, TEXT, UUID, JSONB, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.schedule_message(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT, TEXT, UUID, JSONB, INTEGER, TEXT) TO service_role;
+
+COMMENT ON FUNCTION public.schedule_message(UUID, UUID, TEXT, TIMESTAMPTZ, TEXT, TEXT, UUID, JSONB, INTEGER, TEXT) IS 'Queue a message for delivery at send_at (1 minute to 30 days out, max 20 pending per conversation).';
+
+CREATE OR REPLACE FUNCTION public.cancel_scheduled_message(
+    p_scheduled_message_id UUID,
+    p_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_row public.scheduled_messages%ROWTYPE;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot cancel messages for another user' USING ERRCODE = '42501';
+    END IF;
+
+    -- Waits for a delivery run holding the row, then sees its final status
+    SELECT * INTO v_row
+    FROM public.scheduled_messages
+    WHERE id = p_scheduled_message_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_row.sender_id != p_user_id THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_sender');
+    END IF;
+
+    IF v_row.status != 'pending' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_pending', 'status', v_row.status);
+    END IF;
+
+    UPDATE public.scheduled_messages
+    SET status = 'cancelled'
+    WHERE id = p_scheduled_message_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'scheduled_message_id', v_row.id,
+        'conversation_id', v_row.conversation_id,
+        'send_at', v_row.send_at
+    );
+END;
+$$;
+
+-- Called by cancel-scheduled-message after authenticating the sender
+REVOKE ALL ON FUNCTION public.cancel_scheduled_message(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_scheduled_message(UUID, UUID) TO service_role;
+
+COMMENT ON FUNCTION public.cancel_scheduled_message(UUID, UUID) IS 'Cancel own scheduled message while it is still pending.';
+
+-- =====================================================
+-- 3. SEND WITH EXPIRY
+-- =====================================================
+-- New optional parameter; drop the 7-argument version so named calls
+-- from send-message resolve to a single function.
+
+DROP FUNCTION IF EXISTS public.create_message_and_update_conversation(UUID, UUID, TEXT, TEXT, TEXT, UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.create_message_and_update_conversation(
+    p_conversation_id UUID,
+    p_sender_id UUID,
+    p_content TEXT,
+    p_media_url TEXT DEFAULT NULL,
+    p_media_type TEXT DEFAULT NULL,
+    p_reply_to_message_id UUID DEFAULT NULL,
+    p_link_preview JSONB DEFAULT NULL,
+    p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_message_id UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.conversations WHERE id = p_conversation_id) THEN
+        RAISE EXCEPTION 'Conversation with id % does not exist', p_conversation_id;
+    END IF;
+
+    IF NOT public.is_conversation_participant(p_conversation_id, p_sender_id) THEN
+        RAISE EXCEPTION 'User % is not a participant in conversation %', p_sender_id, p_conversation_id;
+    END IF;
+
+    -- Replies must point at a message in the same conversation
+    IF p_reply_to_message_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.messages
+        WHERE id = p_reply_to_message_id
+          AND conversation_id = p_conversation_id
+    ) THEN
+        RAISE EXCEPTION 'Reply target % is not in conversation %', p_reply_to_message_id, p_conversation_id;
+    END IF;
+
+    INSERT INTO public.messages (
+        conversation_id,
+        sender_id,
+        content,
+        media_url,
+        media_type,
+        reply_to_message_id,
+        link_preview,
+        expires_at,
+        created_at
+    )
+    VALUES (
+        p_conversation_id,
+        p_sender_id,
+        p_content,
+        p_media_url,
+        p_media_type,
+        p_reply_to_message_id,
+        p_link_preview,
+        p_expires_at,
+        NOW()
+    )
+    RETURNING id INTO v_message_id;
+
+    UPDATE public.conversations
+    SET
+        last_message_preview = CASE
+            WHEN LENGTH(p_content) > 100 THEN LEFT(p_content, 100) || '...'
+            ELSE p_content
+        END,
+        last_message_at = NOW(),
+        updated_at = NOW()
+    WHERE id = p_conversation_id;
+
+    RETURN v_message_id;
+
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE WARNING 'Error in create_message_and_update_conversation: %', SQLERRM;
+        RETURN NULL;
+END;
+$$;
+
+-- Service-only, as in 20251116: the link preview is stored as given
+REVOKE ALL ON FUNCTION public.create_message_and_update_conversation(UUID, UUID, TEXT, TEXT, TEXT, UUID, JSONB, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_message_and_update_conversation(UUID, UUID, TEXT, TEXT, TEXT, UUID, JSONB, TIMESTAMPTZ) TO service_role;
+
+COMMENT ON FUNCTION public.create_message_and_update_conversation(UUID, UUID, TEXT, TEXT, TEXT, UUID, JSONB, TIMESTAMPTZ) IS
+'Creates a new message in a conversation and updates the conversation last message info. Returns the message ID. Supports optional media, an optional reply_to_message_id in the same conversation, an optional link preview and an optional expiry.';
+
+-- =====================================================
+-- 4. DELIVERY AND PURGE (deliver-scheduled-messages worker)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.deliver_due_scheduled_messages(p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+    scheduled_message_id UUID,
+    message_id UUID,
+    conversation_id UUID,
+    sender_id UUID,
+    notification_preview TEXT,
+    status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_row public.scheduled_messages%ROWTYPE;
+    v_message_id UUID;
+BEGIN
+    IF auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: service role only' USING ERRCODE = '42501';
+    END IF;
+
+    -- SKIP LOCKED lets overlapping worker runs split the queue
+    FOR v_row IN
+        SELECT sm.*
+        FROM public.scheduled_messages sm
+        WHERE sm.status = 'pending'
+          AND sm.send_at <= NOW()
+        ORDER BY sm.send_at
+        LIMIT LEAST(COALESCE(p_limit, 100), 500)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        -- Returns NULL if the sender left the conversation or the reply target moved
+        v_message_id := public.create_message_and_update_conversation(
+            v_row.conversation_id,
+            v_row.sender_id,
+            v_row.content,
+            v_row.media_url,
+            v_row.media_type,
+            v_row.reply_to_message_id,
+            v_row.link_preview,
+            CASE WHEN v_row.expires_in_seconds IS NOT NULL
+                 THEN NOW() + make_interval(secs => v_row.expires_in_seconds)
+            END
+        );
+
+        UPDATE public.scheduled_messages sm
+        SET status = CASE WHEN v_message_id IS NULL THEN 'failed' ELSE 'delivered' END,
+            message_id = v_message_id,
+            failure_reason = CASE WHEN v_message_id IS NULL THEN 'delivery_failed' END,
+            delivered_at = CASE WHEN v_message_id IS NULL THEN NULL ELSE NOW() END
+        WHERE sm.id = v_row.id;
+
+        scheduled_message_id := v_row.id;
+        message_id := v_message_id;
+        conversation_id := v_row.conversation_id;
+        sender_id := v_row.sender_id;
+        notification_preview := v_row.notification_preview;
+        status := CASE WHEN v_message_id IS NULL THEN 'failed' ELSE 'delivered' END;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.deliver_due_scheduled_messages(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.deliver_due_scheduled_messages(INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.deliver_due_scheduled_messages(INTEGER) IS 'Worker: move due scheduled messages into messages. Returns one row per attempt (delivered or failed).';
+
+CREATE OR REPLACE FUNCTION public.purge_expired_messages(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (
+    conversation_id UUID,
+    purged_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_message_ids UUID[];
+    v_conversation_ids UUID[];
+BEGIN
+    IF auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: service role only' USING ERRCODE = '42501';
+    END IF;
+
+    -- Reactions and receipts cascade; edit history and replies keep a NULL message
+    WITH doomed AS (
+        SELECT m.id
+        FROM public.messages m
+        WHERE m.expires_at <= NOW()
+        ORDER BY m.expires_at
+        LIMIT LEAST(COALESCE(p_limit, 500), 5000)
+        FOR UPDATE SKIP LOCKED
+    ),
+    deleted AS (
+        DELETE FROM public.messages m
+        USING doomed
+        WHERE m.id = doomed.id
+        RETURNING m.id, m.conversation_id
+    )
+    SELECT array_agg(deleted.id), array_agg(deleted.conversation_id)
+    INTO v_message_ids, v_conversation_ids
+    FROM deleted;
+
+    IF v_message_ids IS NULL THEN
+        RETURN;
+    END IF;
+
+    DELETE FROM public.user_notifications n
+    WHERE n.type = 'new_message'
+      AND n.metadata->>'messageId' = ANY (v_message_ids::TEXT[]);
+
+    -- Conversation previews fall back to the newest remaining message
+    UPDATE public.conversations c
+    SET last_message_preview = latest.preview,
+        last_message_at = COALESCE(latest.created_at, c.created_at)
+    FROM (
+        SELECT DISTINCT unnest(v_conversation_ids) AS id
+    ) affected
+    LEFT JOIN LATERAL (
+        SELECT
+            CASE
+                WHEN m.unsent_at IS NOT NULL OR m.moderation_removed_at IS NOT NULL THEN NULL
+                WHEN LENGTH(m.content) > 100 THEN LEFT(m.content, 100) || '...'
+                ELSE m.content
+            END AS preview,
+            m.created_at
+        FROM public.messages m
+        WHERE m.conversation_id = affected.id
+          AND (m.expires_at IS NULL OR m.expires_at > NOW())
+        ORDER BY m.created_at DESC
+        LIMIT 1
+    ) latest ON true
+    WHERE c.id = affected.id;
+
+    RETURN QUERY
+    SELECT purged.id, COUNT(*)::INTEGER
+    FROM unnest(v_conversation_ids) AS purged(id)
+    GROUP BY purged.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_messages(INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.purge_expired_messages(INTEGER) TO service_role;
+
+COMMENT ON FUNCTION public.purge_expired_messages(INTEGER) IS 'Worker: hard-delete expired messages and their message notifications, and refresh conversation previews. message_edit_history rows are kept.';
+
+-- =====================================================
+-- 5. READS SKIP EXPIRED MESSAGES
+-- =====================================================
+-- Between expiry and the next purge run, expired messages are filtered out.
+
+-- Same as 20251029000000_fix_performance_advisory_errors, plus expiry, so
+-- direct table reads and realtime don't return expired messages either
+DROP POLICY IF EXISTS "messages_authenticated_view" ON public.messages CASCADE;
+
+CREATE POLICY "messages_authenticated_view"
+ON public.messages
+FOR SELECT
+TO authenticated
+USING (
+    (expires_at IS NULL OR expires_at > (SELECT NOW()))
+    AND EXISTS (
+        SELECT 1 FROM public.conversations c
+        WHERE c.id = conversation_id
+        AND (c.user1_id = (SELECT auth.uid()) OR c.user2_id = (SELECT auth.uid()))
+    )
+);
+
+CREATE OR REPLACE FUNCTION public.message_quote_preview(p_message_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+    SELECT jsonb_build_object(
+        'id', m.id,
+        'sender_id', m.sender_id,
+        'created_at', m.created_at,
+        'state', CASE
+            WHEN m.moderation_removed_at IS NOT NULL THEN 'removed'
+            WHEN m.unsent_at IS NOT NULL THEN 'unsent'
+            WHEN m.expires_at <= NOW() THEN 'expired'
+            ELSE 'visible'
+        END,
+        'preview', CASE
+            WHEN m.moderation_removed_at IS NOT NULL OR m.unsent_at IS NOT NULL THEN NULL
+            WHEN m.expires_at <= NOW() THEN NULL
+            WHEN LENGTH(m.content) > 100 THEN LEFT(m.content, 100) || '...'
+            ELSE m.content
+        END,
+        'media_type', CASE
+            WHEN m.moderation_removed_at IS NOT NULL OR m.unsent_at IS NOT NULL THEN NULL
+            WHEN m.expires_at <= NOW() THEN NULL
+            ELSE m.media_type
+        END
+    )
+    FROM public.messages m
+    WHERE m.id = p_message_id;
+$$;
+
+-- Only called from get_messages_with_cursor, which performs the participant check
+REVOKE EXECUTE ON FUNCTION public.message_quote_preview(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.message_quote_preview(UUID) TO service_role;
+
+COMMENT ON FUNCTION public.message_quote_preview(UUID) IS 'Compact quoted preview of a replied-to message, hiding unsent, moderation-removed and expired content.';
+
+DROP FUNCTION IF EXISTS public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_messages_with_cursor(
+    p_conversation_id UUID,
+    p_limit INTEGER DEFAULT 50,
+    p_cursor TIMESTAMPTZ DEFAULT NULL,
+    p_direction TEXT DEFAULT 'before' -- 'before' or 'after'
+)
+RETURNS TABLE (
+    id UUID,
+    conversation_id UUID,
+    sender_id UUID,
+    content TEXT,
+    message_type TEXT,
+    media_url TEXT,
+    media_type TEXT,
+    media_duration_ms INTEGER,
+    media_waveform SMALLINT[],
+    link_preview JSONB,
+    expires_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ,
+    edited_at TIMESTAMPTZ,
+    unsent_at TIMESTAMPTZ,
+    moderation_removed_at TIMESTAMPTZ,
+    reply_to JSONB,
+    reaction_counts JSONB,
+    my_reactions TEXT[],
+    has_more BOOLEAN,
+    next_cursor TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_total_count INTEGER;
+BEGIN
+    IF auth.role() != 'service_role'
+       AND NOT public.is_conversation_participant(p_conversation_id, auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized: Not a participant in this conversation' USING ERRCODE = '42501';
+    END IF;
+
+    -- Max 100 messages per request
+    p_limit := LEAST(COALESCE(p_limit, 50), 100);
+
+    SELECT COUNT(*) INTO v_total_count
+    FROM public.messages m
+    WHERE m.conversation_id = p_conversation_id
+      AND (m.expires_at IS NULL OR m.expires_at > NOW())
+      AND (p_cursor IS NULL
+           OR (p_direction = 'before' AND m.created_at < p_cursor)
+           OR (p_direction <> 'before' AND m.created_at > p_cursor));
+
+    RETURN QUERY
+    WITH page AS (
+        SELECT m.*
+        FROM public.messages m
+        WHERE m.conversation_id = p_conversation_id
+          AND (m.expires_at IS NULL OR m.expires_at > NOW())
+          AND (p_cursor IS NULL
+               OR (p_direction = 'before' AND m.created_at < p_cursor)
+               OR (p_direction <> 'before' AND m.created_at > p_cursor))
+        ORDER BY m.created_at DESC
+        LIMIT p_limit
+    )
+    SELECT
+        page.id,
+        page.conversation_id,
+        page.sender_id,
+        -- Unsent and moderation-removed messages are tombstones: no content or media
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN '' ELSE page.content END,
+        page.message_type::TEXT,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_url END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_type END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_duration_ms END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.media_waveform END,
+        CASE WHEN page.unsent_at IS NOT NULL OR page.moderation_removed_at IS NOT NULL
+             THEN NULL ELSE page.link_preview END,
+        page.expires_at,
+        page.created_at,
+        page.edited_at,
+        page.unsent_at,
+        page.moderation_removed_at,
+        public.message_quote_preview(page.reply_to_message_id),
+        COALESCE(rx.counts, '{}'::jsonb),
+        COALESCE(rx.mine, ARRAY[]::TEXT[]),
+        v_total_count > p_limit,
+        CASE WHEN v_total_count > p_limit
+             THEN (SELECT MIN(p2.created_at) FROM page p2)
+             ELSE NULL
+        END
+    FROM page
+    LEFT JOIN LATERAL (
+        SELECT
+            jsonb_object_agg(rc.reaction, rc.cnt) AS counts,
+            array_agg(rc.reaction) FILTER (WHERE rc.mine) AS mine
+        FROM (
+            SELECT r.reaction,
+                   COUNT(*) AS cnt,
+                   bool_or(r.user_id = auth.uid()) AS mine
+            FROM public.message_reactions r
+            WHERE r.message_id = page.id
+            GROUP BY r.reaction
+        ) rc
+    ) rx ON true
+    ORDER BY page.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.get_messages_with_cursor(UUID, INTEGER, TIMESTAMPTZ, TEXT) IS 'Cursor-paginated messages for a conversation participant, newest first, with edit/unsend state, reply quotes, voice metadata, link previews and reaction counts. Expired messages are omitted.';
+
+CREATE OR REPLACE FUNCTION public.search_messages(
+    p_user_id UUID,
+    p_query TEXT,
+    p_conversation_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 20,
+    p_cursor TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+    message_id UUID,
+    conversation_id UUID,
+    sender_id UUID,
+    other_user_id UUID,
+    message_type TEXT,
+    created_at TIMESTAMPTZ,
+    snippet TEXT,
+    rank REAL,
+    jump_cursor TIMESTAMPTZ,
+    has_more BOOLEAN,
+    next_cursor TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_query tsquery;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only search your own messages' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_conversation_id IS NOT NULL
+       AND NOT public.is_conversation_participant(p_conversation_id, p_user_id) THEN
+        RAISE EXCEPTION 'Unauthorized: Not a participant in this conversation' USING ERRCODE = '42501';
+    END IF;
+
+    -- Max 50 results per request
+    p_limit := LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50);
+
+    v_query := websearch_to_tsquery('english'::regconfig, COALESCE(p_query, ''));
+
+    -- Stop words only ("the", "and"...) produce an empty query
+    IF numnode(v_query) = 0 THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH my_conversations AS (
+        SELECT
+            c.id,
+            CASE WHEN c.user1_id = p_user_id THEN c.user2_id ELSE c.user1_id END AS other_user_id
+        FROM public.conversations c
+        WHERE (c.user1_id = p_user_id OR c.user2_id = p_user_id)
+          AND (p_conversation_id IS NULL OR c.id = p_conversation_id)
+    ),
+    visible_conversations AS (
+        SELECT mc.*
+        FROM my_conversations mc
+        -- Not blocked in either direction
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.user_blocks b
+            WHERE b.block_type = 'block'
+              AND ((b.blocking_user_id = p_user_id AND b.blocked_user_id = mc.other_user_id)
+                OR (b.blocking_user_id = mc.other_user_id AND b.blocked_user_id = p_user_id))
+        )
+    ),
+    hits AS (
+        SELECT
+            m.id,
+            m.conversation_id,
+            m.sender_id,
+            vc.other_user_id,
+            m.message_type::TEXT AS message_type,
+            m.created_at,
+            m.content,
+            ts_rank(to_tsvector('english'::regconfig, COALESCE(m.content, '')), v_query) AS rank
+        FROM public.messages m
+        JOIN visible_conversations vc ON vc.id = m.conversation_id
+        WHERE m.unsent_at IS NULL
+          AND m.moderation_removed_at IS NULL
+          AND (m.expires_at IS NULL OR m.expires_at > NOW())
+          AND to_tsvector('english'::regconfig, COALESCE(m.content, '')) @@ v_query
+          AND (p_cursor IS NULL OR m.created_at < p_cursor)
+        ORDER BY m.created_at DESC
+        LIMIT p_limit + 1
+    ),
+    page_meta AS (
+        SELECT
+            COUNT(*) > p_limit AS more,
+            (SELECT MIN(x.created_at) FROM (
+                SELECT h.created_at FROM hits h ORDER BY h.created_at DESC LIMIT p_limit
+            ) x) AS last_created_at
+        FROM hits
+    ),
+    page AS (
+        SELECT h.*
+        FROM hits h
+        ORDER BY h.created_at DESC
+        LIMIT p_limit
+    )
+    SELECT
+        pg.id,
+        pg.conversation_id,
+        pg.sender_id,
+        pg.other_user_id,
+        pg.message_type,
+        pg.created_at,
+        -- Headlines are only built for the returned page
+        ts_headline(
+            'english'::regconfig,
+            pg.content,
+            v_query,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=6, MaxFragments=2, FragmentDelimiter=" … "'
+        ),
+        pg.rank,
+        pg.created_at + INTERVAL '1 microsecond',
+        pm.more,
+        CASE WHEN pm.more THEN pm.last_created_at ELSE NULL END
+    FROM page pg
+    CROSS JOIN page_meta pm
+    ORDER BY pg.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_messages(UUID, TEXT, UUID, INTEGER, TIMESTAMPTZ) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.search_messages(UUID, TEXT, UUID, INTEGER, TIMESTAMPTZ) IS 'Full-text search over the caller''s conversations, newest first, with highlighted snippets and get_messages_with_cursor jump cursors. Skips unsent/removed/expired messages and blocked users.';
+
+-- =====================================================
+-- 6. UNREAD NOTIFICATION COUNT
+-- =====================================================
+-- Notifications not yet due and notifications for expired messages are not
+-- counted.
+
+CREATE OR REPLACE FUNCTION get_unread_notification_count(
+    p_user_id UUID DEFAULT auth.uid()
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN (
+        SELECT COUNT(*)::INTEGER
+        FROM user_notifications n
+        WHERE n.user_id = p_user_id
+        AND n.status != 'read'
+        AND (n.expires_at IS NULL OR n.expires_at > NOW())
+        AND (n.scheduled_for IS NULL OR n.scheduled_for <= NOW())
+        AND NOT (
+            n.type = 'new_message'
+            AND EXISTS (
+                SELECT 1 FROM messages m
+                WHERE m.id = CASE
+                        WHEN n.metadata->>'messageId' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+                        THEN (n.metadata->>'messageId')::UUID
+                    END
+                AND m.expires_at <= NOW()
+            )
+        )
+    );
+END;
+$$;
+
+COMMENT ON FUNCTION get_unread_notification_count(UUID) IS 'Get count of unread notifications for user, excluding notifications not yet due and those for expired messages';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Scheduled and Disappearing Messages Migration Complete';
+    RAISE NOTICE '  - messages.expires_at';
+    RAISE NOTICE '  - scheduled_messages table + schedule_message(), cancel_scheduled_message()';
+    RAISE NOTICE '  - message_edit_history.message_id: ON DELETE SET NULL';
+    RAISE NOTICE '  - create_message_and_update_conversation(): p_expires_at';
+    RAISE NOTICE '  - deliver_due_scheduled_messages(), purge_expired_messages()';
+    RAISE NOTICE '  - messages_authenticated_view policy, get_messages_with_cursor(), search_messages(), message_quote_preview(): expiry aware';
+    RAISE NOTICE '  - get_unread_notification_count(): delivered messages only';
+END $$;
+
+COMMIT;
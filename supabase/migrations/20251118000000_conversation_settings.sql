@@ -0,0 +1,415 @@
+-- =====================================================
+-- PER-CONVERSATION MUTE, PIN AND ARCHIVE
+-- =====================================================
+-- Each participant keeps their own settings for a conversation: muted
+-- until a time (or forever), pinned to the top of the list, archived out
+-- of the default list. Backs update-conversation-settings; mute is honoured
+-- by should_send_notification, pin/archive by
+-- get_user_conversations_with_details. archive_conversation now archives
+-- for the caller only instead of for both participants.
+-- Date: 2025-11-18
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. SETTINGS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.conversation_settings (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+    muted_until TIMESTAMPTZ, -- 'infinity' mutes until unmuted
+    pinned_at TIMESTAMPTZ,
+    archived_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, conversation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_settings_pinned
+    ON public.conversation_settings (user_id, pinned_at DESC)
+    WHERE pinned_at IS NOT NULL;
+
+ALTER TABLE public.conversation_settings ENABLE ROW LEVEL SECURITY;
+
+-- Settings are private to their owner; writes go through update_conversation_settings
+DROP POLICY IF EXISTS "conversation_settings_owner_select" ON public.conversation_settings;
+CREATE POLICY "conversation_settings_owner_select" ON public.conversation_settings
+    FOR SELECT
+    USING ((SELECT auth.uid()) = user_id);
+
+COMMENT ON TABLE public.conversation_settings IS 'Per-user, per-conversation mute/pin/archive flags';
+
+-- Carry over conversations archived through the old archive_conversation
+INSERT INTO public.conversation_settings (user_id, conversation_id, archived_at)
+SELECT c.archived_by, c.id, c.archived_at
+FROM public.conversations c
+WHERE c.archived_at IS NOT NULL
+  AND c.archived_by IS NOT NULL
+ON CONFLICT (user_id, conversation_id) DO UPDATE
+    SET archived_at = EXCLUDED.archived_at;
+
+-- =====================================================
+-- 2. UPDATE SETTINGS
+-- =====================================================
+-- p_changes carries only the keys being changed:
+--   muted_until: timestamp, 'infinity' or null (unmute)
+--   pinned:      boolean
+--   archived:    boolean
+
+CREATE OR REPLACE FUNCTION public.update_conversation_settings(
+    p_user_id UUID,
+    p_conversation_id UUID,
+    p_changes JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_settings public.conversation_settings%ROWTYPE;
+    v_muted_until TIMESTAMPTZ;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot change conversation settings for another user' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.conversations c
+        WHERE c.id = p_conversation_id
+          AND c.deleted_at IS NULL
+          AND (c.user1_id = p_user_id OR c.user2_id = p_user_id)
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_participant');
+    END IF;
+
+    IF p_changes ? 'muted_until' THEN
+        v_muted_until := (p_changes->>'muted_until')::TIMESTAMPTZ;
+        IF v_muted_until IS NOT NULL AND v_muted_until <= NOW() THEN
+            RETURN jsonb_build_object('success', false, 'reason', 'invalid_muted_until');
+        END IF;
+    END IF;
+
+    -- Pins are capped so the top of the list stays meaningful
+    IF (p_changes->>'pinned')::BOOLEAN IS TRUE AND (
+        SELECT COUNT(*) FROM public.conversation_settings cs
+        WHERE cs.user_id = p_user_id
+          AND cs.pinned_at IS NOT NULL
+          AND cs.conversation_id <> p_conversation_id
+    ) >= 5 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'too_many_pinned');
+    END IF;
+
+    INSERT INTO public.conversation_settings (user_id, conversation_id)
+    VALUES (p_user_id, p_conversation_id)
+    ON CONFLICT (user_id, conversation_id) DO NOTHING;
+
+    UPDATE public.conversation_settings cs
+    SET muted_until = CASE WHEN p_changes ? 'muted_until' THEN v_muted_until ELSE cs.muted_until END,
+        pinned_at = CASE
+            WHEN NOT p_changes ? 'pinned' THEN cs.pinned_at
+            WHEN (p_changes->>'pinned')::BOOLEAN THEN COALESCE(cs.pinned_at, NOW())
+            ELSE NULL
+        END,
+        archived_at = CASE
+            WHEN NOT p_changes ? 'archived' THEN cs.archived_at
+            WHEN (p_changes->>'archived')::BOOLEAN THEN COALESCE(cs.archived_at, NOW())
+            ELSE NULL
+        END,
+        updated_at = NOW()
+    WHERE cs.user_id = p_user_id
+      AND cs.conversation_id = p_conversation_id
+    RETURNING cs.* INTO v_settings;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'conversation_id', p_conversation_id,
+        'muted_until', v_settings.muted_until,
+        'is_muted', COALESCE(v_settings.muted_until > NOW(), false),
+        'pinned', v_settings.pinned_at IS NOT NULL,
+        'pinned_at', v_settings.pinned_at,
+        'archived', v_settings.archived_at IS NOT NULL,
+        'archived_at', v_settings.archived_at,
+        'updated_at', v_settings.updated_at
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_conversation_settings(UUID, UUID, JSONB) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.update_conversation_settings(UUID, UUID, JSONB) IS 'Change the caller''s mute/pin/archive settings for one conversation. Only keys present in p_changes are updated; at most 5 pinned conversations.';
+
+-- =====================================================
+-- 3. ARCHIVE PER USER
+-- =====================================================
+-- Same signature and result as before, now stored in conversation_settings
+-- so archiving no longer hides the chat from the other participant.
+
+CREATE OR REPLACE FUNCTION public.archive_conversation(
+    p_conversation_id UUID,
+    p_archive BOOLEAN DEFAULT TRUE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_result JSONB;
+BEGIN
+    v_user_id := auth.uid();
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+    END IF;
+
+    v_result := public.update_conversation_settings(
+        v_user_id,
+        p_conversation_id,
+        jsonb_build_object('archived', p_archive)
+    );
+
+    IF NOT (v_result->>'success')::BOOLEAN THEN
+        RAISE EXCEPTION 'Conversation not found or unauthorized' USING ERRCODE = '02000';
+    END IF;
+
+    IF p_archive THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'conversation_id', p_conversation_id,
+            'archived_at', v_result->'archived_at',
+            'message', 'Conversation archived'
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'conversation_id', p_conversation_id,
+        'unarchived_at', NOW(),
+        'message', 'Conversation unarchived'
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.archive_conversation(UUID, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.archive_conversation(UUID, BOOLEAN) IS 'Archive or unarchive a conversation for the caller only (see update_conversation_settings).';
+
+-- =====================================================
+-- 4. MUTED CONVERSATIONS SKIP PUSH
+-- =====================================================
+-- New optional parameter; drop the 2-argument version so existing named
+-- calls resolve to a single function.
+
+DROP FUNCTION IF EXISTS should_send_notification(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION should_send_notification(
+    target_user_id UUID,
+    notification_type TEXT DEFAULT 'message',
+    conversation_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    prefs JSONB;
+    dnd_enabled BOOLEAN;
+    dnd_start_time TIME;
+    dnd_end_time TIME;
+    check_time TIME;
+    type_enabled BOOLEAN := TRUE;
+BEGIN
+    -- Get notification preferences
+    SELECT get_user_notification_preferences(target_user_id) INTO prefs;
+
+    -- Check if this notification type is enabled
+    CASE notification_type
+        WHEN 'message' THEN
+            type_enabled := (prefs->>'message_notifications_enabled')::BOOLEAN;
+        WHEN 'match' THEN
+            type_enabled := (prefs->>'match_notifications_enabled')::BOOLEAN;
+        WHEN 'match_request' THEN
+            type_enabled := (prefs->>'match_request_notifications')::BOOLEAN;
+        WHEN 'daily_matches' THEN
+            type_enabled := (prefs->>'daily_matches_notifications')::BOOLEAN;
+        WHEN 'app_update' THEN
+            type_enabled := (prefs->>'app_update_notifications')::BOOLEAN;
+        WHEN 'marketing' THEN
+            type_enabled := (prefs->>'marketing_notifications_enabled')::BOOLEAN;
+        ELSE
+            type_enabled := TRUE; -- Default to enabled for unknown types
+    END CASE;
+
+    -- If type is disabled, don't send
+    IF NOT type_enabled THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Muted conversations never push
+    IF conversation_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.conversation_settings cs
+        WHERE cs.user_id = target_user_id
+          AND cs.conversation_id = should_send_notification.conversation_id
+          AND cs.muted_until > NOW()
+    ) THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Check Do Not Disturb
+    dnd_enabled := (prefs->>'do_not_disturb_enabled')::BOOLEAN;
+
+    IF dnd_enabled THEN
+        dnd_start_time := (prefs->>'do_not_disturb_start_time')::TIME;
+        dnd_end_time := (prefs->>'do_not_disturb_end_time')::TIME;
+        check_time := LOCALTIME;
+
+        -- Handle DND times that cross midnight
+        IF dnd_start_time > dnd_end_time THEN
+            -- DND period crosses midnight (e.g., 22:00 to 08:00)
+            IF check_time >= dnd_start_time OR check_time <= dnd_end_time THEN
+                RETURN FALSE;
+            END IF;
+        ELSE
+            -- DND period within same day (e.g., 12:00 to 14:00)
+            IF check_time >= dnd_start_time AND check_time <= dnd_end_time THEN
+                RETURN FALSE;
+            END IF;
+        END IF;
+    END IF;
+    
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reads another user's DND window and mutes, so only server-side senders
+-- (service role) may ask
+REVOKE ALL ON FUNCTION should_send_notification(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION should_send_notification(UUID, TEXT, UUID) TO service_role;
+
+COMMENT ON FUNCTION should_send_notification(UUID, TEXT, UUID) IS 'Determines if a notification should be sent to a user based on their preferences, Do Not Disturb settings and, when conversation_id is given, whether they muted that conversation';
+
+-- =====================================================
+-- 5. CONVERSATION LIST WITH PIN/ARCHIVE
+-- =====================================================
+
+DROP FUNCTION IF EXISTS get_user_conversations_with_details(uuid);
+
+CREATE OR REPLACE FUNCTION get_user_conversations_with_details(
+    p_user_id uuid,
+    p_include_archived boolean DEFAULT false
+)
+RETURNS TABLE (
+    conversation_id uuid,
+    match_id uuid,
+    other_participant_id uuid,
+    other_participant_display_name text,
+    other_participant_avatar_url text,
+    last_message_preview text,
+    last_message_at timestamptz,
+    conversation_created_at timestamptz,
+    conversation_updated_at timestamptz,
+    is_pinned boolean,
+    pinned_at timestamptz,
+    is_archived boolean,
+    muted_until timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot list conversations for another user' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.id AS conversation_id,
+        c.match_id,
+        CASE
+            WHEN c.user1_id = p_user_id THEN c.user2_id
+            ELSE c.user1_id
+        END AS other_participant_id,
+        CASE
+            WHEN c.user1_id = p_user_id THEN p2.display_name
+            ELSE p1.display_name
+        END AS other_participant_display_name,
+        CASE
+            WHEN c.user1_id = p_user_id THEN p2.avatar_url
+            ELSE p1.avatar_url
+        END AS other_participant_avatar_url,
+        shown.preview AS last_message_preview,
+        shown.message_at AS last_message_at,
+        c.created_at AS conversation_created_at,
+        c.updated_at AS conversation_updated_at,
+        cs.pinned_at IS NOT NULL AS is_pinned,
+        cs.pinned_at,
+        cs.archived_at IS NOT NULL AS is_archived,
+        -- Expired mutes read as unmuted
+        CASE WHEN cs.muted_until > NOW() THEN cs.muted_until END AS muted_until
+    FROM
+        public.conversations c
+    LEFT JOIN
+        public.profiles p1 ON c.user1_id = p1.id
+    LEFT JOIN
+        public.profiles p2 ON c.user2_id = p2.id
+    LEFT JOIN
+        public.conversation_settings cs
+        ON cs.conversation_id = c.id AND cs.user_id = p_user_id
+    -- The stored preview may be a disappearing message that expired since
+    -- the last purge run; fall back to the newest message still visible
+    LEFT JOIN LATERAL (
+        SELECT COALESCE(m.expires_at <= NOW(), false) AS expired
+        FROM public.messages m
+        WHERE m.conversation_id = c.id
+        ORDER BY m.created_at DESC
+        LIMIT 1
+    ) newest ON true
+    LEFT JOIN LATERAL (
+        SELECT
+            CASE
+                WHEN m.unsent_at IS NOT NULL OR m.moderation_removed_at IS NOT NULL THEN NULL
+                WHEN LENGTH(m.content) > 100 THEN LEFT(m.content, 100) || '...'
+                ELSE m.content
+            END AS preview,
+            m.created_at
+        FROM public.messages m
+        WHERE newest.expired
+          AND m.conversation_id = c.id
+          AND (m.expires_at IS NULL OR m.expires_at > NOW())
+        ORDER BY m.created_at DESC
+        LIMIT 1
+    ) visible ON true
+    CROSS JOIN LATERAL (
+        SELECT
+            CASE WHEN newest.expired THEN visible.preview ELSE c.last_message_preview END AS preview,
+            CASE WHEN newest.expired THEN COALESCE(visible.created_at, c.created_at) ELSE c.last_message_at END AS message_at
+    ) shown
+    WHERE
+        (c.user1_id = p_user_id OR c.user2_id = p_user_id)
+        AND (p_include_archived OR cs.archived_at IS NULL)
+    ORDER BY
+        cs.pinned_at DESC NULLS LAST, -- Pinned first, most recently pinned on top
+        shown.message_at DESC NULLS LAST; -- Then most recent conversations
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_user_conversations_with_details(uuid, boolean) TO authenticated;
+
+COMMENT ON FUNCTION get_user_conversations_with_details(uuid, boolean) IS
+'Fetches the caller''s conversations with the other participant and the last message preview.
+Pinned conversations come first, then by most recent message. Archived conversations are
+omitted unless p_include_archived.';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Conversation Settings Migration Complete';
+    RAISE NOTICE '  - conversation_settings table (muted_until, pinned_at, archived_at)';
+    RAISE NOTICE '  - update_conversation_settings()';
+    RAISE NOTICE '  - archive_conversation(): per-user archive';
+    RAISE NOTICE '  - should_send_notification(): conversation mute';
+    RAISE NOTICE '  - get_user_conversations_with_details(): pinned first, archived hidden';
+END $$;
+
+COMMIT;
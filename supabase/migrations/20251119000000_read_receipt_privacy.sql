@@ -0,0 +1,563 @@
+-- =====================================================
+-- READ RECEIPT PRIVACY MODE
+-- =====================================================
+-- Enforces the read_receipts_enabled privacy switch (update-user-settings
+-- privacy_settings). Receipts are reciprocal: they are only shared when
+-- both participants have them on, so hiding yours also hides everyone
+-- else's from you. A private read no longer touches messages.read_at,
+-- which the sender can read through RLS and realtime; the reader's own
+-- read state lives in message_read_receipts instead. Turning the switch
+-- off later clears the read_at already shared in that user's conversations,
+-- and get_user_conversations_with_details now returns the caller's unread
+-- count from the receipts.
+-- Date: 2025-11-19
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. RECEIPT ROWS: SENDERS ONLY SEE SHARED RECEIPTS
+-- =====================================================
+
+-- The table is in the realtime publication, so this also keeps private
+-- reads off the sender's change stream
+DROP POLICY IF EXISTS "Users can access relevant read receipts" ON public.message_read_receipts;
+CREATE POLICY "Users can access relevant read receipts" ON public.message_read_receipts
+    FOR SELECT USING (
+        (SELECT auth.uid()) = reader_id OR
+        (
+            (SELECT auth.uid()) = sender_id
+            AND mutual_receipts_enabled = true
+            AND public.should_share_read_receipt(sender_id, reader_id)
+        )
+    );
+
+-- Reads go through mark_message_read so the sharing decision can't be forged
+DROP POLICY IF EXISTS "Users can create read receipts" ON public.message_read_receipts;
+REVOKE INSERT ON public.message_read_receipts FROM authenticated;
+
+-- Private reads recorded before this migration leaked read_at to the sender
+UPDATE public.messages m
+SET read_at = NULL,
+    read_receipt_sent = false
+FROM public.message_read_receipts rr
+WHERE rr.message_id = m.id
+  AND rr.mutual_receipts_enabled = false
+  AND m.read_at IS NOT NULL;
+
+-- Turning receipts off hides them both ways, so read_at that was shared
+-- earlier is cleared on every message in the user's conversations. The
+-- readers' own receipt rows are kept for their unread counts.
+CREATE OR REPLACE FUNCTION public.clear_read_at_when_receipts_disabled()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.messages m
+    SET read_at = NULL,
+        read_receipt_sent = false
+    FROM public.conversations c
+    WHERE m.conversation_id = c.id
+      AND (c.user1_id = NEW.user_id OR c.user2_id = NEW.user_id)
+      AND m.read_at IS NOT NULL;
+
+    RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.clear_read_at_when_receipts_disabled() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS trigger_clear_read_at_when_receipts_disabled ON public.user_settings;
+CREATE TRIGGER trigger_clear_read_at_when_receipts_disabled
+    AFTER UPDATE OF read_receipts_enabled ON public.user_settings
+    FOR EACH ROW
+    WHEN (OLD.read_receipts_enabled IS DISTINCT FROM false AND NEW.read_receipts_enabled = false)
+    EXECUTE FUNCTION public.clear_read_at_when_receipts_disabled();
+
+-- =====================================================
+-- 2. MARK AS READ
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION mark_message_read(
+    p_message_id UUID,
+    p_reader_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    message_info RECORD;
+    existing_read_at TIMESTAMPTZ;
+    reader_enabled BOOLEAN;
+    sender_enabled BOOLEAN;
+    receipt_should_be_shared BOOLEAN;
+    receipt_record_id UUID;
+    result JSONB;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_reader_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot mark messages read for another user' USING ERRCODE = '42501';
+    END IF;
+
+    -- Get message information
+    SELECT
+        m.id,
+        m.sender_id,
+        m.conversation_id,
+        m.read_at,
+        c.user1_id,
+        c.user2_id
+    INTO message_info
+    FROM public.messages m
+    JOIN public.conversations c ON c.id = m.conversation_id
+    WHERE m.id = p_message_id;
+
+    -- Validate message exists and user is authorized to read it
+    IF message_info IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'Message not found or access denied',
+            'message_id', p_message_id
+        );
+    END IF;
+
+    -- Validate user is part of the conversation
+    IF p_reader_id != message_info.user1_id AND p_reader_id != message_info.user2_id THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'User not authorized to read this message',
+            'message_id', p_message_id
+        );
+    END IF;
+
+    -- Don't process read receipts for the sender reading their own message
+    IF p_reader_id = message_info.sender_id THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'message', 'Sender reading own message - no receipt needed',
+            'message_id', p_message_id,
+            'read_at', NOW()
+        );
+    END IF;
+
+    -- The reader's own receipt row is the source of truth; read_at on the
+    -- message is only set when the receipt was shared
+    SELECT rr.read_at INTO existing_read_at
+    FROM public.message_read_receipts rr
+    WHERE rr.message_id = p_message_id AND rr.reader_id = p_reader_id;
+
+    IF existing_read_at IS NOT NULL OR message_info.read_at IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'success', true,
+            'message', 'Message already marked as read',
+            'message_id', p_message_id,
+            'read_at', COALESCE(existing_read_at, message_info.read_at)
+        );
+    END IF;
+
+    SELECT COALESCE(us.read_receipts_enabled, true) INTO reader_enabled
+    FROM public.user_settings us WHERE us.user_id = p_reader_id;
+
+    SELECT COALESCE(us.read_receipts_enabled, true) INTO sender_enabled
+    FROM public.user_settings us WHERE us.user_id = message_info.sender_id;
+
+    reader_enabled := COALESCE(reader_enabled, true);
+    sender_enabled := COALESCE(sender_enabled, true);
+    receipt_should_be_shared := reader_enabled AND sender_enabled;
+
+    -- Only a shared receipt is visible on the message row
+    IF receipt_should_be_shared THEN
+        UPDATE public.messages
+        SET
+            read_at = NOW(),
+            read_receipt_sent = true
+        WHERE id = p_message_id;
+    END IF;
+
+    -- Create detailed read receipt record
+    INSERT INTO public.message_read_receipts (
+        message_id,
+        reader_id,
+        sender_id,
+        conversation_id,
+        reader_receipts_enabled,
+        sender_receipts_enabled,
+        mutual_receipts_enabled,
+        delivered_at,
+        read_at,
+        receipt_sent_at
+    ) VALUES (
+        p_message_id,
+        p_reader_id,
+        message_info.sender_id,
+        message_info.conversation_id,
+        reader_enabled,
+        sender_enabled,
+        receipt_should_be_shared,
+        NOW() - INTERVAL '1 second', -- Assume delivered just before read
+        NOW(),
+        CASE WHEN receipt_should_be_shared THEN NOW() ELSE NULL END
+    )
+    ON CONFLICT (message_id, reader_id) DO NOTHING
+    RETURNING id INTO receipt_record_id;
+
+    -- Build result
+    result := jsonb_build_object(
+        'success', true,
+        'message_id', p_message_id,
+        'reader_id', p_reader_id,
+        'sender_id', message_info.sender_id,
+        'conversation_id', message_info.conversation_id,
+        'read_at', NOW(),
+        'receipt_shared', receipt_should_be_shared,
+        'receipt_record_id', receipt_record_id
+    );
+
+    -- Add notification metadata if receipt should be shared
+    IF receipt_should_be_shared THEN
+        result := result || jsonb_build_object(
+            'notify_sender', true,
+            'notification_type', 'read_receipt'
+        );
+    END IF;
+
+    RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_conversation_messages_read(
+    p_conversation_id UUID,
+    p_reader_id UUID,
+    p_message_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    messages_to_mark UUID[];
+    message_id UUID;
+    mark_result JSONB;
+    results JSONB[] := '{}';
+    total_marked INTEGER := 0;
+    total_receipts_sent INTEGER := 0;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_reader_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot mark messages read for another user' USING ERRCODE = '42501';
+    END IF;
+
+    -- Get messages to mark as read
+    IF p_message_ids IS NOT NULL THEN
+        -- Mark specific messages
+        messages_to_mark := p_message_ids;
+    ELSE
+        -- Mark all messages the reader hasn't read yet, shared or not
+        SELECT ARRAY(
+            SELECT m.id
+            FROM public.messages m
+            JOIN public.conversations c ON c.id = m.conversation_id
+            WHERE m.conversation_id = p_conversation_id
+            AND m.sender_id != p_reader_id
+            AND m.read_at IS NULL
+            AND (c.user1_id = p_reader_id OR c.user2_id = p_reader_id)
+            AND NOT EXISTS (
+                SELECT 1 FROM public.message_read_receipts rr
+                WHERE rr.message_id = m.id AND rr.reader_id = p_reader_id
+            )
+        ) INTO messages_to_mark;
+    END IF;
+
+    -- Mark each message as read
+    FOREACH message_id IN ARRAY messages_to_mark
+    LOOP
+        SELECT mark_message_read(message_id, p_reader_id) INTO mark_result;
+
+        IF (mark_result->>'success')::BOOLEAN THEN
+            total_marked := total_marked + 1;
+
+            IF (mark_result->>'receipt_shared')::BOOLEAN THEN
+                total_receipts_sent := total_receipts_sent + 1;
+            END IF;
+        END IF;
+
+        results := array_append(results, mark_result);
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'conversation_id', p_conversation_id,
+        'reader_id', p_reader_id,
+        'total_messages_marked', total_marked,
+        'total_receipts_sent', total_receipts_sent,
+        'messages_processed', COALESCE(array_length(messages_to_mark, 1), 0),
+        'individual_results', results,
+        'processed_at', NOW()
+    );
+END;
+$$;
+
+-- =====================================================
+-- 3. READ STATUS: RECIPROCAL AT VIEW TIME
+-- =====================================================
+
+-- Sent messages only show as read while both participants still share
+-- receipts, so turning them off also hides receipts shared earlier
+CREATE OR REPLACE FUNCTION get_conversation_read_status(
+    p_conversation_id UUID,
+    p_user_id UUID
+)
+RETURNS TABLE (
+    message_id UUID,
+    sender_id UUID,
+    read_at TIMESTAMPTZ,
+    reader_id UUID,
+    receipt_visible BOOLEAN,
+    delivery_status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_other_user_id UUID;
+    v_sharing BOOLEAN;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot read receipts for another user' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT CASE WHEN c.user1_id = p_user_id THEN c.user2_id ELSE c.user1_id END
+    INTO v_other_user_id
+    FROM public.conversations c
+    WHERE c.id = p_conversation_id
+      AND (c.user1_id = p_user_id OR c.user2_id = p_user_id);
+
+    IF v_other_user_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    v_sharing := public.should_share_read_receipt(p_user_id, v_other_user_id);
+
+    RETURN QUERY
+    SELECT
+        m.id AS message_id,
+        m.sender_id,
+        CASE
+            WHEN m.sender_id = p_user_id THEN m.read_at
+            ELSE COALESCE(rr.read_at, m.read_at)
+        END AS read_at,
+        rr.reader_id,
+        (COALESCE(rr.mutual_receipts_enabled, false) AND v_sharing) AS receipt_visible,
+        CASE
+            WHEN m.sender_id != p_user_id AND (rr.id IS NOT NULL OR m.read_at IS NOT NULL) THEN 'read'
+            WHEN m.sender_id = p_user_id AND m.read_at IS NOT NULL THEN 'read'
+            WHEN m.delivered_at IS NOT NULL THEN 'delivered'
+            ELSE 'sent'
+        END AS delivery_status
+    FROM public.messages m
+    LEFT JOIN public.message_read_receipts rr ON rr.message_id = m.id
+    WHERE m.conversation_id = p_conversation_id
+    AND (
+        -- Own sent messages, only while receipts are shared both ways
+        (m.sender_id = p_user_id AND rr.mutual_receipts_enabled = true AND v_sharing)
+        OR
+        -- Received messages: the reader always sees their own read state
+        (m.sender_id != p_user_id)
+    )
+    ORDER BY m.created_at ASC;
+END;
+$$;
+
+-- =====================================================
+-- 4. READ RECEIPT NOTIFICATION TRIGGER
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION notify_read_receipt()
+RETURNS TRIGGER AS $$
+DECLARE
+    sender_notification_prefs JSONB;
+BEGIN
+    -- Only broadcast shared receipts, re-checked against current settings
+    IF NEW.mutual_receipts_enabled = true
+       AND NEW.receipt_sent_at IS NOT NULL
+       AND public.should_share_read_receipt(NEW.sender_id, NEW.reader_id) THEN
+        -- Get sender's notification preferences
+        SELECT get_user_notification_preferences(NEW.sender_id)
+        INTO sender_notification_prefs;
+
+        -- Check if sender wants read receipt notifications
+        IF (sender_notification_prefs->>'message_notifications_enabled')::BOOLEAN = true THEN
+            PERFORM pg_notify(
+                'read_receipt_channel',
+                json_build_object(
+                    'type', 'read_receipt',
+                    'message_id', NEW.message_id,
+                    'sender_id', NEW.sender_id,
+                    'reader_id', NEW.reader_id,
+                    'conversation_id', NEW.conversation_id,
+                    'read_at', NEW.read_at,
+                    'timestamp', NOW()
+                )::TEXT
+            );
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- 5. CONVERSATION LIST: UNREAD COUNT
+-- =====================================================
+
+DROP FUNCTION IF EXISTS get_user_conversations_with_details(uuid, boolean);
+
+CREATE OR REPLACE FUNCTION get_user_conversations_with_details(
+    p_user_id uuid,
+    p_include_archived boolean DEFAULT false
+)
+RETURNS TABLE (
+    conversation_id uuid,
+    match_id uuid,
+    other_participant_id uuid,
+    other_participant_display_name text,
+    other_participant_avatar_url text,
+    last_message_preview text,
+    last_message_at timestamptz,
+    conversation_created_at timestamptz,
+    conversation_updated_at timestamptz,
+    is_pinned boolean,
+    pinned_at timestamptz,
+    is_archived boolean,
+    muted_until timestamptz,
+    unread_count integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot list conversations for another user' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.id AS conversation_id,
+        c.match_id,
+        CASE
+            WHEN c.user1_id = p_user_id THEN c.user2_id
+            ELSE c.user1_id
+        END AS other_participant_id,
+        CASE
+            WHEN c.user1_id = p_user_id THEN p2.display_name
+            ELSE p1.display_name
+        END AS other_participant_display_name,
+        CASE
+            WHEN c.user1_id = p_user_id THEN p2.avatar_url
+            ELSE p1.avatar_url
+        END AS other_participant_avatar_url,
+        shown.preview AS last_message_preview,
+        shown.message_at AS last_message_at,
+        c.created_at AS conversation_created_at,
+        c.updated_at AS conversation_updated_at,
+        cs.pinned_at IS NOT NULL AS is_pinned,
+        cs.pinned_at,
+        cs.archived_at IS NOT NULL AS is_archived,
+        -- Expired mutes read as unmuted
+        CASE WHEN cs.muted_until > NOW() THEN cs.muted_until END AS muted_until,
+        unread.unread_count
+    FROM
+        public.conversations c
+    LEFT JOIN
+        public.profiles p1 ON c.user1_id = p1.id
+    LEFT JOIN
+        public.profiles p2 ON c.user2_id = p2.id
+    LEFT JOIN
+        public.conversation_settings cs
+        ON cs.conversation_id = c.id AND cs.user_id = p_user_id
+    -- The stored preview may be a disappearing message that expired since
+    -- the last purge run; fall back to the newest message still visible
+    LEFT JOIN LATERAL (
+        SELECT COALESCE(m.expires_at <= NOW(), false) AS expired
+        FROM public.messages m
+        WHERE m.conversation_id = c.id
+        ORDER BY m.created_at DESC
+        LIMIT 1
+    ) newest ON true
+    LEFT JOIN LATERAL (
+        SELECT
+            CASE
+                WHEN m.unsent_at IS NOT NULL OR m.moderation_removed_at IS NOT NULL THEN NULL
+                WHEN LENGTH(m.content) > 100 THEN LEFT(m.content, 100) || '...'
+                ELSE m.content
+            END AS preview,
+            m.created_at
+        FROM public.messages m
+        WHERE newest.expired
+          AND m.conversation_id = c.id
+          AND (m.expires_at IS NULL OR m.expires_at > NOW())
+        ORDER BY m.created_at DESC
+        LIMIT 1
+    ) visible ON true
+    CROSS JOIN LATERAL (
+        SELECT
+            CASE WHEN newest.expired THEN visible.preview ELSE c.last_message_preview END AS preview,
+            CASE WHEN newest.expired THEN COALESCE(visible.created_at, c.created_at) ELSE c.last_message_at END AS message_at
+    ) shown
+    -- Counted from the caller's own receipts so private reads still count
+    CROSS JOIN LATERAL (
+        SELECT COUNT(*)::integer AS unread_count
+        FROM public.messages m
+        WHERE m.conversation_id = c.id
+          AND m.sender_id != p_user_id
+          AND m.read_at IS NULL
+          AND m.unsent_at IS NULL
+          AND m.moderation_removed_at IS NULL
+          AND (m.expires_at IS NULL OR m.expires_at > NOW())
+          AND NOT EXISTS (
+              SELECT 1 FROM public.message_read_receipts rr
+              WHERE rr.message_id = m.id AND rr.reader_id = p_user_id
+          )
+    ) unread
+    WHERE
+        (c.user1_id = p_user_id OR c.user2_id = p_user_id)
+        AND (p_include_archived OR cs.archived_at IS NULL)
+    ORDER BY
+        cs.pinned_at DESC NULLS LAST, -- Pinned first, most recently pinned on top
+        shown.message_at DESC NULLS LAST; -- Then most recent conversations
+END;
+$$;
+
+-- =====================================================
+-- 6. PERMISSIONS AND COMMENTS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION mark_message_read(UUID, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION mark_conversation_messages_read(UUID, UUID, UUID[]) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_conversation_read_status(UUID, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_user_conversations_with_details(uuid, boolean) TO authenticated;
+
+COMMENT ON FUNCTION mark_message_read(UUID, UUID) IS 'Marks a message as read for the reader. Sets messages.read_at and notifies the sender only when both users have read receipts enabled; private reads are kept in message_read_receipts';
+COMMENT ON FUNCTION get_conversation_read_status(UUID, UUID) IS 'Read state for a conversation: the caller''s own reads always, read state of their sent messages only while receipts are shared both ways';
+
+COMMENT ON FUNCTION get_user_conversations_with_details(uuid, boolean) IS
+'Fetches the caller''s conversations with the other participant, the last message preview
+and the caller''s unread count. Pinned conversations come first, then by most recent
+message. Archived conversations are omitted unless p_include_archived.';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Read Receipt Privacy Migration Complete';
+    RAISE NOTICE '  - message_read_receipts: senders see shared receipts only';
+    RAISE NOTICE '  - mark_message_read(): read_at set only for shared receipts';
+    RAISE NOTICE '  - user_settings trigger: turning receipts off clears shared read_at';
+    RAISE NOTICE '  - get_conversation_read_status(), notify_read_receipt(): reciprocal';
+    RAISE NOTICE '  - get_user_conversations_with_details(): unread_count';
+END $$;
+
+COMMIT;
@@ -0,0 +1,365 @@
+-- =====================================================
+-- DATE PROPOSAL COUNTERS, SLOTS AND NEGOTIATION HISTORY
+-- =====================================================
+-- A proposal can carry several candidate slots (time + optional location)
+-- and the recipient picks one when accepting. The recipient can also
+-- counter with other slots or a different location; a counter swaps
+-- proposer and recipient, so whoever made the terms on the table is the
+-- proposer and the existing accept/reject/cancel rules still apply.
+-- Every step is appended to negotiation_history, which get-date-proposals
+-- returns with the proposal. The negotiation columns are only writable
+-- through counter_date_proposal and accept_date_proposal_slot. Backs the
+-- manage-date-proposal counter and accept-with-slot actions.
+-- Date: 2025-11-20
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. COLUMNS
+-- =====================================================
+
+ALTER TABLE public.date_proposals
+    ADD COLUMN IF NOT EXISTS proposed_slots JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS selected_slot_index INTEGER,
+    ADD COLUMN IF NOT EXISTS counter_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS negotiation_history JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.date_proposals
+    DROP CONSTRAINT IF EXISTS date_proposals_slots_array,
+    ADD CONSTRAINT date_proposals_slots_array CHECK (
+        jsonb_typeof(proposed_slots) = 'array' AND jsonb_array_length(proposed_slots) <= 5
+    ),
+    DROP CONSTRAINT IF EXISTS date_proposals_history_array,
+    ADD CONSTRAINT date_proposals_history_array CHECK (jsonb_typeof(negotiation_history) = 'array');
+
+COMMENT ON COLUMN public.date_proposals.proposed_slots IS 'Candidate slots [{datetime, location}]; proposed_datetime/location mirror the first slot until one is selected';
+COMMENT ON COLUMN public.date_proposals.selected_slot_index IS 'Index into proposed_slots picked by the recipient on accept';
+COMMENT ON COLUMN public.date_proposals.negotiation_history IS 'Append-only log of proposed/countered/slot_selected/status_changed events';
+
+-- Existing proposals become single-slot proposals
+UPDATE public.date_proposals
+SET proposed_slots = jsonb_build_array(
+        jsonb_build_object('datetime', proposed_datetime, 'location', location)
+    ),
+    negotiation_history = jsonb_build_array(
+        jsonb_build_object(
+            'type', 'proposed',
+            'actor_id', proposer_id,
+            'at', created_at,
+            'slots', jsonb_build_array(
+                jsonb_build_object('datetime', proposed_datetime, 'location', location)
+            ),
+            'notes', notes
+        )
+    )
+WHERE jsonb_array_length(proposed_slots) = 0;
+
+-- =====================================================
+-- 2. HISTORY TRIGGER
+-- =====================================================
+
+-- Records creation and every status change, whichever path made it
+CREATE OR REPLACE FUNCTION public.track_date_proposal_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF jsonb_array_length(COALESCE(NEW.proposed_slots, '[]'::jsonb)) = 0 THEN
+            NEW.proposed_slots := jsonb_build_array(
+                jsonb_build_object('datetime', NEW.proposed_datetime, 'location', NEW.location)
+            );
+        END IF;
+
+        -- New proposals start a fresh negotiation whatever the insert says
+        NEW.counter_count := 0;
+        NEW.selected_slot_index := NULL;
+        NEW.negotiation_history := jsonb_build_array(
+            jsonb_build_object(
+                'type', 'proposed',
+                'actor_id', NEW.proposer_id,
+                'at', NOW(),
+                'slots', NEW.proposed_slots,
+                'notes', NEW.notes
+            )
+        );
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+        NEW.negotiation_history := COALESCE(NEW.negotiation_history, '[]'::jsonb) || jsonb_build_array(
+            jsonb_build_object(
+                'type', 'status_changed',
+                'actor_id', auth.uid(),
+                'at', NOW(),
+                'from_status', OLD.status,
+                'status', NEW.status
+            )
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_date_proposal_history ON public.date_proposals;
+CREATE TRIGGER trigger_date_proposal_history
+    BEFORE INSERT OR UPDATE OF status ON public.date_proposals
+    FOR EACH ROW EXECUTE FUNCTION public.track_date_proposal_history();
+
+-- date_proposals_update_participants lets participants update any column,
+-- so the negotiation columns are only writable from the SECURITY DEFINER
+-- functions below (which run as the table owner, not as authenticated).
+-- Fires before trigger_date_proposal_history (triggers run in name order),
+-- so the history appended on a status change isn't mistaken for a write.
+-- Accepting a proposal with several slots must pick one, which only
+-- accept_date_proposal_slot does (it sets selected_slot_index in the same
+-- update); this holds for every path, including SECURITY DEFINER functions
+-- such as update_date_proposal_status_rpc.
+CREATE OR REPLACE FUNCTION public.guard_date_proposal_negotiation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF current_user IN ('authenticated', 'anon') AND (
+        NEW.proposed_slots IS DISTINCT FROM OLD.proposed_slots
+        OR NEW.selected_slot_index IS DISTINCT FROM OLD.selected_slot_index
+        OR NEW.counter_count IS DISTINCT FROM OLD.counter_count
+        OR NEW.negotiation_history IS DISTINCT FROM OLD.negotiation_history
+    ) THEN
+        RAISE EXCEPTION 'Negotiation fields can only be changed through counter or accept'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.status = 'accepted'
+       AND OLD.status IS DISTINCT FROM 'accepted'
+       AND jsonb_array_length(COALESCE(NEW.proposed_slots, '[]'::jsonb)) > 1
+       AND NEW.selected_slot_index IS NULL THEN
+        RAISE EXCEPTION 'A proposal with several slots must be accepted for one slot (accept_date_proposal_slot)'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_date_proposal_guard_negotiation ON public.date_proposals;
+CREATE TRIGGER trigger_date_proposal_guard_negotiation
+    BEFORE UPDATE ON public.date_proposals
+    FOR EACH ROW EXECUTE FUNCTION public.guard_date_proposal_negotiation();
+
+-- =====================================================
+-- 3. COUNTER
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.counter_date_proposal(
+    p_proposal_id UUID,
+    p_user_id UUID,
+    p_slots JSONB DEFAULT NULL,
+    p_location TEXT DEFAULT NULL,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_proposal public.date_proposals%ROWTYPE;
+    v_slots JSONB;
+    v_slot JSONB;
+    v_has_slots BOOLEAN;
+    v_updated public.date_proposals%ROWTYPE;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot counter a proposal for another user' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_proposal
+    FROM public.date_proposals
+    WHERE id = p_proposal_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR (v_proposal.proposer_id != p_user_id AND v_proposal.recipient_id != p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    -- Only the side the current terms were sent to can counter them
+    IF v_proposal.recipient_id != p_user_id THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_recipient');
+    END IF;
+
+    IF v_proposal.status != 'pending' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_pending');
+    END IF;
+
+    IF v_proposal.counter_count >= 10 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'too_many_counters');
+    END IF;
+
+    IF p_slots IS NOT NULL AND jsonb_typeof(p_slots) != 'array' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'invalid_slots');
+    END IF;
+
+    v_has_slots := p_slots IS NOT NULL AND jsonb_array_length(p_slots) > 0;
+
+    IF NOT v_has_slots AND p_location IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'invalid_counter');
+    END IF;
+
+    IF v_has_slots THEN
+        IF jsonb_array_length(p_slots) > 5 THEN
+            RETURN jsonb_build_object('success', false, 'reason', 'invalid_slots');
+        END IF;
+
+        FOR v_slot IN SELECT value FROM jsonb_array_elements(p_slots)
+        LOOP
+            IF (v_slot->>'datetime') IS NULL OR (v_slot->>'datetime')::TIMESTAMPTZ <= NOW() THEN
+                RETURN jsonb_build_object('success', false, 'reason', 'invalid_slots');
+            END IF;
+        END LOOP;
+
+        v_slots := p_slots;
+    ELSE
+        -- Location-only counter keeps the times on the table
+        v_slots := v_proposal.proposed_slots;
+    END IF;
+
+    -- A location-only counter moves every slot; otherwise it fills the
+    -- slots that don't name their own
+    IF p_location IS NOT NULL THEN
+        SELECT jsonb_agg(
+                   CASE WHEN NOT v_has_slots OR slot->>'location' IS NULL
+                        THEN slot || jsonb_build_object('location', p_location)
+                        ELSE slot
+                   END
+                   ORDER BY ordinality
+               )
+        INTO v_slots
+        FROM jsonb_array_elements(v_slots) WITH ORDINALITY AS s(slot, ordinality);
+    END IF;
+
+    UPDATE public.date_proposals
+    SET proposer_id = v_proposal.recipient_id,
+        recipient_id = v_proposal.proposer_id,
+        proposed_slots = v_slots,
+        selected_slot_index = NULL,
+        proposed_datetime = (v_slots->0->>'datetime')::TIMESTAMPTZ,
+        location = COALESCE(v_slots->0->>'location', v_proposal.location),
+        notes = COALESCE(p_notes, v_proposal.notes),
+        counter_count = v_proposal.counter_count + 1,
+        negotiation_history = v_proposal.negotiation_history || jsonb_build_array(
+            jsonb_build_object(
+                'type', 'countered',
+                'actor_id', p_user_id,
+                'at', NOW(),
+                'slots', v_slots,
+                'location', p_location,
+                'notes', p_notes
+            )
+        )
+    WHERE id = p_proposal_id
+    RETURNING * INTO v_updated;
+
+    RETURN jsonb_build_object('success', true, 'proposal', to_jsonb(v_updated));
+END;
+$$;
+
+-- =====================================================
+-- 4. ACCEPT WITH SLOT
+-- =====================================================
+
+-- Picks the slot and accepts in one transaction, so a failed accept never
+-- leaves a slot selected on a still-pending proposal
+CREATE OR REPLACE FUNCTION public.accept_date_proposal_slot(
+    p_proposal_id UUID,
+    p_user_id UUID,
+    p_slot_index INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_proposal public.date_proposals%ROWTYPE;
+    v_slot JSONB;
+    v_updated public.date_proposals%ROWTYPE;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot accept a proposal for another user' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_proposal
+    FROM public.date_proposals
+    WHERE id = p_proposal_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR (v_proposal.proposer_id != p_user_id AND v_proposal.recipient_id != p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_proposal.recipient_id != p_user_id THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_recipient');
+    END IF;
+
+    IF v_proposal.status != 'pending' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_pending');
+    END IF;
+
+    v_slot := v_proposal.proposed_slots->p_slot_index;
+
+    IF p_slot_index < 0 OR v_slot IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'invalid_slot');
+    END IF;
+
+    IF (v_slot->>'datetime')::TIMESTAMPTZ <= NOW() THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'slot_in_past');
+    END IF;
+
+    -- trigger_date_proposal_history logs the status change after the selection
+    UPDATE public.date_proposals
+    SET status = 'accepted',
+        selected_slot_index = p_slot_index,
+        proposed_datetime = (v_slot->>'datetime')::TIMESTAMPTZ,
+        location = COALESCE(v_slot->>'location', location),
+        negotiation_history = negotiation_history || jsonb_build_array(
+            jsonb_build_object(
+                'type', 'slot_selected',
+                'actor_id', p_user_id,
+                'at', NOW(),
+                'slot_index', p_slot_index,
+                'slot', v_slot
+            )
+        )
+    WHERE id = p_proposal_id
+    RETURNING * INTO v_updated;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'slot_index', p_slot_index,
+        'slot', v_slot,
+        'proposal', to_jsonb(v_updated)
+    );
+END;
+$$;
+
+-- =====================================================
+-- 5. PERMISSIONS AND COMMENTS
+-- =====================================================
+
+GRANT EXECUTE ON FUNCTION public.counter_date_proposal(UUID, UUID, JSONB, TEXT, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.accept_date_proposal_slot(UUID, UUID, INTEGER) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.counter_date_proposal(UUID, UUID, JSONB, TEXT, TEXT) IS 'Recipient replies to a pending proposal with new slots and/or location; swaps proposer and recipient and logs the counter';
+COMMENT ON FUNCTION public.accept_date_proposal_slot(UUID, UUID, INTEGER) IS 'Recipient accepts a pending proposal for one of its candidate slots';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Date Proposal Negotiation Migration Complete';
+    RAISE NOTICE '  - date_proposals: proposed_slots, selected_slot_index, counter_count, negotiation_history';
+    RAISE NOTICE '  - track_date_proposal_history(), guard_date_proposal_negotiation() triggers';
+    RAISE NOTICE '  - counter_date_proposal(), accept_date_proposal_slot()';
+END $$;
+
+COMMIT;
@@ -0,0 +1,122 @@
+-- =====================================================
+-- CALENDAR EXPORT FOR ACCEPTED DATES
+-- =====================================================
+-- Backs export-date-calendar (one .ics per proposal) and calendar-feed
+-- (per-user subscribable feed). Feed URLs carry a signed token from
+-- secure-token-manager-v2; the current token id is kept here so issuing a
+-- new URL or turning the feed off invalidates the old one.
+-- get_calendar_date_events returns accepted/completed dates, plus dates
+-- cancelled after they were accepted so calendars can drop them. Proposals
+-- whose status changes predate negotiation_history fall back to the status
+-- column alone.
+-- Date: 2025-11-21
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. FEED TOKENS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    token_id TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    last_fetched_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Owners can see whether a feed is active; writes go through calendar-feed
+DROP POLICY IF EXISTS "calendar_feed_tokens_owner_select" ON public.calendar_feed_tokens;
+CREATE POLICY "calendar_feed_tokens_owner_select" ON public.calendar_feed_tokens
+    FOR SELECT
+    USING ((SELECT auth.uid()) = user_id);
+
+GRANT SELECT ON public.calendar_feed_tokens TO authenticated;
+GRANT ALL ON public.calendar_feed_tokens TO service_role;
+
+COMMENT ON TABLE public.calendar_feed_tokens IS 'Current calendar feed token per user; a feed URL is valid only while its token id matches';
+
+-- =====================================================
+-- 2. CALENDAR EVENTS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_calendar_date_events(
+    p_user_id UUID,
+    p_proposal_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    proposal_id UUID,
+    status TEXT,
+    proposed_datetime TIMESTAMPTZ,
+    location TEXT,
+    notes TEXT,
+    activity_details JSONB,
+    other_participant_name TEXT,
+    sequence INTEGER,
+    last_modified TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot read another user''s calendar' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        dp.id AS proposal_id,
+        dp.status::TEXT,
+        dp.proposed_datetime,
+        dp.location,
+        dp.notes,
+        dp.activity_details,
+        COALESCE(other_profile.display_name, 'your match') AS other_participant_name,
+        -- Every history entry is a change, so the count only ever grows; a
+        -- cancellation without history still needs to outrank the original
+        GREATEST(jsonb_array_length(dp.negotiation_history), 1)
+            + CASE WHEN dp.status::TEXT IN ('cancelled', 'cancelled_by_proposer', 'cancelled_by_recipient')
+                    AND NOT dp.negotiation_history @> '[{"type": "status_changed"}]'::jsonb
+                   THEN 1 ELSE 0 END AS sequence,
+        COALESCE((dp.negotiation_history->-1->>'at')::TIMESTAMPTZ, dp.created_at) AS last_modified
+    FROM public.date_proposals dp
+    LEFT JOIN public.profiles other_profile
+        ON other_profile.id = CASE WHEN dp.proposer_id = p_user_id THEN dp.recipient_id ELSE dp.proposer_id END
+    WHERE (dp.proposer_id = p_user_id OR dp.recipient_id = p_user_id)
+      AND (p_proposal_id IS NULL OR dp.id = p_proposal_id)
+      AND (
+          dp.status IN ('accepted', 'completed')
+          OR (
+              dp.status::TEXT IN ('cancelled', 'cancelled_by_proposer', 'cancelled_by_recipient')
+              AND (
+                  dp.negotiation_history @> '[{"type": "status_changed", "status": "accepted"}]'::jsonb
+                  -- No history of status changes: it may have been accepted
+                  -- before history was recorded, so report the cancellation
+                  OR NOT dp.negotiation_history @> '[{"type": "status_changed"}]'::jsonb
+              )
+          )
+      )
+      -- Feeds keep recent history only; a single export has no window
+      AND (p_proposal_id IS NOT NULL OR dp.proposed_datetime > NOW() - INTERVAL '90 days')
+    ORDER BY dp.proposed_datetime ASC
+    LIMIT 500;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_calendar_date_events(UUID, UUID) TO authenticated, service_role;
+
+COMMENT ON FUNCTION public.get_calendar_date_events(UUID, UUID) IS 'Accepted/completed dates and post-acceptance cancellations for a user''s calendar export or feed';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Date Calendar Export Migration Complete';
+    RAISE NOTICE '  - calendar_feed_tokens table';
+    RAISE NOTICE '  - get_calendar_date_events()';
+END $$;
+
+COMMIT;
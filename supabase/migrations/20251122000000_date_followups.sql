@@ -0,0 +1,599 @@
+-- =====================================================
+-- DATE REMINDERS, SAFETY CHECK-INS AND FEEDBACK
+-- =====================================================
+-- Follow-ups for accepted dates, sent by the date-followups worker to both
+-- participants: reminders 24h and 1h before proposed_datetime, an "are you
+-- OK?" check-in a few hours after, and a feedback prompt the next morning.
+-- Feedback (would_meet_again / not_a_match / report) moves the proposal to
+-- completed, and the outcomes others leave about a user feed the mutual fit
+-- signals. Reports and "need help" check-ins are filed as issue reports by
+-- the submit-date-feedback edge function.
+-- Date: 2025-11-22
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. PER-PARTICIPANT FOLLOW-UP STATE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.date_followups (
+    proposal_id UUID NOT NULL REFERENCES public.date_proposals(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    reminder_24h_sent_at TIMESTAMPTZ,
+    reminder_1h_sent_at TIMESTAMPTZ,
+    checkin_sent_at TIMESTAMPTZ,
+    checkin_response TEXT CHECK (checkin_response IN ('ok', 'need_help')),
+    checkin_responded_at TIMESTAMPTZ,
+    feedback_prompt_sent_at TIMESTAMPTZ,
+    -- Claimed by a worker run but not yet confirmed sent (see claim_due_date_followups)
+    reminder_24h_claimed_at TIMESTAMPTZ,
+    reminder_1h_claimed_at TIMESTAMPTZ,
+    checkin_claimed_at TIMESTAMPTZ,
+    feedback_prompt_claimed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (proposal_id, user_id)
+);
+
+ALTER TABLE public.date_followups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "date_followups_owner_select" ON public.date_followups;
+CREATE POLICY "date_followups_owner_select" ON public.date_followups
+    FOR SELECT
+    USING ((SELECT auth.uid()) = user_id);
+
+GRANT SELECT ON public.date_followups TO authenticated;
+GRANT ALL ON public.date_followups TO service_role;
+
+-- Accepted dates are what the worker scans
+CREATE INDEX IF NOT EXISTS idx_date_proposals_accepted_datetime
+    ON public.date_proposals (proposed_datetime)
+    WHERE status = 'accepted';
+
+-- =====================================================
+-- 2. FEEDBACK
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.date_feedback (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    proposal_id UUID NOT NULL REFERENCES public.date_proposals(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    rated_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    outcome TEXT NOT NULL CHECK (outcome IN ('would_meet_again', 'not_a_match', 'report')),
+    comment TEXT CHECK (char_length(comment) <= 2000),
+    issue_report_id UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (proposal_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_date_feedback_rated_user
+    ON public.date_feedback (rated_user_id, created_at DESC);
+
+ALTER TABLE public.date_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Feedback is private to its author; the rated user never sees it
+DROP POLICY IF EXISTS "date_feedback_author_select" ON public.date_feedback;
+CREATE POLICY "date_feedback_author_select" ON public.date_feedback
+    FOR SELECT
+    USING ((SELECT auth.uid()) = user_id);
+
+GRANT SELECT ON public.date_feedback TO authenticated;
+GRANT ALL ON public.date_feedback TO service_role;
+
+COMMENT ON TABLE public.date_feedback IS 'Post-date feedback, one per participant per proposal; feeds get_mutual_fit_signals';
+
+-- =====================================================
+-- 3. CLAIM DUE FOLLOW-UPS (WORKER)
+-- =====================================================
+
+-- Claims each due follow-up for a short lease and returns it, one row per
+-- participant. The worker confirms with mark_date_followup_sent once the push
+-- went out (or was deliberately skipped); a claim that is never confirmed
+-- expires, and the next run retries it while its window is still open.
+-- Windows: 24h reminder from 24h to 1h before, 1h reminder in the last
+-- hour, check-in 3h to 24h after, feedback prompt 12h to 7 days after.
+-- A window missed entirely (e.g. a date accepted 30 minutes before) is
+-- skipped rather than sent late. Conflicts name the constraint because
+-- the output columns shadow proposal_id / user_id inside the function.
+CREATE OR REPLACE FUNCTION public.claim_due_date_followups(p_limit INTEGER DEFAULT 200)
+RETURNS TABLE (
+    proposal_id UUID,
+    user_id UUID,
+    other_user_id UUID,
+    other_display_name TEXT,
+    conversation_id UUID,
+    proposed_datetime TIMESTAMPTZ,
+    location TEXT,
+    kind TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    -- Longer than one worker run, shorter than the 1h reminder window
+    c_claim_lease CONSTANT INTERVAL := INTERVAL '10 minutes';
+BEGIN
+    IF auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Date follow-ups are service role only' USING ERRCODE = '42501';
+    END IF;
+
+    -- Reminder 24h before
+    RETURN QUERY
+    WITH due AS (
+        SELECT dp.id, p.uid, p.other_id
+        FROM public.date_proposals dp
+        CROSS JOIN LATERAL (VALUES (dp.proposer_id, dp.recipient_id), (dp.recipient_id, dp.proposer_id)) AS p(uid, other_id)
+        LEFT JOIN public.date_followups f ON f.proposal_id = dp.id AND f.user_id = p.uid
+        WHERE dp.status = 'accepted'
+          AND dp.proposed_datetime > NOW() + INTERVAL '1 hour'
+          AND dp.proposed_datetime <= NOW() + INTERVAL '24 hours'
+          AND f.reminder_24h_sent_at IS NULL
+          AND (f.reminder_24h_claimed_at IS NULL OR f.reminder_24h_claimed_at < NOW() - c_claim_lease)
+        LIMIT p_limit
+    ),
+    claimed AS (
+        INSERT INTO public.date_followups AS f (proposal_id, user_id, reminder_24h_claimed_at)
+        SELECT due.id, due.uid, NOW() FROM due
+        ON CONFLICT ON CONSTRAINT date_followups_pkey DO UPDATE
+            SET reminder_24h_claimed_at = EXCLUDED.reminder_24h_claimed_at
+            WHERE f.reminder_24h_sent_at IS NULL
+              AND (f.reminder_24h_claimed_at IS NULL OR f.reminder_24h_claimed_at < NOW() - c_claim_lease)
+        RETURNING f.proposal_id, f.user_id
+    )
+    SELECT dp.id, c.user_id, due.other_id, op.display_name, dp.conversation_id,
+           dp.proposed_datetime, dp.location, 'reminder_24h'::TEXT
+    FROM claimed c
+    JOIN due ON due.id = c.proposal_id AND due.uid = c.user_id
+    JOIN public.date_proposals dp ON dp.id = c.proposal_id
+    LEFT JOIN public.profiles op ON op.id = due.other_id;
+
+    -- Reminder 1h before
+    RETURN QUERY
+    WITH due AS (
+        SELECT dp.id, p.uid, p.other_id
+        FROM public.date_proposals dp
+        CROSS JOIN LATERAL (VALUES (dp.proposer_id, dp.recipient_id), (dp.recipient_id, dp.proposer_id)) AS p(uid, other_id)
+        LEFT JOIN public.date_followups f ON f.proposal_id = dp.id AND f.user_id = p.uid
+        WHERE dp.status = 'accepted'
+          AND dp.proposed_datetime > NOW()
+          AND dp.proposed_datetime <= NOW() + INTERVAL '1 hour'
+          AND f.reminder_1h_sent_at IS NULL
+          AND (f.reminder_1h_claimed_at IS NULL OR f.reminder_1h_claimed_at < NOW() - c_claim_lease)
+        LIMIT p_limit
+    ),
+    claimed AS (
+        INSERT INTO public.date_followups AS f (proposal_id, user_id, reminder_1h_claimed_at)
+        SELECT due.id, due.uid, NOW() FROM due
+        ON CONFLICT ON CONSTRAINT date_followups_pkey DO UPDATE
+            SET reminder_1h_claimed_at = EXCLUDED.reminder_1h_claimed_at
+            WHERE f.reminder_1h_sent_at IS NULL
+              AND (f.reminder_1h_claimed_at IS NULL OR f.reminder_1h_claimed_at < NOW() - c_claim_lease)
+        RETURNING f.proposal_id, f.user_id
+    )
+    SELECT dp.id, c.user_id, due.other_id, op.display_name, dp.conversation_id,
+           dp.proposed_datetime, dp.location, 'reminder_1h'::TEXT
+    FROM claimed c
+    JOIN due ON due.id = c.proposal_id AND due.uid = c.user_id
+    JOIN public.date_proposals dp ON dp.id = c.proposal_id
+    LEFT JOIN public.profiles op ON op.id = due.other_id;
+
+    -- Safety check-in after the date
+    RETURN QUERY
+    WITH due AS (
+        SELECT dp.id, p.uid, p.other_id
+        FROM public.date_proposals dp
+        CROSS JOIN LATERAL (VALUES (dp.proposer_id, dp.recipient_id), (dp.recipient_id, dp.proposer_id)) AS p(uid, other_id)
+        LEFT JOIN public.date_followups f ON f.proposal_id = dp.id AND f.user_id = p.uid
+        WHERE dp.status IN ('accepted', 'completed')
+          AND dp.proposed_datetime <= NOW() - INTERVAL '3 hours'
+          AND dp.proposed_datetime > NOW() - INTERVAL '24 hours'
+          AND f.checkin_sent_at IS NULL
+          AND (f.checkin_claimed_at IS NULL OR f.checkin_claimed_at < NOW() - c_claim_lease)
+        LIMIT p_limit
+    ),
+    claimed AS (
+        INSERT INTO public.date_followups AS f (proposal_id, user_id, checkin_claimed_at)
+        SELECT due.id, due.uid, NOW() FROM due
+        ON CONFLICT ON CONSTRAINT date_followups_pkey DO UPDATE
+            SET checkin_claimed_at = EXCLUDED.checkin_claimed_at
+            WHERE f.checkin_sent_at IS NULL
+              AND (f.checkin_claimed_at IS NULL OR f.checkin_claimed_at < NOW() - c_claim_lease)
+        RETURNING f.proposal_id, f.user_id
+    )
+    SELECT dp.id, c.user_id, due.other_id, op.display_name, dp.conversation_id,
+           dp.proposed_datetime, dp.location, 'safety_checkin'::TEXT
+    FROM claimed c
+    JOIN due ON due.id = c.proposal_id AND due.uid = c.user_id
+    JOIN public.date_proposals dp ON dp.id = c.proposal_id
+    LEFT JOIN public.profiles op ON op.id = due.other_id;
+
+    -- Feedback prompt, only for participants who haven't left feedback
+    RETURN QUERY
+    WITH due AS (
+        SELECT dp.id, p.uid, p.other_id
+        FROM public.date_proposals dp
+        CROSS JOIN LATERAL (VALUES (dp.proposer_id, dp.recipient_id), (dp.recipient_id, dp.proposer_id)) AS p(uid, other_id)
+        LEFT JOIN public.date_followups f ON f.proposal_id = dp.id AND f.user_id = p.uid
+        WHERE dp.status IN ('accepted', 'completed')
+          AND dp.proposed_datetime <= NOW() - INTERVAL '12 hours'
+          AND dp.proposed_datetime > NOW() - INTERVAL '7 days'
+          AND f.feedback_prompt_sent_at IS NULL
+          AND (f.feedback_prompt_claimed_at IS NULL OR f.feedback_prompt_claimed_at < NOW() - c_claim_lease)
+          AND NOT EXISTS (
+              SELECT 1 FROM public.date_feedback fb
+              WHERE fb.proposal_id = dp.id AND fb.user_id = p.uid
+          )
+        LIMIT p_limit
+    ),
+    claimed AS (
+        INSERT INTO public.date_followups AS f (proposal_id, user_id, feedback_prompt_claimed_at)
+        SELECT due.id, due.uid, NOW() FROM due
+        ON CONFLICT ON CONSTRAINT date_followups_pkey DO UPDATE
+            SET feedback_prompt_claimed_at = EXCLUDED.feedback_prompt_claimed_at
+            WHERE f.feedback_prompt_sent_at IS NULL
+              AND (f.feedback_prompt_claimed_at IS NULL OR f.feedback_prompt_claimed_at < NOW() - c_claim_lease)
+        RETURNING f.proposal_id, f.user_id
+    )
+    SELECT dp.id, c.user_id, due.other_id, op.display_name, dp.conversation_id,
+           dp.proposed_datetime, dp.location, 'feedback_prompt'::TEXT
+    FROM claimed c
+    JOIN due ON due.id = c.proposal_id AND due.uid = c.user_id
+    JOIN public.date_proposals dp ON dp.id = c.proposal_id
+    LEFT JOIN public.profiles op ON op.id = due.other_id;
+END;
+$$;
+
+-- Confirms a claimed follow-up; it won't be claimed again
+CREATE OR REPLACE FUNCTION public.mark_date_followup_sent(
+    p_proposal_id UUID,
+    p_user_id UUID,
+    p_kind TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Date follow-ups are service role only' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.date_followups f
+    SET reminder_24h_sent_at = CASE WHEN p_kind = 'reminder_24h' THEN COALESCE(f.reminder_24h_sent_at, NOW()) ELSE f.reminder_24h_sent_at END,
+        reminder_1h_sent_at = CASE WHEN p_kind = 'reminder_1h' THEN COALESCE(f.reminder_1h_sent_at, NOW()) ELSE f.reminder_1h_sent_at END,
+        checkin_sent_at = CASE WHEN p_kind = 'safety_checkin' THEN COALESCE(f.checkin_sent_at, NOW()) ELSE f.checkin_sent_at END,
+        feedback_prompt_sent_at = CASE WHEN p_kind = 'feedback_prompt' THEN COALESCE(f.feedback_prompt_sent_at, NOW()) ELSE f.feedback_prompt_sent_at END
+    WHERE f.proposal_id = p_proposal_id
+      AND f.user_id = p_user_id
+      AND p_kind IN ('reminder_24h', 'reminder_1h', 'safety_checkin', 'feedback_prompt');
+
+    RETURN FOUND;
+END;
+$$;
+
+-- =====================================================
+-- 4. CHECK-IN RESPONSE AND FEEDBACK
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.respond_date_checkin(
+    p_proposal_id UUID,
+    p_user_id UUID,
+    p_response TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_proposal public.date_proposals%ROWTYPE;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot respond to a check-in for another user' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_response NOT IN ('ok', 'need_help') THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'validation_error');
+    END IF;
+
+    SELECT * INTO v_proposal FROM public.date_proposals WHERE id = p_proposal_id;
+
+    IF NOT FOUND OR (v_proposal.proposer_id != p_user_id AND v_proposal.recipient_id != p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_proposal.status NOT IN ('accepted', 'completed') OR v_proposal.proposed_datetime > NOW() THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_started');
+    END IF;
+
+    INSERT INTO public.date_followups AS f (proposal_id, user_id, checkin_response, checkin_responded_at)
+    VALUES (p_proposal_id, p_user_id, p_response, NOW())
+    ON CONFLICT (proposal_id, user_id) DO UPDATE
+        SET checkin_response = EXCLUDED.checkin_response,
+            checkin_responded_at = EXCLUDED.checkin_responded_at;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'proposal_id', p_proposal_id,
+        'response', p_response,
+        'other_user_id', CASE WHEN v_proposal.proposer_id = p_user_id THEN v_proposal.recipient_id ELSE v_proposal.proposer_id END
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_date_feedback(
+    p_proposal_id UUID,
+    p_user_id UUID,
+    p_outcome TEXT,
+    p_comment TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_proposal public.date_proposals%ROWTYPE;
+    v_rated_user_id UUID;
+    v_feedback_id UUID;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot leave feedback for another user' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_outcome NOT IN ('would_meet_again', 'not_a_match', 'report') THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'validation_error');
+    END IF;
+
+    SELECT * INTO v_proposal
+    FROM public.date_proposals
+    WHERE id = p_proposal_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR (v_proposal.proposer_id != p_user_id AND v_proposal.recipient_id != p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_proposal.status NOT IN ('accepted', 'completed') OR v_proposal.proposed_datetime > NOW() THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_started');
+    END IF;
+
+    v_rated_user_id := CASE WHEN v_proposal.proposer_id = p_user_id THEN v_proposal.recipient_id ELSE v_proposal.proposer_id END;
+
+    INSERT INTO public.date_feedback (proposal_id, user_id, rated_user_id, outcome, comment)
+    VALUES (p_proposal_id, p_user_id, v_rated_user_id, p_outcome, NULLIF(btrim(p_comment), ''))
+    ON CONFLICT (proposal_id, user_id) DO NOTHING
+    RETURNING id INTO v_feedback_id;
+
+    IF v_feedback_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'already_submitted');
+    END IF;
+
+    -- The first feedback closes the date; the history trigger logs the change
+    IF v_proposal.status = 'accepted' THEN
+        UPDATE public.date_proposals SET status = 'completed' WHERE id = p_proposal_id;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'feedback_id', v_feedback_id,
+        'proposal_id', p_proposal_id,
+        'rated_user_id', v_rated_user_id,
+        'outcome', p_outcome,
+        'status', 'completed'
+    );
+END;
+$$;
+
+-- The edge function links the issue report it filed for a 'report' outcome
+CREATE OR REPLACE FUNCTION public.link_date_feedback_issue_report(
+    p_feedback_id UUID,
+    p_issue_report_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Linking issue reports is service role only' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.date_feedback
+    SET issue_report_id = p_issue_report_id
+    WHERE id = p_feedback_id;
+END;
+$$;
+
+-- =====================================================
+-- 5. MUTUAL FIT: DATE OUTCOMES
+-- =====================================================
+
+-- Same as 20251109000000 plus dates_rated / dates_met_again: feedback other
+-- people left about the candidate after meeting them (last 365 days)
+DROP FUNCTION IF EXISTS public.get_mutual_fit_signals(UUID, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.get_mutual_fit_signals(
+    p_viewer_id UUID,
+    p_candidate_ids UUID[]
+)
+RETURNS TABLE (
+    candidate_id UUID,
+    already_likes_viewer BOOLEAN,
+    age_in_range BOOLEAN,
+    within_distance BOOLEAN,
+    zodiac_preferred BOOLEAN,
+    height_in_range BOOLEAN,
+    total_swipes INTEGER,
+    total_likes INTEGER,
+    similar_swipes INTEGER,
+    similar_likes INTEGER,
+    shadow_deprioritized BOOLEAN,
+    dates_rated INTEGER,
+    dates_met_again INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_viewer_profile RECORD;
+    v_viewer_lat NUMERIC;
+    v_viewer_lng NUMERIC;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_viewer_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Can only read mutual fit for your own feed' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT p.age, p.gender, p.zodiac_sign, p.height,
+           COALESCE(p.current_city_lat, u.birth_lat) AS lat,
+           COALESCE(p.current_city_lng, u.birth_lng) AS lng
+    INTO v_viewer_profile
+    FROM public.profiles p
+    JOIN public.users u ON u.id = p.id
+    WHERE p.id = p_viewer_id;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    v_viewer_lat := v_viewer_profile.lat;
+    v_viewer_lng := v_viewer_profile.lng;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            c.id,
+            cu.preferences,
+            cs.min_age_preference,
+            cs.max_age_preference,
+            cs.preferred_distance_km,
+            cs.min_height_preference,
+            cs.max_height_preference,
+            COALESCE(cp.current_city_lat, cu.birth_lat) AS lat,
+            COALESCE(cp.current_city_lng, cu.birth_lng) AS lng
+        FROM unnest(p_candidate_ids) AS c(id)
+        JOIN public.profiles cp ON cp.id = c.id
+        JOIN public.users cu ON cu.id = c.id
+        LEFT JOIN public.user_settings cs ON cs.user_id = c.id
+    ),
+    -- Candidate swipe history (last 180 days), with the swiped profile's traits
+    history AS (
+        SELECT
+            s.swiper_id,
+            (s.swipe_type IN ('like', 'super_like')) AS liked,
+            -- "Similar to the viewer": same gender and within 3 years of age
+            (sp.gender IS NOT DISTINCT FROM v_viewer_profile.gender
+             AND sp.age IS NOT NULL AND v_viewer_profile.age IS NOT NULL
+             AND abs(sp.age - v_viewer_profile.age) <= 3) AS similar
+        FROM public.swipes s
+        JOIN public.profiles sp ON sp.id = s.swiped_id
+        WHERE s.swiper_id = ANY(p_candidate_ids)
+          AND s.created_at >= NOW() - INTERVAL '180 days'
+    ),
+    history_stats AS (
+        SELECT
+            h.swiper_id,
+            COUNT(*)::INTEGER AS total_swipes,
+            COUNT(*) FILTER (WHERE h.liked)::INTEGER AS total_likes,
+            COUNT(*) FILTER (WHERE h.similar)::INTEGER AS similar_swipes,
+            COUNT(*) FILTER (WHERE h.similar AND h.liked)::INTEGER AS similar_likes
+        FROM history h
+        GROUP BY h.swiper_id
+    ),
+    date_stats AS (
+        SELECT
+            fb.rated_user_id,
+            COUNT(*)::INTEGER AS dates_rated,
+            COUNT(*) FILTER (WHERE fb.outcome = 'would_meet_again')::INTEGER AS dates_met_again
+        FROM public.date_feedback fb
+        WHERE fb.rated_user_id = ANY(p_candidate_ids)
+          AND fb.created_at >= NOW() - INTERVAL '365 days'
+        GROUP BY fb.rated_user_id
+    )
+    SELECT
+        c.id,
+        EXISTS (
+            SELECT 1 FROM public.swipes back
+            WHERE back.swiper_id = c.id
+              AND back.swiped_id = p_viewer_id
+              AND back.swipe_type IN ('like', 'super_like')
+        ),
+        -- Stated preferences: NULL when the candidate has not set one
+        CASE
+            WHEN v_viewer_profile.age IS NULL OR c.min_age_preference IS NULL THEN NULL
+            ELSE v_viewer_profile.age BETWEEN c.min_age_preference AND COALESCE(c.max_age_preference, 100)
+        END,
+        CASE
+            WHEN c.preferred_distance_km IS NULL OR v_viewer_lat IS NULL OR v_viewer_lng IS NULL
+                 OR c.lat IS NULL OR c.lng IS NULL THEN NULL
+            ELSE 6371 * acos(
+                LEAST(1.0, GREATEST(-1.0,
+                    cos(radians(v_viewer_lat)) * cos(radians(c.lat)) *
+                    cos(radians(c.lng) - radians(v_viewer_lng)) +
+                    sin(radians(v_viewer_lat)) * sin(radians(c.lat))
+                ))
+            ) <= c.preferred_distance_km
+        END,
+        CASE
+            WHEN v_viewer_profile.zodiac_sign IS NULL THEN NULL
+            WHEN COALESCE(c.preferences->>'preferredZodiac', c.preferences->>'zodiac') IS NULL
+                 OR LOWER(COALESCE(c.preferences->>'preferredZodiac', c.preferences->>'zodiac')) = 'any' THEN NULL
+            ELSE LOWER(COALESCE(c.preferences->>'preferredZodiac', c.preferences->>'zodiac')) = LOWER(v_viewer_profile.zodiac_sign)
+        END,
+        CASE
+            WHEN v_viewer_profile.height IS NULL
+                 OR (c.min_height_preference IS NULL AND c.max_height_preference IS NULL) THEN NULL
+            ELSE v_viewer_profile.height BETWEEN COALESCE(c.min_height_preference, 0) AND COALESCE(c.max_height_preference, 1000)
+        END,
+        COALESCE(hs.total_swipes, 0),
+        COALESCE(hs.total_likes, 0),
+        COALESCE(hs.similar_swipes, 0),
+        COALESCE(hs.similar_likes, 0),
+        EXISTS (
+            SELECT 1 FROM public.swipe_fraud_flags sff
+            WHERE sff.user_id = c.id
+              AND sff.deprioritized = true
+        ),
+        COALESCE(ds.dates_rated, 0),
+        COALESCE(ds.dates_met_again, 0)
+    FROM candidates c
+    LEFT JOIN history_stats hs ON hs.swiper_id = c.id
+    LEFT JOIN date_stats ds ON ds.rated_user_id = c.id;
+END;
+$$;
+
+-- =====================================================
+-- 6. PERMISSIONS AND COMMENTS
+-- =====================================================
+
+REVOKE ALL ON FUNCTION public.claim_due_date_followups(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_date_followups(INTEGER) TO service_role;
+REVOKE ALL ON FUNCTION public.mark_date_followup_sent(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_date_followup_sent(UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.respond_date_checkin(UUID, UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.submit_date_feedback(UUID, UUID, TEXT, TEXT) TO authenticated, service_role;
+REVOKE ALL ON FUNCTION public.link_date_feedback_issue_report(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.link_date_feedback_issue_report(UUID, UUID) TO service_role;
+-- Exposes other users' likes and date outcomes: match-deck only
+REVOKE ALL ON FUNCTION public.get_mutual_fit_signals(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_mutual_fit_signals(UUID, UUID[]) TO service_role;
+
+COMMENT ON FUNCTION public.claim_due_date_followups(INTEGER) IS 'Claims due date reminders, safety check-ins and feedback prompts for the date-followups worker (10 minute lease until mark_date_followup_sent)';
+COMMENT ON FUNCTION public.mark_date_followup_sent(UUID, UUID, TEXT) IS 'Marks a claimed date follow-up as sent so it is never claimed again';
+COMMENT ON FUNCTION public.respond_date_checkin(UUID, UUID, TEXT) IS 'Records a participant''s answer to the post-date safety check-in (ok / need_help)';
+COMMENT ON FUNCTION public.submit_date_feedback(UUID, UUID, TEXT, TEXT) IS 'Records post-date feedback and moves the proposal to completed';
+COMMENT ON FUNCTION public.get_mutual_fit_signals(UUID, UUID[]) IS 'Per-candidate inputs for the reciprocal "mutual fit" score: candidate stated preferences vs the viewer, the candidate''s recent like pattern and how their past dates went.';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Date Follow-ups Migration Complete';
+    RAISE NOTICE '  - date_followups, date_feedback tables';
+    RAISE NOTICE '  - claim_due_date_followups(), mark_date_followup_sent(), respond_date_checkin(), submit_date_feedback()';
+    RAISE NOTICE '  - get_mutual_fit_signals(): dates_rated, dates_met_again';
+END $$;
+
+COMMIT;
@@ -0,0 +1,475 @@
+-- =====================================================
+-- TRUSTED-CONTACT DATE SAFETY SHARES
+-- =====================================================
+-- A participant can share an upcoming accepted date (time, location, the
+-- match's first name and photo) with a trusted contact by email. The
+-- contact's link is a signed token (secure-token-manager-v2) naming the
+-- share; it stops working once the share expires, a day after the date.
+-- "I'm safe", or answering the post-date check-in with "ok", closes the
+-- user's shares for the date. Shares still open at
+-- check_in_by are escalated by the date-followups worker, which emails the
+-- contact again. Emails go through transactional_email_queue and
+-- resend-transactional-dispatcher.
+-- Date: 2025-11-23
+-- =====================================================
+
+BEGIN;
+
+-- =====================================================
+-- 1. SHARES
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.date_safety_shares (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    proposal_id UUID NOT NULL REFERENCES public.date_proposals(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    contact_name TEXT NOT NULL CHECK (char_length(btrim(contact_name)) BETWEEN 1 AND 100),
+    contact_email TEXT NOT NULL CHECK (
+        char_length(contact_email) <= 254 AND contact_email ~ '^[^@\s]+@[^@\s]+\.[^@\s]+$'
+    ),
+    -- IANA zone the sharer picked, used to format times in emails
+    time_zone TEXT NOT NULL DEFAULT 'UTC',
+    status TEXT NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'confirmed_safe', 'escalated', 'cancelled', 'expired')),
+    check_in_by TIMESTAMPTZ NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    confirmed_at TIMESTAMPTZ,
+    escalated_at TIMESTAMPTZ,
+    -- Escalation email claimed by a worker run but not yet queued
+    escalation_claimed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_date_safety_shares_open
+    ON public.date_safety_shares (check_in_by)
+    WHERE status IN ('active', 'escalated');
+
+CREATE INDEX IF NOT EXISTS idx_date_safety_shares_user_proposal
+    ON public.date_safety_shares (user_id, proposal_id);
+
+ALTER TABLE public.date_safety_shares ENABLE ROW LEVEL SECURITY;
+
+-- Only the sharer sees their shares; the match never learns about them
+DROP POLICY IF EXISTS "date_safety_shares_owner_select" ON public.date_safety_shares;
+CREATE POLICY "date_safety_shares_owner_select" ON public.date_safety_shares
+    FOR SELECT
+    USING ((SELECT auth.uid()) = user_id);
+
+GRANT SELECT ON public.date_safety_shares TO authenticated;
+GRANT ALL ON public.date_safety_shares TO service_role;
+
+COMMENT ON TABLE public.date_safety_shares IS 'Upcoming dates shared with a trusted contact; open until the user confirms they are safe';
+
+-- =====================================================
+-- 2. CREATE A SHARE
+-- =====================================================
+
+-- Returns the share plus everything the contact email needs. The date must
+-- be accepted and not yet over (2h after start); at most 3 contacts per
+-- date, each only once while their share is open.
+CREATE OR REPLACE FUNCTION public.create_date_safety_share(
+    p_proposal_id UUID,
+    p_user_id UUID,
+    p_contact_name TEXT,
+    p_contact_email TEXT,
+    p_time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_proposal public.date_proposals%ROWTYPE;
+    v_match_id UUID;
+    v_share public.date_safety_shares%ROWTYPE;
+    v_sharer_name TEXT;
+    v_match_name TEXT;
+    v_match_photo TEXT;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot share a date for another user' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_proposal FROM public.date_proposals WHERE id = p_proposal_id;
+
+    IF NOT FOUND OR (v_proposal.proposer_id != p_user_id AND v_proposal.recipient_id != p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_proposal.status != 'accepted' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_accepted');
+    END IF;
+
+    IF v_proposal.proposed_datetime <= NOW() - INTERVAL '2 hours' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'date_passed');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.date_safety_shares s
+        WHERE s.proposal_id = p_proposal_id
+          AND s.user_id = p_user_id
+          AND lower(s.contact_email) = lower(btrim(p_contact_email))
+          AND s.status IN ('active', 'escalated')
+    ) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'already_shared');
+    END IF;
+
+    IF (
+        SELECT COUNT(*) FROM public.date_safety_shares s
+        WHERE s.proposal_id = p_proposal_id
+          AND s.user_id = p_user_id
+          AND s.status != 'cancelled'
+    ) >= 3 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'too_many_shares');
+    END IF;
+
+    v_match_id := CASE WHEN v_proposal.proposer_id = p_user_id THEN v_proposal.recipient_id ELSE v_proposal.proposer_id END;
+
+    INSERT INTO public.date_safety_shares (
+        proposal_id, user_id, contact_name, contact_email, time_zone, check_in_by, expires_at
+    )
+    VALUES (
+        p_proposal_id,
+        p_user_id,
+        btrim(p_contact_name),
+        lower(btrim(p_contact_email)),
+        COALESCE(NULLIF(btrim(p_time_zone), ''), 'UTC'),
+        -- Dates carry no end time; allow 4h before asking the contact to check in
+        v_proposal.proposed_datetime + INTERVAL '4 hours',
+        v_proposal.proposed_datetime + INTERVAL '24 hours'
+    )
+    RETURNING * INTO v_share;
+
+    SELECT display_name INTO v_sharer_name FROM public.profiles WHERE id = p_user_id;
+    SELECT split_part(btrim(display_name), ' ', 1), avatar_url
+    INTO v_match_name, v_match_photo
+    FROM public.profiles WHERE id = v_match_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'share_id', v_share.id,
+        'contact_name', v_share.contact_name,
+        'contact_email', v_share.contact_email,
+        'time_zone', v_share.time_zone,
+        'check_in_by', v_share.check_in_by,
+        'expires_at', v_share.expires_at,
+        'sharer_name', COALESCE(v_sharer_name, 'Your friend'),
+        'match_first_name', COALESCE(NULLIF(v_match_name, ''), 'their match'),
+        'match_photo_url', v_match_photo,
+        'proposed_datetime', v_proposal.proposed_datetime,
+        'location', v_proposal.location
+    );
+END;
+$$;
+
+-- =====================================================
+-- 3. CONTACT VIEW
+-- =====================================================
+
+-- What the contact's link shows; nothing once the share has expired or the
+-- date was cancelled
+CREATE OR REPLACE FUNCTION public.get_date_safety_share(p_share_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    IF auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Safety shares are read through date-safety-share only' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT jsonb_build_object(
+        'share_id', s.id,
+        'status', s.status,
+        'contact_name', s.contact_name,
+        'time_zone', s.time_zone,
+        'check_in_by', s.check_in_by,
+        'expires_at', s.expires_at,
+        'confirmed_at', s.confirmed_at,
+        'sharer_name', COALESCE(sharer_profile.display_name, 'Your friend'),
+        'match_first_name', COALESCE(NULLIF(split_part(btrim(match_profile.display_name), ' ', 1), ''), 'their match'),
+        'match_photo_url', match_profile.avatar_url,
+        'proposed_datetime', dp.proposed_datetime,
+        'location', dp.location
+    )
+    INTO v_result
+    FROM public.date_safety_shares s
+    JOIN public.date_proposals dp ON dp.id = s.proposal_id
+    LEFT JOIN public.profiles sharer_profile ON sharer_profile.id = s.user_id
+    LEFT JOIN public.profiles match_profile
+        ON match_profile.id = CASE WHEN dp.proposer_id = s.user_id THEN dp.recipient_id ELSE dp.proposer_id END
+    WHERE s.id = p_share_id
+      AND s.expires_at > NOW()
+      AND s.status IN ('active', 'escalated', 'confirmed_safe')
+      AND dp.status IN ('accepted', 'completed');
+
+    RETURN v_result;
+END;
+$$;
+
+-- =====================================================
+-- 4. "I'M SAFE"
+-- =====================================================
+
+-- Closes every open share the user has for the date and counts as an "ok"
+-- answer to the post-date safety check-in
+CREATE OR REPLACE FUNCTION public.confirm_date_safe(
+    p_proposal_id UUID,
+    p_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_closed INTEGER;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot confirm safety for another user' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.date_safety_shares
+    SET status = 'confirmed_safe',
+        confirmed_at = NOW()
+    WHERE proposal_id = p_proposal_id
+      AND user_id = p_user_id
+      AND status IN ('active', 'escalated')
+      AND expires_at > NOW();
+
+    GET DIAGNOSTICS v_closed = ROW_COUNT;
+
+    IF v_closed = 0 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    -- Only once the date has started; a check-in can't be answered before
+    INSERT INTO public.date_followups AS f (proposal_id, user_id, checkin_response, checkin_responded_at)
+    SELECT dp.id, p_user_id, 'ok', NOW()
+    FROM public.date_proposals dp
+    WHERE dp.id = p_proposal_id
+      AND dp.proposed_datetime <= NOW()
+    ON CONFLICT ON CONSTRAINT date_followups_pkey DO UPDATE
+        SET checkin_response = EXCLUDED.checkin_response,
+            checkin_responded_at = EXCLUDED.checkin_responded_at
+        WHERE f.checkin_response IS NULL;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'proposal_id', p_proposal_id,
+        'closed_count', v_closed
+    );
+END;
+$$;
+
+-- Same as 20251122000000_date_followups, plus an "ok" answer closes the
+-- user's open shares for the date, as "I'm safe" does
+CREATE OR REPLACE FUNCTION public.respond_date_checkin(
+    p_proposal_id UUID,
+    p_user_id UUID,
+    p_response TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_proposal public.date_proposals%ROWTYPE;
+    v_closed INTEGER := 0;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM p_user_id AND auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Cannot respond to a check-in for another user' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_response NOT IN ('ok', 'need_help') THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'validation_error');
+    END IF;
+
+    SELECT * INTO v_proposal FROM public.date_proposals WHERE id = p_proposal_id;
+
+    IF NOT FOUND OR (v_proposal.proposer_id != p_user_id AND v_proposal.recipient_id != p_user_id) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+    END IF;
+
+    IF v_proposal.status NOT IN ('accepted', 'completed') OR v_proposal.proposed_datetime > NOW() THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'not_started');
+    END IF;
+
+    INSERT INTO public.date_followups AS f (proposal_id, user_id, checkin_response, checkin_responded_at)
+    VALUES (p_proposal_id, p_user_id, p_response, NOW())
+    ON CONFLICT (proposal_id, user_id) DO UPDATE
+        SET checkin_response = EXCLUDED.checkin_response,
+            checkin_responded_at = EXCLUDED.checkin_responded_at;
+
+    IF p_response = 'ok' THEN
+        UPDATE public.date_safety_shares
+        SET status = 'confirmed_safe',
+            confirmed_at = NOW()
+        WHERE proposal_id = p_proposal_id
+          AND user_id = p_user_id
+          AND status IN ('active', 'escalated')
+          AND expires_at > NOW();
+
+        GET DIAGNOSTICS v_closed = ROW_COUNT;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'proposal_id', p_proposal_id,
+        'response', p_response,
+        'other_user_id', CASE WHEN v_proposal.proposer_id = p_user_id THEN v_proposal.recipient_id ELSE v_proposal.proposer_id END,
+        'closed_count', v_closed
+    );
+END;
+$$;
+
+-- =====================================================
+-- 5. ESCALATION (WORKER)
+-- =====================================================
+
+-- Expires finished shares, cancels shares for cancelled dates, then claims
+-- shares still open at check_in_by for a short lease and returns them so
+-- the worker can email the contact again. The worker marks a share
+-- escalated (mark_safety_share_escalated) once the email is queued; if it
+-- fails, the claim expires and the next run retries until the share does.
+CREATE OR REPLACE FUNCTION public.claim_due_safety_share_escalations(p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+    share_id UUID,
+    user_id UUID,
+    contact_name TEXT,
+    contact_email TEXT,
+    time_zone TEXT,
+    check_in_by TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ,
+    sharer_name TEXT,
+    match_first_name TEXT,
+    match_photo_url TEXT,
+    proposed_datetime TIMESTAMPTZ,
+    location TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    -- Longer than one worker run
+    c_claim_lease CONSTANT INTERVAL := INTERVAL '10 minutes';
+BEGIN
+    IF auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Safety share escalation is service role only' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.date_safety_shares s
+    SET status = 'expired'
+    WHERE s.status IN ('active', 'escalated')
+      AND s.expires_at <= NOW();
+
+    UPDATE public.date_safety_shares s
+    SET status = 'cancelled'
+    FROM public.date_proposals dp
+    WHERE dp.id = s.proposal_id
+      AND s.status IN ('active', 'escalated')
+      AND dp.status NOT IN ('accepted', 'completed');
+
+    RETURN QUERY
+    WITH due AS (
+        SELECT s.id
+        FROM public.date_safety_shares s
+        WHERE s.status = 'active'
+          AND s.check_in_by <= NOW()
+          AND s.expires_at > NOW()
+          AND (s.escalation_claimed_at IS NULL OR s.escalation_claimed_at < NOW() - c_claim_lease)
+        ORDER BY s.check_in_by
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    ),
+    claimed AS (
+        UPDATE public.date_safety_shares s
+        SET escalation_claimed_at = NOW()
+        FROM due
+        WHERE s.id = due.id
+        RETURNING s.*
+    )
+    SELECT
+        e.id,
+        e.user_id,
+        e.contact_name,
+        e.contact_email,
+        e.time_zone,
+        e.check_in_by,
+        e.expires_at,
+        COALESCE(sharer_profile.display_name, 'Your friend'),
+        COALESCE(NULLIF(split_part(btrim(match_profile.display_name), ' ', 1), ''), 'their match'),
+        match_profile.avatar_url,
+        dp.proposed_datetime,
+        dp.location
+    FROM claimed e
+    JOIN public.date_proposals dp ON dp.id = e.proposal_id
+    LEFT JOIN public.profiles sharer_profile ON sharer_profile.id = e.user_id
+    LEFT JOIN public.profiles match_profile
+        ON match_profile.id = CASE WHEN dp.proposer_id = e.user_id THEN dp.recipient_id ELSE dp.proposer_id END;
+END;
+$$;
+
+-- Called once the escalation email is queued. A share closed in the
+-- meantime ("I'm safe", cancelled date) keeps its status.
+CREATE OR REPLACE FUNCTION public.mark_safety_share_escalated(p_share_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF auth.role() != 'service_role' THEN
+        RAISE EXCEPTION 'Unauthorized: Safety share escalation is service role only' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.date_safety_shares
+    SET status = 'escalated',
+        escalated_at = NOW()
+    WHERE id = p_share_id
+      AND status = 'active';
+
+    RETURN FOUND;
+END;
+$$;
+
+-- =====================================================
+-- 6. PERMISSIONS AND COMMENTS
+-- =====================================================
+
+-- Sends mail to an arbitrary address, so only date-safety-share (service
+-- role, after validating the request) may create shares
+REVOKE ALL ON FUNCTION public.create_date_safety_share(UUID, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_date_safety_share(UUID, UUID, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.confirm_date_safe(UUID, UUID) TO authenticated, service_role;
+REVOKE ALL ON FUNCTION public.get_date_safety_share(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_date_safety_share(UUID) TO service_role;
+REVOKE ALL ON FUNCTION public.claim_due_safety_share_escalations(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_safety_share_escalations(INTEGER) TO service_role;
+REVOKE ALL ON FUNCTION public.mark_safety_share_escalated(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_safety_share_escalated(UUID) TO service_role;
+
+COMMENT ON FUNCTION public.create_date_safety_share(UUID, UUID, TEXT, TEXT, TEXT) IS 'Shares an upcoming accepted date with a trusted contact and returns the details for their email';
+COMMENT ON FUNCTION public.get_date_safety_share(UUID) IS 'Date details and share status shown to a trusted contact while the share is valid';
+COMMENT ON FUNCTION public.confirm_date_safe(UUID, UUID) IS 'Closes the user''s open safety shares for a date ("I''m safe")';
+COMMENT ON FUNCTION public.respond_date_checkin(UUID, UUID, TEXT) IS 'Records a user''s post-date check-in answer; "ok" also closes their open safety shares for the date';
+COMMENT ON FUNCTION public.claim_due_safety_share_escalations(INTEGER) IS 'Claims safety shares with no "I''m safe" by check_in_by for escalation by the date-followups worker (10 minute lease)';
+COMMENT ON FUNCTION public.mark_safety_share_escalated(UUID) IS 'Marks a claimed safety share escalated once its escalation email is queued';
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Date Safety Shares Migration Complete';
+    RAISE NOTICE '  - date_safety_shares table';
+    RAISE NOTICE '  - create_date_safety_share(), get_date_safety_share(), confirm_date_safe()';
+    RAISE NOTICE '  - respond_date_checkin(): "ok" also closes open shares';
+    RAISE NOTICE '  - claim_due_safety_share_escalations(), mark_safety_share_escalated()';
+END $$;
+
+COMMIT;